@@ -68,6 +68,7 @@ function App() {
 
   const status = useAgentStore((state) => state.status);
   const error = useAgentStore((state) => state.error);
+  const sessionInterrupted = useAgentStore((state) => state.sessionInterrupted);
 
   return (
     <div className={`h-screen flex flex-col ${currentTheme.bgClass} text-white relative transition-all duration-500`}>
@@ -82,6 +83,9 @@ function App() {
         {/* Error banner - shows below header when in error state */}
         {status === 'error' && error && <ErrorBanner error={error} />}
 
+        {/* Interrupted banner - the loaded session's run was cut short by a server restart */}
+        {status === 'idle' && sessionInterrupted && <InterruptedBanner />}
+
         {/* Main content - Chat stream */}
         <ChatStream />
 
@@ -337,4 +341,32 @@ function ErrorBanner({ error }: { error: string }) {
   );
 }
 
+/**
+ * Banner offering to resume a run that a server restart interrupted.
+ */
+function InterruptedBanner() {
+  const resumeSession = useAgentStore((state) => state.resumeSession);
+
+  return (
+    <div className="animate-fade-in bg-gradient-to-r from-amber-500/20 to-orange-500/20 border-b border-amber-500/30 px-6 py-3">
+      <div className="max-w-4xl mx-auto flex items-center justify-between gap-4">
+        <p className="text-sm text-amber-200 truncate">
+          This session's last run was interrupted when the server stopped.
+        </p>
+        <button
+          onClick={resumeSession}
+          className="
+            flex-shrink-0 px-3 py-1.5 rounded-lg text-xs font-medium
+            bg-amber-500/20 border border-amber-500/30
+            text-amber-200 hover:text-white hover:bg-amber-500/30
+            transition-colors duration-200
+          "
+        >
+          Resume
+        </button>
+      </div>
+    </div>
+  );
+}
+
 export default App;
@@ -5,12 +5,17 @@
  * - Historical messages from store
  * - Currently streaming assistant response
  * - Tool calls inline with text (preserving order)
+ * - Retries of failed model calls, with a countdown
  */
 
-import { useAgentStore, type Message } from '../store/useAgentStore';
+import { useEffect, useState } from 'react';
+import { useAgentStore, type Message, type RetryInfo } from '../store/useAgentStore';
 import { useAutoScroll } from '../hooks/useAutoScroll';
 import { MessageBubble } from './MessageBubble';
 
+/** How long a message opened from search stays highlighted */
+const HIGHLIGHT_DURATION_MS = 3000;
+
 /**
  * Main chat stream component - renders all messages with auto-scroll.
  */
@@ -19,6 +24,9 @@ export function ChatStream() {
   const currentContent = useAgentStore((state) => state.currentContent);
   const status = useAgentStore((state) => state.status);
   const error = useAgentStore((state) => state.error);
+  const retry = useAgentStore((state) => state.retry);
+  const highlightedMessageId = useAgentStore((state) => state.highlightedMessageId);
+  const setHighlightedMessage = useAgentStore((state) => state.setHighlightedMessage);
 
   const isStreaming = status === 'streaming';
 
@@ -28,6 +36,23 @@ export function ChatStream() {
     enabled: true,
   });
 
+  // Scroll to a message opened from search (after auto-scroll has run), then clear the highlight
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    const frame = requestAnimationFrame(() => {
+      document
+        .getElementById(`message-${highlightedMessageId}`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+    const timer = setTimeout(() => setHighlightedMessage(null), HIGHLIGHT_DURATION_MS);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      clearTimeout(timer);
+    };
+  }, [highlightedMessageId, setHighlightedMessage]);
+
   // Create a temporary message for the streaming response
   const streamingMessage: Message | null =
     isStreaming && currentContent.length > 0
@@ -52,7 +77,11 @@ export function ChatStream() {
       {/* Message list */}
       <div className="max-w-4xl mx-auto">
         {messages.map((message) => (
-          <MessageBubble key={message.id} message={message} />
+          <MessageBubble
+            key={message.id}
+            message={message}
+            isHighlighted={message.id === highlightedMessageId}
+          />
         ))}
 
         {/* Currently streaming message */}
@@ -60,8 +89,11 @@ export function ChatStream() {
           <MessageBubble message={streamingMessage} isStreaming />
         )}
 
+        {/* Retry of a failed model call, in place of the loading indicator */}
+        {isStreaming && retry && <RetryNotice retry={retry} />}
+
         {/* Loading indicator when waiting for first response */}
-        {isStreaming && currentContent.length === 0 && (
+        {isStreaming && !retry && currentContent.length === 0 && (
           <LoadingIndicator />
         )}
 
@@ -185,6 +217,45 @@ function LoadingIndicator() {
   );
 }
 
+/**
+ * Notice while the server waits to retry a failed model call, or falls back to another model.
+ */
+function RetryNotice({ retry }: { retry: RetryInfo & { retryAt: number } }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick the countdown until the retry is due
+  useEffect(() => {
+    setNow(Date.now());
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retry.retryAt) clearInterval(timer);
+    }, 250);
+    return () => clearInterval(timer);
+  }, [retry.retryAt]);
+
+  const seconds = Math.ceil(Math.max(retry.retryAt - now, 0) / 1000);
+  const reason = retry.status ? `${retry.status} error` : 'Connection error';
+  const label = retry.fallback
+    ? `Falling back to ${retry.model}`
+    : seconds > 0
+      ? `Retrying in ${seconds}s (attempt ${retry.attempt}/${retry.maxRetries})`
+      : `Retrying (attempt ${retry.attempt}/${retry.maxRetries})`;
+
+  return (
+    <div className="flex justify-start mb-4">
+      <div className="bg-amber-500/10 border border-amber-500/20 rounded-2xl px-4 py-3 backdrop-blur-sm max-w-lg">
+        <div className="flex items-center gap-2">
+          <span className="text-amber-400 animate-spin [animation-duration:2s]">↻</span>
+          <span className="text-amber-400 text-sm">{label}</span>
+        </div>
+        <div className="text-white/50 text-xs mt-1 truncate" title={retry.error}>
+          {reason}: {retry.error}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 /**
  * Error display component.
  */
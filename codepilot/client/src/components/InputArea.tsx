@@ -9,7 +9,7 @@
  */
 
 import { useState, useRef, useEffect, type KeyboardEvent, type FocusEvent } from 'react';
-import { useAgentStore, type TokenUsage, type ModelOption, type CommandOption } from '../store/useAgentStore';
+import { useAgentStore, type TokenUsage, type ModelOption, type CommandOption, type ApprovalPolicy } from '../store/useAgentStore';
 import { useDelayedHover } from '../hooks/useDelayedHover';
 import { TooltipContent } from './Tooltip';
 
@@ -31,11 +31,15 @@ export function InputArea() {
   const availableCommands = useAgentStore((state) => state.availableCommands);
   const setSelectedCommand = useAgentStore((state) => state.setSelectedCommand);
   const setPlansSheetOpen = useAgentStore((state) => state.setPlansSheetOpen);
+  const approvalPolicy = useAgentStore((state) => state.approvalPolicy);
+  const setApprovalPolicy = useAgentStore((state) => state.setApprovalPolicy);
 
   const isStreaming = status === 'streaming';
   
-  // Get context window for selected model
-  const contextWindow = availableModels.find(m => m.id === selectedModel)?.contextWindow || 200000;
+  // Context window for the selected model (both come from the server's model catalog)
+  const contextWindow = availableModels.find(m => m.id === selectedModel)?.contextWindow
+    || tokenUsage?.contextWindow
+    || 200000;
   const canSend = input.trim().length > 0 && !isStreaming;
 
   // Delayed hover for keyboard hints tooltip (2 second delay)
@@ -193,13 +197,20 @@ export function InputArea() {
             {tokenUsage && <TokenUsageBadge usage={tokenUsage} contextWindow={contextWindow} />}
           </div>
 
-          {/* Right: Model selector */}
-          <ModelSelector
-            models={availableModels}
-            selectedModel={selectedModel}
-            onSelectModel={setSelectedModel}
-            disabled={isStreaming}
-          />
+          {/* Right: Approval policy + Model selector */}
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <ApprovalPolicySelector
+              policy={approvalPolicy}
+              onSelectPolicy={setApprovalPolicy}
+              disabled={isStreaming}
+            />
+            <ModelSelector
+              models={availableModels}
+              selectedModel={selectedModel}
+              onSelectModel={setSelectedModel}
+              disabled={isStreaming}
+            />
+          </div>
         </div>
       </div>
     </div>
@@ -407,6 +418,9 @@ function TokenUsageBadge({ usage, contextWindow }: { usage: TokenUsage; contextW
     return n.toLocaleString();
   };
 
+  // Sub-cent totals need more precision to be useful
+  const formatCost = (usd: number): string => `$${usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
   // Calculate context window percentage (the metric that matters for limits)
   const contextPercentage = Math.min((usage.contextTokens / contextWindow) * 100, 100);
   const contextPercentageDisplay = usage.contextTokens === 0 
@@ -563,6 +577,14 @@ function TokenUsageBadge({ usage, contextWindow }: { usage: TokenUsage; contextW
                     {formatTokens(usage.totalApiTokens)}
                   </span>
                 </div>
+                {usage.totalCost !== null && (
+                  <div className="flex justify-between gap-4">
+                    <span className="text-white/50">Cost:</span>
+                    <span className="font-mono tabular-nums text-white/90 font-medium">
+                      {formatCost(usage.totalCost)}
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -656,6 +678,60 @@ function ModelSelector({
   );
 }
 
+const APPROVAL_POLICY_LABELS: Record<ApprovalPolicy, string> = {
+  always_ask: 'Ask for all tools',
+  ask_for_writes: 'Ask for writes',
+  auto: 'Auto-approve',
+};
+
+/**
+ * Tool approval policy dropdown.
+ */
+function ApprovalPolicySelector({
+  policy,
+  onSelectPolicy,
+  disabled,
+}: {
+  policy: ApprovalPolicy;
+  onSelectPolicy: (policy: ApprovalPolicy) => void;
+  disabled: boolean;
+}) {
+  return (
+    <div className="relative flex-shrink-0">
+      <select
+        value={policy}
+        onChange={(e) => onSelectPolicy(e.target.value as ApprovalPolicy)}
+        disabled={disabled}
+        title="When tool calls wait for your approval"
+        className="
+          appearance-none cursor-pointer
+          px-2 py-0.5 pr-6 rounded text-xs
+          bg-transparent border-none
+          text-white/50 hover:text-white/70
+          focus:outline-none focus:text-white/70
+          disabled:opacity-50 disabled:cursor-not-allowed
+          transition-colors duration-200
+        "
+      >
+        {(Object.keys(APPROVAL_POLICY_LABELS) as ApprovalPolicy[]).map((value) => (
+          <option key={value} value={value} className="bg-[hsl(222,84%,8%)] text-white">
+            {APPROVAL_POLICY_LABELS[value]}
+          </option>
+        ))}
+      </select>
+      {/* Dropdown arrow */}
+      <svg
+        className="absolute right-0 top-1/2 -translate-y-1/2 w-3 h-3 text-white/30 pointer-events-none"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+      </svg>
+    </div>
+  );
+}
+
 /**
  * Command selector dropdown - opens upward above the button.
  */
@@ -7,25 +7,62 @@
  * - Content blocks rendered in order (text and tool calls interleaved)
  * - Markdown rendering with syntax highlighting
  * - Copy button for message content
+ * - "Rewind to here" for assistant messages that changed files (checkpoints)
+ * - "Fork" to continue from this message in a new session, keeping this one
  */
 
 import { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
-import type { Message, ContentBlock } from '../store/useAgentStore';
+import { useAgentStore, type Message, type ContentBlock, type CompactionInfo } from '../store/useAgentStore';
 import { ToolCallView } from './ToolCallView';
 
 interface MessageBubbleProps {
   message: Message;
   /** Whether this message is currently streaming (shows cursor) */
   isStreaming?: boolean;
+  /** Whether this message was just opened from search */
+  isHighlighted?: boolean;
 }
 
 /**
  * Individual message bubble with role-specific styling.
  */
-export function MessageBubble({ message, isStreaming = false }: MessageBubbleProps) {
+export function MessageBubble({ message, isStreaming = false, isHighlighted = false }: MessageBubbleProps) {
   const isUser = message.role === 'user';
   const [copied, setCopied] = useState(false);
+  const checkpoints = useAgentStore((state) => state.checkpoints);
+  const agentStatus = useAgentStore((state) => state.status);
+  const rewindToCheckpoint = useAgentStore((state) => state.rewindToCheckpoint);
+  const forkSession = useAgentStore((state) => state.forkSession);
+
+  // Forks copy stored messages, so only messages loaded from the server can be forked
+  const forkMessageId = !isStreaming && message.serverIds?.length
+    ? Math.max(...message.serverIds)
+    : undefined;
+
+  // Earliest checkpoint taken by one of this message's tool calls
+  const toolCallIds = typeof message.content === 'string'
+    ? []
+    : message.content
+        .filter((block): block is Extract<ContentBlock, { type: 'tool_call' }> => block.type === 'tool_call')
+        .map((block) => block.toolCall.id);
+  const checkpoint = isStreaming
+    ? undefined
+    : checkpoints.find((c) => toolCallIds.includes(c.toolCallId));
+
+  const handleRewind = () => {
+    if (!checkpoint) return;
+    const fileCount = new Set(
+      checkpoints.filter((c) => c.id >= checkpoint.id).flatMap((c) => c.paths)
+    ).size;
+    const confirmed = window.confirm(
+      `Rewind to before this response? ${fileCount} file${fileCount !== 1 ? 's' : ''} will be restored ` +
+        'and this and all later messages will be removed.'
+    );
+    if (confirmed) {
+      rewindToCheckpoint(checkpoint.id);
+    }
+  };
 
   // Get plain text content for copying
   const getTextContent = (): string => {
@@ -51,13 +88,15 @@ export function MessageBubble({ message, isStreaming = false }: MessageBubblePro
 
   return (
     <div
+      id={`message-${message.id}`}
       className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-4 animate-slide-up group`}
     >
       <div
         className={`
           relative max-w-[80%] rounded-2xl px-4 py-3
           ${isUser ? 'bg-gradient-to-br from-blue-600/30 to-cyan-600/20 border border-blue-500/30' : 'bg-gradient-to-br from-violet-600/20 to-purple-600/10 border border-violet-500/20'}
-          backdrop-blur-sm
+          ${isHighlighted ? 'ring-2 ring-amber-400/70' : ''}
+          backdrop-blur-sm transition-shadow duration-500
         `}
       >
         {/* Header with role and copy button */}
@@ -68,20 +107,56 @@ export function MessageBubble({ message, isStreaming = false }: MessageBubblePro
             {isUser ? 'You' : 'CodePilot'}
           </div>
           
-          {/* Copy button - visible on hover */}
-          <button
-            onClick={handleCopy}
-            className={`
-              text-xs px-2 py-0.5 rounded transition-all duration-200
-              ${copied 
-                ? 'bg-emerald-500/20 text-emerald-400' 
-                : 'bg-white/5 text-white/40 hover:bg-white/10 hover:text-white/70 opacity-0 group-hover:opacity-100'
-              }
-            `}
-            title="Copy as markdown"
-          >
-            {copied ? '✓ Copied' : '⧉ Copy'}
-          </button>
+          <div className="flex items-center gap-1">
+            {/* Rewind button - visible on hover for messages that changed files */}
+            {checkpoint && (
+              <button
+                onClick={handleRewind}
+                disabled={agentStatus === 'streaming'}
+                className="
+                  text-xs px-2 py-0.5 rounded transition-all duration-200
+                  bg-white/5 text-white/40 hover:bg-amber-500/20 hover:text-amber-300
+                  opacity-0 group-hover:opacity-100
+                  disabled:cursor-not-allowed disabled:hover:bg-white/5 disabled:hover:text-white/40
+                "
+                title="Restore files and remove this and later messages"
+              >
+                ↺ Rewind to here
+              </button>
+            )}
+
+            {/* Fork button - visible on hover for stored messages */}
+            {forkMessageId !== undefined && (
+              <button
+                onClick={() => forkSession(forkMessageId)}
+                disabled={agentStatus === 'streaming'}
+                className="
+                  text-xs px-2 py-0.5 rounded transition-all duration-200
+                  bg-white/5 text-white/40 hover:bg-violet-500/20 hover:text-violet-300
+                  opacity-0 group-hover:opacity-100
+                  disabled:cursor-not-allowed disabled:hover:bg-white/5 disabled:hover:text-white/40
+                "
+                title="Continue from this message in a new session, keeping this one as it is"
+              >
+                ⑂ Fork
+              </button>
+            )}
+
+            {/* Copy button - visible on hover */}
+            <button
+              onClick={handleCopy}
+              className={`
+                text-xs px-2 py-0.5 rounded transition-all duration-200
+                ${copied 
+                  ? 'bg-emerald-500/20 text-emerald-400' 
+                  : 'bg-white/5 text-white/40 hover:bg-white/10 hover:text-white/70 opacity-0 group-hover:opacity-100'
+                }
+              `}
+              title="Copy as markdown"
+            >
+              {copied ? '✓ Copied' : '⧉ Copy'}
+            </button>
+          </div>
         </div>
 
         {/* Message content */}
@@ -262,6 +337,10 @@ function ContentBlocksRenderer({
             </div>
           );
         }
+
+        if (block.type === 'compaction') {
+          return <CompactionNotice key={index} compaction={block.compaction} />;
+        }
         
         return null;
       })}
@@ -278,6 +357,40 @@ function ContentBlocksRenderer({
   );
 }
 
+/** Human-readable labels for compaction strategies */
+const COMPACTION_STRATEGY_LABELS: Record<CompactionInfo['strategies'][number], string> = {
+  drop_stale_reads: 'dropped stale file reads',
+  elide_tool_results: 'trimmed large tool output',
+  summarize: 'summarized older turns',
+};
+
+/**
+ * Inline notice shown when the server compacted the conversation history.
+ */
+function CompactionNotice({ compaction }: { compaction: CompactionInfo }) {
+  const strategies = compaction.strategies.map((s) => COMPACTION_STRATEGY_LABELS[s]).join(', ');
+
+  return (
+    <div
+      className="my-3 flex items-center gap-2 rounded-lg border border-amber-500/20 bg-amber-500/10 px-3 py-2 text-xs text-amber-200/80"
+      title={`${compaction.messagesBefore} → ${compaction.messagesAfter} messages`}
+    >
+      <span>⇣</span>
+      <span>
+        Context compacted: {formatTokens(compaction.tokensBefore)} → {formatTokens(compaction.tokensAfter)} tokens
+        {strategies && ` (${strategies})`}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Format a token count compactly (e.g. 152k).
+ */
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : String(tokens);
+}
+
 /**
  * Streaming cursor indicator - pulsing block cursor.
  */
@@ -1,11 +1,16 @@
 /**
  * SessionSheet Component
  * Full-width sliding sheet from top for session management
- * Displays sessions in a table with multi-select delete capability
+ * Displays sessions in a table with multi-select delete capability (forks nested
+ * under the session they were forked from), or full-text search results across
+ * all session history
  */
 
-import { useState, useCallback, memo } from 'react';
-import { useAgentStore, type SessionSummary } from '../store/useAgentStore';
+import { useState, useCallback, useEffect, memo } from 'react';
+import { useAgentStore, type SessionSummary, type SearchResult } from '../store/useAgentStore';
+
+/** Wait for typing to pause before searching */
+const SEARCH_DEBOUNCE_MS = 250;
 
 /**
  * Format relative time from ISO date string
@@ -26,6 +31,37 @@ function formatRelativeTime(isoDate: string): string {
   return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 }
 
+/**
+ * Order sessions as a tree: each fork directly below its parent, keeping the
+ * list's order among siblings. Forks whose parent isn't listed are shown at the top level.
+ */
+function toSessionTree(sessions: SessionSummary[]): Array<{ session: SessionSummary; depth: number }> {
+  const listed = new Set(sessions.map((s) => s.id));
+  const children = new Map<string, SessionSummary[]>();
+  const roots: SessionSummary[] = [];
+
+  for (const session of sessions) {
+    if (session.parentSessionId && listed.has(session.parentSessionId)) {
+      const siblings = children.get(session.parentSessionId) ?? [];
+      siblings.push(session);
+      children.set(session.parentSessionId, siblings);
+    } else {
+      roots.push(session);
+    }
+  }
+
+  const rows: Array<{ session: SessionSummary; depth: number }> = [];
+  const visit = (session: SessionSummary, depth: number) => {
+    rows.push({ session, depth });
+    for (const child of children.get(session.id) ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+  roots.forEach((root) => visit(root, 0));
+
+  return rows;
+}
+
 /**
  * Status badge component
  */
@@ -35,6 +71,7 @@ const StatusBadge = memo(function StatusBadge({ status }: { status: string }) {
     running: { label: 'running', classes: 'bg-amber-500/20 text-amber-400 border-amber-500/30 animate-pulse' },
     completed: { label: 'ready_for_input', classes: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30' },
     failed: { label: 'failed', classes: 'bg-pink-500/20 text-pink-400 border-pink-500/30' },
+    interrupted: { label: 'interrupted', classes: 'bg-orange-500/20 text-orange-400 border-orange-500/30' },
   };
 
   const { label, classes } = config[status] || config.idle;
@@ -124,11 +161,14 @@ const EditableTitle = memo(function EditableTitle({
  */
 const SessionRow = memo(function SessionRow({
   session,
+  depth,
   isSelected,
   onSelect,
   onLoad,
 }: {
   session: SessionSummary;
+  /** Nesting level in the fork tree (0 for top-level sessions) */
+  depth: number;
   isSelected: boolean;
   onSelect: (id: string, selected: boolean) => void;
   onLoad: (id: string) => void;
@@ -174,13 +214,23 @@ const SessionRow = memo(function SessionRow({
         {session.workingDir}
       </td>
 
-      {/* Title */}
+      {/* Title (forks indented under their parent) */}
       <td className="px-4 py-3 text-white/70 max-w-[300px]">
-        <EditableTitle
-          sessionId={session.id}
-          title={session.title}
-          preview={session.preview}
-        />
+        <div className="flex items-center gap-1.5" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+          {depth > 0 && (
+            <span
+              className="text-violet-400/70 font-mono shrink-0"
+              title={`Forked at message ${session.forkedFromMessageId}`}
+            >
+              └⑂
+            </span>
+          )}
+          <EditableTitle
+            sessionId={session.id}
+            title={session.title}
+            preview={session.preview}
+          />
+        </div>
       </td>
 
       {/* Started */}
@@ -196,6 +246,65 @@ const SessionRow = memo(function SessionRow({
   );
 });
 
+/**
+ * Search snippet with matched terms highlighted
+ */
+function Snippet({ text }: { text: string }) {
+  // Matches come wrapped in <mark></mark>; odd parts are the matched terms
+  const parts = text.split(/<mark>|<\/mark>/);
+  return (
+    <span className="text-white/60">
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-amber-400/20 text-amber-200 rounded px-0.5">{part}</mark>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </span>
+  );
+}
+
+/**
+ * Search result row component
+ */
+const SearchResultRow = memo(function SearchResultRow({
+  result,
+  onOpen,
+}: {
+  result: SearchResult;
+  onOpen: (result: SearchResult) => void;
+}) {
+  const handleClick = useCallback(() => {
+    onOpen(result);
+  }, [result, onOpen]);
+
+  return (
+    <li
+      onClick={handleClick}
+      className="
+        px-6 py-3 cursor-pointer transition-colors
+        hover:bg-white/5 border-b border-white/5 last:border-b-0
+      "
+    >
+      <div className="flex items-center gap-3 mb-1 text-xs">
+        <span className="font-medium text-white/80 truncate">
+          {result.sessionTitle || 'Untitled'}
+        </span>
+        <span className="px-1.5 py-0.5 rounded font-mono bg-white/5 text-white/40">
+          {result.role}
+        </span>
+        <span className="text-white/30 whitespace-nowrap">
+          {formatRelativeTime(result.createdAt)}
+        </span>
+      </div>
+      <div className="text-sm font-mono break-words line-clamp-2">
+        <Snippet text={result.snippet} />
+      </div>
+    </li>
+  );
+});
+
 /**
  * Main SessionSheet component
  */
@@ -205,8 +314,18 @@ export function SessionSheet() {
   const setSessionSheetOpen = useAgentStore((state) => state.setSessionSheetOpen);
   const loadSession = useAgentStore((state) => state.loadSession);
   const deleteSession = useAgentStore((state) => state.deleteSession);
+  const searchResults = useAgentStore((state) => state.searchResults);
+  const searchHistory = useAgentStore((state) => state.searchHistory);
+  const openSearchResult = useAgentStore((state) => state.openSearchResult);
 
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Search as the user types
+  useEffect(() => {
+    const timer = setTimeout(() => searchHistory(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery, searchHistory]);
 
   const handleSelect = useCallback((id: string, selected: boolean) => {
     setSelectedIds((prev) => {
@@ -240,13 +359,20 @@ export function SessionSheet() {
     setSelectedIds(new Set());
   }, [selectedIds, deleteSession]);
 
+  const handleOpenResult = useCallback((result: SearchResult) => {
+    openSearchResult(result);
+  }, [openSearchResult]);
+
   const handleClose = useCallback(() => {
     setSessionSheetOpen(false);
     setSelectedIds(new Set());
+    setSearchQuery('');
   }, [setSessionSheetOpen]);
 
   if (!isOpen) return null;
 
+  const isSearching = searchQuery.trim().length > 0;
+
   const allSelected = sessions.length > 0 && selectedIds.size === sessions.length;
   const someSelected = selectedIds.size > 0;
 
@@ -287,6 +413,22 @@ export function SessionSheet() {
               )}
             </div>
 
+            {/* Search box */}
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setSearchQuery('')}
+              placeholder="Search messages and tool calls..."
+              autoFocus
+              className="
+                flex-1 max-w-md mx-6 px-3 py-2 rounded-lg
+                bg-white/5 border border-white/10
+                text-white/90 text-sm placeholder:text-white/30
+                focus:outline-none focus:border-violet-500/50 focus:ring-1 focus:ring-violet-500/50
+              "
+            />
+
             {/* Close button */}
             <button
               onClick={handleClose}
@@ -303,9 +445,25 @@ export function SessionSheet() {
             </button>
           </div>
 
-          {/* Table */}
+          {/* Search results, or the session table */}
           <div className="overflow-auto flex-1">
-            {sessions.length === 0 ? (
+            {isSearching ? (
+              searchResults.length === 0 ? (
+                <div className="flex items-center justify-center py-16 text-white/40">
+                  No matches
+                </div>
+              ) : (
+                <ul>
+                  {searchResults.map((result) => (
+                    <SearchResultRow
+                      key={result.messageId}
+                      result={result}
+                      onOpen={handleOpenResult}
+                    />
+                  ))}
+                </ul>
+              )
+            ) : sessions.length === 0 ? (
               <div className="flex items-center justify-center py-16 text-white/40">
                 No sessions yet
               </div>
@@ -332,10 +490,11 @@ export function SessionSheet() {
                   </tr>
                 </thead>
                 <tbody>
-                  {sessions.map((session) => (
+                  {toSessionTree(sessions).map(({ session, depth }) => (
                     <SessionRow
                       key={session.id}
                       session={session}
+                      depth={depth}
                       isSelected={selectedIds.has(session.id)}
                       onSelect={handleSelect}
                       onLoad={handleLoad}
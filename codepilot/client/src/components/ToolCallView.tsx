@@ -8,11 +8,12 @@
  * - Pending: Pulsing violet border, spinning indicator
  * - Completed: Emerald status badge, collapsible result
  * - Error: Pink border/badge, prominent error message
+ * - Awaiting approval: Amber badge with proposed diff and approve/deny/edit controls
  */
 
 import { useState } from 'react';
 import { createTwoFilesPatch } from 'diff';
-import type { ToolCall } from '../store/useAgentStore';
+import { useAgentStore, type ToolCall } from '../store/useAgentStore';
 
 // ============================================================================
 // Types for tool results
@@ -49,6 +50,32 @@ interface EditFileResult {
   success: boolean;
 }
 
+interface ApplyPatchResult {
+  files: Array<{
+    path: string;
+    newPath?: string;
+    action: 'add' | 'delete' | 'update' | 'rename';
+    oldContent: string;
+    newContent: string;
+    warning?: string;
+  }>;
+  filesChanged: number;
+  success: boolean;
+}
+
+interface TaskResult {
+  summary: string;
+  toolCalls: number;
+  totalTokens: number;
+  error?: string;
+}
+
+interface ExecuteCodeResult {
+  result: unknown;
+  logs?: string[];
+  toolCalls: number;
+}
+
 interface GitDiffResult {
   command: string;
   diff: string;
@@ -107,7 +134,8 @@ export function ToolCallView({ toolCall }: ToolCallViewProps) {
 
       {/* Body - collapsible */}
       {isExpanded && (
-        <div className="px-3 pb-3 pt-1">
+        <div className="px-3 pb-3 pt-1 space-y-2">
+          {toolCall.approval?.status === 'awaiting' && <ApprovalPanel toolCall={toolCall} />}
           <ToolBody toolCall={toolCall} />
         </div>
       )}
@@ -134,6 +162,9 @@ function ToolHeader({ toolCall, isExpanded, onToggle }: ToolHeaderProps) {
     read_file: '📄',
     write_file: '✏️',
     edit_file: '📝',
+    apply_patch: '🩹',
+    task: '⤷',
+    execute_code: '▶',
     list_dir: '📁',
     git_diff: '±',
     git_status: '⎇',
@@ -161,8 +192,24 @@ function ToolHeader({ toolCall, isExpanded, onToggle }: ToolHeaderProps) {
     ),
   };
 
+  const approvalBadge = {
+    awaiting: (
+      <span className="flex items-center gap-1 text-amber-400">
+        <span>⏸</span>
+        <span className="text-xs">Awaiting approval</span>
+      </span>
+    ),
+    denied: (
+      <span className="flex items-center gap-1 text-pink-400">
+        <span>⊘</span>
+        <span className="text-xs">Denied</span>
+      </span>
+    ),
+  };
+
   // Generate a brief summary for the header
   const summary = getToolSummary(toolCall);
+  const approvalStatus = toolCall.approval?.status;
 
   return (
     <button
@@ -182,8 +229,10 @@ function ToolHeader({ toolCall, isExpanded, onToggle }: ToolHeaderProps) {
         </div>
       </div>
 
-      {/* Status badge */}
-      {statusBadge[toolCall.status]}
+      {/* Status badge (approval state takes precedence while waiting or after a denial) */}
+      {approvalStatus === 'awaiting' || approvalStatus === 'denied'
+        ? approvalBadge[approvalStatus]
+        : statusBadge[toolCall.status]}
 
       {/* Expand/collapse chevron */}
       <span
@@ -197,6 +246,109 @@ function ToolHeader({ toolCall, isExpanded, onToggle }: ToolHeaderProps) {
   );
 }
 
+// ============================================================================
+// Approval Panel
+// ============================================================================
+
+/**
+ * Controls for a tool call awaiting approval: proposed diff, approve/deny,
+ * and an editor for changing the input before it runs.
+ */
+function ApprovalPanel({ toolCall }: { toolCall: ToolCall }) {
+  const respondToApproval = useAgentStore((state) => state.respondToApproval);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedInput, setEditedInput] = useState(() => JSON.stringify(toolCall.input, null, 2));
+  const [editError, setEditError] = useState<string | null>(null);
+
+  const previewFiles = toolCall.approval?.preview?.files ?? [];
+
+  /**
+   * Parse the edited JSON and send it as the approved input
+   */
+  const handleSubmitEdit = () => {
+    try {
+      const parsed = JSON.parse(editedInput);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        setEditError('Input must be a JSON object');
+        return;
+      }
+      setEditError(null);
+      respondToApproval(toolCall.id, { action: 'edit', input: parsed });
+    } catch {
+      setEditError('Invalid JSON');
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border border-amber-500/30 bg-amber-500/5 p-2">
+      <div className="text-xs text-amber-300">This tool call needs your approval before it runs.</div>
+
+      {/* Proposed file changes */}
+      {previewFiles.map((file) => (
+        <div key={file.path} className="space-y-1">
+          <FilePath path={file.path} />
+          <DiffViewer path={file.path} oldContent={file.oldContent} newContent={file.newContent} />
+        </div>
+      ))}
+
+      {/* Input editor */}
+      {isEditing && (
+        <div className="space-y-1">
+          <textarea
+            value={editedInput}
+            onChange={(e) => setEditedInput(e.target.value)}
+            rows={Math.min(12, editedInput.split('\n').length + 1)}
+            spellCheck={false}
+            className="w-full font-mono text-xs bg-black/30 rounded px-2 py-1.5 text-white/80 border border-white/10 focus:outline-none focus:border-violet-500/50"
+          />
+          {editError && <ErrorDisplay message={editError} />}
+        </div>
+      )}
+
+      {/* Decision buttons */}
+      <div className="flex items-center gap-2">
+        {isEditing ? (
+          <>
+            <button
+              onClick={handleSubmitEdit}
+              className="px-2 py-1 rounded text-xs bg-violet-600/30 text-violet-200 hover:bg-violet-600/50 transition-colors"
+            >
+              Run with edits
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-2 py-1 rounded text-xs text-white/50 hover:text-white/70 transition-colors"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => respondToApproval(toolCall.id, { action: 'approve' })}
+              className="px-2 py-1 rounded text-xs bg-emerald-500/20 text-emerald-300 hover:bg-emerald-500/30 transition-colors"
+            >
+              Approve
+            </button>
+            <button
+              onClick={() => respondToApproval(toolCall.id, { action: 'deny' })}
+              className="px-2 py-1 rounded text-xs bg-pink-500/20 text-pink-300 hover:bg-pink-500/30 transition-colors"
+            >
+              Deny
+            </button>
+            <button
+              onClick={() => setIsEditing(true)}
+              className="px-2 py-1 rounded text-xs text-white/50 hover:text-white/70 transition-colors"
+            >
+              Edit input
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ============================================================================
 // Tool Body Router
 // ============================================================================
@@ -214,6 +366,12 @@ function ToolBody({ toolCall }: { toolCall: ToolCall }) {
       return <WriteFileToolView toolCall={toolCall} />;
     case 'edit_file':
       return <EditFileToolView toolCall={toolCall} />;
+    case 'apply_patch':
+      return <ApplyPatchToolView toolCall={toolCall} />;
+    case 'task':
+      return <TaskToolView toolCall={toolCall} />;
+    case 'execute_code':
+      return <ExecuteCodeToolView toolCall={toolCall} />;
     case 'list_dir':
       return <ListDirToolView toolCall={toolCall} />;
     case 'git_diff':
@@ -414,6 +572,62 @@ function EditFileToolView({ toolCall }: { toolCall: ToolCall }) {
   );
 }
 
+// ============================================================================
+// Apply Patch Tool View (with per-file Diffs)
+// ============================================================================
+
+/**
+ * Renders a multi-file patch with a diff per changed file.
+ */
+function ApplyPatchToolView({ toolCall }: { toolCall: ToolCall }) {
+  const result = toolCall.result as ApplyPatchResult | undefined;
+
+  const actionLabels: Record<ApplyPatchResult['files'][number]['action'], string> = {
+    add: 'added',
+    delete: 'deleted',
+    update: 'modified',
+    rename: 'renamed',
+  };
+
+  return (
+    <div className="space-y-2">
+      {/* Pending indicator */}
+      {toolCall.status === 'pending' && (
+        <div className="text-xs text-white/40">Applying patch...</div>
+      )}
+
+      {/* Error message */}
+      {toolCall.error && <ErrorDisplay message={toolCall.error} />}
+
+      {/* Success indicator */}
+      {result?.success && (
+        <div className="flex items-center gap-2 text-xs text-emerald-400">
+          <span>✓</span>
+          <span>{result.filesChanged} file{result.filesChanged !== 1 ? 's' : ''} changed</span>
+        </div>
+      )}
+
+      {/* Per-file diffs */}
+      {result?.files.map((file) => (
+        <div key={file.path} className="space-y-1">
+          <div className="flex items-center gap-2">
+            <FilePath path={file.newPath ? `${file.path} → ${file.newPath}` : file.path} />
+            <span className="text-xs text-white/40">{actionLabels[file.action]}</span>
+          </div>
+          {file.warning && <div className="text-xs text-amber-400">{file.warning}</div>}
+          {file.oldContent !== file.newContent && (
+            <DiffViewer
+              path={file.newPath ?? file.path}
+              oldContent={file.oldContent}
+              newContent={file.newContent}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 /**
  * Unified diff viewer with syntax highlighting.
  */
@@ -526,6 +740,121 @@ function DiffLine({ line }: { line: string }) {
   );
 }
 
+// ============================================================================
+// Task Tool View (Sub-agent)
+// ============================================================================
+
+/**
+ * Renders a sub-agent task: its nested tool calls while it works, then its summary.
+ */
+function TaskToolView({ toolCall }: { toolCall: ToolCall }) {
+  const input = toolCall.input as { description?: string; prompt?: string };
+  const result = toolCall.result as TaskResult | undefined;
+  const activity = toolCall.subagent;
+  const [showPrompt, setShowPrompt] = useState(false);
+
+  return (
+    <div className="space-y-2">
+      {/* Prompt given to the sub-agent */}
+      {input.prompt && (
+        <div className="text-xs">
+          <button
+            onClick={() => setShowPrompt(!showPrompt)}
+            className="text-violet-400 hover:text-violet-300 transition-colors"
+          >
+            {showPrompt ? '▾ Hide prompt' : '▸ Show prompt'}
+          </button>
+          {showPrompt && (
+            <div className="mt-1 whitespace-pre-wrap text-white/60 bg-black/30 rounded px-2 py-1.5">
+              {input.prompt}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Nested tool calls made by the sub-agent */}
+      {activity && activity.toolCalls.length > 0 && (
+        <div className="space-y-1 pl-3 border-l-2 border-violet-500/30">
+          {activity.toolCalls.map((child) => (
+            <ToolCallView key={child.id} toolCall={child} />
+          ))}
+        </div>
+      )}
+
+      {/* Sub-agent's text while it is still working */}
+      {toolCall.status === 'pending' && activity?.text && (
+        <div className="text-xs text-white/50 whitespace-pre-wrap">{truncate(activity.text, 300)}</div>
+      )}
+
+      {/* Error message */}
+      {toolCall.error && <ErrorDisplay message={toolCall.error} />}
+      {result?.error && <ErrorDisplay message={result.error} />}
+
+      {/* Final summary - the only part returned to the parent agent */}
+      {result?.summary && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-xs text-emerald-400">
+            <span>✓</span>
+            <span>
+              Finished after {result.toolCalls} tool call{result.toolCalls !== 1 ? 's' : ''}
+              {' · '}
+              {result.totalTokens.toLocaleString()} tokens
+            </span>
+          </div>
+          <div className="text-xs text-white/80 whitespace-pre-wrap bg-black/30 rounded px-2 py-1.5">
+            {result.summary}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Execute Code Tool View
+// ============================================================================
+
+/**
+ * Renders a sandboxed script with its console output and return value.
+ */
+function ExecuteCodeToolView({ toolCall }: { toolCall: ToolCall }) {
+  const input = toolCall.input as { code?: string; language?: string };
+  const result = toolCall.result as ExecuteCodeResult | undefined;
+
+  return (
+    <div className="space-y-2">
+      {/* Script */}
+      {input.code && (
+        <div className="space-y-1">
+          <div className="text-xs text-white/40">{input.language === 'typescript' ? 'TypeScript' : 'JavaScript'}</div>
+          <pre className="font-mono text-xs bg-black/30 rounded px-2 py-1.5 text-cyan-300 overflow-x-auto max-h-60">
+            {input.code}
+          </pre>
+        </div>
+      )}
+
+      {/* Error message */}
+      {toolCall.error && <ErrorDisplay message={toolCall.error} />}
+
+      {result && (
+        <div className="space-y-2">
+          {/* Console output */}
+          {result.logs && result.logs.length > 0 && (
+            <OutputBlock label="console" content={result.logs.join('\n')} variant="warning" />
+          )}
+
+          {/* Return value - the only part sent back to the model */}
+          <OutputBlock
+            label={`result · ${result.toolCalls} tool call${result.toolCalls !== 1 ? 's' : ''}`}
+            content={JSON.stringify(result.result, null, 2) ?? 'null'}
+            variant="success"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ============================================================================
 // Git Diff Tool View
 // ============================================================================
@@ -907,11 +1236,17 @@ function formatToolName(name: string): string {
     read_file: 'Read File',
     write_file: 'Write File',
     edit_file: 'Edit File',
+    apply_patch: 'Apply Patch',
+    task: 'Task',
+    execute_code: 'Run Code',
     list_dir: 'List Directory',
     git_diff: 'Git Diff',
     git_status: 'Git Status',
     git_log: 'Git Log',
   };
+  // MCP tools are registered as mcp__<server>__<tool>
+  const mcp = /^mcp__(.+?)__(.+)$/.exec(name);
+  if (mcp) return `${mcp[1]}: ${mcp[2]}`;
   return names[name] ?? name;
 }
 
@@ -928,6 +1263,14 @@ function getToolSummary(toolCall: ToolCall): string {
     case 'write_file':
     case 'edit_file':
       return String(input.path ?? '');
+    case 'apply_patch': {
+      const result = toolCall.result as ApplyPatchResult | undefined;
+      return result?.files ? truncate(result.files.map((f) => f.newPath ?? f.path).join(', '), 40) : '';
+    }
+    case 'task':
+      return truncate(String(input.description ?? ''), 40);
+    case 'execute_code':
+      return truncate(String(input.code ?? '').split('\n')[0], 40);
     case 'list_dir':
       return String(input.path ?? '.');
     case 'git_diff':
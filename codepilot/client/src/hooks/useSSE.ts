@@ -1,16 +1,27 @@
 /**
  * useSSE Hook - EventSource connection manager for SSE streaming.
  * Connects to /api/stream/:id and dispatches events to the store.
+ * Every event carries its log id, so after a network blip the stream resumes
+ * from the last event seen instead of losing or repeating events.
  */
 
 import { useEffect, useRef } from 'react';
-import { useAgentStore, type ToolCall } from '../store/useAgentStore';
+import {
+  useAgentStore,
+  type ToolCall,
+  type CompactionInfo,
+  type PendingApproval,
+  type SubAgentEvent,
+  type RetryInfo,
+} from '../store/useAgentStore';
 
 /** Token usage from API response (for cost tracking) */
 interface TokenUsageEvent {
   prompt_tokens: number;
   completion_tokens: number;
   total_tokens: number;
+  /** USD, when the model is priced in the server's model catalog */
+  cost?: number;
 }
 
 /** Context estimate from pre-send token counting (accurate context window size) */
@@ -18,31 +29,68 @@ interface ContextEstimateEvent {
   contextTokens: number;
   accurate: boolean;
   source: 'tiktoken' | 'heuristic';
+  /** The model's context window, from the server's model catalog */
+  contextWindow?: number;
+}
+
+/** A budget that stopped the run */
+interface BudgetExceededEvent {
+  scope: 'session' | 'daily';
+  unit: 'usd' | 'tokens';
+  limit: number;
+  spent: number;
+  estimated: number;
+  message: string;
 }
 
 /** Stream event from server (matches server/src/types.ts StreamEvent) */
 interface StreamEvent {
-  type: 'text_delta' | 'tool_call' | 'tool_result' | 'error' | 'done' | 'usage' | 'context';
+  type:
+    | 'text_delta'
+    | 'tool_call'
+    | 'tool_result'
+    | 'error'
+    | 'done'
+    | 'usage'
+    | 'context'
+    | 'compaction'
+    | 'approval_required'
+    | 'subagent'
+    | 'budget_exceeded'
+    | 'retry';
   text?: string;
   toolCall?: ToolCall;
   error?: string;
   usage?: TokenUsageEvent;
   context?: ContextEstimateEvent;
+  compaction?: CompactionInfo;
+  approval?: PendingApproval;
+  subagent?: SubAgentEvent;
+  budget?: BudgetExceededEvent;
+  retry?: RetryInfo;
 }
 
 const API_BASE = 'http://localhost:3001/api';
 
+/** Delay before reopening a connection the browser gave up on (doubles per attempt) */
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 10000;
+
 /**
  * Hook that manages SSE connection to the agent stream.
- * Automatically connects when sessionId is set and dispatches events to store.
+ * Connects once the server has started a run (streamingSessionId) and dispatches events to store.
  */
 export function useSSE(): void {
-  const sessionId = useAgentStore((state) => state.sessionId);
+  const sessionId = useAgentStore((state) => state.streamingSessionId);
   const status = useAgentStore((state) => state.status);
   const appendText = useAgentStore((state) => state.appendText);
   const addToolCall = useAgentStore((state) => state.addToolCall);
   const updateToolResult = useAgentStore((state) => state.updateToolResult);
   const updateContextEstimate = useAgentStore((state) => state.updateContextEstimate);
+  const addCompaction = useAgentStore((state) => state.addCompaction);
+  const setRetry = useAgentStore((state) => state.setRetry);
+  const markApprovalRequired = useAgentStore((state) => state.markApprovalRequired);
+  const applySubAgentEvent = useAgentStore((state) => state.applySubAgentEvent);
   const updateApiUsage = useAgentStore((state) => state.updateApiUsage);
   const finalizeResponse = useAgentStore((state) => state.finalizeResponse);
   const setError = useAgentStore((state) => state.setError);
@@ -61,43 +109,33 @@ export function useSSE(): void {
       eventSourceRef.current.close();
     }
 
-    console.log(`[SSE] Connecting to session: ${sessionId}`);
-    const eventSource = new EventSource(`${API_BASE}/stream/${sessionId}`);
-    eventSourceRef.current = eventSource;
+    // Id of the last event applied to the store (0 = none yet in this run)
+    let lastEventId = 0;
+    let finished = false;
+    let reconnectAttempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
     /**
-     * Handle incoming SSE events by type.
-     * Server sends events with event: type and data: JSON payload.
+     * Handlers for each event type.
+     * Server sends events with event: type, id: log id and data: JSON payload.
      */
-
-    // Handle text_delta events - streaming text from assistant
-    eventSource.addEventListener('text_delta', (event) => {
-      try {
-        const data: StreamEvent = JSON.parse(event.data);
+    const handlers: Partial<Record<StreamEvent['type'], (data: StreamEvent) => void>> = {
+      // Streaming text from assistant
+      text_delta: (data) => {
         if (data.text) {
           appendText(data.text);
         }
-      } catch (err) {
-        console.error('[SSE] Failed to parse text_delta:', err);
-      }
-    });
+      },
 
-    // Handle tool_call events - new tool invocation
-    eventSource.addEventListener('tool_call', (event) => {
-      try {
-        const data: StreamEvent = JSON.parse(event.data);
+      // New tool invocation
+      tool_call: (data) => {
         if (data.toolCall) {
           addToolCall(data.toolCall);
         }
-      } catch (err) {
-        console.error('[SSE] Failed to parse tool_call:', err);
-      }
-    });
+      },
 
-    // Handle tool_result events - tool execution complete
-    eventSource.addEventListener('tool_result', (event) => {
-      try {
-        const data: StreamEvent = JSON.parse(event.data);
+      // Tool execution complete
+      tool_result: (data) => {
         if (data.toolCall) {
           updateToolResult(
             data.toolCall.id,
@@ -105,76 +143,147 @@ export function useSSE(): void {
             data.toolCall.error
           );
         }
-      } catch (err) {
-        console.error('[SSE] Failed to parse tool_result:', err);
-      }
-    });
+      },
 
-    // Handle context events - accurate context window estimate (from pre-send token counting)
-    eventSource.addEventListener('context', (event) => {
-      try {
-        const data: StreamEvent = JSON.parse(event.data);
+      // Accurate context window estimate (from pre-send token counting)
+      context: (data) => {
         if (data.context) {
           updateContextEstimate(data.context);
         }
-      } catch (err) {
-        console.error('[SSE] Failed to parse context:', err);
-      }
-    });
+      },
+
+      // Older history was compacted to fit the context window
+      compaction: (data) => {
+        if (data.compaction) {
+          addCompaction(data.compaction);
+        }
+      },
+
+      // A model call failed and will be retried, or handed to a fallback model
+      retry: (data) => {
+        if (data.retry) {
+          setRetry(data.retry);
+        }
+      },
 
-    // Handle usage events - API-reported token usage (for cost tracking)
-    eventSource.addEventListener('usage', (event) => {
-      try {
-        const data: StreamEvent = JSON.parse(event.data);
+      // A tool call is waiting for the user
+      approval_required: (data) => {
+        if (data.approval) {
+          markApprovalRequired(data.approval);
+        }
+      },
+
+      // Activity of a sub-agent started by a task call
+      subagent: (data) => {
+        if (data.subagent) {
+          applySubAgentEvent(data.subagent);
+        }
+      },
+
+      // API-reported token usage (for cost tracking)
+      usage: (data) => {
         if (data.usage) {
           updateApiUsage(data.usage);
         }
-      } catch (err) {
-        console.error('[SSE] Failed to parse usage:', err);
-      }
-    });
-
-    // Handle error events
-    eventSource.addEventListener('error', (event) => {
-      // Check if this is a server-sent error event with data
-      if (event instanceof MessageEvent && event.data) {
-        try {
-          const data: StreamEvent = JSON.parse(event.data);
-          if (data.error) {
-            console.error('[SSE] Server error:', data.error);
-            setError(data.error);
-          }
-        } catch {
-          // Not a JSON error, likely a connection error
-          console.error('[SSE] Connection error');
+      },
+
+      // The run stopped before a model call that would go over budget
+      budget_exceeded: (data) => {
+        if (data.budget) {
+          setError(data.budget.message);
         }
-      }
-    });
+      },
 
-    // Handle done event - stream complete
-    eventSource.addEventListener('done', () => {
-      console.log('[SSE] Stream complete');
-      finalizeResponse();
-      eventSource.close();
+      // Server-sent error event
+      error: (data) => {
+        if (data.error) {
+          console.error('[SSE] Server error:', data.error);
+          setError(data.error);
+        }
+      },
+
+      // Stream complete
+      done: () => {
+        console.log('[SSE] Stream complete');
+        finished = true;
+        finalizeResponse();
+        closeConnection();
+      },
+    };
+
+    function closeConnection() {
+      eventSourceRef.current?.close();
       eventSourceRef.current = null;
-    });
+    }
+
+    /**
+     * Open the stream, resuming after the last applied event.
+     * The browser's own reconnects send Last-Event-ID; a fresh EventSource passes it in the query.
+     */
+    function connect() {
+      const resume = lastEventId > 0 ? `?lastEventId=${lastEventId}` : '';
+      console.log(`[SSE] Connecting to session: ${sessionId}${resume ? ` (resuming after event ${lastEventId})` : ''}`);
+      const eventSource = new EventSource(`${API_BASE}/stream/${sessionId}${resume}`);
+      eventSourceRef.current = eventSource;
 
-    // Handle connection errors
-    eventSource.onerror = (err) => {
-      // Don't log error if we're closing intentionally
-      if (eventSource.readyState === EventSource.CLOSED) {
-        return;
+      for (const [type, handle] of Object.entries(handlers)) {
+        eventSource.addEventListener(type, (event) => {
+          // Connection errors also arrive as 'error' events, without data
+          if (!(event instanceof MessageEvent) || !event.data) {
+            return;
+          }
+
+          // Skip events already applied (a replay can overlap what was received)
+          const id = Number(event.lastEventId);
+          if (id && id <= lastEventId) {
+            return;
+          }
+
+          try {
+            handle(JSON.parse(event.data) as StreamEvent);
+          } catch (err) {
+            console.error(`[SSE] Failed to parse ${type}:`, err);
+          }
+          if (id) {
+            lastEventId = id;
+          }
+        });
       }
-      console.error('[SSE] Connection error:', err);
-      // EventSource will automatically try to reconnect
-      // We don't set error state here to allow reconnection
-    };
+
+      eventSource.onopen = () => {
+        reconnectAttempts = 0;
+      };
+
+      // Handle connection errors
+      eventSource.onerror = (err) => {
+        if (finished) {
+          return;
+        }
+        if (eventSource.readyState === EventSource.CONNECTING) {
+          // EventSource reconnects by itself, sending Last-Event-ID
+          console.warn('[SSE] Connection lost, reconnecting...');
+          return;
+        }
+
+        // The browser gave up (e.g. the server was unreachable) - reopen with backoff
+        console.error('[SSE] Connection error:', err);
+        eventSource.close();
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+        reconnectAttempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    }
+
+    connect();
 
     // Cleanup on unmount or sessionId change
     return () => {
       console.log('[SSE] Closing connection');
-      eventSource.close();
-      eventSourceRef.current = null;
+      finished = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+      closeConnection();
     };
   }, [
     sessionId,
@@ -183,9 +292,12 @@ export function useSSE(): void {
     addToolCall,
     updateToolResult,
     updateContextEstimate,
+    addCompaction,
+    setRetry,
+    markApprovalRequired,
+    applySubAgentEvent,
     updateApiUsage,
     finalizeResponse,
     setError,
   ]);
 }
-
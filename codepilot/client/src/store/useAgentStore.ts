@@ -17,12 +17,87 @@ export interface ToolCall {
   status: 'pending' | 'completed' | 'error';
   result?: unknown;
   error?: string;
+  /** Approval state - only present for calls that required approval */
+  approval?: ToolApproval;
+  /** Live activity of the sub-agent started by a task call */
+  subagent?: SubAgentActivity;
 }
 
-/** Content block - either text or a tool call, preserving order */
+/** What a task call's sub-agent is doing (built from its nested stream events) */
+export interface SubAgentActivity {
+  /** Text since the sub-agent's last tool call */
+  text: string;
+  toolCalls: ToolCall[];
+  error?: string;
+}
+
+/** A sub-agent stream event, nested under the task call that started it */
+export interface SubAgentEvent {
+  parentToolCallId: string;
+  event: {
+    type: string;
+    text?: string;
+    toolCall?: ToolCall;
+    error?: string;
+  };
+}
+
+/** Session policy for when tool calls wait for user approval */
+export type ApprovalPolicy = 'always_ask' | 'ask_for_writes' | 'auto';
+
+/** Proposed effect of a tool call awaiting approval */
+export interface ToolPreview {
+  files?: Array<{ path: string; oldContent: string; newContent: string }>;
+}
+
+/** Approval state for a tool call */
+export interface ToolApproval {
+  status: 'awaiting' | 'approved' | 'denied' | 'edited';
+  preview?: ToolPreview;
+}
+
+/** A tool call waiting for approval (from the approval_required event) */
+export interface PendingApproval {
+  toolCall: ToolCall;
+  policy: ApprovalPolicy;
+  preview?: ToolPreview;
+}
+
+/** User decision for a pending tool call */
+export type ApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'deny'; reason?: string }
+  | { action: 'edit'; input: Record<string, unknown> };
+
+/** Summary of a server-side context compaction pass */
+export interface CompactionInfo {
+  strategies: Array<'drop_stale_reads' | 'elide_tool_results' | 'summarize'>;
+  tokensBefore: number;
+  tokensAfter: number;
+  messagesBefore: number;
+  messagesAfter: number;
+  contextWindow: number;
+}
+
+/** A failed model call the server will try again, or hand to a fallback model */
+export interface RetryInfo {
+  /** Retry number on this provider and model (0 when falling back) */
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  error: string;
+  status?: number;
+  /** Provider and model of the next attempt */
+  provider: string;
+  model: string;
+  fallback: boolean;
+}
+
+/** Content block - text, a tool call, or a compaction notice, preserving order */
 export type ContentBlock =
   | { type: 'text'; text: string }
-  | { type: 'tool_call'; toolCall: ToolCall };
+  | { type: 'tool_call'; toolCall: ToolCall }
+  | { type: 'compaction'; compaction: CompactionInfo };
 
 /** A message in the conversation */
 export interface Message {
@@ -31,6 +106,8 @@ export interface Message {
   /** For user messages: plain string. For assistant: ordered content blocks */
   content: string | ContentBlock[];
   timestamp: Date;
+  /** Database ids of the stored messages this was built from (loaded sessions only) */
+  serverIds?: number[];
 }
 
 /** Agent status states */
@@ -56,6 +133,8 @@ export interface TokenUsage {
   contextAccurate: boolean;
   /** Source of context estimate: 'tiktoken' (accurate, local) or 'heuristic' (rough) */
   contextSource: 'tiktoken' | 'heuristic' | null;
+  /** Context window the server compacts against (from its model catalog) */
+  contextWindow: number | null;
   
   // === Cumulative API Usage (for cost tracking - from API responses) ===
   /** Total prompt tokens sent across ALL API calls in this session */
@@ -64,6 +143,8 @@ export interface TokenUsage {
   totalCompletionTokens: number;
   /** Total tokens (prompt + completion) across ALL API calls */
   totalApiTokens: number;
+  /** Total cost in USD of the priced API calls (null until one is priced) */
+  totalCost: number | null;
   
   // === Per-call info (from most recent API response) ===
   /** Prompt tokens from the most recent API call */
@@ -79,6 +160,10 @@ export interface ModelOption {
   description: string;
   /** Context window size in tokens */
   contextWindow: number;
+  maxOutputTokens?: number;
+  /** USD per million tokens */
+  pricing?: { input: number; output: number; cacheRead?: number; cacheWrite?: number };
+  capabilities?: { tools: boolean; vision: boolean; reasoning: boolean };
 }
 
 /** Available command for selection */
@@ -99,6 +184,31 @@ export interface SessionSummary {
   messageCount: number;
   totalTokens: number;
   preview: string | null;
+  /** Session this one was forked from (null for an original session) */
+  parentSessionId: string | null;
+  /** Last message copied from the parent when forking */
+  forkedFromMessageId: number | null;
+}
+
+/** A message matching a history search */
+export interface SearchResult {
+  sessionId: string;
+  sessionTitle: string | null;
+  messageId: number;
+  role: string;
+  /** Excerpt around the match, matched terms wrapped in <mark></mark> */
+  snippet: string;
+  createdAt: string;
+}
+
+/** File checkpoint taken before a mutating tool call */
+export interface CheckpointInfo {
+  id: number;
+  messageId: number | null;
+  toolCallId: string;
+  toolName: string;
+  paths: string[];
+  createdAt: string;
 }
 
 /** Plan summary for listing */
@@ -128,7 +238,14 @@ interface AgentState {
   sessionId: string | null;
   sessionTitle: string | null;
   status: AgentStatus;
+  /**
+   * Session whose run useSSE follows - set once the server has started the run,
+   * so the stream never replays the previous run's events
+   */
+  streamingSessionId: string | null;
   error: string | null;
+  /** Upcoming retry of a failed model call - cleared once the response streams */
+  retry: (RetryInfo & { retryAt: number }) | null;
   /** Current working directory for tool operations */
   workingDir: string | null;
 
@@ -152,13 +269,27 @@ interface AgentState {
   selectedCommand: string | null;
   availableCommands: CommandOption[];
 
+  // Tool approval policy for the current/next session
+  approvalPolicy: ApprovalPolicy;
+
   // Last message for retry functionality
   lastUserMessage: string | null;
 
+  /** The loaded session's last run was cut short by a server restart */
+  sessionInterrupted: boolean;
+
   // Session management
   sessions: SessionSummary[];
   isSessionSheetOpen: boolean;
 
+  // History search
+  searchResults: SearchResult[];
+  /** Message to scroll to and highlight (set when opening a search result) */
+  highlightedMessageId: string | null;
+
+  // Checkpoints for the current session (oldest first)
+  checkpoints: CheckpointInfo[];
+
   // Plans management
   plans: PlanSummary[];
   selectedPlan: Plan | null;
@@ -174,6 +305,8 @@ interface AgentState {
   // Error recovery actions
   dismissError: () => void;
   retryLastMessage: () => Promise<void>;
+  /** Continue the loaded session's interrupted run */
+  resumeSession: () => Promise<void>;
 
   // Model selection
   setSelectedModel: (modelId: string) => void;
@@ -183,13 +316,33 @@ interface AgentState {
   setSelectedCommand: (commandId: string) => void;
   fetchAvailableCommands: () => Promise<void>;
 
+  // Tool approval
+  /** Set the approval policy (synced to the server if a session exists) */
+  setApprovalPolicy: (policy: ApprovalPolicy) => Promise<void>;
+  /** Send the user's decision for a tool call awaiting approval */
+  respondToApproval: (toolCallId: string, decision: ApprovalDecision) => Promise<void>;
+
   // Session management actions
   fetchSessions: () => Promise<void>;
   loadSession: (sessionId: string) => Promise<void>;
   deleteSession: (sessionId: string) => Promise<void>;
   updateSessionTitle: (sessionId: string, title: string) => Promise<void>;
+  /** Copy the current session up to a stored message into a new session, and switch to it */
+  forkSession: (messageId: number) => Promise<void>;
   setSessionSheetOpen: (open: boolean) => void;
 
+  // History search actions
+  /** Search all sessions' messages and tool calls (an empty query clears the results) */
+  searchHistory: (query: string) => Promise<void>;
+  /** Load a search result's session and highlight the matching message */
+  openSearchResult: (result: SearchResult) => Promise<void>;
+  setHighlightedMessage: (messageId: string | null) => void;
+
+  // Checkpoint actions
+  fetchCheckpoints: () => Promise<void>;
+  /** Restore files and truncate the conversation to just before a checkpoint */
+  rewindToCheckpoint: (checkpointId: number) => Promise<void>;
+
   // Plans management actions
   fetchPlans: () => Promise<void>;
   loadPlan: (filename: string) => Promise<Plan | null>;
@@ -202,10 +355,23 @@ interface AgentState {
   appendText: (text: string) => void;
   addToolCall: (toolCall: ToolCall) => void;
   updateToolResult: (id: string, result: unknown, error?: string) => void;
+  /** Mark a tool call as waiting for the user's approval */
+  markApprovalRequired: (approval: PendingApproval) => void;
+  /** Apply a sub-agent event to the task call that started it */
+  applySubAgentEvent: (subagent: SubAgentEvent) => void;
+  /** Record that the server compacted the conversation history */
+  addCompaction: (compaction: CompactionInfo) => void;
+  /** Show that the server is retrying a failed model call */
+  setRetry: (retry: RetryInfo) => void;
   /** Update context window estimate (from pre-send token counting - ACCURATE) */
-  updateContextEstimate: (estimate: { contextTokens: number; accurate: boolean; source: 'tiktoken' | 'heuristic' }) => void;
+  updateContextEstimate: (estimate: {
+    contextTokens: number;
+    accurate: boolean;
+    source: 'tiktoken' | 'heuristic';
+    contextWindow?: number;
+  }) => void;
   /** Update API usage metrics (from API response - for cost tracking) */
-  updateApiUsage: (usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }) => void;
+  updateApiUsage: (usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number; cost?: number }) => void;
   finalizeResponse: () => void;
   setError: (error: string) => void;
 }
@@ -225,7 +391,9 @@ export const useAgentStore = create<AgentState>((set, get) => ({
   sessionId: null,
   sessionTitle: null,
   status: 'idle',
+  streamingSessionId: null,
   error: null,
+  retry: null,
   workingDir: null,
   messages: [],
   currentContent: [],
@@ -234,9 +402,14 @@ export const useAgentStore = create<AgentState>((set, get) => ({
   availableModels: [],
   selectedCommand: null,
   availableCommands: [],
+  approvalPolicy: 'auto',
   lastUserMessage: null,
+  sessionInterrupted: false,
   sessions: [],
   isSessionSheetOpen: false,
+  searchResults: [],
+  highlightedMessageId: null,
+  checkpoints: [],
   plans: [],
   selectedPlan: null,
   isPlansSheetOpen: false,
@@ -269,10 +442,12 @@ export const useAgentStore = create<AgentState>((set, get) => ({
       error: null,
       currentContent: [],
       lastUserMessage: text,
+      sessionInterrupted: false,
+      streamingSessionId: null,
     });
 
     try {
-      const { selectedModel, selectedCommand, selectedPlan, workingDir } = get();
+      const { selectedModel, selectedCommand, selectedPlan, workingDir, approvalPolicy } = get();
       
       // If we have a selected plan and command is implement, include plan in message
       let messageToSend = text;
@@ -294,6 +469,7 @@ export const useAgentStore = create<AgentState>((set, get) => ({
           message: messageToSend,
           model: selectedModel || undefined,
           command: selectedCommand || undefined,
+          approvalPolicy,
           // Only include workingDir for new sessions (existing sessions have it stored)
           ...(sessionId ? {} : { workingDir: workingDir || undefined }),
         }),
@@ -305,7 +481,7 @@ export const useAgentStore = create<AgentState>((set, get) => ({
 
       const data = await response.json();
       // Update sessionId and workingDir (new sessions return these, continued sessions confirm them)
-      set({ sessionId: data.sessionId, workingDir: data.workingDir });
+      set({ sessionId: data.sessionId, workingDir: data.workingDir, streamingSessionId: data.sessionId });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : String(err);
       console.error('[Store] Failed to send message:', errorMessage);
@@ -375,11 +551,15 @@ export const useAgentStore = create<AgentState>((set, get) => ({
       sessionTitle: null,
       status: 'idle',
       error: null,
+      retry: null,
       workingDir: null,
       messages: [],
       currentContent: [],
       tokenUsage: null,
       lastUserMessage: null,
+      sessionInterrupted: false,
+      highlightedMessageId: null,
+      checkpoints: [],
     });
   },
 
@@ -456,6 +636,43 @@ export const useAgentStore = create<AgentState>((set, get) => ({
     await get().sendMessage(lastUserMessage);
   },
 
+  /**
+   * Resume an interrupted run via POST /api/session/:id/resume
+   * The agent continues from the last saved message; events stream via useSSE.
+   */
+  resumeSession: async () => {
+    const { sessionId, status, sessionInterrupted, selectedModel, approvalPolicy } = get();
+
+    if (!sessionId || !sessionInterrupted || status === 'streaming') {
+      console.warn('[Store] Cannot resume - no interrupted session loaded');
+      return;
+    }
+
+    set({ status: 'streaming', error: null, currentContent: [], sessionInterrupted: false, streamingSessionId: null });
+
+    try {
+      const response = await fetch(`${API_BASE}/session/${sessionId}/resume`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: selectedModel || undefined, approvalPolicy }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status} ${response.statusText}`);
+      }
+
+      set({ streamingSessionId: sessionId });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('[Store] Failed to resume session:', errorMessage);
+      set({
+        status: 'error',
+        error: errorMessage,
+        sessionInterrupted: true,
+      });
+    }
+  },
+
   /**
    * Set the selected model for new conversations
    */
@@ -508,6 +725,81 @@ export const useAgentStore = create<AgentState>((set, get) => ({
     }
   },
 
+  // ============================================================================
+  // Tool Approval Actions
+  // ============================================================================
+
+  /**
+   * Set the tool approval policy.
+   * Local state is always updated; the server copy is synced when a session exists.
+   */
+  setApprovalPolicy: async (policy: ApprovalPolicy) => {
+    const { sessionId } = get();
+    set({ approvalPolicy: policy });
+
+    if (!sessionId) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`${API_BASE}/session/${sessionId}/approval-policy`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ approvalPolicy: policy }),
+      });
+
+      if (!response.ok) {
+        console.warn('[Store] Could not sync approval policy to server:', response.statusText);
+      }
+    } catch (err) {
+      console.warn('[Store] Could not sync approval policy to server:', err);
+    }
+  },
+
+  /**
+   * Approve, deny, or edit a tool call via POST /api/session/:id/approve
+   */
+  respondToApproval: async (toolCallId: string, decision: ApprovalDecision) => {
+    const { sessionId } = get();
+
+    if (!sessionId) {
+      console.warn('[Store] No active session for approval');
+      return;
+    }
+
+    try {
+      const response = await fetch(`${API_BASE}/session/${sessionId}/approve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ toolCallId, ...decision }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to send approval: ${response.status}`);
+      }
+
+      const status =
+        decision.action === 'approve' ? 'approved' : decision.action === 'deny' ? 'denied' : 'edited';
+
+      set({
+        currentContent: get().currentContent.map((block) =>
+          block.type === 'tool_call' && block.toolCall.id === toolCallId
+            ? {
+                type: 'tool_call',
+                toolCall: {
+                  ...block.toolCall,
+                  input: decision.action === 'edit' ? decision.input : block.toolCall.input,
+                  approval: { ...block.toolCall.approval, status },
+                },
+              }
+            : block
+        ),
+      });
+    } catch (err) {
+      console.error('[Store] Failed to send approval:', err);
+    }
+  },
+
   // ============================================================================
   // Session Management Actions
   // ============================================================================
@@ -550,14 +842,18 @@ export const useAgentStore = create<AgentState>((set, get) => ({
       // Convert server messages to client Message format
       const messages: Message[] = [];
       let currentAssistantContent: ContentBlock[] = [];
+      let currentAssistantIds: number[] = [];
+      const messageIds: number[] = messagesData.messageIds ?? [];
       
-      for (const msg of messagesData.messages) {
+      for (const [index, msg] of messagesData.messages.entries()) {
+        const serverId = messageIds[index];
         if (msg.role === 'user') {
           messages.push({
             id: crypto.randomUUID(),
             role: 'user',
             content: msg.content || '',
             timestamp: new Date(),
+            serverIds: serverId !== undefined ? [serverId] : [],
           });
         } else if (msg.role === 'assistant') {
           // Finalize any previous assistant content
@@ -567,9 +863,12 @@ export const useAgentStore = create<AgentState>((set, get) => ({
               role: 'assistant',
               content: currentAssistantContent,
               timestamp: new Date(),
+              serverIds: currentAssistantIds,
             });
             currentAssistantContent = [];
+            currentAssistantIds = [];
           }
+          if (serverId !== undefined) currentAssistantIds.push(serverId);
 
           // Add text content if present
           if (msg.content) {
@@ -591,6 +890,7 @@ export const useAgentStore = create<AgentState>((set, get) => ({
             }
           }
         } else if (msg.role === 'tool') {
+          if (serverId !== undefined) currentAssistantIds.push(serverId);
           // Find the matching tool call and update its result
           for (const block of currentAssistantContent) {
             if (block.type === 'tool_call' && block.toolCall.id === msg.tool_call_id) {
@@ -611,6 +911,7 @@ export const useAgentStore = create<AgentState>((set, get) => ({
           role: 'assistant',
           content: currentAssistantContent,
           timestamp: new Date(),
+          serverIds: currentAssistantIds,
         });
       }
 
@@ -622,6 +923,7 @@ export const useAgentStore = create<AgentState>((set, get) => ({
         sessionId,
         sessionTitle: sessionData.title,
         workingDir: sessionData.workingDir,
+        approvalPolicy: sessionData.approvalPolicy ?? get().approvalPolicy,
         messages,
         currentContent: [],
         tokenUsage: sessionData.totalTokens ? {
@@ -629,17 +931,23 @@ export const useAgentStore = create<AgentState>((set, get) => ({
           contextTokens: 0,
           contextAccurate: false,
           contextSource: null,
+          contextWindow: null,
           // Preserve cumulative totals from DB
           totalPromptTokens: sessionData.totalTokens,
           totalCompletionTokens: 0,
           totalApiTokens: sessionData.totalTokens,
+          totalCost: null,
           lastPromptTokens: 0,
           lastCompletionTokens: 0,
         } : null,
         status: 'idle',
         error: null,
+        sessionInterrupted: sessionData.status === 'interrupted',
+        highlightedMessageId: null,
         isSessionSheetOpen: false,
       });
+
+      await get().fetchCheckpoints();
     } catch (err) {
       console.error('[Store] Failed to load session:', err);
     }
@@ -703,6 +1011,37 @@ export const useAgentStore = create<AgentState>((set, get) => ({
     }
   },
 
+  /**
+   * Fork the current session at a message and load the fork
+   */
+  forkSession: async (messageId: number) => {
+    const { sessionId, status } = get();
+
+    if (!sessionId || status === 'streaming') {
+      console.warn('[Store] Cannot fork - no session or agent is running');
+      return;
+    }
+
+    try {
+      const response = await fetch(`${API_BASE}/session/${sessionId}/fork`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fork session: ${response.status}`);
+      }
+
+      const data = await response.json();
+      await get().loadSession(data.sessionId);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('[Store] Failed to fork session:', errorMessage);
+      set({ error: errorMessage });
+    }
+  },
+
   /**
    * Open/close the session sheet
    */
@@ -714,6 +1053,110 @@ export const useAgentStore = create<AgentState>((set, get) => ({
     }
   },
 
+  // ============================================================================
+  // History Search Actions
+  // ============================================================================
+
+  /**
+   * Search all session history on the server
+   */
+  searchHistory: async (query: string) => {
+    if (!query.trim()) {
+      set({ searchResults: [] });
+      return;
+    }
+
+    try {
+      const response = await fetch(`${API_BASE}/search?q=${encodeURIComponent(query)}&limit=50`);
+      if (!response.ok) {
+        throw new Error(`Failed to search: ${response.status}`);
+      }
+      const data = await response.json();
+      set({ searchResults: data.results });
+    } catch (err) {
+      console.error('[Store] Failed to search history:', err);
+    }
+  },
+
+  /**
+   * Open the session containing a search result and highlight the matching message
+   */
+  openSearchResult: async (result: SearchResult) => {
+    if (result.sessionId !== get().sessionId) {
+      await get().loadSession(result.sessionId);
+      // Loading failed (already logged)
+      if (get().sessionId !== result.sessionId) return;
+    }
+
+    const message = get().messages.find((m) => m.serverIds?.includes(result.messageId));
+    set({
+      highlightedMessageId: message?.id ?? null,
+      isSessionSheetOpen: false,
+    });
+  },
+
+  /**
+   * Set or clear the highlighted message
+   */
+  setHighlightedMessage: (messageId: string | null) => {
+    set({ highlightedMessageId: messageId });
+  },
+
+  // ============================================================================
+  // Checkpoint Actions
+  // ============================================================================
+
+  /**
+   * Fetch checkpoints for the current session
+   */
+  fetchCheckpoints: async () => {
+    const { sessionId } = get();
+    if (!sessionId) {
+      set({ checkpoints: [] });
+      return;
+    }
+
+    try {
+      const response = await fetch(`${API_BASE}/session/${sessionId}/checkpoints`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch checkpoints: ${response.status}`);
+      }
+      const data = await response.json();
+      set({ checkpoints: data.checkpoints });
+    } catch (err) {
+      console.error('[Store] Failed to fetch checkpoints:', err);
+    }
+  },
+
+  /**
+   * Rewind via POST /api/session/:id/rewind/:checkpointId, then reload the session
+   */
+  rewindToCheckpoint: async (checkpointId: number) => {
+    const { sessionId, status } = get();
+
+    if (!sessionId || status === 'streaming') {
+      console.warn('[Store] Cannot rewind - no session or agent is running');
+      return;
+    }
+
+    try {
+      const response = await fetch(`${API_BASE}/session/${sessionId}/rewind/${checkpointId}`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to rewind: ${response.status}`);
+      }
+
+      // Reload messages and checkpoints from the truncated history
+      await get().loadSession(sessionId);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('[Store] Failed to rewind:', errorMessage);
+      set({ error: errorMessage });
+    }
+  },
+
   // ============================================================================
   // Plans Management Actions
   // ============================================================================
@@ -823,11 +1266,13 @@ export const useAgentStore = create<AgentState>((set, get) => ({
           ...currentContent.slice(0, -1),
           { type: 'text', text: lastBlock.text + text },
         ],
+        retry: null,
       });
     } else {
       // Create new text block
       set({
         currentContent: [...currentContent, { type: 'text', text }],
+        retry: null,
       });
     }
   },
@@ -841,6 +1286,7 @@ export const useAgentStore = create<AgentState>((set, get) => ({
         ...get().currentContent,
         { type: 'tool_call', toolCall },
       ],
+      retry: null,
     });
   },
 
@@ -865,11 +1311,102 @@ export const useAgentStore = create<AgentState>((set, get) => ({
     });
   },
 
+  /**
+   * Mark a tool call as awaiting approval, attaching the proposed changes.
+   * Adds the tool call if its tool_call event hasn't been seen yet.
+   */
+  markApprovalRequired: (approval: PendingApproval) => {
+    const { currentContent } = get();
+    const toolCall: ToolCall = {
+      ...approval.toolCall,
+      approval: { status: 'awaiting', preview: approval.preview },
+    };
+    const exists = currentContent.some(
+      (block) => block.type === 'tool_call' && block.toolCall.id === toolCall.id
+    );
+
+    set({
+      currentContent: exists
+        ? currentContent.map((block) =>
+            block.type === 'tool_call' && block.toolCall.id === toolCall.id
+              ? { type: 'tool_call', toolCall: { ...block.toolCall, approval: toolCall.approval } }
+              : block
+          )
+        : [...currentContent, { type: 'tool_call', toolCall }],
+    });
+  },
+
+  /**
+   * Apply a nested sub-agent event to its parent task call's activity
+   */
+  applySubAgentEvent: ({ parentToolCallId, event }: SubAgentEvent) => {
+    set({
+      currentContent: get().currentContent.map((block) => {
+        if (block.type !== 'tool_call' || block.toolCall.id !== parentToolCallId) {
+          return block;
+        }
+
+        const activity = block.toolCall.subagent ?? { text: '', toolCalls: [] };
+        let next: SubAgentActivity = activity;
+        switch (event.type) {
+          case 'text_delta':
+            next = { ...activity, text: activity.text + (event.text ?? '') };
+            break;
+          case 'tool_call':
+            if (event.toolCall) {
+              next = { ...activity, text: '', toolCalls: [...activity.toolCalls, event.toolCall] };
+            }
+            break;
+          case 'tool_result':
+            if (event.toolCall) {
+              const finished = event.toolCall;
+              next = {
+                ...activity,
+                toolCalls: activity.toolCalls.map((tc) =>
+                  tc.id === finished.id ? { ...tc, ...finished } : tc
+                ),
+              };
+            }
+            break;
+          case 'error':
+            next = { ...activity, error: event.error };
+            break;
+        }
+
+        return { type: 'tool_call', toolCall: { ...block.toolCall, subagent: next } };
+      }),
+    });
+  },
+
+  /**
+   * Add a compaction notice block (shown inline in the streaming response)
+   */
+  addCompaction: (compaction: CompactionInfo) => {
+    set({
+      currentContent: [
+        ...get().currentContent,
+        { type: 'compaction', compaction },
+      ],
+    });
+  },
+
+  /**
+   * Record an upcoming retry (the countdown runs from now)
+   */
+  setRetry: (retry: RetryInfo) => {
+    set({ retry: { ...retry, retryAt: Date.now() + retry.delayMs } });
+  },
+
   /**
    * Update context window estimate from PRE-SEND token counting.
    * This is the ACCURATE context size, not from API response.
    */
-  updateContextEstimate: (estimate: { contextTokens: number; accurate: boolean; source: 'tiktoken' | 'heuristic' }) => {
+  updateContextEstimate: (estimate: {
+    contextTokens: number;
+    accurate: boolean;
+    source: 'tiktoken' | 'heuristic';
+    contextWindow?: number;
+  }) => {
     const { tokenUsage } = get();
     set({
       tokenUsage: {
@@ -877,11 +1414,13 @@ export const useAgentStore = create<AgentState>((set, get) => ({
         contextTokens: estimate.contextTokens,
         contextAccurate: estimate.accurate,
         contextSource: estimate.source,
+        contextWindow: estimate.contextWindow ?? tokenUsage?.contextWindow ?? null,
         
         // Preserve cumulative API usage
         totalPromptTokens: tokenUsage?.totalPromptTokens || 0,
         totalCompletionTokens: tokenUsage?.totalCompletionTokens || 0,
         totalApiTokens: tokenUsage?.totalApiTokens || 0,
+        totalCost: tokenUsage?.totalCost ?? null,
         lastPromptTokens: tokenUsage?.lastPromptTokens || 0,
         lastCompletionTokens: tokenUsage?.lastCompletionTokens || 0,
       },
@@ -892,7 +1431,7 @@ export const useAgentStore = create<AgentState>((set, get) => ({
    * Update API usage metrics from POST-RESPONSE data.
    * Used for cost tracking, not context window estimation.
    */
-  updateApiUsage: (usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }) => {
+  updateApiUsage: (usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number; cost?: number }) => {
     const { tokenUsage } = get();
     set({
       tokenUsage: {
@@ -900,11 +1439,15 @@ export const useAgentStore = create<AgentState>((set, get) => ({
         contextTokens: tokenUsage?.contextTokens || 0,
         contextAccurate: tokenUsage?.contextAccurate || false,
         contextSource: tokenUsage?.contextSource || null,
+        contextWindow: tokenUsage?.contextWindow ?? null,
         
         // Update cumulative API usage (for cost tracking)
         totalPromptTokens: (tokenUsage?.totalPromptTokens || 0) + usage.prompt_tokens,
         totalCompletionTokens: (tokenUsage?.totalCompletionTokens || 0) + usage.completion_tokens,
         totalApiTokens: (tokenUsage?.totalApiTokens || 0) + usage.total_tokens,
+        totalCost: usage.cost !== undefined
+          ? (tokenUsage?.totalCost ?? 0) + usage.cost
+          : tokenUsage?.totalCost ?? null,
         
         // Per-call info from API
         lastPromptTokens: usage.prompt_tokens,
@@ -932,10 +1475,14 @@ export const useAgentStore = create<AgentState>((set, get) => ({
         messages: [...messages, assistantMessage],
         currentContent: [],
         status: 'idle',
+        retry: null,
       });
     } else {
-      set({ status: 'idle' });
+      set({ status: 'idle', retry: null });
     }
+
+    // Pick up checkpoints created during this response
+    get().fetchCheckpoints();
   },
 
   /**
@@ -0,0 +1,7 @@
+const { formatDate } = require('./dates');
+
+function reportHeader(title, date) {
+  return `${title} (${formatDate(date)})`;
+}
+
+module.exports = { reportHeader };
@@ -5,6 +5,7 @@
  */
 
 import OpenAI from 'openai';
+import { READ_ONLY_SHELL_COMMANDS, type ToolPolicy } from '../core/tools';
 
 // ============================================================================
 // Types
@@ -37,6 +38,8 @@ export interface AgentCommand {
   requiresArgument: boolean;
   /** Whether to show in UI dropdown */
   showInDropdown: boolean;
+  /** Tool restrictions enforced for this mode (omitted = all tools) */
+  toolPolicy?: ToolPolicy;
 }
 
 /**
@@ -61,15 +64,18 @@ You have access to tools to interact with the user's codebase:
 - read_file: Read file contents
 - write_file: Create or overwrite files
 - edit_file: Make targeted edits using search/replace
+- apply_patch: Apply a multi-file diff (add, delete, rename, modify) atomically
 - list_dir: List directory contents
 - run_shell: Execute shell commands
 - grep: Search for text patterns across files
 - find_files: Find files by name pattern (glob)
 - git_status, git_diff, git_log: Git operations
+- task: Delegate a self-contained research question to a sub-agent that returns a summary
+- execute_code: Run a script that calls read-only tools in bulk and returns only the final result
 
 When helping users:
 1. Read files before modifying them to understand context
-2. Use grep and find_files to explore the codebase efficiently
+2. Use grep and find_files to explore the codebase efficiently, or task for broad questions
 3. Explain what you're doing and why
 4. Follow existing code style and conventions
 5. Make minimal, focused changes
@@ -88,10 +94,11 @@ Available tools:
 - find_files: Find files by name pattern
 - run_shell: Execute read-only commands (ls, cat, head, tail, wc, etc.)
 - git_status, git_diff, git_log: View git state
+- task: Delegate an independent sub-question to a sub-agent (run several at once for parallel research)
 
 IMPORTANT RULES:
 1. DO NOT modify any files - this is a research-only session
-2. DO NOT use write_file or edit_file
+2. DO NOT use write_file, edit_file or apply_patch
 3. Use grep and find_files extensively to understand code structure
 4. Read relevant files to understand implementations
 5. Look for patterns, dependencies, and architectural decisions
@@ -176,14 +183,14 @@ Keep the same structure and format as the original plan.`;
 const IMPLEMENT_SIMPLE_SYSTEM_PROMPT = `You are CodePilot in IMPLEMENTATION MODE (Simple). Execute the requested changes directly.
 
 Available tools:
-- read_file, write_file, edit_file
+- read_file, write_file, edit_file, apply_patch
 - list_dir, grep, find_files
 - run_shell, git_status, git_diff, git_log
 
 Implementation approach:
 1. Read relevant files first to understand context
 2. Make focused, minimal changes
-3. Use edit_file for targeted modifications (preferred over write_file)
+3. Use edit_file for targeted modifications (preferred over write_file), apply_patch for coordinated changes across files
 4. Verify changes make sense in context
 
 Guidelines:
@@ -204,7 +211,7 @@ After completing:
 const IMPLEMENT_COMPLEX_SYSTEM_PROMPT = `You are CodePilot in IMPLEMENTATION MODE (Complex). Execute a multi-step plan methodically.
 
 Available tools:
-- read_file, write_file, edit_file
+- read_file, write_file, edit_file, apply_patch
 - list_dir, grep, find_files  
 - run_shell, git_status, git_diff, git_log
 
@@ -234,6 +241,36 @@ Guidelines:
 - Don't skip steps without explanation
 - Don't add features not in the plan`;
 
+// ============================================================================
+// Tool Policies
+// ============================================================================
+
+/**
+ * Research and planning - read files, search, git history and read-only shell commands
+ */
+const READ_ONLY_TOOL_POLICY: ToolPolicy = {
+  allowedCategories: ['file_ops', 'search', 'git', 'shell'],
+  allowedTools: [
+    'read_file',
+    'list_dir',
+    'grep',
+    'find_files',
+    'git_status',
+    'git_diff',
+    'git_log',
+    'run_shell',
+  ],
+  shellAllowlist: READ_ONLY_SHELL_COMMANDS,
+};
+
+/**
+ * Plan revision - same as research, without the shell
+ */
+const REVISE_PLAN_TOOL_POLICY: ToolPolicy = {
+  allowedCategories: ['file_ops', 'search', 'git'],
+  allowedTools: ['read_file', 'list_dir', 'grep', 'find_files', 'git_status', 'git_diff', 'git_log'],
+};
+
 // ============================================================================
 // Command Definitions
 // ============================================================================
@@ -267,6 +304,7 @@ export const AGENT_COMMANDS: AgentCommand[] = [
     systemPrompt: RESEARCH_SYSTEM_PROMPT,
     requiresArgument: true,
     showInDropdown: true,
+    toolPolicy: READ_ONLY_TOOL_POLICY,
   },
   {
     id: 'create_plan',
@@ -282,6 +320,7 @@ export const AGENT_COMMANDS: AgentCommand[] = [
     systemPrompt: CREATE_PLAN_SYSTEM_PROMPT,
     requiresArgument: true,
     showInDropdown: true,
+    toolPolicy: READ_ONLY_TOOL_POLICY,
   },
   {
     id: 'revise_plan',
@@ -296,6 +335,7 @@ export const AGENT_COMMANDS: AgentCommand[] = [
     systemPrompt: REVISE_PLAN_SYSTEM_PROMPT,
     requiresArgument: true,
     showInDropdown: true,
+    toolPolicy: REVISE_PLAN_TOOL_POLICY,
   },
   {
     id: 'implement',
@@ -350,6 +390,13 @@ export function getCommand(id: CommandId): AgentCommand | undefined {
   return AGENT_COMMANDS.find((cmd) => cmd.id === id);
 }
 
+/**
+ * Get the tool policy for a command (undefined = unrestricted)
+ */
+export function getToolPolicy(commandId: CommandId): ToolPolicy | undefined {
+  return getCommand(commandId)?.toolPolicy;
+}
+
 /**
  * Get commands for dropdown display
  */
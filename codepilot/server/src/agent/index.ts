@@ -4,7 +4,7 @@
  */
 
 // Main agent loop
-export { runAgentLoop, getAvailableTools, type AgentLoopConfig } from './loop';
+export { runAgentLoop, getAvailableTools, type AgentLoopConfig, type BudgetEstimate } from './loop';
 
 // Message helpers and types (legacy - for backward compatibility)
 export {
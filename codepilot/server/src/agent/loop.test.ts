@@ -0,0 +1,197 @@
+/**
+ * Agent loop tests - whole runs against a scripted MockAdapter
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runAgentLoop, type AgentLoopConfig } from './loop';
+import { MockAdapter, type CoreToolResultBlock } from '../providers';
+import type { StreamEvent } from '../types';
+
+async function run(config: AgentLoopConfig): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of runAgentLoop(config)) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('runAgentLoop', () => {
+  let workingDir: string;
+
+  beforeAll(() => {
+    workingDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codepilot-loop-'));
+    fs.writeFileSync(path.join(workingDir, 'notes.txt'), 'remember the milk\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(workingDir, { recursive: true, force: true });
+  });
+
+  it('should stream a text-only answer with its usage and finish', async () => {
+    const adapter = new MockAdapter([
+      [
+        { type: 'text', text: 'Hello' },
+        { type: 'text', text: ' there.' },
+        { type: 'usage', promptTokens: 120, completionTokens: 8 },
+      ],
+    ]);
+
+    const events = await run({ userPrompt: 'hi', workingDir, adapter });
+
+    expect(events.filter((e) => e.type === 'text_delta').map((e) => e.text).join('')).toBe('Hello there.');
+    expect(events.find((e) => e.type === 'usage')?.usage).toEqual({
+      prompt_tokens: 120,
+      completion_tokens: 8,
+      total_tokens: 128,
+      provider: 'mock',
+      model: 'mock-model',
+    });
+    expect(events.at(-1)).toEqual({ type: 'done' });
+    expect(adapter.requests[0].messages.at(-1)).toEqual({ role: 'user', content: 'hi' });
+  });
+
+  it('should stop before a model call the budget check rejects', async () => {
+    const adapter = new MockAdapter([
+      [
+        { type: 'tool_call', id: 'search', name: 'search_tools', input: { query: 'read' } },
+        { type: 'usage', promptTokens: 900, completionTokens: 50 },
+      ],
+      [{ type: 'text', text: 'Never sent.' }],
+    ]);
+    let spent = 0;
+    const estimates: number[] = [];
+
+    const events = await run({
+      userPrompt: 'hi',
+      workingDir,
+      adapter,
+      checkBudget: (estimate) => {
+        estimates.push(estimate.promptTokens);
+        if (spent === 0) {
+          spent = 950;
+          return null;
+        }
+        return { scope: 'session', unit: 'tokens', limit: 1000, spent, estimated: estimate.promptTokens, message: 'over' };
+      },
+    });
+
+    expect(estimates).toHaveLength(2);
+    expect(estimates[1]).toBeGreaterThan(estimates[0]);
+    expect(events.slice(-2)).toEqual([
+      { type: 'budget_exceeded', budget: expect.objectContaining({ scope: 'session', limit: 1000 }) },
+      { type: 'done' },
+    ]);
+    expect(adapter.remainingTurns).toBe(1);
+  });
+
+  describe('summarizing during compaction', () => {
+    const history = [
+      { role: 'user' as const, content: 'Explain the build setup in detail. '.repeat(20) },
+      { role: 'assistant' as const, content: 'The build uses tsc and vite for the client. '.repeat(20) },
+    ];
+    const compaction = {
+      contextWindow: 1000,
+      threshold: 0.1,
+      target: 0.05,
+      keepRecentMessages: 1,
+      strategies: ['summarize' as const],
+      summaryModel: 'mock-haiku',
+    };
+
+    it('should budget the summary call and report its usage against the summary model', async () => {
+      const adapter = new MockAdapter([
+        [
+          { type: 'text', text: 'The user asked about the build.' },
+          { type: 'usage', promptTokens: 400, completionTokens: 20 },
+        ],
+        [
+          { type: 'text', text: 'Done.' },
+          { type: 'usage', promptTokens: 60, completionTokens: 5 },
+        ],
+      ]);
+      const estimates: number[] = [];
+
+      const events = await run({
+        userPrompt: 'and the tests?',
+        workingDir,
+        adapter,
+        conversationHistory: history,
+        compaction,
+        checkBudget: (estimate) => {
+          estimates.push(estimate.promptTokens);
+          return null;
+        },
+      });
+
+      expect(events.filter((e) => e.type === 'usage').map((e) => e.usage)).toEqual([
+        { prompt_tokens: 400, completion_tokens: 20, total_tokens: 420, provider: 'mock', model: 'mock-haiku' },
+        { prompt_tokens: 60, completion_tokens: 5, total_tokens: 65, provider: 'mock', model: 'mock-model' },
+      ]);
+      expect(events.some((e) => e.type === 'compaction')).toBe(true);
+      expect(estimates).toHaveLength(2);
+      expect(events.at(-1)).toEqual({ type: 'done' });
+    });
+
+    it('should stop before summarizing when the budget check rejects the summary call', async () => {
+      const adapter = new MockAdapter([[{ type: 'text', text: 'unused' }]]);
+
+      const events = await run({
+        userPrompt: 'and the tests?',
+        workingDir,
+        adapter,
+        conversationHistory: history,
+        compaction,
+        checkBudget: (estimate) => ({
+          scope: 'daily',
+          unit: 'tokens',
+          limit: 10,
+          spent: 0,
+          estimated: estimate.promptTokens,
+          message: 'over',
+        }),
+      });
+
+      expect(events).toEqual([
+        { type: 'budget_exceeded', budget: expect.objectContaining({ scope: 'daily', limit: 10 }) },
+        { type: 'done' },
+      ]);
+      expect(adapter.remainingTurns).toBe(1);
+    });
+  });
+
+  it('should load tools, run the calls and send their results back to the model', async () => {
+    const adapter = new MockAdapter([
+      [{ type: 'tool_call', id: 'load', name: 'load_tools', input: { category: 'file_ops' } }],
+      [
+        { type: 'text', text: 'Reading it.' },
+        { type: 'tool_call', id: 'read', name: 'read_file', input: { path: 'notes.txt' } },
+      ],
+      [{ type: 'text', text: 'It says to remember the milk.' }],
+    ]);
+
+    const events = await run({ userPrompt: 'what do my notes say?', workingDir, adapter });
+
+    const results = events.filter((e) => e.type === 'tool_result').map((e) => e.toolCall);
+    expect(results.map((call) => [call?.id, call?.status])).toEqual([
+      ['load', 'completed'],
+      ['read', 'completed'],
+    ]);
+    expect(adapter.requests[1].loadedTools).toContain('read_file');
+
+    const lastRequest = adapter.requests[2].messages;
+    const readResult = lastRequest
+      .flatMap((message) => (Array.isArray(message.content) ? message.content : []))
+      .find((block): block is CoreToolResultBlock => block.type === 'tool_result' && block.toolUseId === 'read');
+    expect(readResult?.content).toContain('remember the milk');
+    expect(adapter.remainingTurns).toBe(0);
+    expect(events.at(-1)).toEqual({ type: 'done' });
+  });
+
+  it('should stop when the provider fails mid-run', async () => {
+    const adapter = new MockAdapter([[{ type: 'tool_call', name: 'search_tools', input: { query: 'git' } }]]);
+
+    await expect(run({ userPrompt: 'go', workingDir, adapter })).rejects.toThrow(/no scripted turn left/);
+  });
+});
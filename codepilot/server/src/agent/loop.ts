@@ -3,20 +3,38 @@
  * Supports deferred tool loading where only meta-tools are initially available.
  */
 
-import type { StreamEvent, ToolCall, TokenUsage, ToolContext } from '../types';
-import type { ProviderAdapter, ProviderStreamEvent, CoreMessage, CoreToolResultBlock } from '../providers';
-import { createOpenRouterAdapter } from '../providers';
+import type { BudgetExceeded, StreamEvent, ToolCall, TokenUsage, ToolContext } from '../types';
+import type { ProviderAdapter, ProviderId, CoreMessage, CoreToolResultBlock, TokenUsage as ProviderTokenUsage } from '../providers';
+import { createProviderAdapter } from '../providers';
 import {
   globalRegistry,
   registerAllTools,
-  executeInvocations,
+  streamInvocations,
   formatToolResult,
+  needsApproval,
+  buildApprovalRequest,
+  checkToolPolicy,
+  ApprovalDeniedError,
   type ToolInvocation,
+  type ToolResult,
   type ToolExecutionContext,
+  type ApprovalPolicy,
+  type ApprovalDecision,
+  type ApprovalHandler,
+  type ToolPolicy,
 } from '../core/tools';
 import { getDefaultWorkingDir } from '../tools/utils';
 import { CODING_AGENT_SYSTEM_PROMPT } from './messages';
+import { runSubAgent } from './subagent';
 import { countTokens } from '../providers/token-counter';
+import {
+  compactMessages,
+  createSummarizer,
+  getCompactionConfig,
+  shouldCompact,
+  type CompactionConfig,
+} from '../core/compaction';
+import { getModelCost } from '../core/models';
 
 // Maximum number of tool call rounds to prevent infinite loops
 const MAX_TOOL_ROUNDS = 100;
@@ -34,8 +52,8 @@ function ensureToolsRegistered(): void {
  * Configuration for the agent loop
  */
 export interface AgentLoopConfig {
-  /** Initial user message to process */
-  userPrompt: string;
+  /** Initial user message to process (omitted when resuming from the conversation history) */
+  userPrompt?: string;
   /** Working directory for tool operations (defaults to PROJECT_ROOT or parent of cwd) */
   workingDir?: string;
   /** Optional existing conversation history */
@@ -48,6 +66,108 @@ export interface AgentLoopConfig {
   model?: string;
   /** Optional pre-loaded tools (for session continuity) */
   loadedTools?: Set<string>;
+  /** Optional provider override (defaults to the one selected from env vars) */
+  provider?: ProviderId;
+  /** Optional adapter instance to use instead of creating one (e.g. a MockAdapter in tests) */
+  adapter?: ProviderAdapter;
+  /** Optional extra roots outside workingDir that tools may access */
+  allowedRoots?: string[];
+  /** Optional compaction overrides (e.g. contextWindow for the selected model) */
+  compaction?: Partial<CompactionConfig>;
+  /**
+   * Called with the full compacted history (including system message) after
+   * compaction, so callers can persist it and resumed sessions stay small.
+   */
+  onCompaction?: (messages: CoreMessage[]) => void;
+  /** Approval policy for tool calls (default: auto - nothing waits) */
+  approvalPolicy?: ApprovalPolicy;
+  /**
+   * Asks the user to approve a tool call and resolves with their decision.
+   * Required for approvals - without it every call runs as under 'auto'.
+   */
+  requestApproval?: ApprovalHandler;
+  /** Restrictions from the agent command (e.g. read-only research mode) */
+  toolPolicy?: ToolPolicy;
+  /** Maximum tool calls running at once (default: TOOL_CONCURRENCY or 4) */
+  toolConcurrency?: number;
+  /** Called before each file-mutating tool call (e.g. to checkpoint the files) */
+  beforeMutation?: ToolExecutionContext['beforeMutation'];
+  /** Maximum tool call rounds before the loop gives up (default: 100) */
+  maxToolRounds?: number;
+  /**
+   * Checked before each model call with an estimate of it (the counted prompt and
+   * its cost, if the model is priced). A returned budget stops the run.
+   */
+  checkBudget?: (estimate: BudgetEstimate) => BudgetExceeded | null;
+}
+
+/**
+ * The next model call, as far as it is known before sending it
+ */
+export interface BudgetEstimate {
+  promptTokens: number;
+  /** USD, or null when the model has no catalog prices */
+  cost: number | null;
+}
+
+/**
+ * An item produced while a round's tool calls run: a finished call,
+ * or an event forwarded from a sub-agent started by a task call.
+ */
+type ExecutionItem = { kind: 'result'; result: ToolResult } | { kind: 'event'; event: StreamEvent };
+
+/**
+ * A provider's usage report as a usage event, priced with the serving model's catalog prices
+ */
+function toUsage(usage: ProviderTokenUsage, provider: ProviderId, model: string): TokenUsage {
+  const cost = getModelCost(model, provider, usage);
+  return {
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+    total_tokens: usage.totalTokens,
+    ...(usage.cacheReadTokens ? { cache_read_tokens: usage.cacheReadTokens } : {}),
+    ...(usage.cacheWriteTokens ? { cache_write_tokens: usage.cacheWriteTokens } : {}),
+    ...(cost !== null ? { cost } : {}),
+    provider,
+    model,
+  };
+}
+
+/**
+ * Minimal async channel: producers push items, one consumer iterates until closed.
+ */
+function createChannel<T>() {
+  const items: T[] = [];
+  let closed = false;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  return {
+    push(item: T): void {
+      if (closed) return;
+      items.push(item);
+      notify();
+    },
+    close(): void {
+      closed = true;
+      notify();
+    },
+    async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+      while (true) {
+        while (items.length > 0) {
+          yield items.shift()!;
+        }
+        if (closed) return;
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+    },
+  };
 }
 
 /**
@@ -73,18 +193,11 @@ function createUserMessage(content: string): CoreMessage {
 /**
  * Create tool result messages from execution results.
  */
-function createToolResultMessages(
-  results: Array<{ id: string; name: string; value: unknown; isError: boolean }>
-): CoreMessage {
+function createToolResultMessages(results: ToolResult[]): CoreMessage {
   const blocks: CoreToolResultBlock[] = results.map((r) => ({
     type: 'tool_result',
     toolUseId: r.id,
-    content: formatToolResult({
-      id: r.id,
-      name: r.name,
-      value: r.value,
-      isError: r.isError,
-    }),
+    content: formatToolResult(r),
     isError: r.isError,
   }));
 
@@ -94,17 +207,70 @@ function createToolResultMessages(
   };
 }
 
+/**
+ * Build the tool_result event payload for a finished call.
+ */
+function createToolResultCall(result: ToolResult, input: Record<string, unknown>): ToolCall {
+  return {
+    id: result.id,
+    name: result.name,
+    input,
+    status: result.isError ? 'error' : 'completed',
+    ...(result.isError ? { error: String(result.error?.message || result.value) } : { result: result.value }),
+  };
+}
+
+/**
+ * Wait for an approval decision, treating an abort as a denial.
+ */
+function waitForApproval(
+  decision: Promise<ApprovalDecision>,
+  signal?: AbortSignal
+): Promise<ApprovalDecision> {
+  if (!signal) return decision;
+  if (signal.aborted) return Promise.resolve({ action: 'deny', reason: 'Aborted by user' });
+
+  return new Promise((resolve) => {
+    const onAbort = () => resolve({ action: 'deny', reason: 'Aborted by user' });
+    signal.addEventListener('abort', onAbort, { once: true });
+    decision.then((result) => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(result);
+    });
+  });
+}
+
+/**
+ * Update a tool call's arguments in the history after the user edited its input,
+ * so the model sees the call that actually ran.
+ */
+function replaceToolCallArguments(
+  messages: CoreMessage[],
+  toolCallId: string,
+  input: Record<string, unknown>
+): void {
+  for (const message of messages) {
+    if (typeof message.content === 'string') continue;
+    for (const block of message.content) {
+      if (block.type === 'tool_call' && block.id === toolCallId) {
+        block.arguments = JSON.stringify(input);
+      }
+    }
+  }
+}
+
 /**
  * Runs the agent loop as an async generator.
  * Yields StreamEvents as the agent processes the request.
  *
  * Key feature: Deferred tool loading
- * - Only meta-tools (load_tools) are available initially
- * - Agent must call load_tools({ category: "..." }) to load other tools
+ * - Only meta-tools (load_tools, search_tools, task) are available initially
+ * - Agent must call load_tools({ category: "..." }) or search_tools({ query: "..." }) to load other tools
  * - Loaded tools persist for the duration of the session
  */
 export async function* runAgentLoop(config: AgentLoopConfig): AsyncGenerator<StreamEvent> {
   const { userPrompt, systemPrompt = CODING_AGENT_SYSTEM_PROMPT, signal, model } = config;
+  const maxToolRounds = config.maxToolRounds ?? MAX_TOOL_ROUNDS;
 
   // Ensure tools are registered with the global registry
   ensureToolsRegistered();
@@ -119,7 +285,7 @@ export async function* runAgentLoop(config: AgentLoopConfig): AsyncGenerator<Str
   // Create provider adapter
   let adapter: ProviderAdapter;
   try {
-    adapter = createOpenRouterAdapter();
+    adapter = config.adapter ?? createProviderAdapter(config.provider);
   } catch (err) {
     yield { type: 'error', error: err instanceof Error ? err.message : 'Failed to create LLM adapter' };
     yield { type: 'done' };
@@ -132,11 +298,37 @@ export async function* runAgentLoop(config: AgentLoopConfig): AsyncGenerator<Str
   // Track loaded tools for this session (initially empty - only meta-tools available)
   const loadedTools = config.loadedTools || new Set<string>();
   
+  // Sub-agent events are forwarded into the channel of the round whose task call started them
+  let executionChannel: ReturnType<typeof createChannel<ExecutionItem>> | null = null;
+
   const toolContext: ToolExecutionContext = {
     workingDir,
     loadedTools,
+    allowedRoots: config.allowedRoots,
+    toolPolicy: config.toolPolicy,
+    beforeMutation: config.beforeMutation,
+    runSubAgent: (toolCallId, request) => {
+      const channel = executionChannel;
+      return runSubAgent(toolCallId, request, {
+        workingDir,
+        allowedRoots: config.allowedRoots,
+        provider: config.provider,
+        adapter: config.adapter,
+        model,
+        toolPolicy: config.toolPolicy,
+        toolConcurrency: config.toolConcurrency,
+        checkBudget: config.checkBudget,
+        signal,
+        onEvent: (event) => channel?.push({ kind: 'event', event }),
+      });
+    },
   };
 
+  // The model the provider will use, for catalog lookups (context window, prices)
+  const modelId = model ?? adapter.defaultModel;
+  const compactionConfig = getCompactionConfig(adapter.id, config.compaction, modelId);
+  const approvalPolicy = config.approvalPolicy ?? 'auto';
+
   // Build initial messages array
   let messages: CoreMessage[];
   if (config.conversationHistory) {
@@ -149,13 +341,15 @@ export async function* runAgentLoop(config: AgentLoopConfig): AsyncGenerator<Str
   }
 
   // Add the user's message
-  messages.push(createUserMessage(userPrompt));
+  if (userPrompt) {
+    messages.push(createUserMessage(userPrompt));
+  }
 
   let roundCount = 0;
   let completedNaturally = false;
 
   // Main agent loop - continues until no tool calls or max rounds
-  while (roundCount < MAX_TOOL_ROUNDS) {
+  while (roundCount < maxToolRounds) {
     roundCount++;
 
     // Check for abort before each LLM call
@@ -167,27 +361,94 @@ export async function* runAgentLoop(config: AgentLoopConfig): AsyncGenerator<Str
 
     // Count tokens BEFORE sending to get accurate context window estimate
     // This is the correct way to track context - not the API's reported usage
-    const contextTokens = await countTokens(messages);
+    let contextTokens = await countTokens(messages);
+
+    // Compact the history if it is approaching the context window
+    if (shouldCompact(contextTokens, compactionConfig)) {
+      // The summary is a model call of its own: budgeted and recorded like the others
+      const summaryModel = compactionConfig.summaryModel ?? modelId;
+      const summaryUsage: StreamEvent[] = [];
+      let summaryExceeded: BudgetExceeded | null = null;
+
+      const result = await compactMessages(messages, {
+        config: compactionConfig,
+        summarize: createSummarizer(adapter, compactionConfig.summaryModel, signal, {
+          beforeCall: (promptTokens) => {
+            summaryExceeded = config.checkBudget?.({
+              promptTokens,
+              cost: getModelCost(summaryModel, adapter.id, { promptTokens, completionTokens: 0 }),
+            }) ?? null;
+            if (summaryExceeded) {
+              throw new Error('Summarizing would exceed the budget');
+            }
+          },
+          onUsage: (usage, servedBy) => {
+            summaryUsage.push({ type: 'usage', usage: toUsage(usage, servedBy.provider, servedBy.model) });
+          },
+        }),
+      });
+
+      yield* summaryUsage;
+      if (summaryExceeded) {
+        yield { type: 'budget_exceeded', budget: summaryExceeded };
+        yield { type: 'done' };
+        return;
+      }
+
+      if (result.compacted) {
+        messages = result.messages;
+        contextTokens = result.tokensAfter;
+        config.onCompaction?.(messages);
+        yield {
+          type: 'compaction',
+          compaction: {
+            strategies: result.strategies,
+            tokensBefore: result.tokensBefore,
+            tokensAfter: result.tokensAfter,
+            messagesBefore: result.messagesBefore,
+            messagesAfter: result.messagesAfter,
+            contextWindow: compactionConfig.contextWindow,
+          },
+        };
+      }
+    }
+
     yield {
       type: 'context',
       context: {
         contextTokens,
         accurate: true,
         source: 'tiktoken',
+        contextWindow: compactionConfig.contextWindow,
       },
     };
 
+    // Stop before a call that would go over budget
+    const exceeded = config.checkBudget?.({
+      promptTokens: contextTokens,
+      cost: getModelCost(modelId, adapter.id, { promptTokens: contextTokens, completionTokens: 0 }),
+    });
+    if (exceeded) {
+      yield { type: 'budget_exceeded', budget: exceeded };
+      yield { type: 'done' };
+      return;
+    }
+
     // Stream the provider turn
     const turnGenerator = adapter.sendTurn({
       messages,
       registry: globalRegistry,
       loadedTools,
+      toolPolicy: config.toolPolicy,
       model,
       signal,
     });
 
     let toolInvocations: ToolInvocation[] = [];
     let turnMessages: CoreMessage[] = [];
+    // Who serves the call - changes if the adapter falls back to another model
+    let callProvider: ProviderId = adapter.id;
+    let callModel = modelId;
 
     // Process stream events
     for await (const event of turnGenerator) {
@@ -196,28 +457,16 @@ export async function* runAgentLoop(config: AgentLoopConfig): AsyncGenerator<Str
           yield { type: 'text_delta', text: event.text };
           break;
 
-        case 'tool_call_start':
-          // Emit pending tool call
-          yield {
-            type: 'tool_call',
-            toolCall: {
-              id: event.id,
-              name: event.name,
-              input: {},
-              status: 'pending',
-            },
-          };
+        case 'retry':
+          if (event.retry.fallback) {
+            callProvider = event.retry.provider;
+            callModel = event.retry.model;
+          }
+          yield { type: 'retry', retry: event.retry };
           break;
 
         case 'usage':
-          yield {
-            type: 'usage',
-            usage: {
-              prompt_tokens: event.usage.promptTokens,
-              completion_tokens: event.usage.completionTokens,
-              total_tokens: event.usage.totalTokens,
-            },
-          };
+          yield { type: 'usage', usage: toUsage(event.usage, callProvider, callModel) };
           break;
 
         case 'error':
@@ -249,30 +498,112 @@ export async function* runAgentLoop(config: AgentLoopConfig): AsyncGenerator<Str
     // Add assistant message with tool calls to history
     messages.push(...turnMessages);
 
-    // Execute tool calls
-    const toolResults = await executeInvocations(globalRegistry, toolInvocations, toolContext);
-
-    // Yield results for each tool call
-    for (const result of toolResults) {
-      const toolCall: ToolCall = {
-        id: result.id,
-        name: result.name,
-        input: toolInvocations.find((inv) => inv.id === result.id)?.input || {},
-        status: result.isError ? 'error' : 'completed',
-        ...(result.isError ? { error: String(result.error?.message || result.value) } : { result: result.value }),
+    // Announce the calls once their arguments are complete, so what is logged and
+    // persisted from these events is the call the model actually made
+    for (const invocation of toolInvocations) {
+      yield {
+        type: 'tool_call',
+        toolCall: { id: invocation.id, name: invocation.name, input: invocation.input, status: 'pending' },
       };
-      yield { type: 'tool_result', toolCall };
     }
 
+    // Pause for approval where the session policy requires it
+    const approvedInvocations: ToolInvocation[] = [];
+    const deniedResults = new Map<string, ToolResult>();
+    for (const invocation of toolInvocations) {
+      const tool = globalRegistry.get(invocation.name);
+      // Calls the tool policy rejects are refused by the executor without asking
+      if (
+        !tool ||
+        !config.requestApproval ||
+        !needsApproval(tool, approvalPolicy) ||
+        checkToolPolicy(tool, invocation.input, config.toolPolicy)
+      ) {
+        approvedInvocations.push(invocation);
+        continue;
+      }
+
+      const request = await buildApprovalRequest(tool, invocation, approvalPolicy, toolContext);
+      yield {
+        type: 'approval_required',
+        approval: {
+          toolCall: { id: invocation.id, name: invocation.name, input: invocation.input, status: 'pending' },
+          policy: approvalPolicy,
+          ...(request.preview ? { preview: request.preview } : {}),
+        },
+      };
+
+      const decision = await waitForApproval(config.requestApproval(request), signal);
+      if (decision.action === 'deny') {
+        deniedResults.set(invocation.id, {
+          id: invocation.id,
+          name: invocation.name,
+          value: null,
+          error: new ApprovalDeniedError(invocation.name, decision.reason),
+          isError: true,
+        });
+      } else if (decision.action === 'edit') {
+        replaceToolCallArguments(messages, invocation.id, decision.input);
+        approvedInvocations.push({ ...invocation, input: decision.input });
+      } else {
+        approvedInvocations.push(invocation);
+      }
+    }
+
+    // Denied calls are already finished - report them right away
+    for (const result of deniedResults.values()) {
+      const invocation = toolInvocations.find((inv) => inv.id === result.id);
+      yield { type: 'tool_result', toolCall: createToolResultCall(result, invocation?.input ?? {}) };
+    }
+
+    // Execute approved calls (independent ones in parallel), reporting each as it finishes
+    // and passing through events from any sub-agents they start
+    const channel = createChannel<ExecutionItem>();
+    let executionError: unknown;
+    executionChannel = channel;
+    (async () => {
+      try {
+        for await (const result of streamInvocations(globalRegistry, approvedInvocations, toolContext, {
+          concurrency: config.toolConcurrency,
+        })) {
+          channel.push({ kind: 'result', result });
+        }
+      } catch (err) {
+        executionError = err;
+      } finally {
+        channel.close();
+      }
+    })();
+
+    const executedResults = new Map<string, ToolResult>();
+    for await (const item of channel) {
+      if (item.kind === 'event') {
+        yield item.event;
+        continue;
+      }
+      executedResults.set(item.result.id, item.result);
+      const invocation = approvedInvocations.find((inv) => inv.id === item.result.id);
+      yield { type: 'tool_result', toolCall: createToolResultCall(item.result, invocation?.input ?? {}) };
+    }
+    executionChannel = null;
+    if (executionError) {
+      throw executionError;
+    }
+
+    // Results go back to the model in its original call order
+    const toolResults = toolInvocations.map(
+      (inv) => deniedResults.get(inv.id) ?? executedResults.get(inv.id)!
+    );
+
     // Add tool results to messages
     messages.push(createToolResultMessages(toolResults));
   }
 
   // If we hit max rounds without completing naturally
-  if (roundCount >= MAX_TOOL_ROUNDS && !completedNaturally) {
+  if (roundCount >= maxToolRounds && !completedNaturally) {
     yield {
       type: 'error',
-      error: `Agent stopped after ${MAX_TOOL_ROUNDS} tool call rounds to prevent infinite loops`,
+      error: `Agent stopped after ${maxToolRounds} tool call rounds to prevent infinite loops`,
     };
     yield { type: 'done' };
   }
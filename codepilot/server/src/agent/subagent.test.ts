@@ -0,0 +1,96 @@
+/**
+ * Sub-agent tests - task calls run through the agent loop against a scripted MockAdapter
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runAgentLoop } from './loop';
+import { MockAdapter, type CoreToolResultBlock } from '../providers';
+import type { StreamEvent } from '../types';
+
+describe('task sub-agents', () => {
+  let workingDir: string;
+
+  beforeAll(() => {
+    workingDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codepilot-subagent-'));
+    fs.writeFileSync(path.join(workingDir, 'notes.txt'), 'remember the milk\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(workingDir, { recursive: true, force: true });
+  });
+
+  it('should run tasks side by side and return only their summaries', async () => {
+    // Turns are served in request order: the parent, both children's first turns, their last turns, the parent
+    const adapter = new MockAdapter([
+      [
+        { type: 'tool_call', id: 'task-a', name: 'task', input: { description: 'Read notes', prompt: 'What do the notes say?' } },
+        { type: 'tool_call', id: 'task-b', name: 'task', input: { description: 'Check notes', prompt: 'Are there notes?' } },
+        { type: 'usage', promptTokens: 100, completionTokens: 10 },
+      ],
+      [
+        { type: 'tool_call', name: 'read_file', input: { path: 'notes.txt' } },
+        { type: 'usage', promptTokens: 50, completionTokens: 5 },
+      ],
+      [
+        { type: 'tool_call', name: 'read_file', input: { path: 'notes.txt' } },
+        { type: 'usage', promptTokens: 50, completionTokens: 5 },
+      ],
+      [
+        { type: 'text', text: 'The notes are about milk.' },
+        { type: 'usage', promptTokens: 80, completionTokens: 8 },
+      ],
+      [
+        { type: 'text', text: 'The notes are about milk.' },
+        { type: 'usage', promptTokens: 80, completionTokens: 8 },
+      ],
+      [
+        { type: 'text', text: 'Both agree: milk.' },
+        { type: 'usage', promptTokens: 200, completionTokens: 6 },
+      ],
+    ]);
+
+    const events: StreamEvent[] = [];
+    for await (const event of runAgentLoop({ userPrompt: 'check my notes twice', workingDir, adapter })) {
+      events.push(event);
+    }
+
+    // Both children sent their first turn before either sent its second
+    const firstPrompts = adapter.requests.slice(1, 3).map((request) => request.messages.at(-1)?.content);
+    expect(firstPrompts.sort()).toEqual(['Are there notes?', 'What do the notes say?']);
+    expect(adapter.remainingTurns).toBe(0);
+
+    // Child events stream nested under the task call that started them
+    const nested = events.filter((e) => e.type === 'subagent').map((e) => e.subagent!);
+    for (const parentToolCallId of ['task-a', 'task-b']) {
+      const childEvents = nested.filter((n) => n.parentToolCallId === parentToolCallId).map((n) => n.event);
+      expect(childEvents.find((e) => e.type === 'tool_result')?.toolCall).toMatchObject({ name: 'read_file', status: 'completed' });
+      expect(childEvents.at(-1)).toEqual({ type: 'done' });
+      expect(childEvents.some((e) => e.type === 'usage')).toBe(false);
+    }
+
+    // Child usage rolls up as top-level usage events
+    const usage = events.filter((e) => e.type === 'usage').map((e) => e.usage!.total_tokens);
+    expect(usage.sort((a, b) => a - b)).toEqual([55, 55, 88, 88, 110, 206]);
+
+    // The parent sees each child's summary, never what the child read
+    const taskResults = events
+      .filter((e) => e.type === 'tool_result')
+      .map((e) => e.toolCall!)
+      .sort((a, b) => a.id.localeCompare(b.id));
+    expect(taskResults.map((call) => [call.id, call.status, call.result])).toEqual([
+      ['task-a', 'completed', { summary: 'The notes are about milk.', toolCalls: 1, totalTokens: 143 }],
+      ['task-b', 'completed', { summary: 'The notes are about milk.', toolCalls: 1, totalTokens: 143 }],
+    ]);
+    const parentResults = adapter.requests[5].messages
+      .flatMap((message) => (Array.isArray(message.content) ? message.content : []))
+      .filter((block): block is CoreToolResultBlock => block.type === 'tool_result');
+    expect(parentResults.map((block) => block.toolUseId).sort()).toEqual(['task-a', 'task-b']);
+    for (const block of parentResults) {
+      expect(block.content).toContain('The notes are about milk.');
+      expect(block.content).not.toContain('remember the milk');
+    }
+    expect(events.at(-1)).toEqual({ type: 'done' });
+  });
+});
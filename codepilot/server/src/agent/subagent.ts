@@ -0,0 +1,156 @@
+/**
+ * Sub-agents for the task tool.
+ * Runs a nested agent loop with its own history and read-only tools, streaming its
+ * events to the parent nested under the task call and returning only its final summary.
+ */
+
+import type { StreamEvent } from '../types';
+import type { ProviderAdapter, ProviderId } from '../providers';
+import {
+  globalRegistry,
+  intersectToolPolicies,
+  isToolAllowed,
+  type SubAgentRequest,
+  type SubAgentResult,
+  type ToolPolicy,
+} from '../core/tools';
+import { getToolPolicy } from './commands';
+import { runAgentLoop, type AgentLoopConfig } from './loop';
+
+/** Sub-agents get fewer rounds than a top-level run - tasks should be focused */
+const SUB_AGENT_MAX_TOOL_ROUNDS = 30;
+
+/**
+ * System prompt for sub-agents
+ */
+export const SUB_AGENT_SYSTEM_PROMPT = `You are a CodePilot sub-agent. Another agent delegated a single research task to you.
+
+Your tools are read-only: read files, list directories, search, inspect git history and run read-only shell commands.
+All of them are already loaded.
+
+How to work:
+1. Investigate efficiently - search before reading, read only what you need
+2. Make independent tool calls in the same turn so they run in parallel
+3. Stop as soon as you can answer the task
+
+Your final message is the ONLY thing the other agent will see. Make it a concise,
+self-contained answer: state the findings directly, with file paths and line numbers,
+and no narration of how you found them.`;
+
+/**
+ * Options a parent loop passes down to its sub-agents
+ */
+export interface SubAgentOptions {
+  workingDir: string;
+  allowedRoots?: string[];
+  provider?: ProviderId;
+  /** The parent's injected adapter, if any */
+  adapter?: ProviderAdapter;
+  /** Model for the child (defaults to SUBAGENT_MODEL, then the parent's model) */
+  model?: string;
+  /** The parent's tool policy - the child can never do more than its parent */
+  toolPolicy?: ToolPolicy;
+  toolConcurrency?: number;
+  /** The parent's budget check - the child's calls count against the same budgets */
+  checkBudget?: AgentLoopConfig['checkBudget'];
+  signal?: AbortSignal;
+  /** Receives the child's events (and its usage, to roll up into the session totals) */
+  onEvent: (event: StreamEvent) => void;
+}
+
+/**
+ * Get the model for sub-agents: SUBAGENT_MODEL if set, otherwise the parent's
+ */
+export function getSubAgentModel(parentModel?: string): string | undefined {
+  return process.env.SUBAGENT_MODEL || parentModel;
+}
+
+/**
+ * Build the child's tool policy: read-only, limited to the requested categories,
+ * within the parent's policy, and unable to start sub-agents of its own.
+ */
+export function getSubAgentToolPolicy(request: SubAgentRequest, parentPolicy?: ToolPolicy): ToolPolicy {
+  const scope: ToolPolicy = { deniedTools: ['task'] };
+  if (request.categories?.length) {
+    scope.allowedCategories = request.categories;
+  }
+  return intersectToolPolicies(intersectToolPolicies(scope, getToolPolicy('research')), parentPolicy) ?? scope;
+}
+
+/**
+ * Run a child agent for a task call and collect its final summary.
+ * Child usage is passed through as top-level usage events; everything else is
+ * wrapped in a 'subagent' event tagged with the parent's tool call ID.
+ */
+export async function runSubAgent(
+  parentToolCallId: string,
+  request: SubAgentRequest,
+  options: SubAgentOptions
+): Promise<SubAgentResult> {
+  if (!request.prompt.trim()) {
+    throw new Error('The task prompt is empty. Describe what the sub-agent should find out.');
+  }
+
+  const toolPolicy = getSubAgentToolPolicy(request, options.toolPolicy);
+
+  // Preload every permitted tool so the child doesn't spend turns on load_tools
+  const loadedTools = new Set(
+    globalRegistry
+      .list()
+      .filter((tool) => tool.metadata.category !== 'meta' && isToolAllowed(tool, toolPolicy))
+      .map((tool) => tool.name)
+  );
+
+  // Text since the last tool call - the final turn's text is the summary
+  let summary = '';
+  let toolCalls = 0;
+  let totalTokens = 0;
+  let error: string | undefined;
+
+  for await (const event of runAgentLoop({
+    userPrompt: request.prompt,
+    systemPrompt: SUB_AGENT_SYSTEM_PROMPT,
+    workingDir: options.workingDir,
+    allowedRoots: options.allowedRoots,
+    provider: options.provider,
+    adapter: options.adapter,
+    model: getSubAgentModel(options.model),
+    loadedTools,
+    toolPolicy,
+    toolConcurrency: options.toolConcurrency,
+    maxToolRounds: SUB_AGENT_MAX_TOOL_ROUNDS,
+    checkBudget: options.checkBudget,
+    signal: options.signal,
+  })) {
+    switch (event.type) {
+      case 'text_delta':
+        summary += event.text ?? '';
+        break;
+      case 'tool_call':
+        summary = '';
+        toolCalls++;
+        break;
+      case 'usage':
+        if (event.usage) {
+          totalTokens += event.usage.total_tokens;
+          options.onEvent(event);
+        }
+        continue;
+      case 'error':
+        error = event.error;
+        break;
+      case 'budget_exceeded':
+        error = event.budget?.message;
+        break;
+    }
+
+    options.onEvent({ type: 'subagent', subagent: { parentToolCallId, event } });
+  }
+
+  summary = summary.trim();
+  if (!summary) {
+    throw new Error(`Sub-agent "${request.description}" finished without a summary${error ? `: ${error}` : '.'}`);
+  }
+
+  return { summary, toolCalls, totalTokens, ...(error ? { error } : {}) };
+}
@@ -0,0 +1,125 @@
+/**
+ * Checkpoint tests - snapshotting files before tool calls and rewinding to them,
+ * in a temporary workspace on an in-memory database
+ */
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createCheckpoint, linkCheckpoints, listCheckpoints, rewindToCheckpoint } from './checkpoints';
+import { assistantToolCallMessage, toolResultMessage, userMessage } from './agent/messages';
+import { createSession, getMessages, persistMessage } from './session';
+import { closeDb } from './db';
+
+process.env.DATABASE_PATH = ':memory:';
+
+describe('checkpoints', () => {
+  let workspace: string;
+  let sessionId: string;
+
+  const file = (name: string) => path.join(workspace, name);
+  const read = (name: string) => fs.readFileSync(file(name), 'utf-8');
+
+  /** Persist a tool call's assistant message and result, linking its checkpoint to the message */
+  const persistToolCall = (id: string, name: string, filePath: string) => {
+    const messageId = persistMessage(
+      sessionId,
+      assistantToolCallMessage([{ id, name, arguments: JSON.stringify({ path: filePath }) }])
+    );
+    linkCheckpoints(sessionId, [id], messageId);
+    persistMessage(sessionId, toolResultMessage(id, 'ok'));
+  };
+
+  beforeEach(() => {
+    workspace = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'codepilot-checkpoints-')));
+    fs.writeFileSync(file('notes.txt'), 'original\n');
+    sessionId = createSession(workspace).id;
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    closeDb();
+  });
+
+  it('should snapshot existing and missing files, skipping paths outside the workspace', async () => {
+    const id = await createCheckpoint(
+      sessionId,
+      { id: 'write-1', name: 'write_file' },
+      ['notes.txt', './notes.txt', 'new.txt', '../outside.txt'],
+      workspace
+    );
+
+    expect(listCheckpoints(sessionId)).toEqual([
+      {
+        id,
+        messageId: null,
+        toolCallId: 'write-1',
+        toolName: 'write_file',
+        paths: [file('notes.txt'), file('new.txt')],
+        createdAt: expect.any(String),
+      },
+    ]);
+  });
+
+  it('should restore changed files, delete new ones and truncate the conversation', async () => {
+    persistMessage(sessionId, userMessage('update my notes'));
+    const checkpointId = await createCheckpoint(sessionId, { id: 'write-1', name: 'write_file' }, ['notes.txt', 'src/new.txt'], workspace);
+    persistToolCall('write-1', 'write_file', 'notes.txt');
+
+    fs.writeFileSync(file('notes.txt'), 'changed\n');
+    fs.mkdirSync(file('src'));
+    fs.writeFileSync(file('src/new.txt'), 'created\n');
+
+    const result = await rewindToCheckpoint(sessionId, checkpointId);
+
+    expect(result).toEqual({
+      checkpointId,
+      restoredFiles: [file('notes.txt')],
+      deletedFiles: [file('src/new.txt')],
+      removedMessages: 2,
+    });
+    expect(read('notes.txt')).toBe('original\n');
+    expect(fs.existsSync(file('src/new.txt'))).toBe(false);
+    expect(getMessages(sessionId)).toEqual([userMessage('update my notes')]);
+    expect(listCheckpoints(sessionId)).toEqual([]);
+  });
+
+  it('should restore the earliest snapshot of a path changed by several calls', async () => {
+    persistMessage(sessionId, userMessage('edit twice'));
+    const first = await createCheckpoint(sessionId, { id: 'edit-1', name: 'edit_file' }, ['notes.txt'], workspace);
+    persistToolCall('edit-1', 'edit_file', 'notes.txt');
+    fs.writeFileSync(file('notes.txt'), 'first edit\n');
+
+    const second = await createCheckpoint(sessionId, { id: 'edit-2', name: 'edit_file' }, ['notes.txt'], workspace);
+    persistToolCall('edit-2', 'edit_file', 'notes.txt');
+    fs.writeFileSync(file('notes.txt'), 'second edit\n');
+
+    await createCheckpoint(sessionId, { id: 'write-3', name: 'write_file' }, ['notes.txt', 'later.txt'], workspace);
+    persistToolCall('write-3', 'write_file', 'later.txt');
+    fs.writeFileSync(file('later.txt'), 'later\n');
+
+    // Rewinding to the second checkpoint keeps the first call and its checkpoint
+    const result = await rewindToCheckpoint(sessionId, second);
+
+    expect(result?.restoredFiles).toEqual([file('notes.txt')]);
+    expect(result?.deletedFiles).toEqual([file('later.txt')]);
+    expect(result?.removedMessages).toBe(4);
+    expect(read('notes.txt')).toBe('first edit\n');
+    expect(fs.existsSync(file('later.txt'))).toBe(false);
+    expect(getMessages(sessionId).map((m) => m.role)).toEqual(['user', 'assistant', 'tool']);
+    expect(listCheckpoints(sessionId).map((c) => c.id)).toEqual([first]);
+  });
+
+  it('should only rewind checkpoints of the given session', async () => {
+    const checkpointId = await createCheckpoint(sessionId, { id: 'write-1', name: 'write_file' }, ['notes.txt'], workspace);
+    fs.writeFileSync(file('notes.txt'), 'changed\n');
+
+    expect(await rewindToCheckpoint(createSession(workspace).id, checkpointId)).toBeNull();
+    expect(await rewindToCheckpoint(sessionId, checkpointId + 1)).toBeNull();
+    expect(read('notes.txt')).toBe('changed\n');
+    expect(listCheckpoints(sessionId)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Checkpoints Module
+ * Snapshots the files a mutating tool call is about to change, so a session
+ * can be rewound: files restored and the conversation truncated to that point
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  insertCheckpoint,
+  getDbCheckpoint,
+  listDbCheckpoints,
+  getDbCheckpointFilesFrom,
+  deleteCheckpointsFrom,
+  linkCheckpointsToMessage,
+} from './db';
+import { truncateMessagesFrom } from './session';
+import { resolvePath } from './tools/utils';
+
+/**
+ * Checkpoint info for API responses
+ */
+export interface CheckpointInfo {
+  id: number;
+  /** Assistant message that made the tool call (null until persisted, or if compacted away) */
+  messageId: number | null;
+  toolCallId: string;
+  toolName: string;
+  /** Absolute paths snapshotted by this checkpoint */
+  paths: string[];
+  createdAt: string;
+}
+
+/**
+ * Outcome of rewinding a session to a checkpoint
+ */
+export interface RewindResult {
+  checkpointId: number;
+  /** Files written back to their snapshotted content */
+  restoredFiles: string[];
+  /** Files removed because they did not exist at the checkpoint */
+  deletedFiles: string[];
+  /** Number of messages truncated from the conversation */
+  removedMessages: number;
+}
+
+/**
+ * Snapshot files before a tool call modifies them
+ * Paths outside the workspace are skipped (the tool itself will reject them)
+ * @param paths - Paths as given to the tool, relative to workingDir
+ * @returns The new checkpoint ID
+ */
+export async function createCheckpoint(
+  sessionId: string,
+  toolCall: { id: string; name: string },
+  paths: string[],
+  workingDir: string,
+  allowedRoots?: string[]
+): Promise<number> {
+  const files: Array<{ path: string; content: Buffer | null }> = [];
+  const seen = new Set<string>();
+
+  for (const relativePath of paths) {
+    let absolutePath: string;
+    try {
+      absolutePath = resolvePath(relativePath, workingDir, allowedRoots);
+    } catch {
+      continue;
+    }
+    if (seen.has(absolutePath)) continue;
+    seen.add(absolutePath);
+
+    try {
+      files.push({ path: absolutePath, content: await fs.readFile(absolutePath) });
+    } catch (err) {
+      // A missing file is recorded so rewinding deletes it; anything else (e.g. a directory) is skipped
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        files.push({ path: absolutePath, content: null });
+      }
+    }
+  }
+
+  return insertCheckpoint(sessionId, toolCall.id, toolCall.name, files);
+}
+
+/**
+ * Link checkpoints to the assistant message that made their tool calls
+ */
+export function linkCheckpoints(sessionId: string, toolCallIds: string[], messageId: number): void {
+  linkCheckpointsToMessage(sessionId, toolCallIds, messageId);
+}
+
+/**
+ * List a session's checkpoints, oldest first
+ */
+export function listCheckpoints(sessionId: string): CheckpointInfo[] {
+  return listDbCheckpoints(sessionId).map((checkpoint) => ({
+    id: checkpoint.id,
+    messageId: checkpoint.message_id,
+    toolCallId: checkpoint.tool_call_id,
+    toolName: checkpoint.tool_name,
+    paths: checkpoint.paths,
+    createdAt: checkpoint.created_at,
+  }));
+}
+
+/**
+ * Rewind a session to just before a checkpoint's tool call
+ * Restores every file changed since (the earliest snapshot of each path wins),
+ * truncates the conversation from the message that made the call,
+ * and drops this and all later checkpoints.
+ * @returns null if the checkpoint doesn't belong to the session
+ */
+export async function rewindToCheckpoint(
+  sessionId: string,
+  checkpointId: number
+): Promise<RewindResult | null> {
+  const checkpoint = getDbCheckpoint(checkpointId);
+  if (!checkpoint || checkpoint.session_id !== sessionId) {
+    return null;
+  }
+
+  const snapshots = new Map<string, Buffer | null>();
+  for (const file of getDbCheckpointFilesFrom(sessionId, checkpointId)) {
+    if (!snapshots.has(file.path)) {
+      snapshots.set(file.path, file.content);
+    }
+  }
+
+  const restoredFiles: string[] = [];
+  const deletedFiles: string[] = [];
+  for (const [filePath, content] of snapshots) {
+    if (content === null) {
+      await fs.rm(filePath, { force: true });
+      deletedFiles.push(filePath);
+    } else {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content);
+      restoredFiles.push(filePath);
+    }
+  }
+
+  const removedMessages =
+    checkpoint.message_id !== null ? truncateMessagesFrom(sessionId, checkpoint.message_id) : 0;
+  deleteCheckpointsFrom(sessionId, checkpointId);
+
+  console.log(
+    `[Checkpoints] Rewound session ${sessionId} to checkpoint ${checkpointId}: ` +
+      `${restoredFiles.length} restored, ${deletedFiles.length} deleted, ${removedMessages} messages removed`
+  );
+
+  return { checkpointId, restoredFiles, deletedFiles, removedMessages };
+}
@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+/**
+ * CodePilot CLI entry point.
+ * Runs the agent from a terminal, script or CI job.
+ *
+ * Usage:
+ *   codepilot run "<prompt>" [--command <id>] [--model <model>] [--cwd <dir>]
+ *                            [--resume <sessionId>] [--plan <file>] [--output pretty|ndjson]
+ *                            [--server <url>] [--approval <policy>]
+ *
+ * Without --server the agent loop runs in this process and sessions are stored in
+ * the same database as the server's, so they can be resumed from either.
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { createInterface } from 'readline/promises';
+import { fileURLToPath } from 'url';
+
+// .env is in codepilot/ (2 levels up from server/src/), as for the HTTP server
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.resolve(__dirname, '../../.env'), quiet: true });
+
+import { parseCliArgs, CliUsageError, USAGE, type CliOptions } from './cli/args';
+import { runCli, EXIT_CODES, type CliIO } from './cli/run';
+import { summarizeToolInput } from './cli/render';
+import { loadMcpServers, globalMcpManager } from './core/mcp';
+import type { ApprovalDecision } from './core/tools';
+import type { PendingApproval } from './types';
+
+/**
+ * Ask on the terminal whether a tool call may run.
+ */
+async function askApproval(approval: PendingApproval): Promise<ApprovalDecision> {
+  const prompt = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    const { toolCall } = approval;
+    const answer = await prompt.question(`Allow ${toolCall.name} (${summarizeToolInput(toolCall)})? [y/N] `);
+    return /^y(es)?$/i.test(answer.trim()) ? { action: 'approve' } : { action: 'deny', reason: 'Denied from the CLI' };
+  } finally {
+    prompt.close();
+  }
+}
+
+async function main(): Promise<number> {
+  let options: CliOptions | 'help';
+  try {
+    options = parseCliArgs(process.argv.slice(2));
+  } catch (err) {
+    if (!(err instanceof CliUsageError)) throw err;
+    console.error(`${err.message}\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+
+  if (options === 'help') {
+    process.stdout.write(`${USAGE}\n`);
+    return EXIT_CODES.success;
+  }
+
+  // stdout carries the run's output, so logs from the agent and tools go to stderr (or nowhere)
+  const log = options.verbose ? console.error : () => {};
+  console.log = log;
+  console.info = log;
+  console.debug = log;
+
+  const cwd = process.cwd();
+  const interactive = Boolean(process.stdin.isTTY && process.stderr.isTTY);
+  const readsPromptFromStdin = options.prompt === undefined || options.prompt === '-';
+
+  // Paths are resolved against the invoking directory, but the database lives in
+  // codepilot/data relative to the server package, as when the server runs
+  process.chdir(path.resolve(__dirname, '..'));
+
+  // First Ctrl-C stops the run (which still reports how it ended); a second exits at once
+  const interrupt = new AbortController();
+  process.on('SIGINT', () => {
+    if (interrupt.signal.aborted) process.exit(EXIT_CODES.interrupted);
+    interrupt.abort();
+  });
+
+  const io: CliIO = {
+    stdin: process.stdin,
+    stdout: process.stdout,
+    stderr: process.stderr,
+    cwd,
+    color: options.output === 'pretty' && process.stderr.isTTY,
+    askApproval: interactive && !readsPromptFromStdin ? askApproval : undefined,
+    signal: interrupt.signal,
+  };
+
+  // In-process runs get the same MCP tools as the server
+  if (!options.server) {
+    await loadMcpServers();
+  }
+
+  try {
+    return await runCli(options, io);
+  } catch (err) {
+    if (!(err instanceof CliUsageError)) throw err;
+    console.error(err.message);
+    return EXIT_CODES.usage;
+  } finally {
+    await globalMcpManager.closeAll();
+  }
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err instanceof Error ? err.stack ?? err.message : err);
+    process.exit(EXIT_CODES.failure);
+  }
+);
@@ -0,0 +1,141 @@
+/**
+ * Command-line parsing for the codepilot CLI.
+ */
+
+import { parseArgs } from 'util';
+import { getCommand, type CommandId } from '../agent/commands';
+import type { ApprovalPolicy } from '../core/tools';
+
+/** How events are written to stdout */
+export type OutputFormat = 'pretty' | 'ndjson';
+
+/**
+ * Options for a `codepilot run` invocation.
+ */
+export interface CliOptions {
+  /** The user message; undefined or '-' means read it from stdin */
+  prompt?: string;
+  command?: string;
+  model?: string;
+  /** Working directory for a new session */
+  cwd?: string;
+  /** Session to continue instead of starting a new one */
+  resume?: string;
+  /** File whose contents become the session's plan */
+  planFile?: string;
+  output: OutputFormat;
+  /** CodePilot server to run against; the agent runs in-process when unset */
+  server?: string;
+  approval?: ApprovalPolicy;
+  /** Print server logs to stderr */
+  verbose: boolean;
+}
+
+/**
+ * An invalid command line. The CLI prints the message with the usage and exits with 2.
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const USAGE = `Usage: codepilot run [prompt] [options]
+
+Runs one agent turn and streams its events. The prompt is read from stdin
+when it is omitted or "-".
+
+Options:
+  -c, --command <id>      Agent command (chat, research, create_plan, revise_plan,
+                          implement, implement_simple, implement_complex)
+  -m, --model <model>     Model to use
+      --cwd <dir>         Working directory for a new session (default: current directory)
+  -r, --resume <id>       Continue an existing session
+  -p, --plan <file>       Use the file as the session's plan (implies implement_complex
+                          unless --command is given)
+  -o, --output <format>   pretty (default) or ndjson
+      --server <url>      Run against a CodePilot server (default: $CODEPILOT_SERVER_URL,
+                          otherwise the agent runs in this process)
+      --approval <policy> Tool approval policy: always_ask, ask_for_writes or auto
+  -v, --verbose           Print server logs to stderr
+  -h, --help              Show this help
+
+Exit codes: 0 success, 1 the run reported an error, 2 invalid usage, 130 interrupted.`;
+
+const OUTPUT_FORMATS: OutputFormat[] = ['pretty', 'ndjson'];
+const APPROVAL_POLICIES: ApprovalPolicy[] = ['always_ask', 'ask_for_writes', 'auto'];
+
+/**
+ * Parse CLI arguments (without the node and script paths).
+ * @returns The options, or 'help' when help was requested
+ * @throws CliUsageError for unknown options, missing values or a missing subcommand
+ */
+export function parseCliArgs(argv: string[], env: NodeJS.ProcessEnv = process.env): CliOptions | 'help' {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        command: { type: 'string', short: 'c' },
+        model: { type: 'string', short: 'm' },
+        cwd: { type: 'string' },
+        resume: { type: 'string', short: 'r' },
+        plan: { type: 'string', short: 'p' },
+        output: { type: 'string', short: 'o', default: 'pretty' },
+        server: { type: 'string' },
+        approval: { type: 'string' },
+        verbose: { type: 'boolean', short: 'v', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (err) {
+    throw new CliUsageError(err instanceof Error ? err.message : String(err));
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    return 'help';
+  }
+
+  const [subcommand, ...rest] = positionals;
+  if (subcommand !== 'run') {
+    throw new CliUsageError(subcommand ? `Unknown command: ${subcommand}` : 'Missing command');
+  }
+  if (rest.length > 1) {
+    throw new CliUsageError('Pass the prompt as a single argument (quote it)');
+  }
+
+  // 'implement' is classified into implement_simple or implement_complex when the run starts
+  if (values.command && values.command !== 'implement' && !getCommand(values.command as CommandId)) {
+    throw new CliUsageError(`Unknown agent command: ${values.command}`);
+  }
+
+  const output = values.output as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(output)) {
+    throw new CliUsageError(`--output must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  const approval = values.approval as ApprovalPolicy | undefined;
+  if (approval && !APPROVAL_POLICIES.includes(approval)) {
+    throw new CliUsageError(`--approval must be one of: ${APPROVAL_POLICIES.join(', ')}`);
+  }
+
+  if (values.resume && values.cwd) {
+    throw new CliUsageError('--cwd only applies to new sessions, not with --resume');
+  }
+
+  return {
+    prompt: rest[0],
+    command: values.command,
+    model: values.model,
+    cwd: values.cwd,
+    resume: values.resume,
+    planFile: values.plan,
+    output,
+    server: values.server ?? (env.CODEPILOT_SERVER_URL || undefined),
+    approval,
+    verbose: values.verbose ?? false,
+  };
+}
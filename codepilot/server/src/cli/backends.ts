@@ -0,0 +1,200 @@
+/**
+ * CLI backends - where a `codepilot run` conversation executes.
+ *
+ * The local backend runs the agent loop in this process against the same SQLite
+ * database as the server; the HTTP backend drives a running server through its
+ * REST and SSE endpoints. Both expose the session's StreamEvents in order.
+ */
+
+import { startConversation, continueConversation, type ConversationRequest } from '../conversation';
+import { resolveToolApproval, type SessionState } from '../session';
+import type { ApprovalDecision } from '../core/tools';
+import type { StreamEvent } from '../types';
+
+/** How long to keep retrying an approval response before giving up */
+const APPROVAL_RETRY_MS = 5000;
+const APPROVAL_RETRY_INTERVAL_MS = 25;
+
+/**
+ * A started conversation run.
+ */
+export interface CliRun {
+  sessionId: string;
+  workingDir: string;
+  command: string;
+}
+
+/**
+ * Runs conversations for the CLI.
+ */
+export interface CliBackend {
+  /**
+   * Start a run in a new session, or in an existing one when resumeId is given.
+   * @throws Error if the session doesn't exist or is already running
+   */
+  start(request: ConversationRequest & { workingDir?: string }, resumeId?: string): Promise<CliRun>;
+  /** Events of the started run, ending after 'done' */
+  events(): AsyncIterable<StreamEvent>;
+  /** Answer an approval_required event */
+  respondToApproval(toolCallId: string, decision: ApprovalDecision): Promise<void>;
+  /** Abort the started run */
+  stop(): Promise<void>;
+}
+
+/**
+ * Retry until attempt() succeeds. The agent loop emits approval_required just
+ * before it starts waiting, so an immediate answer can arrive too early.
+ */
+async function retryApproval(attempt: () => Promise<boolean> | boolean): Promise<void> {
+  const deadline = Date.now() + APPROVAL_RETRY_MS;
+  while (!(await attempt())) {
+    if (Date.now() > deadline) {
+      throw new Error('The agent is no longer waiting for this approval');
+    }
+    await new Promise((resolve) => setTimeout(resolve, APPROVAL_RETRY_INTERVAL_MS));
+  }
+}
+
+/**
+ * Run the agent loop in this process.
+ */
+export function createLocalBackend(): CliBackend {
+  let session: SessionState | undefined;
+
+  return {
+    async start(request, resumeId) {
+      const run = resumeId
+        ? await continueConversation(resumeId, request)
+        : await startConversation(request);
+
+      if (!run) {
+        throw new Error(`Session not found or is currently running: ${resumeId}`);
+      }
+
+      session = run.session;
+      return { sessionId: session.id, workingDir: session.workingDir, command: run.command.id };
+    },
+
+    // The log closes once the run has finished persisting (after 'done'), so
+    // plans from research and create_plan are saved before the CLI exits
+    events() {
+      if (!session) throw new Error('No run has been started');
+      return session.eventLog;
+    },
+
+    async respondToApproval(toolCallId, decision) {
+      const id = session!.id;
+      await retryApproval(() => resolveToolApproval(id, toolCallId, decision));
+    },
+
+    async stop() {
+      session?.abortController.abort();
+    },
+  };
+}
+
+/**
+ * Parse a server-sent event stream into StreamEvents.
+ * Events without a type (e.g. the stream route's "session not found") take it from the event name.
+ */
+export async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary: number;
+      while ((boundary = buffer.search(/\r?\n\r?\n/)) !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+        const lines = block.split(/\r?\n/);
+        const name = lines.find((line) => line.startsWith('event:'))?.slice(6).trim();
+        const data = lines
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n');
+        if (!data) continue;
+
+        const event = JSON.parse(data) as Partial<StreamEvent>;
+        yield { ...event, type: event.type ?? (name as StreamEvent['type']) } as StreamEvent;
+      }
+    }
+  } finally {
+    // Release the connection when the consumer stops early (e.g. after 'done')
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Drive a CodePilot server over HTTP.
+ * @param baseUrl - Server origin, e.g. http://localhost:3001
+ */
+export function createHttpBackend(baseUrl: string): CliBackend {
+  const base = baseUrl.replace(/\/+$/, '');
+  let sessionId: string | undefined;
+
+  async function post(path: string, body?: unknown): Promise<Response> {
+    return fetch(`${base}${path}`, {
+      method: 'POST',
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  return {
+    async start(request, resumeId) {
+      const response = resumeId
+        ? await post(`/api/chat/${encodeURIComponent(resumeId)}`, request)
+        : await post('/api/chat', request);
+      const payload = (await response.json().catch(() => ({}))) as Partial<CliRun> & { error?: string };
+
+      if (!response.ok || !payload.sessionId) {
+        throw new Error(payload.error ?? `Server returned HTTP ${response.status}`);
+      }
+
+      sessionId = payload.sessionId;
+      return { sessionId, workingDir: payload.workingDir ?? '', command: payload.command ?? '' };
+    },
+
+    async *events() {
+      if (!sessionId) throw new Error('No run has been started');
+
+      const response = await fetch(`${base}/api/stream/${encodeURIComponent(sessionId)}`, {
+        headers: { Accept: 'text/event-stream' },
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`Event stream failed with HTTP ${response.status}`);
+      }
+
+      for await (const event of readEventStream(response.body)) {
+        yield event;
+        if (event.type === 'done') break;
+      }
+    },
+
+    async respondToApproval(toolCallId, decision) {
+      const path = `/api/session/${encodeURIComponent(sessionId!)}/approve`;
+      await retryApproval(async () => {
+        const response = await post(path, { toolCallId, ...decision });
+        if (response.status === 404) return false;
+        if (!response.ok) {
+          throw new Error(`Approval failed with HTTP ${response.status}`);
+        }
+        return true;
+      });
+    },
+
+    async stop() {
+      if (sessionId) {
+        await post(`/api/stop/${encodeURIComponent(sessionId)}`).catch(() => undefined);
+      }
+    },
+  };
+}
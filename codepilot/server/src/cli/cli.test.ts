@@ -0,0 +1,244 @@
+/**
+ * CLI tests - argument parsing, output formats, exit codes and the HTTP backend
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { parseCliArgs, CliUsageError, type CliOptions } from './args';
+import { createHttpBackend, type CliBackend } from './backends';
+import { createRenderer } from './render';
+import { runCli, EXIT_CODES, type CliIO } from './run';
+import type { ApprovalDecision } from '../core/tools';
+import type { StreamEvent } from '../types';
+
+function buffer() {
+  let text = '';
+  return { write: (chunk: string) => (text += chunk), get text() { return text; } };
+}
+
+function createIO(overrides: Partial<CliIO> = {}) {
+  const stdout = buffer();
+  const stderr = buffer();
+  const io: CliIO = { stdin: Readable.from([]), stdout, stderr, cwd: process.cwd(), ...overrides };
+  return { io, stdout, stderr };
+}
+
+/** A backend that replays fixed events and records approval responses */
+function fakeBackend(events: StreamEvent[]) {
+  const approvals: Array<{ toolCallId: string; decision: ApprovalDecision }> = [];
+  const starts: unknown[] = [];
+  const backend: CliBackend = {
+    async start(request, resumeId) {
+      starts.push({ ...request, resumeId });
+      return { sessionId: 'session_1', workingDir: '/work', command: request.command ?? 'chat' };
+    },
+    async *events() {
+      yield* events;
+    },
+    async respondToApproval(toolCallId, decision) {
+      approvals.push({ toolCallId, decision });
+    },
+    async stop() {},
+  };
+  return { backend, approvals, starts };
+}
+
+const options = (overrides: Partial<CliOptions> = {}): CliOptions => ({
+  prompt: 'hello',
+  output: 'pretty',
+  verbose: false,
+  ...overrides,
+});
+
+describe('parseCliArgs', () => {
+  it('should parse a run with its options', () => {
+    const parsed = parseCliArgs(
+      ['run', 'explain this', '--command', 'research', '-m', 'gpt-x', '--cwd', 'repo', '-o', 'ndjson'],
+      {}
+    );
+
+    expect(parsed).toMatchObject({
+      prompt: 'explain this',
+      command: 'research',
+      model: 'gpt-x',
+      cwd: 'repo',
+      output: 'ndjson',
+    });
+  });
+
+  it('should take the server URL from the environment', () => {
+    const parsed = parseCliArgs(['run', 'hi'], { CODEPILOT_SERVER_URL: 'http://localhost:3001' });
+
+    expect(parsed).toMatchObject({ server: 'http://localhost:3001' });
+  });
+
+  it('should reject invalid command lines', () => {
+    expect(() => parseCliArgs(['chat', 'hi'], {})).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['run', 'hi', '--command', 'bogus'], {})).toThrow(/Unknown agent command/);
+    expect(() => parseCliArgs(['run', 'hi', '--output', 'xml'], {})).toThrow(/--output/);
+    expect(() => parseCliArgs(['run', 'hi', '--resume', 's1', '--cwd', 'x'], {})).toThrow(/--cwd/);
+    expect(() => parseCliArgs(['run', 'hi', '--unknown'], {})).toThrow(CliUsageError);
+    expect(parseCliArgs(['--help'], {})).toBe('help');
+  });
+});
+
+describe('createRenderer', () => {
+  const run = { sessionId: 'session_1', workingDir: '/work', command: 'chat' };
+  const toolCall = { id: 't1', name: 'read_file', input: { path: 'a.ts' }, status: 'completed' as const };
+
+  it('should write text to stdout and tool activity to stderr', () => {
+    const stdout = buffer();
+    const stderr = buffer();
+    const renderer = createRenderer('pretty', { stdout, stderr });
+
+    renderer.start(run);
+    renderer.event({ type: 'text_delta', text: 'Reading' });
+    renderer.event({ type: 'tool_call', toolCall: { ...toolCall, status: 'pending' } });
+    renderer.event({ type: 'subagent', subagent: { parentToolCallId: 'task', event: { type: 'tool_result', toolCall } } });
+    renderer.event({ type: 'text_delta', text: 'Done.' });
+    renderer.finish(run, true);
+
+    expect(stdout.text).toBe('Reading\nDone.\n');
+    expect(stderr.text).toContain('→ read_file a.ts');
+    expect(stderr.text).toContain('  │ ✓ read_file');
+    expect(stderr.text).toContain('--resume session_1');
+  });
+
+  it('should write one JSON object per line', () => {
+    const stdout = buffer();
+    const renderer = createRenderer('ndjson', { stdout, stderr: buffer() });
+
+    renderer.start(run);
+    renderer.event({ type: 'text_delta', text: 'hi' });
+    renderer.event({ type: 'done' });
+
+    expect(stdout.text.trim().split('\n').map((line) => JSON.parse(line))).toEqual([
+      { type: 'session', ...run },
+      { type: 'text_delta', text: 'hi' },
+      { type: 'done' },
+    ]);
+  });
+});
+
+describe('runCli', () => {
+  it('should exit 0 when the run finishes cleanly', async () => {
+    const { backend, starts } = fakeBackend([{ type: 'text_delta', text: 'ok' }, { type: 'done' }]);
+    const { io, stdout } = createIO();
+
+    const code = await runCli(options({ command: 'research', resume: 'session_0' }), io, backend);
+
+    expect(code).toBe(EXIT_CODES.success);
+    expect(stdout.text).toBe('ok\n');
+    expect(starts[0]).toMatchObject({ message: 'hello', command: 'research', resumeId: 'session_0', workingDir: undefined });
+  });
+
+  it('should exit 1 when the run reports an error', async () => {
+    const { backend } = fakeBackend([{ type: 'error', error: 'Rate limited' }, { type: 'done' }]);
+    const { io, stderr } = createIO();
+
+    const code = await runCli(options(), io, backend);
+
+    expect(code).toBe(EXIT_CODES.failure);
+    expect(stderr.text).toContain('Error: Rate limited');
+  });
+
+  it('should exit 1 when the stream ends before done', async () => {
+    const { backend } = fakeBackend([{ type: 'text_delta', text: 'partial' }]);
+    const { io } = createIO();
+
+    expect(await runCli(options(), io, backend)).toBe(EXIT_CODES.failure);
+  });
+
+  it('should read the prompt from stdin and deny approvals when non-interactive', async () => {
+    const toolCall = { id: 't1', name: 'write_file', input: { path: 'a.ts' }, status: 'pending' as const };
+    const { backend, approvals, starts } = fakeBackend([
+      { type: 'approval_required', approval: { toolCall, policy: 'always_ask' } },
+      { type: 'done' },
+    ]);
+    const { io } = createIO({ stdin: Readable.from(['fix the ', 'bug\n']) });
+
+    await runCli(options({ prompt: '-' }), io, backend);
+
+    expect(starts[0]).toMatchObject({ message: 'fix the bug' });
+    expect(approvals).toEqual([{ toolCallId: 't1', decision: expect.objectContaining({ action: 'deny' }) }]);
+  });
+
+  it('should report a missing plan file as a usage error', async () => {
+    const { backend } = fakeBackend([]);
+    const { io } = createIO();
+
+    await expect(runCli(options({ planFile: 'no-such-plan.md' }), io, backend)).rejects.toThrow(CliUsageError);
+  });
+});
+
+describe('createHttpBackend', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: Array<{ method?: string; url?: string; body: string }> = [];
+  let approveAttempts = 0;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, body });
+
+        if (req.url === '/api/chat') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ sessionId: 'session_http', workingDir: '/repo', command: 'chat' }));
+        } else if (req.url === '/api/chat/missing') {
+          res.writeHead(404, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Session not found or is currently running' }));
+        } else if (req.url === '/api/stream/session_http') {
+          res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+          res.write('event: text_delta\ndata: {"type":"text_delta","text":"hi"}\n\n');
+          res.write('event: error\ndata: {"type":"error","error":"boom"}\n\n');
+          res.end('event: done\ndata: {"type":"done"}\n\n');
+        } else if (req.url === '/api/session/session_http/approve') {
+          // The first attempt arrives before the agent is waiting
+          res.writeHead(++approveAttempts === 1 ? 404 : 200).end('{}');
+        } else {
+          res.writeHead(200).end('{}');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should run against the server and exit 1 on its error event', async () => {
+    const { io, stdout, stderr } = createIO();
+
+    const code = await runCli(options({ server: baseUrl }), io);
+
+    expect(code).toBe(EXIT_CODES.failure);
+    expect(stdout.text).toBe('hi\n');
+    expect(stderr.text).toContain('Error: boom');
+    expect(JSON.parse(requests.find((r) => r.url === '/api/chat')!.body)).toMatchObject({ message: 'hello' });
+  });
+
+  it('should retry approvals until the agent is waiting', async () => {
+    const backend = createHttpBackend(baseUrl);
+    await backend.start({ message: 'hello' });
+
+    await backend.respondToApproval('t1', { action: 'approve' });
+
+    expect(approveAttempts).toBe(2);
+    expect(JSON.parse(requests.at(-1)!.body)).toEqual({ toolCallId: 't1', action: 'approve' });
+  });
+
+  it('should fail to start when the session cannot be resumed', async () => {
+    const { io, stderr } = createIO();
+
+    const code = await runCli(options({ server: baseUrl, resume: 'missing' }), io);
+
+    expect(code).toBe(EXIT_CODES.failure);
+    expect(stderr.text).toContain('Session not found');
+  });
+});
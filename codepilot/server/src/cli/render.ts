@@ -0,0 +1,174 @@
+/**
+ * CLI output - StreamEvents as readable text or as NDJSON.
+ *
+ * Pretty output keeps stdout for the assistant's text so it can be piped; tool
+ * activity, errors and the session summary go to stderr. NDJSON writes one JSON
+ * object per line to stdout: a "session" line first, then every event as streamed.
+ */
+
+import type { StreamEvent, ToolCall } from '../types';
+import type { OutputFormat } from './args';
+import type { CliRun } from './backends';
+
+/**
+ * Anything text can be written to (process.stdout, or a buffer in tests).
+ */
+export interface OutputStream {
+  write(chunk: string): unknown;
+}
+
+export interface RendererOptions {
+  stdout: OutputStream;
+  stderr: OutputStream;
+  /** Use ANSI colors in pretty output */
+  color?: boolean;
+}
+
+/**
+ * Writes a run's events as they arrive.
+ */
+export interface Renderer {
+  start(run: CliRun): void;
+  event(event: StreamEvent): void;
+  finish(run: CliRun, succeeded: boolean): void;
+}
+
+const ANSI = {
+  dim: '\x1b[2m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+  reset: '\x1b[0m',
+};
+
+/** Indent for events from sub-agents, under the task call that started them */
+const SUBAGENT_PREFIX = '  │ ';
+
+/** Longest tool input summary shown on a tool line */
+const MAX_SUMMARY_LENGTH = 80;
+
+/**
+ * One-line summary of a tool call's input: its main argument, or the JSON input.
+ */
+export function summarizeToolInput(toolCall: ToolCall): string {
+  const input = toolCall.input ?? {};
+  const main = ['command', 'path', 'pattern', 'query', 'description', 'code']
+    .map((key) => input[key])
+    .find((value): value is string => typeof value === 'string');
+  const summary = (main ?? (Object.keys(input).length > 0 ? JSON.stringify(input) : '')).split('\n')[0];
+  return summary.length > MAX_SUMMARY_LENGTH ? `${summary.slice(0, MAX_SUMMARY_LENGTH - 1)}…` : summary;
+}
+
+/**
+ * Create the renderer for an output format.
+ */
+export function createRenderer(format: OutputFormat, options: RendererOptions): Renderer {
+  return format === 'ndjson' ? createNdjsonRenderer(options) : createPrettyRenderer(options);
+}
+
+function createNdjsonRenderer({ stdout }: RendererOptions): Renderer {
+  const line = (value: unknown) => stdout.write(`${JSON.stringify(value)}\n`);
+
+  return {
+    start(run) {
+      line({ type: 'session', ...run });
+    },
+    event(event) {
+      line(event);
+    },
+    finish() {},
+  };
+}
+
+function createPrettyRenderer({ stdout, stderr, color = false }: RendererOptions): Renderer {
+  const paint = (style: keyof typeof ANSI, text: string) =>
+    color ? `${ANSI[style]}${text}${ANSI.reset}` : text;
+
+  let midLine = false;
+  let totalTokens = 0;
+
+  function writeText(text: string) {
+    stdout.write(text);
+    midLine = !text.endsWith('\n');
+  }
+
+  /** Status lines start on a fresh line when both streams share a terminal */
+  function status(text: string) {
+    if (midLine) writeText('\n');
+    stderr.write(`${text}\n`);
+  }
+
+  function renderActivity(event: StreamEvent, prefix: string) {
+    switch (event.type) {
+      case 'tool_call':
+        if (event.toolCall) {
+          status(`${prefix}${paint('cyan', `→ ${event.toolCall.name}`)} ${paint('dim', summarizeToolInput(event.toolCall))}`);
+        }
+        break;
+      case 'tool_result':
+        if (event.toolCall?.status === 'error') {
+          status(`${prefix}${paint('red', `✗ ${event.toolCall.name}: ${event.toolCall.error ?? 'failed'}`)}`);
+        } else if (event.toolCall) {
+          status(`${prefix}${paint('dim', `✓ ${event.toolCall.name}`)}`);
+        }
+        break;
+      case 'error':
+        status(`${prefix}${paint('red', `Error: ${event.error ?? 'unknown error'}`)}`);
+        break;
+    }
+  }
+
+  return {
+    start(run) {
+      status(paint('dim', `● ${run.command} · ${run.sessionId} · ${run.workingDir}`));
+    },
+
+    event(event) {
+      switch (event.type) {
+        case 'text_delta':
+          if (event.text) writeText(event.text);
+          break;
+        case 'approval_required':
+          if (event.approval) {
+            status(paint('yellow', `? ${event.approval.toolCall.name} needs approval: ${summarizeToolInput(event.approval.toolCall)}`));
+          }
+          break;
+        case 'compaction':
+          if (event.compaction) {
+            const { tokensBefore, tokensAfter } = event.compaction;
+            status(paint('dim', `↻ Compacted context: ${tokensBefore} → ${tokensAfter} tokens`));
+          }
+          break;
+        case 'usage':
+          totalTokens += event.usage?.total_tokens ?? 0;
+          break;
+        case 'budget_exceeded':
+          if (event.budget) status(paint('yellow', `■ ${event.budget.message}`));
+          break;
+        case 'retry':
+          if (event.retry) {
+            const { fallback, provider, model, delayMs, attempt, maxRetries, status: httpStatus, error } = event.retry;
+            const reason = httpStatus ? `${httpStatus}: ${error}` : error;
+            const message = fallback
+              ? `↪ Falling back to ${provider}/${model} (${reason})`
+              : `↻ Retrying in ${Math.ceil(delayMs / 1000)}s, attempt ${attempt}/${maxRetries} (${reason})`;
+            status(paint('yellow', message));
+          }
+          break;
+        case 'subagent':
+          // Sub-agents show their tool activity; their findings arrive in the task result
+          if (event.subagent) renderActivity(event.subagent.event, SUBAGENT_PREFIX);
+          break;
+        default:
+          renderActivity(event, '');
+      }
+    },
+
+    finish(run, succeeded) {
+      if (midLine) writeText('\n');
+      const outcome = succeeded ? paint('green', '✓ Done') : paint('red', '✗ Failed');
+      stderr.write(`${outcome} ${paint('dim', `· ${totalTokens} tokens · resume with --resume ${run.sessionId}`)}\n`);
+    },
+  };
+}
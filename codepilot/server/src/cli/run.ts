@@ -0,0 +1,146 @@
+/**
+ * `codepilot run` - start or continue a conversation and stream it to the terminal.
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { CliUsageError, type CliOptions } from './args';
+import { createHttpBackend, createLocalBackend, type CliBackend } from './backends';
+import { createRenderer, type OutputStream } from './render';
+import type { ApprovalDecision } from '../core/tools';
+import type { PendingApproval, StreamEvent } from '../types';
+
+/**
+ * Process exit codes
+ */
+export const EXIT_CODES = {
+  success: 0,
+  /** The run reported an error event, or could not be started */
+  failure: 1,
+  usage: 2,
+  /** Stopped with Ctrl-C */
+  interrupted: 130,
+} as const;
+
+/**
+ * The process environment a run talks to.
+ */
+export interface CliIO {
+  stdin: AsyncIterable<string | Buffer>;
+  stdout: OutputStream;
+  stderr: OutputStream;
+  /** Directory relative paths (--cwd, --plan) resolve against */
+  cwd: string;
+  color?: boolean;
+  /**
+   * Ask the user about a tool call. Without it (non-interactive runs) every
+   * approval is denied, so use --approval auto in scripts and CI.
+   */
+  askApproval?: (approval: PendingApproval) => Promise<ApprovalDecision>;
+  /** Aborted to stop the run (e.g. on SIGINT) */
+  signal?: AbortSignal;
+}
+
+const NON_INTERACTIVE_DENIAL: ApprovalDecision = {
+  action: 'deny',
+  reason: 'No one is available to approve tool calls in this non-interactive run',
+};
+
+async function readStdin(stdin: CliIO['stdin']): Promise<string> {
+  let text = '';
+  for await (const chunk of stdin) {
+    text += chunk.toString();
+  }
+  return text;
+}
+
+/**
+ * Run a conversation turn and render its events.
+ * @param backend - Overrides the backend chosen from options.server
+ * @returns The process exit code
+ */
+export async function runCli(options: CliOptions, io: CliIO, backend?: CliBackend): Promise<number> {
+  const prompt = (options.prompt === undefined || options.prompt === '-'
+    ? await readStdin(io.stdin)
+    : options.prompt
+  ).trim();
+  if (!prompt) {
+    throw new CliUsageError('A prompt is required (as an argument or on stdin)');
+  }
+
+  let plan: string | undefined;
+  if (options.planFile) {
+    const planPath = path.resolve(io.cwd, options.planFile);
+    try {
+      plan = await readFile(planPath, 'utf-8');
+    } catch (err) {
+      throw new CliUsageError(`Cannot read plan file ${planPath}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  const runner = backend ?? (options.server ? createHttpBackend(options.server) : createLocalBackend());
+  const renderer = createRenderer(options.output, io);
+
+  let run;
+  try {
+    run = await runner.start(
+      {
+        message: prompt,
+        model: options.model,
+        command: options.command,
+        approvalPolicy: options.approval,
+        plan,
+        // Only new sessions take a working directory; resumed ones keep theirs
+        workingDir: options.resume ? undefined : path.resolve(io.cwd, options.cwd ?? '.'),
+      },
+      options.resume
+    );
+  } catch (err) {
+    io.stderr.write(`Error: ${err instanceof Error ? err.message : String(err)}\n`);
+    return EXIT_CODES.failure;
+  }
+
+  const onAbort = () => void runner.stop();
+  io.signal?.addEventListener('abort', onAbort, { once: true });
+
+  renderer.start(run);
+
+  let failed = false;
+  let finished = false;
+  try {
+    for await (const event of runner.events()) {
+      renderer.event(event);
+      failed ||= event.type === 'error';
+      finished ||= event.type === 'done';
+
+      if (event.type === 'approval_required' && event.approval) {
+        await respondToApproval(runner, io, event);
+      }
+    }
+  } catch (err) {
+    io.stderr.write(`Error: ${err instanceof Error ? err.message : String(err)}\n`);
+    failed = true;
+  } finally {
+    io.signal?.removeEventListener('abort', onAbort);
+  }
+
+  if (!finished && !failed) {
+    io.stderr.write('Error: The event stream ended before the run finished\n');
+    failed = true;
+  }
+
+  renderer.finish(run, !failed);
+
+  if (io.signal?.aborted) return EXIT_CODES.interrupted;
+  return failed ? EXIT_CODES.failure : EXIT_CODES.success;
+}
+
+async function respondToApproval(runner: CliBackend, io: CliIO, event: StreamEvent): Promise<void> {
+  const approval = event.approval!;
+  const decision = io.askApproval ? await io.askApproval(approval) : NON_INTERACTIVE_DENIAL;
+  try {
+    await runner.respondToApproval(approval.toolCall.id, decision);
+  } catch (err) {
+    io.stderr.write(`Error: ${err instanceof Error ? err.message : String(err)}\n`);
+  }
+}
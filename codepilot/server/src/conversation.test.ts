@@ -0,0 +1,91 @@
+/**
+ * Conversation runner tests - whole runs replayed from cassettes, persisted to an in-memory database
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { startConversation, type ConversationRequest } from './conversation';
+import { getMessages, getSessionInfo, getSessionPlan } from './session';
+import { searchHistory } from './search';
+import { listPlans } from './plans';
+import { closeDb } from './db';
+import type { StreamEvent } from './types';
+
+const CASSETTES = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../test/fixtures/cassettes');
+
+process.env.DATABASE_PATH = ':memory:';
+process.env.LLM_PROVIDER = 'mock';
+
+/**
+ * Start a conversation replaying the given cassette and wait for the run to finish
+ */
+async function runConversation(cassette: string, request: ConversationRequest & { workingDir: string }) {
+  process.env.MOCK_CASSETTE = path.join(CASSETTES, cassette);
+  const { session } = await startConversation(request);
+
+  const events: StreamEvent[] = [];
+  for await (const event of session.eventLog) {
+    events.push(event);
+  }
+  return { sessionId: session.id, events };
+}
+
+describe('conversation runner', () => {
+  let workingDir: string;
+
+  beforeAll(() => {
+    workingDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codepilot-conversation-'));
+    fs.writeFileSync(path.join(workingDir, 'notes.txt'), 'remember the milk\n');
+  });
+
+  afterAll(() => {
+    closeDb();
+    fs.rmSync(workingDir, { recursive: true, force: true });
+  });
+
+  it('should persist the user message, tool calls, tool results and final answer', async () => {
+    const { sessionId, events } = await runConversation('chat-read-file.json', {
+      message: 'What do my notes say?',
+      command: 'chat',
+      approvalPolicy: 'auto',
+      workingDir,
+    });
+
+    expect(events.filter((e) => e.type === 'error')).toEqual([]);
+    expect(events.at(-1)).toEqual({ type: 'done' });
+
+    const messages = getMessages(sessionId);
+    expect(messages.map((m) => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant', 'tool', 'assistant']);
+    expect(messages[0]).toMatchObject({ role: 'user', content: 'What do my notes say?' });
+    expect(messages[3]).toMatchObject({
+      content: 'Let me read the notes.',
+      tool_calls: [{ id: 'call_read', function: { name: 'read_file', arguments: '{"path":"notes.txt"}' } }],
+    });
+    expect(messages[4]).toMatchObject({ tool_call_id: 'call_read' });
+    expect(String(messages[4].content)).toContain('remember the milk');
+    expect(messages[5]).toMatchObject({ role: 'assistant', content: 'Your notes say to remember the milk.' });
+
+    expect(getSessionInfo(sessionId)).toMatchObject({ status: 'completed', totalTokens: 1520 + 1725 + 1810 });
+
+    // The file is named only in the tool call's arguments, which the history index covers
+    const hits = searchHistory('notes.txt').filter((hit) => hit.sessionId === sessionId);
+    expect(hits.find((hit) => hit.role === 'assistant')?.snippet).toContain('"path":"<mark>notes.txt</mark>"');
+  });
+
+  it('should extract the plan from a create_plan run and save it to the session and a file', async () => {
+    const { sessionId } = await runConversation('create-plan.json', {
+      message: 'Plan a shopping list feature',
+      command: 'create_plan',
+      workingDir,
+    });
+
+    const plan = getSessionPlan(sessionId);
+    expect(plan).toContain('## Implementation Steps');
+
+    const plans = await listPlans(workingDir);
+    expect(plans).toHaveLength(1);
+    expect(plans[0]).toMatchObject({ title: 'Add a Shopping List', sessionId });
+  });
+});
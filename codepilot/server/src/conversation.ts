@@ -0,0 +1,434 @@
+/**
+ * Conversation runner
+ * Starts and continues agent conversations for a session: resolves the command,
+ * persists messages to SQLite as events stream, and pushes every event to the
+ * session's event queue. Used by the chat routes and the CLI.
+ */
+
+import {
+  createSession,
+  updateSessionStatus,
+  getSession,
+  persistMessage,
+  replaceMessages,
+  incrementTokens,
+  getMessages,
+  prepareSessionForContinuation,
+  setSessionPlan,
+  getSessionPlan,
+  hasSessionPlan,
+  setSessionApprovalPolicy,
+  setSessionCommand,
+  getSessionCommand,
+  requestToolApproval,
+  type SessionState,
+} from './session';
+import { runAgentLoop } from './agent/index';
+import { createCheckpoint, linkCheckpoints } from './checkpoints';
+import { recordUsage, checkBudget } from './usage';
+import { userMessage, assistantMessage, assistantToolCallMessage, toolResultMessage } from './agent/messages';
+import { resolveCommand, getCommand, getSystemPrompt, getToolPolicy, type AgentCommand, type CommandId } from './agent/commands';
+import { savePlan, extractTitleFromContent, detectPlanType } from './plans';
+import { fromOpenAIMessages, toOpenAIMessages, type CoreMessage } from './providers';
+import type { ApprovalPolicy } from './core/tools';
+import type { ToolCall } from './types';
+
+/**
+ * A user message to run in a session.
+ */
+export interface ConversationRequest {
+  message: string;
+  model?: string;
+  /** Agent command (detected from the message when omitted) */
+  command?: string;
+  approvalPolicy?: ApprovalPolicy;
+  /**
+   * Plan to work from (e.g. loaded from a plan file). It becomes the session's
+   * current plan, and the command defaults to implementing it.
+   */
+  plan?: string;
+}
+
+/**
+ * A conversation run that has been started; its events are appended to session.eventLog.
+ */
+export interface ConversationRun {
+  session: SessionState;
+  command: AgentCommand;
+}
+
+/**
+ * Start a new conversation in a new session.
+ * Returns immediately - the agent loop runs in the background.
+ */
+export async function startConversation(
+  request: ConversationRequest & { workingDir?: string }
+): Promise<ConversationRun> {
+  const { message, workingDir, model, command, approvalPolicy, plan } = request;
+
+  // Create a new session
+  const session = createSession(workingDir, approvalPolicy);
+  if (plan) {
+    setSessionPlan(session.id, plan);
+  }
+
+  // Resolve the command (includes detection and classification)
+  const { command: resolvedCommand, cleanedMessage } = await resolveCommand(
+    (command ?? (plan ? 'implement_complex' : null)) as CommandId | null,
+    message,
+    Boolean(plan) // New session has no plan unless one was given
+  );
+
+  // Mark session as running
+  updateSessionStatus(session.id, 'running');
+
+  // Persist the user message immediately
+  persistMessage(session.id, userMessage(message));
+
+  // Get system prompt for the command
+  const systemPrompt = getSystemPrompt(resolvedCommand.id, plan ?? null);
+
+  // Spawn the agent loop with command-specific system prompt
+  runAgentLoopWithPersistence(
+    session,
+    cleanedMessage,
+    session.workingDir,
+    undefined,
+    model,
+    systemPrompt,
+    resolvedCommand.id
+  );
+
+  return { session, command: resolvedCommand };
+}
+
+/**
+ * Continue an existing conversation with a new user message.
+ * @returns null if the session doesn't exist or is currently running
+ */
+export async function continueConversation(
+  sessionId: string,
+  request: ConversationRequest
+): Promise<ConversationRun | null> {
+  const { message, model, command, approvalPolicy, plan } = request;
+
+  // Get and prepare session for continuation
+  const session = prepareSessionForContinuation(sessionId);
+  if (!session) {
+    return null;
+  }
+
+  if (approvalPolicy) {
+    setSessionApprovalPolicy(session.id, approvalPolicy);
+  }
+  if (plan) {
+    setSessionPlan(session.id, plan);
+  }
+
+  // Check if session has a plan (for command resolution)
+  const hasPlan = hasSessionPlan(session.id);
+  const currentPlan = hasPlan ? getSessionPlan(session.id) : null;
+
+  // Resolve the command (includes detection and classification)
+  const { command: resolvedCommand, cleanedMessage } = await resolveCommand(
+    (command ?? (plan ? 'implement_complex' : null)) as CommandId | null,
+    message,
+    hasPlan
+  );
+
+  // Mark session as running
+  updateSessionStatus(session.id, 'running');
+
+  // Persist the new user message
+  persistMessage(session.id, userMessage(message));
+
+  // Get existing conversation history from database and convert to CoreMessage format
+  // The DB stores messages in OpenAI format, but the agent loop expects CoreMessage format
+  const openAIHistory = getMessages(session.id);
+  const conversationHistory = fromOpenAIMessages(openAIHistory);
+
+  // Get system prompt for the command (inject plan if relevant)
+  const systemPrompt = getSystemPrompt(resolvedCommand.id, currentPlan);
+
+  // Spawn the agent loop with history
+  runAgentLoopWithPersistence(
+    session,
+    cleanedMessage,
+    session.workingDir,
+    conversationHistory,
+    model,
+    systemPrompt,
+    resolvedCommand.id
+  );
+
+  return { session, command: resolvedCommand };
+}
+
+/** Sent when the interrupted run had stopped partway through an answer */
+const RESUME_PROMPT = 'Your previous response was interrupted. Continue the task from where you left off.';
+
+/**
+ * Resume a run that a server restart interrupted, in the same command mode.
+ * The history ends at a consistent boundary after startup recovery; when it ends
+ * with assistant text, the agent is asked to carry on, otherwise it picks up
+ * after the last user message or tool results.
+ * @returns null if the session doesn't exist or wasn't interrupted
+ */
+export async function resumeConversation(
+  sessionId: string,
+  request: Pick<ConversationRequest, 'model' | 'approvalPolicy'> = {}
+): Promise<ConversationRun | null> {
+  if (getSession(sessionId)?.status !== 'interrupted') {
+    return null;
+  }
+
+  const session = prepareSessionForContinuation(sessionId);
+  if (!session) {
+    return null;
+  }
+
+  if (request.approvalPolicy) {
+    setSessionApprovalPolicy(session.id, request.approvalPolicy);
+  }
+
+  const command = getCommand((getSessionCommand(session.id) ?? 'chat') as CommandId) ?? getCommand('chat')!;
+
+  // Mark session as running
+  updateSessionStatus(session.id, 'running');
+
+  const openAIHistory = getMessages(session.id);
+  const conversationHistory = fromOpenAIMessages(openAIHistory);
+
+  let prompt: string | undefined;
+  if (openAIHistory.at(-1)?.role === 'assistant') {
+    prompt = RESUME_PROMPT;
+    persistMessage(session.id, userMessage(prompt));
+  }
+
+  const systemPrompt = getSystemPrompt(command.id, getSessionPlan(session.id));
+
+  runAgentLoopWithPersistence(
+    session,
+    prompt,
+    session.workingDir,
+    conversationHistory,
+    request.model,
+    systemPrompt,
+    command.id
+  );
+
+  return { session, command };
+}
+
+/**
+ * Run the agent loop with message persistence
+ * Tracks streaming state and persists messages to database
+ */
+function runAgentLoopWithPersistence(
+  session: ReturnType<typeof getSession>,
+  userPrompt: string | undefined,
+  workingDir: string,
+  conversationHistory: CoreMessage[] | undefined,
+  model?: string,
+  systemPrompt?: string,
+  commandId?: CommandId
+): void {
+  if (!session) return;
+
+  // Remember the mode, so an interrupted run can be resumed in it
+  if (commandId) {
+    setSessionCommand(session.id, commandId);
+  }
+
+  // State for tracking streaming content
+  let textAccumulator = '';
+  let pendingToolCalls: ToolCall[] = [];
+  let hasError = false;
+
+  // Fire-and-forget async loop
+  (async () => {
+    try {
+      for await (const event of runAgentLoop({
+        userPrompt,
+        workingDir,
+        conversationHistory,
+        signal: session.abortController.signal,
+        model,
+        systemPrompt,
+        toolPolicy: commandId ? getToolPolicy(commandId) : undefined,
+        approvalPolicy: session.approvalPolicy,
+        // Snapshot files before each write so the session can be rewound
+        beforeMutation: async (invocation, paths) => {
+          await createCheckpoint(session.id, invocation, paths, workingDir);
+        },
+        requestApproval: (request) => requestToolApproval(session.id, request.toolCall.id),
+        checkBudget: (estimate) => checkBudget(session.id, estimate),
+        // Persist compacted history (the system prompt is rebuilt on each run, so it isn't stored)
+        onCompaction: (messages) => {
+          replaceMessages(
+            session.id,
+            toOpenAIMessages(messages.filter((m) => m.role !== 'system'))
+          );
+        },
+      })) {
+        // Append event to the log SSE subscribers follow
+        session.eventLog.append(event);
+
+        // Track state for persistence
+        switch (event.type) {
+          case 'text_delta':
+            // Accumulate text content
+            if (event.text) {
+              textAccumulator += event.text;
+            }
+            break;
+
+          case 'tool_call':
+            // A tool call is starting - if we have accumulated text, persist it first
+            if (textAccumulator && pendingToolCalls.length === 0) {
+              // This is text before any tool calls in this turn
+              // Don't persist yet - wait for all tool calls to collect
+            }
+            // Collect tool calls
+            if (event.toolCall) {
+              pendingToolCalls.push(event.toolCall);
+            }
+            break;
+
+          case 'tool_result':
+            // Tool execution completed
+            if (event.toolCall) {
+              // If this is the first tool result and we have pending tool calls,
+              // persist the assistant message with tool calls
+              if (pendingToolCalls.length > 0) {
+                // Find if this tool call is in our pending list
+                const matchIndex = pendingToolCalls.findIndex(tc => tc.id === event.toolCall?.id);
+                if (matchIndex !== -1) {
+                  // The result carries the input the call ran with (the user may have edited it)
+                  pendingToolCalls[matchIndex] = { ...pendingToolCalls[matchIndex], input: event.toolCall.input };
+                  // Persist the assistant message with ALL collected tool calls
+                  const assistantMsg = assistantToolCallMessage(
+                    pendingToolCalls.map(tc => ({
+                      id: tc.id,
+                      name: tc.name,
+                      arguments: JSON.stringify(tc.input),
+                    })),
+                    textAccumulator || null
+                  );
+                  const messageId = persistMessage(session.id, assistantMsg);
+                  linkCheckpoints(session.id, pendingToolCalls.map(tc => tc.id), messageId);
+
+                  // Reset accumulators after persisting assistant message
+                  textAccumulator = '';
+                  pendingToolCalls = [];
+                }
+              }
+
+              // Persist the tool result message
+              const resultContent = event.toolCall.error || event.toolCall.result;
+              const toolMsg = toolResultMessage(
+                event.toolCall.id,
+                resultContent,
+                event.toolCall.status === 'error'
+              );
+              persistMessage(session.id, toolMsg);
+            }
+            break;
+
+          case 'usage':
+            // Track token usage, and record the call for cost accounting
+            if (event.usage) {
+              incrementTokens(session.id, event.usage.total_tokens);
+              recordUsage(session.id, event.usage);
+            }
+            break;
+
+          case 'budget_exceeded':
+            console.log(`[Chat] Session ${session.id} stopped: ${event.budget?.message}`);
+            break;
+
+          case 'error':
+            hasError = true;
+            break;
+
+          case 'done':
+            // Persist any remaining text as final assistant message
+            if (textAccumulator) {
+              persistMessage(session.id, assistantMessage(textAccumulator));
+
+              // If this was a create_plan, revise_plan, or research command, store and save the plan
+              if (commandId === 'create_plan' || commandId === 'revise_plan' || commandId === 'research') {
+                // Extract plan from the response (look for markdown structure)
+                const planContent = extractPlanFromResponse(textAccumulator);
+                if (planContent) {
+                  // Store in session database
+                  setSessionPlan(session.id, planContent);
+
+                  // Also save as a file for cross-session access
+                  try {
+                    const title = extractTitleFromContent(planContent);
+                    const type = commandId === 'research' ? 'research' : detectPlanType(planContent);
+                    await savePlan(workingDir, title, planContent, {
+                      type,
+                      sessionId: session.id,
+                      tags: [],
+                    });
+                    console.log(`[Chat] Saved plan to file: ${title}`);
+                  } catch (saveErr) {
+                    console.error('[Chat] Failed to save plan to file:', saveErr);
+                  }
+                }
+              }
+
+              textAccumulator = '';
+            }
+            // Update session status
+            updateSessionStatus(session.id, hasError ? 'failed' : 'completed');
+            break;
+        }
+      }
+    } catch (err) {
+      // Handle unexpected errors in the agent loop
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error(`[Chat] Agent loop error for session ${session.id}:`, errorMessage);
+      try {
+        session.eventLog.append({ type: 'error', error: errorMessage });
+        session.eventLog.append({ type: 'done' });
+        updateSessionStatus(session.id, 'failed');
+      } catch (queueError) {
+        console.error(`[Chat] Failed to push error events for session ${session.id}:`, queueError);
+      }
+    } finally {
+      // Always close the event log when done
+      session.eventLog.close();
+    }
+  })();
+}
+
+/**
+ * Extract plan content from an agent's response
+ * Looks for structured markdown content that represents a plan
+ */
+function extractPlanFromResponse(response: string): string | null {
+  // If the response contains plan-like structure, use the whole thing
+  // Otherwise, try to extract just the plan section
+  
+  const hasPlanStructure = 
+    /^##?\s+(overview|plan|implementation|steps|files)/im.test(response) ||
+    (response.match(/^\d+\.\s+/gm) || []).length >= 3 ||
+    response.includes('## Implementation Steps') ||
+    response.includes('## Files to Modify');
+
+  if (hasPlanStructure) {
+    return response;
+  }
+
+  // Try to extract a plan section if present
+  const planMatch = response.match(/## Plan[\s\S]*?(?=\n## [^P]|$)/i);
+  if (planMatch) {
+    return planMatch[0];
+  }
+
+  // No clear plan structure found
+  return null;
+}
@@ -0,0 +1,156 @@
+/**
+ * Context compaction unit tests
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { compactMessages, getCompactionConfig, shouldCompact } from './compactor';
+import { dropStaleReads, elideToolResults, summarizeOlderTurns, SUMMARY_PREFIX } from './strategies';
+import type { CoreMessage } from '../../providers/types';
+
+/** Token counter stand-in: one token per character */
+const countChars = async (messages: CoreMessage[]) => JSON.stringify(messages).length;
+
+function toolCall(id: string, name: string, args: Record<string, unknown>): CoreMessage {
+  return {
+    role: 'assistant',
+    content: [{ type: 'tool_call', id, name, arguments: JSON.stringify(args) }],
+  };
+}
+
+function toolResult(id: string, content: string): CoreMessage {
+  return { role: 'user', content: [{ type: 'tool_result', toolUseId: id, content }] };
+}
+
+function resultContent(message: CoreMessage): string {
+  const block = (message.content as Array<{ type: string; content?: string }>)[0];
+  return block.content ?? '';
+}
+
+describe('dropStaleReads', () => {
+  it('should replace reads of files that were edited later', () => {
+    const messages: CoreMessage[] = [
+      toolCall('r1', 'read_file', { path: 'a.ts' }),
+      toolResult('r1', 'old contents of a'),
+      toolCall('r2', 'read_file', { path: 'b.ts' }),
+      toolResult('r2', 'contents of b'),
+      toolCall('e1', 'edit_file', { path: 'a.ts', old_str: 'x', new_str: 'y' }),
+      toolResult('e1', 'ok'),
+    ];
+
+    const result = dropStaleReads(messages);
+
+    expect(resultContent(result[1])).toContain('Stale read_file output for "a.ts"');
+    expect(result[3]).toBe(messages[3]);
+    expect(result[5]).toBe(messages[5]);
+  });
+
+  it('should keep reads made after the last edit', () => {
+    const messages: CoreMessage[] = [
+      toolCall('e1', 'write_file', { path: 'a.ts', content: 'new' }),
+      toolResult('e1', 'ok'),
+      toolCall('r1', 'read_file', { path: 'a.ts' }),
+      toolResult('r1', 'new'),
+    ];
+
+    expect(dropStaleReads(messages)).toEqual(messages);
+  });
+});
+
+describe('elideToolResults', () => {
+  it('should truncate large results outside the recent window only', () => {
+    const big = 'x'.repeat(500);
+    const messages: CoreMessage[] = [
+      toolCall('c1', 'grep', {}),
+      toolResult('c1', big),
+      toolCall('c2', 'grep', {}),
+      toolResult('c2', big),
+    ];
+
+    const result = elideToolResults(messages, { keepRecentMessages: 2, maxToolResultChars: 100 });
+
+    expect(resultContent(result[1])).toContain('400 characters elided');
+    expect(resultContent(result[1]).startsWith('x'.repeat(100))).toBe(true);
+    expect(resultContent(result[3])).toBe(big);
+  });
+});
+
+describe('summarizeOlderTurns', () => {
+  it('should summarize older messages without splitting tool call/result pairs', async () => {
+    const messages: CoreMessage[] = [
+      { role: 'system', content: 'system prompt' },
+      { role: 'user', content: 'Fix the bug' },
+      toolCall('c1', 'read_file', { path: 'a.ts' }),
+      toolResult('c1', 'contents'),
+      toolCall('c2', 'edit_file', { path: 'a.ts' }),
+      toolResult('c2', 'ok'),
+    ];
+    const summarize = vi.fn(async () => 'User asked to fix a bug in a.ts.');
+
+    // keepRecentMessages: 1 would start the kept portion at a tool result,
+    // so the cut moves back to the assistant message that made the call
+    const result = await summarizeOlderTurns(messages, { keepRecentMessages: 1 }, summarize);
+
+    expect(summarize).toHaveBeenCalledWith(messages.slice(1, 4));
+    expect(result).toEqual([
+      messages[0],
+      { role: 'user', content: `${SUMMARY_PREFIX}\n\nUser asked to fix a bug in a.ts.` },
+      messages[4],
+      messages[5],
+    ]);
+  });
+});
+
+describe('compactMessages', () => {
+  const history: CoreMessage[] = [
+    { role: 'system', content: 'system prompt' },
+    { role: 'user', content: 'Refactor a.ts' },
+    toolCall('r1', 'read_file', { path: 'a.ts' }),
+    toolResult('r1', 'a'.repeat(3000)),
+    toolCall('e1', 'edit_file', { path: 'a.ts' }),
+    toolResult('e1', 'ok'),
+    { role: 'assistant', content: 'Done.' },
+    { role: 'user', content: 'Thanks, now b.ts' },
+  ];
+
+  it('should stop once the target is reached', async () => {
+    const config = getCompactionConfig(undefined, { contextWindow: 2000, target: 0.5, keepRecentMessages: 2 });
+    const summarize = vi.fn(async () => 'summary');
+
+    const result = await compactMessages(history, { config, summarize, countTokens: countChars });
+
+    expect(result.compacted).toBe(true);
+    expect(result.strategies).toEqual(['drop_stale_reads']);
+    expect(result.tokensAfter).toBeLessThan(result.tokensBefore);
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it('should fall through to summarization and survive summarizer failures', async () => {
+    const config = getCompactionConfig(undefined, { contextWindow: 100, target: 0.5, keepRecentMessages: 2 });
+
+    const failed = await compactMessages(history, {
+      config,
+      summarize: async () => {
+        throw new Error('rate limited');
+      },
+      countTokens: countChars,
+    });
+    expect(failed.strategies).toEqual(['drop_stale_reads']);
+
+    const summarized = await compactMessages(history, {
+      config,
+      summarize: async () => 'summary',
+      countTokens: countChars,
+    });
+    expect(summarized.strategies).toEqual(['drop_stale_reads', 'summarize']);
+    expect(summarized.messagesAfter).toBe(4);
+  });
+});
+
+describe('shouldCompact', () => {
+  it('should trigger at the configured fraction of the context window', () => {
+    const config = getCompactionConfig(undefined, { contextWindow: 1000, threshold: 0.8 });
+
+    expect(shouldCompact(799, config)).toBe(false);
+    expect(shouldCompact(800, config)).toBe(true);
+    expect(shouldCompact(900, { ...config, enabled: false })).toBe(false);
+  });
+});
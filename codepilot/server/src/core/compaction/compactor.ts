@@ -0,0 +1,266 @@
+/**
+ * Compactor - decides when to compact and runs strategies until the
+ * conversation fits the target size.
+ */
+
+import type { CoreMessage, ProviderAdapter, ProviderId, TokenUsage } from '../../providers/types';
+import { ToolRegistry } from '../tools';
+import { findModel } from '../models';
+import { countTokens as tiktokenCount } from '../../providers/token-counter';
+import { dropStaleReads, elideToolResults, summarizeOlderTurns } from './strategies';
+import type {
+  CompactionConfig,
+  CompactionResult,
+  CompactionStrategyName,
+  Summarizer,
+  TokenCounter,
+} from './types';
+
+/** Context window used when the model's size is unknown */
+const DEFAULT_CONTEXT_WINDOW = 200000;
+
+/** Context window assumed for local models (override with LOCAL_CONTEXT_WINDOW) */
+const DEFAULT_LOCAL_CONTEXT_WINDOW = 8192;
+
+/** Maximum characters of a single block included in the summarization transcript */
+const MAX_TRANSCRIPT_BLOCK_CHARS = 2000;
+
+const SUMMARY_SYSTEM_PROMPT = `You compress coding-agent conversations so the agent can continue working with less context.
+
+Write a concise summary of the transcript you are given. Preserve:
+- The user's goals and any instructions or constraints they gave
+- Files that were read, created or modified, and the important facts learned about them
+- Decisions made, commands run and their outcomes, and errors encountered
+- What remains to be done
+
+Write in plain prose or short bullet lists. Do not invent details. Do not address the user.`;
+
+/**
+ * Default strategy order (cheapest first).
+ */
+const ALL_STRATEGIES: CompactionStrategyName[] = ['drop_stale_reads', 'elide_tool_results', 'summarize'];
+
+/**
+ * Get the context window for a provider when the model catalog does not say otherwise.
+ */
+export function getDefaultContextWindow(providerId?: ProviderId): number {
+  if (providerId === 'local') {
+    return process.env.LOCAL_CONTEXT_WINDOW
+      ? parseInt(process.env.LOCAL_CONTEXT_WINDOW, 10)
+      : DEFAULT_LOCAL_CONTEXT_WINDOW;
+  }
+  return DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Cheap model used for summaries when COMPACTION_MODEL is not set.
+ * Returns undefined to use the provider's default model.
+ */
+function getDefaultSummaryModel(providerId?: ProviderId): string | undefined {
+  switch (providerId) {
+    case 'openrouter':
+      return process.env.OPENROUTER_MODEL_HAIKU || 'anthropic/claude-haiku-4.5';
+    case 'anthropic':
+      return 'claude-haiku-4-5';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build the compaction config from the model catalog, environment variables and overrides.
+ * The context window is the catalog's for the model, falling back to the provider default.
+ *
+ * Environment variables:
+ * - COMPACTION_ENABLED: set to "false" to disable (default: enabled)
+ * - COMPACTION_THRESHOLD: fraction of the context window that triggers compaction (default: 0.8)
+ * - COMPACTION_TARGET: fraction of the context window to compact down to (default: 0.5)
+ * - COMPACTION_MODEL: model used for summaries (default: a cheap model for the provider)
+ */
+export function getCompactionConfig(
+  providerId?: ProviderId,
+  overrides: Partial<CompactionConfig> = {},
+  modelId?: string
+): CompactionConfig {
+  return {
+    enabled: process.env.COMPACTION_ENABLED !== 'false',
+    contextWindow: findModel(modelId, providerId)?.contextWindow ?? getDefaultContextWindow(providerId),
+    threshold: parseFraction(process.env.COMPACTION_THRESHOLD, 0.8),
+    target: parseFraction(process.env.COMPACTION_TARGET, 0.5),
+    keepRecentMessages: 6,
+    maxToolResultChars: 2000,
+    strategies: ALL_STRATEGIES,
+    summaryModel: process.env.COMPACTION_MODEL || getDefaultSummaryModel(providerId),
+    ...overrides,
+  };
+}
+
+/**
+ * Check whether a conversation of this size should be compacted.
+ */
+export function shouldCompact(contextTokens: number, config: CompactionConfig): boolean {
+  return config.enabled && contextTokens >= config.contextWindow * config.threshold;
+}
+
+/**
+ * Compact a conversation.
+ * Strategies are applied in order until the token count drops to the target.
+ * The summarize strategy is skipped if no summarizer is provided or it fails.
+ */
+export async function compactMessages(
+  messages: CoreMessage[],
+  options: {
+    config: CompactionConfig;
+    summarize?: Summarizer;
+    countTokens?: TokenCounter;
+  }
+): Promise<CompactionResult> {
+  const { config, summarize } = options;
+  const count = options.countTokens ?? tiktokenCount;
+  const targetTokens = config.contextWindow * config.target;
+
+  const tokensBefore = await count(messages);
+  let current = messages;
+  let tokens = tokensBefore;
+  const applied: CompactionStrategyName[] = [];
+
+  for (const strategy of config.strategies) {
+    if (tokens <= targetTokens) break;
+
+    let next = current;
+    switch (strategy) {
+      case 'drop_stale_reads':
+        next = dropStaleReads(current);
+        break;
+      case 'elide_tool_results':
+        next = elideToolResults(current, config);
+        break;
+      case 'summarize':
+        if (!summarize) continue;
+        try {
+          next = await summarizeOlderTurns(current, config, summarize);
+        } catch (err) {
+          console.warn('[Compaction] Summarization failed:', err instanceof Error ? err.message : err);
+          continue;
+        }
+        break;
+    }
+
+    if (!sameContent(next, current)) {
+      current = next;
+      tokens = await count(current);
+      applied.push(strategy);
+    }
+  }
+
+  return {
+    messages: current,
+    compacted: applied.length > 0,
+    strategies: applied,
+    tokensBefore,
+    tokensAfter: tokens,
+    messagesBefore: messages.length,
+    messagesAfter: current.length,
+  };
+}
+
+/**
+ * Hooks into the summarizer's model call, so it is budgeted and recorded like any other.
+ */
+export interface SummarizerHooks {
+  /** Called with the counted summary request before it is sent; throw to skip summarizing */
+  beforeCall?: (promptTokens: number) => void;
+  /** Called with the call's usage and the provider and model that served it */
+  onUsage?: (usage: TokenUsage, servedBy: { provider: ProviderId; model: string }) => void;
+}
+
+/**
+ * Create a summarizer that asks the provider for a summary.
+ * The transcript is sent as plain text with no tools, so any model can handle it.
+ */
+export function createSummarizer(
+  adapter: ProviderAdapter,
+  model?: string,
+  signal?: AbortSignal,
+  hooks: SummarizerHooks = {}
+): Summarizer {
+  return async (messages) => {
+    const request: CoreMessage[] = [
+      { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+      { role: 'user', content: `Summarize this conversation:\n\n${renderTranscript(messages)}` },
+    ];
+    hooks.beforeCall?.(await tiktokenCount(request));
+
+    let summary = '';
+    // Who serves the call - changes if the adapter falls back to another model
+    let provider: ProviderId = adapter.id;
+    let servedModel = model ?? adapter.defaultModel;
+
+    for await (const event of adapter.sendTurn({
+      messages: request,
+      registry: new ToolRegistry(),
+      loadedTools: new Set(),
+      model,
+      signal,
+    })) {
+      if (event.type === 'text_delta') {
+        summary += event.text;
+      } else if (event.type === 'retry' && event.retry.fallback) {
+        provider = event.retry.provider;
+        servedModel = event.retry.model;
+      } else if (event.type === 'usage') {
+        hooks.onUsage?.(event.usage, { provider, model: servedModel });
+      } else if (event.type === 'error') {
+        throw new Error(event.error);
+      }
+    }
+
+    return summary.trim();
+  };
+}
+
+/**
+ * Render messages as a readable transcript for summarization.
+ */
+function renderTranscript(messages: CoreMessage[]): string {
+  return messages
+    .map((message) => {
+      if (typeof message.content === 'string') {
+        return `## ${message.role}\n${truncate(message.content)}`;
+      }
+
+      const parts = message.content.map((block) => {
+        switch (block.type) {
+          case 'text':
+            return truncate(block.text);
+          case 'tool_call':
+            return `[tool call ${block.name}(${truncate(block.arguments)})]`;
+          case 'tool_result':
+            return `[tool result${block.isError ? ' (error)' : ''}]\n${truncate(block.content)}`;
+        }
+      });
+      return `## ${message.role}\n${parts.join('\n')}`;
+    })
+    .join('\n\n');
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TRANSCRIPT_BLOCK_CHARS
+    ? `${text.slice(0, MAX_TRANSCRIPT_BLOCK_CHARS)} [...]`
+    : text;
+}
+
+/**
+ * Parse a 0-1 fraction from an env var, falling back on invalid values.
+ */
+function parseFraction(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseFloat(value) : NaN;
+  return parsed > 0 && parsed <= 1 ? parsed : fallback;
+}
+
+/**
+ * Strategies return new arrays even when nothing changed; compare by reference per message.
+ */
+function sameContent(a: CoreMessage[], b: CoreMessage[]): boolean {
+  return a.length === b.length && a.every((message, i) => message === b[i]);
+}
@@ -0,0 +1,25 @@
+/**
+ * Context compaction module - keeps long conversations within the model's context window.
+ */
+
+// Types
+export type {
+  CompactionStrategyName,
+  CompactionConfig,
+  CompactionResult,
+  Summarizer,
+  TokenCounter,
+} from './types';
+
+// Strategies
+export { dropStaleReads, elideToolResults, summarizeOlderTurns, SUMMARY_PREFIX } from './strategies';
+
+// Compactor
+export {
+  compactMessages,
+  createSummarizer,
+  getCompactionConfig,
+  getDefaultContextWindow,
+  shouldCompact,
+  type SummarizerHooks,
+} from './compactor';
@@ -0,0 +1,182 @@
+/**
+ * Compaction strategies.
+ * Each strategy returns a new message array and never mutates its input.
+ * Tool call / tool result pairing is always preserved, since providers
+ * reject results without a matching call.
+ */
+
+import type { CoreMessage, CoreContentBlock, CoreToolResultBlock } from '../../providers/types';
+import type { Summarizer } from './types';
+import { parsePatch, getPatchPaths } from '../tools/patch';
+
+/** Tools whose output is a file's content */
+const READ_TOOLS = new Set(['read_file']);
+
+/** Tools that modify a file given a `path` argument */
+const WRITE_TOOLS = new Set(['write_file', 'edit_file']);
+
+/** Tools that modify the files named in a `patch` argument */
+const PATCH_TOOLS = new Set(['apply_patch']);
+
+/** Prefix for the summary message inserted by summarizeOlderTurns */
+export const SUMMARY_PREFIX = '[Summary of earlier conversation - older messages were compacted to save context]';
+
+/**
+ * Replace read_file outputs for files that were modified later in the conversation.
+ * The later edit (or a fresh read) is what matters, so the old content is dead weight.
+ */
+export function dropStaleReads(messages: CoreMessage[]): CoreMessage[] {
+  // Map tool call ID -> { name, path } and record the last index each path was modified
+  const calls = new Map<string, { name: string; path?: string }>();
+  const lastWrite = new Map<string, number>();
+
+  messages.forEach((message, index) => {
+    for (const block of blocksOf(message)) {
+      if (block.type !== 'tool_call') continue;
+      const filePath = pathArgument(block.arguments);
+      calls.set(block.id, { name: block.name, path: filePath });
+      if (filePath && WRITE_TOOLS.has(block.name)) {
+        lastWrite.set(filePath, index);
+      }
+      if (PATCH_TOOLS.has(block.name)) {
+        for (const patchedPath of patchPathsArgument(block.arguments)) {
+          lastWrite.set(patchedPath, index);
+        }
+      }
+    }
+  });
+
+  return mapToolResults(messages, (block, index) => {
+    const call = calls.get(block.toolUseId);
+    if (!call?.path || !READ_TOOLS.has(call.name) || block.isError) return block;
+
+    const writtenAt = lastWrite.get(call.path);
+    if (writtenAt === undefined || writtenAt <= index) return block;
+
+    return {
+      ...block,
+      content: `[Stale ${call.name} output for "${call.path}" removed during compaction: the file was modified later in the conversation]`,
+    };
+  });
+}
+
+/**
+ * Truncate large tool results outside the most recent messages.
+ * Keeps the head of the output so the model retains the gist.
+ */
+export function elideToolResults(
+  messages: CoreMessage[],
+  options: { keepRecentMessages: number; maxToolResultChars: number }
+): CoreMessage[] {
+  const protectedFrom = messages.length - options.keepRecentMessages;
+
+  return mapToolResults(messages, (block, index) => {
+    if (index >= protectedFrom || block.content.length <= options.maxToolResultChars) {
+      return block;
+    }
+
+    const elided = block.content.length - options.maxToolResultChars;
+    return {
+      ...block,
+      content: `${block.content.slice(0, options.maxToolResultChars)}\n\n[... ${elided} characters elided during context compaction ...]`,
+    };
+  });
+}
+
+/**
+ * Replace older turns with a single summary message.
+ * System messages and the most recent messages are kept verbatim.
+ */
+export async function summarizeOlderTurns(
+  messages: CoreMessage[],
+  options: { keepRecentMessages: number },
+  summarize: Summarizer
+): Promise<CoreMessage[]> {
+  const systemMessages = messages.filter((m) => m.role === 'system');
+  const conversation = messages.filter((m) => m.role !== 'system');
+
+  const cut = findCutIndex(conversation, conversation.length - options.keepRecentMessages);
+  if (cut <= 0) {
+    return messages;
+  }
+
+  const summary = await summarize(conversation.slice(0, cut));
+  if (!summary) {
+    return messages;
+  }
+
+  return [
+    ...systemMessages,
+    { role: 'user', content: `${SUMMARY_PREFIX}\n\n${summary}` },
+    ...conversation.slice(cut),
+  ];
+}
+
+/**
+ * Find the latest index at or before `maxIndex` where the conversation can be cut.
+ * A message carrying tool results must stay with the assistant message that
+ * made the calls, so it can never start the kept portion.
+ */
+function findCutIndex(conversation: CoreMessage[], maxIndex: number): number {
+  for (let i = Math.min(maxIndex, conversation.length - 1); i > 0; i--) {
+    const hasToolResult = blocksOf(conversation[i]).some((b) => b.type === 'tool_result');
+    if (!hasToolResult && conversation[i].role !== 'tool') {
+      return i;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Apply a transform to every tool_result block, passing the message index.
+ * Messages without changes are returned as-is.
+ */
+function mapToolResults(
+  messages: CoreMessage[],
+  transform: (block: CoreToolResultBlock, messageIndex: number) => CoreToolResultBlock
+): CoreMessage[] {
+  return messages.map((message, index) => {
+    if (typeof message.content === 'string') return message;
+
+    let changed = false;
+    const content = message.content.map((block) => {
+      if (block.type !== 'tool_result') return block;
+      const next = transform(block, index);
+      if (next !== block) changed = true;
+      return next;
+    });
+
+    return changed ? { ...message, content } : message;
+  });
+}
+
+/**
+ * Content blocks of a message (string content has none).
+ */
+function blocksOf(message: CoreMessage): CoreContentBlock[] {
+  return typeof message.content === 'string' ? [] : message.content;
+}
+
+/**
+ * Extract the `path` argument from a tool call's JSON arguments.
+ */
+function pathArgument(args: string): string | undefined {
+  try {
+    const parsed = JSON.parse(args);
+    return typeof parsed?.path === 'string' ? parsed.path : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Extract the file paths touched by a tool call's `patch` argument.
+ */
+function patchPathsArgument(args: string): string[] {
+  try {
+    const parsed = JSON.parse(args);
+    return typeof parsed?.patch === 'string' ? getPatchPaths(parsePatch(parsed.patch)) : [];
+  } catch {
+    return [];
+  }
+}
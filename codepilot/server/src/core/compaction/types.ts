@@ -0,0 +1,63 @@
+/**
+ * Type definitions for context compaction.
+ * Compaction shrinks a conversation that is approaching the model's
+ * context window so long sessions keep working.
+ */
+
+import type { CoreMessage } from '../../providers/types';
+
+/**
+ * Available compaction strategies, listed cheapest first.
+ * - drop_stale_reads: replace read_file outputs for files that were edited later
+ * - elide_tool_results: truncate large tool results outside the recent window
+ * - summarize: replace older turns with an LLM-written summary
+ */
+export type CompactionStrategyName = 'drop_stale_reads' | 'elide_tool_results' | 'summarize';
+
+/**
+ * Compaction settings.
+ */
+export interface CompactionConfig {
+  /** Whether automatic compaction is enabled */
+  enabled: boolean;
+  /** Model context window size in tokens */
+  contextWindow: number;
+  /** Fraction of the context window that triggers compaction (e.g. 0.8) */
+  threshold: number;
+  /** Fraction of the context window to compact down to (e.g. 0.5) */
+  target: number;
+  /** Number of most recent messages that are never modified */
+  keepRecentMessages: number;
+  /** Tool results longer than this (in characters) are elided */
+  maxToolResultChars: number;
+  /** Strategies to apply, in order, until the target is reached */
+  strategies: CompactionStrategyName[];
+  /** Model used for summarization (defaults to the provider's default model) */
+  summaryModel?: string;
+}
+
+/**
+ * Summarizes a slice of conversation into plain text.
+ */
+export type Summarizer = (messages: CoreMessage[]) => Promise<string>;
+
+/**
+ * Counts tokens for a conversation.
+ */
+export type TokenCounter = (messages: CoreMessage[]) => Promise<number>;
+
+/**
+ * Result of a compaction pass.
+ */
+export interface CompactionResult {
+  /** The (possibly) compacted conversation */
+  messages: CoreMessage[];
+  /** Whether any strategy changed the conversation */
+  compacted: boolean;
+  /** Strategies that changed the conversation, in the order applied */
+  strategies: CompactionStrategyName[];
+  tokensBefore: number;
+  tokensAfter: number;
+  messagesBefore: number;
+  messagesAfter: number;
+}
@@ -0,0 +1,202 @@
+/**
+ * MCP client - one JSON-RPC session with an MCP server.
+ */
+
+import { StreamableHttpTransport } from './transport';
+import {
+  MCP_PROTOCOL_VERSION,
+  type JsonRpcMessage,
+  type JsonRpcResponse,
+  type McpCallToolResult,
+  type McpServerInfo,
+  type McpTool,
+  type McpTransport,
+} from './types';
+
+/** Default timeout for a request to an MCP server */
+const DEFAULT_REQUEST_TIMEOUT_MS = 60_000;
+
+/** Client identity sent in the initialize handshake */
+const CLIENT_INFO = { name: 'codepilot', version: '0.1.0' };
+
+/**
+ * Raised when an MCP server can't be reached or answers a request with an error.
+ */
+export class McpError extends Error {
+  /** JSON-RPC error code, when the server sent one */
+  readonly code?: number;
+
+  constructor(message: string, code?: number) {
+    super(message);
+    this.name = 'McpError';
+    this.code = code;
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * A connected MCP server.
+ * Call connect() before anything else; close() ends the session (and the process, for stdio).
+ */
+export class McpClient {
+  /** Called when the server announces that its tool list changed */
+  onToolsChanged?: () => void;
+
+  private nextId = 0;
+  private pending = new Map<number | string, PendingRequest>();
+  private info: McpServerInfo | null = null;
+  private closed = false;
+
+  constructor(
+    readonly name: string,
+    private readonly transport: McpTransport,
+    private readonly options: { timeoutMs?: number } = {}
+  ) {}
+
+  /**
+   * What the server reported about itself (available after connect).
+   */
+  get serverInfo(): McpServerInfo | null {
+    return this.info;
+  }
+
+  /**
+   * Open the transport and run the initialize handshake.
+   */
+  async connect(): Promise<McpServerInfo> {
+    this.transport.onmessage = (message) => this.handleMessage(message);
+    this.transport.onclose = (error) => this.failPending(error ?? new Error('connection closed'));
+    await this.transport.start();
+
+    const result = (await this.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    })) as {
+      protocolVersion: string;
+      serverInfo?: { name: string; version?: string; title?: string };
+      instructions?: string;
+    };
+
+    if (this.transport instanceof StreamableHttpTransport) {
+      this.transport.setProtocolVersion(result.protocolVersion);
+    }
+    await this.notify('notifications/initialized');
+
+    this.info = {
+      name: result.serverInfo?.name ?? this.name,
+      version: result.serverInfo?.version,
+      title: result.serverInfo?.title,
+      instructions: result.instructions,
+    };
+    return this.info;
+  }
+
+  /**
+   * List every tool the server offers, following pagination cursors.
+   */
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = (await this.request('tools/list', cursor ? { cursor } : {})) as {
+        tools: McpTool[];
+        nextCursor?: string;
+      };
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return tools;
+  }
+
+  /**
+   * Call a tool. Tool-level failures come back as a result with isError set, not as a rejection.
+   */
+  async callTool(name: string, args: Record<string, unknown>): Promise<McpCallToolResult> {
+    return (await this.request('tools/call', { name, arguments: args })) as McpCallToolResult;
+  }
+
+  /**
+   * End the session. Pending requests are rejected.
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.failPending(new Error('client closed'));
+    await this.transport.close();
+  }
+
+  private request(method: string, params: Record<string, unknown>): Promise<unknown> {
+    if (this.closed) {
+      return Promise.reject(new McpError(`MCP server "${this.name}" is disconnected`));
+    }
+
+    const id = ++this.nextId;
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new McpError(`MCP server "${this.name}" did not answer ${method} within ${timeoutMs / 1000}s`));
+      }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+
+      this.transport.send({ jsonrpc: '2.0', id, method, params }).catch((err: Error) => {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(new McpError(`MCP server "${this.name}": ${err.message}`));
+      });
+    });
+  }
+
+  private async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    await this.transport.send({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    // Response to one of our requests
+    if ('id' in message && !('method' in message)) {
+      const response = message as JsonRpcResponse;
+      const pending = this.pending.get(response.id);
+      if (!pending) return;
+
+      this.pending.delete(response.id);
+      clearTimeout(pending.timer);
+      if (response.error) {
+        pending.reject(new McpError(response.error.message, response.error.code));
+      } else {
+        pending.resolve(response.result);
+      }
+      return;
+    }
+
+    if (message.method === 'notifications/tools/list_changed') {
+      this.onToolsChanged?.();
+      return;
+    }
+
+    // Requests from the server: answer pings, decline everything else (sampling, roots, ...)
+    if ('id' in message) {
+      const reply: JsonRpcResponse =
+        message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not supported: ${message.method}` } };
+      void this.transport.send(reply).catch(() => undefined);
+    }
+  }
+
+  private failPending(error: Error): void {
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(new McpError(`MCP server "${this.name}": ${error.message}`));
+      this.pending.delete(id);
+    }
+  }
+}
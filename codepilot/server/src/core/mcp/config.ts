@@ -0,0 +1,106 @@
+/**
+ * MCP config file loading.
+ *
+ * The file uses the common "mcpServers" layout:
+ *   { "mcpServers": { "github": { "command": "npx", "args": ["-y", "@org/github-mcp"] },
+ *                     "docs":   { "url": "https://docs.example.com/mcp" } } }
+ * String values may reference environment variables as ${VAR}, so tokens stay out of the file.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { McpConfig, McpServerConfig } from './types';
+
+/** Server names become part of tool names, so they are kept to safe characters */
+const SERVER_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Path of the MCP config file: MCP_CONFIG, or mcp.json in the codepilot/ directory.
+ */
+export function getMcpConfigPath(): string {
+  return process.env.MCP_CONFIG
+    ? path.resolve(process.env.MCP_CONFIG)
+    : path.resolve(process.cwd(), '..', 'mcp.json');
+}
+
+/**
+ * Replace ${VAR} references with environment values (missing variables become empty).
+ */
+function expandEnv(value: string): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => process.env[name] ?? '');
+}
+
+function expandRecord(record: Record<string, string> | undefined): Record<string, string> | undefined {
+  if (!record) return undefined;
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, expandEnv(String(value))]));
+}
+
+/**
+ * Validate one server entry and expand its environment references.
+ * @throws Error describing the first problem found
+ */
+function parseServerConfig(name: string, raw: unknown, baseDir: string): McpServerConfig {
+  if (!SERVER_NAME_PATTERN.test(name)) {
+    throw new Error(`MCP server name "${name}" may only contain letters, digits, "_" and "-"`);
+  }
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`MCP server "${name}" must be an object`);
+  }
+
+  const entry = raw as Record<string, unknown>;
+  const common = {
+    description: typeof entry.description === 'string' ? entry.description : undefined,
+    timeoutMs: typeof entry.timeoutMs === 'number' ? entry.timeoutMs : undefined,
+    disabled: entry.disabled === true,
+  };
+
+  if (typeof entry.url === 'string' && entry.type !== 'stdio') {
+    return {
+      ...common,
+      type: 'http',
+      url: expandEnv(entry.url),
+      headers: expandRecord(entry.headers as Record<string, string> | undefined),
+    };
+  }
+
+  if (typeof entry.command === 'string' && entry.type !== 'http') {
+    return {
+      ...common,
+      type: 'stdio',
+      command: expandEnv(entry.command),
+      args: Array.isArray(entry.args) ? entry.args.map((arg) => expandEnv(String(arg))) : [],
+      env: expandRecord(entry.env as Record<string, string> | undefined),
+      cwd: typeof entry.cwd === 'string' ? path.resolve(baseDir, expandEnv(entry.cwd)) : undefined,
+    };
+  }
+
+  throw new Error(`MCP server "${name}" needs either a "command" (stdio) or a "url" (http)`);
+}
+
+/**
+ * Parse MCP config file contents.
+ * @param baseDir - Directory that relative cwd paths resolve against
+ * @throws Error if the JSON is invalid or a server entry is malformed
+ */
+export function parseMcpConfig(text: string, baseDir: string): McpConfig {
+  const parsed = JSON.parse(text) as { mcpServers?: Record<string, unknown> };
+  const servers = parsed.mcpServers ?? {};
+
+  return {
+    mcpServers: Object.fromEntries(
+      Object.entries(servers).map(([name, raw]) => [name, parseServerConfig(name, raw, baseDir)])
+    ),
+  };
+}
+
+/**
+ * Load the MCP config file.
+ * @returns The config, or null if the file doesn't exist
+ * @throws Error if the file exists but is invalid
+ */
+export function loadMcpConfig(configPath = getMcpConfigPath()): McpConfig | null {
+  if (!fs.existsSync(configPath)) {
+    return null;
+  }
+  return parseMcpConfig(fs.readFileSync(configPath, 'utf-8'), path.dirname(configPath));
+}
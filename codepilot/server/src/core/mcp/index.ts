@@ -0,0 +1,38 @@
+/**
+ * MCP client module - mounts tools from external Model Context Protocol servers.
+ */
+
+// Types
+export type {
+  McpConfig,
+  McpServerConfig,
+  McpStdioServerConfig,
+  McpHttpServerConfig,
+  McpTransport,
+  McpTool,
+  McpContent,
+  McpCallToolResult,
+  McpServerInfo,
+  JsonRpcMessage,
+} from './types';
+export { MCP_PROTOCOL_VERSION } from './types';
+
+// Config
+export { getMcpConfigPath, parseMcpConfig, loadMcpConfig } from './config';
+
+// Transports
+export { StdioTransport, StreamableHttpTransport } from './transport';
+
+// Client
+export { McpClient, McpError } from './client';
+
+// Tools
+export { mcpCategory, mcpToolName, formatCallResult, createMcpToolDefinition } from './tools';
+
+// Server
+export type { McpToolServerOptions } from './server';
+export { McpToolServer, getReadOnlyServerPolicy, serveStdio, serveHttp } from './server';
+
+// Manager
+export type { McpServerStatus } from './manager';
+export { McpManager, globalMcpManager, loadMcpServers } from './manager';
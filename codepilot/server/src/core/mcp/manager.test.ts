@@ -0,0 +1,176 @@
+/**
+ * MCP client tests - against the stdio fixture server and an in-process HTTP server
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ToolRegistry } from '../tools/registry';
+import { executeInvocations } from '../tools/executor';
+import { McpManager } from './manager';
+import { parseMcpConfig } from './config';
+import type { JsonRpcRequest } from './types';
+
+const FIXTURE_SERVER = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../test/fixtures/mcp-stdio-server.mjs');
+
+const context = { workingDir: process.cwd() };
+
+async function call(registry: ToolRegistry, name: string, input: Record<string, unknown> = {}) {
+  const [result] = await executeInvocations(registry, [{ id: 'call_1', name, input }], context);
+  return result;
+}
+
+describe('parseMcpConfig', () => {
+  it('should accept stdio and http servers and expand env references', () => {
+    process.env.MCP_TEST_TOKEN = 'secret';
+    const config = parseMcpConfig(
+      JSON.stringify({
+        mcpServers: {
+          local: { command: 'node', args: ['server.js'], cwd: 'tools' },
+          remote: { url: 'https://example.com/mcp', headers: { Authorization: 'Bearer ${MCP_TEST_TOKEN}' } },
+        },
+      }),
+      '/etc/codepilot'
+    );
+
+    expect(config.mcpServers.local).toMatchObject({ type: 'stdio', command: 'node', cwd: '/etc/codepilot/tools' });
+    expect(config.mcpServers.remote).toMatchObject({ type: 'http', headers: { Authorization: 'Bearer secret' } });
+  });
+
+  it('should reject entries without a command or url', () => {
+    expect(() => parseMcpConfig('{"mcpServers":{"broken":{"args":[]}}}', '/')).toThrow(/"command".*"url"/);
+    expect(() => parseMcpConfig('{"mcpServers":{"bad name":{"command":"x"}}}', '/')).toThrow(/may only contain/);
+  });
+});
+
+describe('McpManager (stdio)', () => {
+  const registry = new ToolRegistry();
+  const manager = new McpManager(registry);
+
+  beforeAll(async () => {
+    await manager.connectAll({
+      mcpServers: {
+        fixture: { command: process.execPath, args: [FIXTURE_SERVER] },
+        missing: { command: path.join(path.dirname(FIXTURE_SERVER), 'does-not-exist') },
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await manager.closeAll();
+  });
+
+  it('should register every listed tool under the server category', () => {
+    const [fixture] = manager.getStatus().filter((s) => s.name === 'fixture');
+
+    expect(fixture.status).toBe('connected');
+    expect(registry.getToolNamesInCategory('mcp:fixture')).toEqual([
+      'mcp__fixture__echo',
+      'mcp__fixture__add',
+      'mcp__fixture__fail',
+      'mcp__fixture__enable_extra',
+    ]);
+    expect(registry.getCategories().find((c) => c.name === 'mcp:fixture')?.description).toBe('Fixture tools for tests');
+    expect(registry.get('mcp__fixture__echo')?.metadata).toMatchObject({ readOnly: true });
+    expect(registry.get('mcp__fixture__add')?.metadata).toMatchObject({ requiresApproval: true });
+  });
+
+  it('should report servers that fail to start without affecting the others', () => {
+    const [missing] = manager.getStatus().filter((s) => s.name === 'missing');
+
+    expect(missing.status).toBe('failed');
+    expect(missing.error).toContain('ENOENT');
+    expect(registry.hasCategory('mcp:missing')).toBe(false);
+  });
+
+  it('should proxy calls through executeInvocations', async () => {
+    expect((await call(registry, 'mcp__fixture__echo', { text: 'hi' })).value).toBe('echo: hi');
+    expect((await call(registry, 'mcp__fixture__add', { a: 2, b: 3 })).value).toEqual({ sum: 5 });
+  });
+
+  it('should surface tool errors as structured tool errors', async () => {
+    const result = await call(registry, 'mcp__fixture__fail');
+
+    expect(result.isError).toBe(true);
+    expect(result.error).toMatchObject({ code: 'mcp_tool_failed', message: 'something went wrong' });
+  });
+
+  it('should pick up tools when the server announces a change', async () => {
+    await call(registry, 'mcp__fixture__enable_extra');
+    await expect.poll(() => registry.get('mcp__fixture__extra')).toBeDefined();
+
+    expect((await call(registry, 'mcp__fixture__extra')).value).toBe('extra!');
+  });
+
+  it('should remove the tools when closed', async () => {
+    const other = new ToolRegistry();
+    const otherManager = new McpManager(other);
+    await otherManager.connect('fixture', { command: process.execPath, args: [FIXTURE_SERVER] });
+
+    await otherManager.closeAll();
+
+    expect(other.list()).toEqual([]);
+    expect(otherManager.getStatus()).toEqual([]);
+  });
+});
+
+describe('McpManager (streamable HTTP)', () => {
+  const registry = new ToolRegistry();
+  const manager = new McpManager(registry);
+  const sessions: Array<string | undefined> = [];
+  let server: http.Server;
+
+  beforeAll(async () => {
+    // Answers initialize with JSON and everything else with an SSE stream
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        if (req.method !== 'POST') {
+          res.writeHead(204).end();
+          return;
+        }
+        sessions.push(req.headers['mcp-session-id'] as string | undefined);
+        const message = JSON.parse(body) as JsonRpcRequest;
+        if (message.id === undefined) {
+          res.writeHead(202).end();
+          return;
+        }
+
+        if (message.method === 'initialize') {
+          res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'session-1' });
+          res.end(JSON.stringify({
+            jsonrpc: '2.0',
+            id: message.id,
+            result: { protocolVersion: '2025-06-18', capabilities: { tools: {} }, serverInfo: { name: 'remote' } },
+          }));
+          return;
+        }
+
+        const result = message.method === 'tools/list'
+          ? { tools: [{ name: 'time', description: 'Current time', inputSchema: { type: 'object' } }] }
+          : { content: [{ type: 'text', text: '12:00' }] };
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.end(`event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: message.id, result })}\n\n`);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    await manager.connect('remote', { url: `http://127.0.0.1:${port}/mcp` });
+  });
+
+  afterAll(async () => {
+    await manager.closeAll();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should list and call tools, keeping the session id', async () => {
+    const result = await call(registry, 'mcp__remote__time');
+
+    expect(result.value).toBe('12:00');
+    expect(sessions[0]).toBeUndefined();
+    expect(sessions.slice(1).every((id) => id === 'session-1')).toBe(true);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * MCP manager - connects the configured servers and mounts their tools in a ToolRegistry.
+ * Each server gets its own category ("mcp:<name>"), so the agent loads a server's
+ * tools with load_tools or finds them with search_tools like any built-in category.
+ */
+
+import { globalRegistry, type ToolRegistry } from '../tools/registry';
+import { McpClient } from './client';
+import { loadMcpConfig, getMcpConfigPath } from './config';
+import { StdioTransport, StreamableHttpTransport } from './transport';
+import { createMcpToolDefinition, mcpCategory } from './tools';
+import type { McpConfig, McpServerConfig, McpTransport } from './types';
+
+/**
+ * Connection state of one configured server.
+ */
+export interface McpServerStatus {
+  name: string;
+  category: string;
+  status: 'connected' | 'failed' | 'disabled';
+  /** Registered tool names */
+  tools: string[];
+  error?: string;
+}
+
+function createTransport(name: string, config: McpServerConfig): McpTransport {
+  if ('url' in config) {
+    return new StreamableHttpTransport(name, config.url, config.headers);
+  }
+  return new StdioTransport(name, config);
+}
+
+/**
+ * Owns the MCP client sessions and the tools they registered.
+ */
+export class McpManager {
+  private clients = new Map<string, McpClient>();
+  private statuses = new Map<string, McpServerStatus>();
+
+  constructor(private readonly registry: ToolRegistry = globalRegistry) {}
+
+  /**
+   * Connect every enabled server in the config.
+   * A server that fails to start is reported in its status; the others still connect.
+   */
+  async connectAll(config: McpConfig): Promise<McpServerStatus[]> {
+    await Promise.all(Object.entries(config.mcpServers).map(([name, server]) => this.connect(name, server)));
+    return this.getStatus();
+  }
+
+  /**
+   * Connect one server and register its tools.
+   */
+  async connect(name: string, config: McpServerConfig): Promise<McpServerStatus> {
+    if (this.clients.has(name)) {
+      throw new Error(`MCP server "${name}" is already connected`);
+    }
+
+    const category = mcpCategory(name);
+    if (config.disabled) {
+      return this.setStatus({ name, category, status: 'disabled', tools: [] });
+    }
+
+    const client = new McpClient(name, createTransport(name, config), { timeoutMs: config.timeoutMs });
+    try {
+      const info = await client.connect();
+      this.clients.set(name, client);
+
+      const description = config.description ?? info.instructions?.split('\n')[0] ?? `Tools from the ${info.title ?? info.name} MCP server`;
+      this.registry.setCategoryDescription(category, description);
+      client.onToolsChanged = () => {
+        this.refreshTools(name).catch((err: Error) => {
+          console.error(`[MCP:${name}] Failed to refresh tools: ${err.message}`);
+        });
+      };
+
+      const tools = await this.registerTools(client);
+      return this.setStatus({ name, category, status: 'connected', tools });
+    } catch (err) {
+      this.clients.delete(name);
+      await client.close().catch(() => undefined);
+      const error = err instanceof Error ? err.message : String(err);
+      return this.setStatus({ name, category, status: 'failed', tools: [], error });
+    }
+  }
+
+  /**
+   * Re-list a server's tools and replace the registered definitions.
+   */
+  async refreshTools(name: string): Promise<string[]> {
+    const client = this.clients.get(name);
+    if (!client) {
+      throw new Error(`MCP server "${name}" is not connected`);
+    }
+
+    this.unregisterTools(name);
+    const tools = await this.registerTools(client);
+    this.setStatus({ ...this.statuses.get(name)!, tools });
+    return tools;
+  }
+
+  /**
+   * Connection state of every configured server.
+   */
+  getStatus(): McpServerStatus[] {
+    return Array.from(this.statuses.values());
+  }
+
+  /**
+   * Disconnect all servers and remove their tools from the registry.
+   */
+  async closeAll(): Promise<void> {
+    const clients = Array.from(this.clients.entries());
+    this.clients.clear();
+
+    await Promise.all(
+      clients.map(async ([name, client]) => {
+        this.unregisterTools(name);
+        this.statuses.delete(name);
+        await client.close().catch(() => undefined);
+      })
+    );
+  }
+
+  private async registerTools(client: McpClient): Promise<string[]> {
+    const names: string[] = [];
+    for (const tool of await client.listTools()) {
+      const definition = createMcpToolDefinition(client, tool);
+      if (this.registry.get(definition.name)) {
+        console.warn(`[MCP:${client.name}] Skipping tool "${tool.name}": "${definition.name}" is already registered`);
+        continue;
+      }
+      this.registry.register(definition);
+      names.push(definition.name);
+    }
+    return names;
+  }
+
+  private unregisterTools(name: string): void {
+    for (const toolName of this.statuses.get(name)?.tools ?? []) {
+      this.registry.unregister(toolName);
+    }
+  }
+
+  private setStatus(status: McpServerStatus): McpServerStatus {
+    this.statuses.set(status.name, status);
+    return status;
+  }
+}
+
+/**
+ * Manager for the servers mounted into the global registry.
+ */
+export const globalMcpManager = new McpManager();
+
+/**
+ * Read the MCP config file and connect its servers to the global registry.
+ * Does nothing when there is no config file. Failures are logged, never thrown,
+ * so a broken server can't keep CodePilot from starting.
+ */
+export async function loadMcpServers(configPath = getMcpConfigPath()): Promise<McpServerStatus[]> {
+  let config: McpConfig | null;
+  try {
+    config = loadMcpConfig(configPath);
+  } catch (err) {
+    console.error(`❌ Invalid MCP config ${configPath}: ${err instanceof Error ? err.message : String(err)}`);
+    return [];
+  }
+  if (!config) return [];
+
+  const statuses = await globalMcpManager.connectAll(config);
+  for (const server of statuses) {
+    if (server.status === 'connected') {
+      console.log(`🔌 MCP server "${server.name}" connected (${server.tools.length} tools)`);
+    } else if (server.status === 'failed') {
+      console.error(`❌ MCP server "${server.name}" failed to connect: ${server.error}`);
+    }
+  }
+  return statuses;
+}
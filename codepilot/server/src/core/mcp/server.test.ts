@@ -0,0 +1,134 @@
+/**
+ * MCP server tests - CodePilot's own tools served over MCP
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type http from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ToolRegistry, globalRegistry } from '../tools/registry';
+import { registerAllTools } from '../tools/definitions';
+import { executeInvocations } from '../tools/executor';
+import { McpToolServer, getReadOnlyServerPolicy, serveHttp } from './server';
+import { McpManager } from './manager';
+import type { JsonRpcResponse, McpCallToolResult, McpTool } from './types';
+
+let workspace: string;
+
+beforeAll(() => {
+  registerAllTools();
+  workspace = mkdtempSync(join(tmpdir(), 'codepilot-mcp-'));
+  writeFileSync(join(workspace, 'notes.txt'), 'hello from the workspace\n');
+});
+
+afterAll(() => {
+  rmSync(workspace, { recursive: true, force: true });
+});
+
+async function request(server: McpToolServer, method: string, params: Record<string, unknown> = {}) {
+  const response = (await server.handleMessage({ jsonrpc: '2.0', id: 1, method, params })) as JsonRpcResponse;
+  return response.result;
+}
+
+describe('McpToolServer', () => {
+  it('should list every non-meta tool with its schema, examples and hints', async () => {
+    const server = new McpToolServer({ workingDir: workspace });
+
+    const { tools } = (await request(server, 'tools/list')) as { tools: Array<McpTool & { _meta?: { inputExamples?: unknown[] } }> };
+    const names = tools.map((t) => t.name);
+    const readFile = tools.find((t) => t.name === 'read_file')!;
+    const writeFile = tools.find((t) => t.name === 'write_file')!;
+
+    expect(names).toEqual(expect.arrayContaining(['read_file', 'edit_file', 'grep', 'git_status', 'run_shell']));
+    expect(names).not.toContain('load_tools');
+    expect(readFile.inputSchema).toEqual(globalRegistry.get('read_file')!.inputSchema);
+    expect(readFile.annotations).toMatchObject({ readOnlyHint: true, destructiveHint: false });
+    expect(writeFile.annotations).toMatchObject({ readOnlyHint: false, destructiveHint: true });
+    expect(tools.find((t) => t.name === 'edit_file')!._meta?.inputExamples).toEqual(
+      globalRegistry.get('edit_file')!.metadata.inputExamples
+    );
+  });
+
+  it('should scope calls to the working directory', async () => {
+    const server = new McpToolServer({ workingDir: workspace });
+
+    const ok = (await request(server, 'tools/call', { name: 'read_file', arguments: { path: 'notes.txt' } })) as McpCallToolResult;
+    const outside = (await request(server, 'tools/call', { name: 'read_file', arguments: { path: '../etc/passwd' } })) as McpCallToolResult;
+
+    expect(ok.isError).toBeUndefined();
+    expect(ok.structuredContent).toMatchObject({ content: 'hello from the workspace\n' });
+    expect(outside.isError).toBe(true);
+    expect(outside.content[0]).toMatchObject({ type: 'text', text: expect.stringContaining('outside_workspace') });
+  });
+
+  it('should only serve read-only tools in read-only mode', async () => {
+    const server = new McpToolServer({ workingDir: workspace, toolPolicy: getReadOnlyServerPolicy() });
+
+    const names = server.listTools().map((t) => t.name);
+    const write = await server.callTool('write_file', { path: 'x.txt', content: 'x' });
+    const shell = await server.callTool('run_shell', { command: 'touch x.txt' });
+
+    expect(names).toContain('read_file');
+    expect(names).not.toContain('write_file');
+    expect(write.isError).toBe(true);
+    expect(shell.isError).toBe(true);
+    expect(existsSync(join(workspace, 'x.txt'))).toBe(false);
+  });
+
+  it('should answer unknown methods with a JSON-RPC error', async () => {
+    const server = new McpToolServer({ workingDir: workspace });
+
+    const response = await server.handleMessage({ jsonrpc: '2.0', id: 7, method: 'resources/list' });
+
+    expect(response).toMatchObject({ id: 7, error: { code: -32601 } });
+  });
+});
+
+describe('serveHttp', () => {
+  let httpServer: http.Server;
+  let url: string;
+  const registry = new ToolRegistry();
+  const manager = new McpManager(registry);
+
+  beforeAll(async () => {
+    httpServer = await serveHttp(new McpToolServer({ workingDir: workspace }), {
+      port: 0,
+      allowedOrigins: ['https://app.example.com'],
+    });
+    const { port } = httpServer.address() as AddressInfo;
+    url = `http://127.0.0.1:${port}/mcp`;
+    await manager.connect('codepilot', { url });
+  });
+
+  afterAll(async () => {
+    await manager.closeAll();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  it('should be usable from the MCP client', async () => {
+    const [result] = await executeInvocations(
+      registry,
+      [{ id: 'call_1', name: 'mcp__codepilot__read_file', input: { path: 'notes.txt' } }],
+      { workingDir: '/' }
+    );
+
+    expect(registry.getToolNamesInCategory('mcp:codepilot')).toContain('mcp__codepilot__grep');
+    expect(result.value).toMatchObject({ content: 'hello from the workspace\n' });
+  });
+
+  it('should reject browser requests from origins other than localhost and the allowlist', async () => {
+    const initialize = (origin: string) =>
+      fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Origin: origin },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }),
+      });
+
+    expect((await initialize('https://evil.example')).status).toBe(403);
+    expect((await initialize('http://localhost.evil.example')).status).toBe(403);
+    expect((await initialize('null')).status).toBe(403);
+    expect((await initialize('http://localhost:5173')).status).toBe(200);
+    expect((await initialize('https://app.example.com')).status).toBe(200);
+  });
+});
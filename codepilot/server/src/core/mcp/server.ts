@@ -0,0 +1,330 @@
+/**
+ * MCP server - serves the tools in a ToolRegistry to other agents and editors.
+ *
+ * Calls run through executeInvocations with a fixed ToolExecutionContext, so the
+ * same workspace sandbox and tool policy apply as in a CodePilot session. Approval
+ * is left to the MCP client, guided by each tool's readOnly/destructive annotations.
+ */
+
+import http from 'http';
+import { randomUUID } from 'crypto';
+import { createInterface } from 'readline';
+import { globalRegistry, type ToolRegistry } from '../tools/registry';
+import { executeInvocations } from '../tools/executor';
+import { isToolError } from '../tools/errors';
+import { isToolAllowed, READ_ONLY_SHELL_COMMANDS, type ToolPolicy } from '../tools/policy';
+import type { ToolDefinition, ToolExecutionContext } from '../tools/types';
+import {
+  MCP_PROTOCOL_VERSION,
+  type JsonRpcMessage,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+  type McpCallToolResult,
+  type McpTool,
+} from './types';
+
+/** Protocol revisions this server can speak; the client's choice is echoed when supported */
+const SUPPORTED_PROTOCOL_VERSIONS = [MCP_PROTOCOL_VERSION, '2025-03-26', '2024-11-05'];
+
+const SERVER_INFO = { name: 'codepilot', title: 'CodePilot', version: '0.1.0' };
+
+const SERVER_INSTRUCTIONS =
+  'Tools operate on one workspace directory. Paths are relative to it; paths outside it are rejected.';
+
+/**
+ * Options for serving tools over MCP.
+ */
+export interface McpToolServerOptions {
+  /** Registry whose tools are served (default: the global registry) */
+  registry?: ToolRegistry;
+  /** Workspace directory every call is scoped to */
+  workingDir: string;
+  /** Extra directories tools may access */
+  allowedRoots?: string[];
+  /** Restricts the tools that are listed and may be called */
+  toolPolicy?: ToolPolicy;
+}
+
+/**
+ * Policy for read-only serving: tools without side effects, plus the shell limited to read-only commands.
+ */
+export function getReadOnlyServerPolicy(registry: ToolRegistry = globalRegistry): ToolPolicy {
+  return {
+    allowedTools: registry
+      .list()
+      .filter((tool) => tool.metadata.readOnly || tool.name === 'run_shell')
+      .map((tool) => tool.name),
+    shellAllowlist: READ_ONLY_SHELL_COMMANDS,
+  };
+}
+
+/**
+ * Describe a registered tool in MCP form.
+ * Input examples are appended to the description (clients show it to their model)
+ * and kept as structured data under _meta.
+ */
+function toMcpTool(tool: ToolDefinition): McpTool & { _meta?: Record<string, unknown> } {
+  const examples = tool.metadata.inputExamples ?? [];
+  const description = examples.length > 0
+    ? `${tool.description}\n\nExamples:\n${examples.map((example) => JSON.stringify(example)).join('\n')}`
+    : tool.description;
+
+  return {
+    name: tool.name,
+    description,
+    inputSchema: tool.inputSchema,
+    annotations: {
+      readOnlyHint: tool.metadata.readOnly === true,
+      destructiveHint: tool.metadata.requiresApproval === true,
+      openWorldHint: false,
+    },
+    ...(examples.length > 0 ? { _meta: { inputExamples: examples } } : {}),
+  };
+}
+
+/**
+ * A JSON-RPC error with a protocol error code.
+ */
+class JsonRpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+    this.name = 'JsonRpcError';
+  }
+}
+
+/**
+ * Handles MCP JSON-RPC messages for a set of tools, independent of transport.
+ */
+export class McpToolServer {
+  private readonly registry: ToolRegistry;
+  private readonly context: ToolExecutionContext;
+  private nextCallId = 0;
+
+  constructor(options: McpToolServerOptions) {
+    this.registry = options.registry ?? globalRegistry;
+    this.context = {
+      workingDir: options.workingDir,
+      allowedRoots: options.allowedRoots,
+      toolPolicy: options.toolPolicy,
+    };
+  }
+
+  /**
+   * Tools offered to clients: everything the policy permits except the meta tools,
+   * which manage a CodePilot session's tool list and sub-agents.
+   */
+  listTools(): McpTool[] {
+    return this.registry
+      .list()
+      .filter((tool) => tool.metadata.category !== 'meta' && isToolAllowed(tool, this.context.toolPolicy))
+      .map(toMcpTool);
+  }
+
+  /**
+   * Run a tool call. Failures are reported in the result (isError), as MCP expects.
+   */
+  async callTool(name: string, args: Record<string, unknown>): Promise<McpCallToolResult> {
+    const tool = this.registry.get(name);
+    if (!tool || tool.metadata.category === 'meta') {
+      return { content: [{ type: 'text', text: `Unknown tool: "${name}"` }], isError: true };
+    }
+
+    const [result] = await executeInvocations(
+      this.registry,
+      [{ id: `mcp_${++this.nextCallId}`, name, input: args }],
+      this.context
+    );
+
+    if (result.isError) {
+      const error = result.error ?? new Error('Tool call failed');
+      const text = isToolError(error) ? JSON.stringify(error.toJSON(), null, 2) : error.message;
+      return { content: [{ type: 'text', text }], isError: true };
+    }
+
+    const value = result.value;
+    const text = typeof value === 'string' ? value : JSON.stringify(value ?? null, null, 2);
+    return {
+      content: [{ type: 'text', text }],
+      ...(value && typeof value === 'object' && !Array.isArray(value)
+        ? { structuredContent: value as Record<string, unknown> }
+        : {}),
+    };
+  }
+
+  /**
+   * Handle one incoming message.
+   * @returns The response to send, or null for notifications
+   */
+  async handleMessage(message: JsonRpcMessage): Promise<JsonRpcResponse | null> {
+    if (!('method' in message) || !('id' in message)) {
+      return null;
+    }
+
+    try {
+      return { jsonrpc: '2.0', id: message.id, result: await this.dispatch(message) };
+    } catch (err) {
+      const code = err instanceof JsonRpcError ? err.code : -32603;
+      return { jsonrpc: '2.0', id: message.id, error: { code, message: err instanceof Error ? err.message : String(err) } };
+    }
+  }
+
+  private async dispatch(request: JsonRpcRequest): Promise<unknown> {
+    const params = request.params ?? {};
+
+    switch (request.method) {
+      case 'initialize': {
+        const requested = String(params.protocolVersion ?? '');
+        return {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSION,
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: SERVER_INFO,
+          instructions: `${SERVER_INSTRUCTIONS} Workspace: ${this.context.workingDir}`,
+        };
+      }
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: this.listTools() };
+      case 'tools/call': {
+        if (typeof params.name !== 'string') {
+          throw new JsonRpcError(-32602, 'tools/call needs a tool name');
+        }
+        return this.callTool(params.name, (params.arguments as Record<string, unknown>) ?? {});
+      }
+      default:
+        throw new JsonRpcError(-32601, `Method not found: ${request.method}`);
+    }
+  }
+}
+
+/**
+ * Serve over stdin/stdout (newline-delimited JSON).
+ * Resolves once stdin closes and every request received has been answered.
+ */
+export function serveStdio(server: McpToolServer): Promise<void> {
+  const input = createInterface({ input: process.stdin });
+  const inFlight = new Set<Promise<void>>();
+
+  input.on('line', (line) => {
+    if (!line.trim()) return;
+
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line) as JsonRpcMessage;
+    } catch {
+      process.stdout.write(
+        `${JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } })}\n`
+      );
+      return;
+    }
+
+    // Requests are handled concurrently; responses carry their id
+    const handled = server.handleMessage(message).then((response) => {
+      if (response) process.stdout.write(`${JSON.stringify(response)}\n`);
+    });
+    inFlight.add(handled);
+    void handled.finally(() => inFlight.delete(handled));
+  });
+
+  return new Promise((resolve) => {
+    input.once('close', () => {
+      void Promise.allSettled(inFlight).then(() => resolve());
+    });
+  });
+}
+
+/** Hostnames a browser page may call the HTTP endpoint from without being allowlisted */
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/**
+ * Check a request's Origin header, as the MCP transport spec requires against DNS
+ * rebinding: any web page the user visits could otherwise drive the tools.
+ * Requests without an Origin (non-browser clients) are allowed.
+ */
+function isAllowedOrigin(origin: string | undefined, allowedOrigins: string[]): boolean {
+  if (!origin) return true;
+  if (allowedOrigins.includes(origin)) return true;
+  try {
+    const url = new URL(origin);
+    return (url.protocol === 'http:' || url.protocol === 'https:') && LOCAL_HOSTNAMES.has(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Serve over streamable HTTP at POST /mcp, answering each request with a JSON body.
+ * Sessions are issued on initialize and checked on later requests. Browser requests
+ * are only accepted from localhost pages and `allowedOrigins` (exact origins, e.g. "https://app.example.com").
+ */
+export function serveHttp(
+  server: McpToolServer,
+  options: { port: number; host?: string; allowedOrigins?: string[] }
+): Promise<http.Server> {
+  const sessions = new Set<string>();
+  const allowedOrigins = options.allowedOrigins ?? [];
+
+  const httpServer = http.createServer((req, res) => {
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== '/mcp') {
+      res.writeHead(404).end();
+      return;
+    }
+
+    if (!isAllowedOrigin(req.headers.origin, allowedOrigins)) {
+      res.writeHead(403, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32000, message: 'Origin not allowed' } }));
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    if (req.method === 'DELETE') {
+      if (sessionId) sessions.delete(sessionId);
+      res.writeHead(204).end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      // No server-initiated messages, so there is no GET event stream
+      res.writeHead(405, { Allow: 'POST, DELETE' }).end();
+      return;
+    }
+
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', (chunk: string) => (body += chunk));
+    req.on('end', async () => {
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(body) as JsonRpcMessage;
+      } catch {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }));
+        return;
+      }
+
+      const isInitialize = 'method' in message && message.method === 'initialize';
+      if (!isInitialize && (!sessionId || !sessions.has(sessionId))) {
+        res.writeHead(sessionId ? 404 : 400).end();
+        return;
+      }
+
+      const response = await server.handleMessage(message);
+      if (!response) {
+        res.writeHead(202).end();
+        return;
+      }
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (isInitialize && !response.error) {
+        const newSession = randomUUID();
+        sessions.add(newSession);
+        headers['Mcp-Session-Id'] = newSession;
+      }
+      res.writeHead(200, headers).end(JSON.stringify(response));
+    });
+  });
+
+  return new Promise((resolve) => {
+    httpServer.listen(options.port, options.host ?? '127.0.0.1', () => resolve(httpServer));
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * Adapts tools listed by an MCP server into CodePilot ToolDefinitions.
+ * The definitions proxy their handler to the server, so MCP tools go through
+ * executeInvocations like any built-in tool: policies, approval and parallelism apply.
+ */
+
+import type { ToolCategory, ToolDefinition } from '../tools/types';
+import { McpToolError } from '../tools/errors';
+import type { McpClient } from './client';
+import type { McpCallToolResult, McpContent, McpTool } from './types';
+
+/** Provider APIs limit tool names to this length */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Category holding all tools of one server.
+ */
+export function mcpCategory(serverName: string): ToolCategory {
+  return `mcp:${serverName}`;
+}
+
+/**
+ * Registered name of a server's tool, e.g. "mcp__github__create_issue".
+ * Characters providers reject in tool names are replaced with "_".
+ */
+export function mcpToolName(serverName: string, toolName: string): string {
+  return `mcp__${serverName}__${toolName}`.replace(/[^A-Za-z0-9_-]/g, '_').slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Render one content block for the model.
+ * Binary content can't be passed through tool results, so it is described instead.
+ */
+function formatContent(block: McpContent): string {
+  switch (block.type) {
+    case 'text':
+      return block.text;
+    case 'image':
+    case 'audio':
+      return `[${block.type}: ${block.mimeType}, ${Math.round((block.data.length * 3) / 4)} bytes]`;
+    case 'resource_link':
+      return `[resource: ${block.uri}${block.description ? ` - ${block.description}` : ''}]`;
+    case 'resource':
+      return block.resource.text ?? `[resource: ${block.resource.uri}]`;
+    default:
+      return JSON.stringify(block);
+  }
+}
+
+/**
+ * Convert a tools/call result into a tool result value.
+ * Structured content is returned as-is; otherwise the content blocks are joined as text.
+ * @throws McpToolError if the server flagged the call as failed
+ */
+export function formatCallResult(serverName: string, toolName: string, result: McpCallToolResult): unknown {
+  const text = (result.content ?? []).map(formatContent).join('\n');
+
+  if (result.isError) {
+    throw new McpToolError(serverName, toolName, text || `${toolName} failed`);
+  }
+  return result.structuredContent ?? text;
+}
+
+/**
+ * Build a ToolDefinition that calls a server's tool.
+ * Tools are assumed to have side effects (and so need approval under ask_for_writes)
+ * unless the server marks them read-only.
+ */
+export function createMcpToolDefinition(client: McpClient, tool: McpTool): ToolDefinition {
+  const readOnly = tool.annotations?.readOnlyHint === true;
+  const title = tool.title ?? tool.annotations?.title;
+
+  return {
+    name: mcpToolName(client.name, tool.name),
+    description: [title, tool.description].filter(Boolean).join(': ') || `${tool.name} (from MCP server ${client.name})`,
+    inputSchema: { type: 'object', ...tool.inputSchema },
+    metadata: {
+      category: mcpCategory(client.name),
+      ...(readOnly ? { readOnly: true } : { requiresApproval: true }),
+    },
+    async handler(input) {
+      let result: McpCallToolResult;
+      try {
+        result = await client.callTool(tool.name, input);
+      } catch (err) {
+        throw new McpToolError(client.name, tool.name, err instanceof Error ? err.message : String(err));
+      }
+      return formatCallResult(client.name, tool.name, result);
+    },
+  };
+}
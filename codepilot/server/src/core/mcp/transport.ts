@@ -0,0 +1,224 @@
+/**
+ * MCP transports - stdio child processes and streamable HTTP.
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import type { JsonRpcMessage, McpTransport } from './types';
+
+// ============================================================================
+// Stdio
+// ============================================================================
+
+/**
+ * Launches a server as a child process and exchanges newline-delimited JSON over its stdin/stdout.
+ * The server's stderr is forwarded to the console with the server name as a prefix.
+ */
+export class StdioTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (error?: Error) => void;
+
+  private process: ChildProcessWithoutNullStreams | null = null;
+  private buffer = '';
+  private closing = false;
+
+  constructor(
+    private readonly serverName: string,
+    private readonly options: { command: string; args?: string[]; env?: Record<string, string>; cwd?: string }
+  ) {}
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.options.command, this.options.args ?? [], {
+        cwd: this.options.cwd,
+        env: { ...process.env, ...this.options.env },
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+      this.process = child;
+
+      child.once('spawn', () => resolve());
+      child.once('error', (err) => {
+        // Spawn failures (e.g. ENOENT) emit no exit event
+        this.process = null;
+        if (this.closing) return;
+        reject(err);
+        this.onclose?.(err);
+      });
+      child.once('exit', (code, signal) => {
+        this.process = null;
+        if (!this.closing) {
+          this.onclose?.(new Error(`MCP server "${this.serverName}" exited (${signal ?? `code ${code}`})`));
+        }
+      });
+
+      child.stdout.setEncoding('utf-8');
+      child.stdout.on('data', (chunk: string) => this.receive(chunk));
+
+      child.stderr.setEncoding('utf-8');
+      child.stderr.on('data', (chunk: string) => {
+        for (const line of chunk.split('\n').filter((l) => l.trim())) {
+          console.error(`[MCP:${this.serverName}] ${line}`);
+        }
+      });
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.process) {
+      throw new Error(`MCP server "${this.serverName}" is not running`);
+    }
+    const stdin = this.process.stdin;
+    await new Promise<void>((resolve, reject) => {
+      stdin.write(`${JSON.stringify(message)}\n`, (err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closing = true;
+    const child = this.process;
+    if (!child || child.exitCode !== null || child.signalCode !== null) return;
+
+    // Closing stdin asks the server to exit; kill it if it doesn't
+    const exited = new Promise<void>((resolve) => child.once('exit', () => resolve()));
+    child.stdin.end();
+    const timer = setTimeout(() => child.kill('SIGKILL'), 2000);
+    child.kill('SIGTERM');
+    await exited;
+    clearTimeout(timer);
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (!line) continue;
+
+      try {
+        this.onmessage?.(JSON.parse(line) as JsonRpcMessage);
+      } catch {
+        console.error(`[MCP:${this.serverName}] Ignoring non-JSON output: ${line.slice(0, 200)}`);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Streamable HTTP
+// ============================================================================
+
+/**
+ * Posts each message to the server's MCP endpoint. Responses come back either as
+ * a JSON body or as an SSE stream on the same request. The session id the server
+ * assigns during initialize is sent with every later request.
+ */
+export class StreamableHttpTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (error?: Error) => void;
+
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+
+  constructor(
+    private readonly serverName: string,
+    private readonly url: string,
+    private readonly headers: Record<string, string> = {}
+  ) {}
+
+  async start(): Promise<void> {
+    // Stateless: the first POST (initialize) opens the session
+  }
+
+  /**
+   * Record the protocol version agreed in initialize; servers expect it on later requests.
+   */
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        ...this.headers,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+        ...(this.protocolVersion ? { 'MCP-Protocol-Version': this.protocolVersion } : {}),
+      },
+      body: JSON.stringify(message),
+    });
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(
+        `MCP server "${this.serverName}" returned HTTP ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`
+      );
+    }
+
+    // Notifications are acknowledged with 202 and no body
+    if (response.status === 202 || !response.body) {
+      return;
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+    if (contentType.includes('text/event-stream')) {
+      // Read in the background so send() resolves once the request is accepted
+      void this.readEventStream(response.body);
+      return;
+    }
+
+    const text = await response.text();
+    if (!text.trim()) return;
+    const payload = JSON.parse(text) as JsonRpcMessage | JsonRpcMessage[];
+    for (const item of Array.isArray(payload) ? payload : [payload]) {
+      this.onmessage?.(item);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.sessionId) return;
+    // Ending the session is best effort; servers may not support DELETE
+    await fetch(this.url, {
+      method: 'DELETE',
+      headers: { ...this.headers, 'Mcp-Session-Id': this.sessionId },
+    }).catch(() => undefined);
+    this.sessionId = null;
+  }
+
+  private async readEventStream(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by a blank line; only data lines carry messages
+        let boundary: number;
+        while ((boundary = buffer.search(/\r?\n\r?\n/)) !== -1) {
+          const event = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+          const data = event
+            .split(/\r?\n/)
+            .filter((line) => line.startsWith('data:'))
+            .map((line) => line.slice(5).trimStart())
+            .join('\n');
+          if (data) {
+            this.onmessage?.(JSON.parse(data) as JsonRpcMessage);
+          }
+        }
+      }
+    } catch (err) {
+      console.error(`[MCP:${this.serverName}] Event stream failed:`, err instanceof Error ? err.message : err);
+    }
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Type definitions for the MCP (Model Context Protocol) client.
+ * Covers the JSON-RPC messages and the subset of the protocol CodePilot uses:
+ * the initialize handshake, tools/list and tools/call.
+ */
+
+import type { JSONSchema7 } from 'json-schema';
+
+/** Protocol revision sent in the initialize request */
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * A server launched as a child process, speaking newline-delimited JSON-RPC over stdio.
+ */
+export interface McpStdioServerConfig {
+  type?: 'stdio';
+  command: string;
+  args?: string[];
+  /** Extra environment variables for the process (merged over the server's environment) */
+  env?: Record<string, string>;
+  /** Working directory for the process (relative paths resolve against the config file) */
+  cwd?: string;
+}
+
+/**
+ * A remote server reached over the streamable HTTP transport.
+ */
+export interface McpHttpServerConfig {
+  type?: 'http';
+  url: string;
+  /** Extra request headers (e.g. Authorization) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * One entry of the "mcpServers" map in the config file.
+ */
+export type McpServerConfig = (McpStdioServerConfig | McpHttpServerConfig) & {
+  /** Describes the server's tools in load_tools listings (defaults to the server's own instructions) */
+  description?: string;
+  /** Timeout for each request to the server, in milliseconds */
+  timeoutMs?: number;
+  /** Set to true to keep the entry without connecting to it */
+  disabled?: boolean;
+};
+
+/**
+ * Parsed MCP config file.
+ */
+export interface McpConfig {
+  mcpServers: Record<string, McpServerConfig>;
+}
+
+// ============================================================================
+// JSON-RPC
+// ============================================================================
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: number | string;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+/**
+ * Moves JSON-RPC messages between the client and one server.
+ */
+export interface McpTransport {
+  /** Open the connection (spawn the process, etc.) */
+  start(): Promise<void>;
+  /** Send one message */
+  send(message: JsonRpcMessage): Promise<void>;
+  /** Close the connection and release its resources */
+  close(): Promise<void>;
+  /** Called for every message received from the server */
+  onmessage?: (message: JsonRpcMessage) => void;
+  /** Called once if the connection ends without close() */
+  onclose?: (error?: Error) => void;
+}
+
+// ============================================================================
+// Protocol results
+// ============================================================================
+
+/**
+ * A tool as listed by a server.
+ */
+export interface McpTool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: JSONSchema7;
+  annotations?: {
+    title?: string;
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+    idempotentHint?: boolean;
+    openWorldHint?: boolean;
+  };
+}
+
+/**
+ * A block of tool output.
+ */
+export type McpContent =
+  | { type: 'text'; text: string }
+  | { type: 'image' | 'audio'; data: string; mimeType: string }
+  | { type: 'resource_link'; uri: string; name?: string; description?: string }
+  | { type: 'resource'; resource: { uri: string; mimeType?: string; text?: string; blob?: string } };
+
+/**
+ * Result of tools/call.
+ */
+export interface McpCallToolResult {
+  content: McpContent[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/**
+ * What the server reported about itself during initialize.
+ */
+export interface McpServerInfo {
+  name: string;
+  version?: string;
+  title?: string;
+  /** Usage notes the server offers for the model */
+  instructions?: string;
+}
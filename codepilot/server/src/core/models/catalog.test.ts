@@ -0,0 +1,125 @@
+/**
+ * Model catalog unit tests
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { calculateCost, findModel, getModelCatalog, getModelCost, listModels, parseModelCatalog, resetModelCatalog } from './catalog';
+import { getCompactionConfig } from '../compaction/compactor';
+
+describe('parseModelCatalog', () => {
+  it('should merge file entries over the built-in models', () => {
+    const models = parseModelCatalog(`
+models:
+  - id: claude-sonnet-4-5
+    provider: anthropic
+    contextWindow: 1000000
+  - id: qwen2.5-coder:32b
+    provider: local
+    contextWindow: 32768
+    capabilities: { vision: true }
+`);
+
+    const sonnet = models.filter((model) => model.id === 'claude-sonnet-4-5');
+    expect(sonnet).toHaveLength(1);
+    expect(sonnet[0]).toMatchObject({ contextWindow: 1000000, maxOutputTokens: 4096, pricing: undefined });
+
+    expect(models.find((model) => model.provider === 'local')).toMatchObject({
+      name: 'qwen2.5-coder:32b',
+      capabilities: { tools: true, vision: true, reasoning: false },
+    });
+    expect(models.some((model) => model.id === 'claude-haiku-4-5')).toBe(true);
+  });
+
+  it('should accept JSON and start empty without the defaults', () => {
+    const models = parseModelCatalog(
+      JSON.stringify({ includeDefaults: false, models: [{ id: 'm', provider: 'openai', contextWindow: 128000 }] })
+    );
+
+    expect(models.map((model) => model.id)).toEqual(['m']);
+  });
+
+  it('should describe malformed entries', () => {
+    expect(() => parseModelCatalog('models: {}')).toThrow('"models" must be a list');
+    expect(() => parseModelCatalog('models: [{ provider: local }]')).toThrow('Model #1 needs an "id"');
+    expect(() => parseModelCatalog('models: [{ id: m, provider: nope, contextWindow: 1 }]')).toThrow(
+      /Model "m" needs a "provider"/
+    );
+    expect(() => parseModelCatalog('models: [{ id: m, provider: local, contextWindow: 0 }]')).toThrow(
+      /positive integer "contextWindow"/
+    );
+    expect(() =>
+      parseModelCatalog('models: [{ id: m, provider: local, contextWindow: 10, pricing: { input: 1 } }]')
+    ).toThrow(/"pricing" needs "input" and "output"/);
+  });
+});
+
+describe('catalog lookups', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codepilot-models-'));
+    process.env.MODEL_CATALOG = path.join(dir, 'models.yaml');
+    resetModelCatalog();
+  });
+
+  afterEach(() => {
+    delete process.env.MODEL_CATALOG;
+    resetModelCatalog();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should prefer the provider entry and fall back to any provider', () => {
+    fs.writeFileSync(
+      process.env.MODEL_CATALOG!,
+      'models:\n  - { id: claude-sonnet-4-5, provider: openrouter, contextWindow: 50000 }\n'
+    );
+
+    expect(findModel('claude-sonnet-4-5', 'anthropic')?.contextWindow).toBe(200000);
+    expect(findModel('claude-sonnet-4-5', 'openrouter')?.contextWindow).toBe(50000);
+    expect(findModel('claude-haiku-4-5', 'openrouter')?.provider).toBe('anthropic');
+    expect(findModel('unknown', 'anthropic')).toBeUndefined();
+    expect(listModels('anthropic').find((model) => model.default)?.id).toBe('claude-sonnet-4-5');
+  });
+
+  it('should use the built-in models when the file is invalid', () => {
+    fs.writeFileSync(process.env.MODEL_CATALOG!, 'models: [{ id: broken }]');
+
+    expect(getModelCatalog().map((model) => model.provider)).not.toContain('local');
+    expect(findModel('claude-opus-4-5')).toBeDefined();
+  });
+
+  it('should drive the compaction context window', () => {
+    fs.writeFileSync(
+      process.env.MODEL_CATALOG!,
+      'models:\n  - { id: small, provider: local, contextWindow: 16384 }\n'
+    );
+
+    expect(getCompactionConfig('local', {}, 'small').contextWindow).toBe(16384);
+    expect(getCompactionConfig('local', { contextWindow: 1000 }, 'small').contextWindow).toBe(1000);
+    expect(getCompactionConfig('anthropic', {}, 'claude-opus-4-5').contextWindow).toBe(200000);
+  });
+});
+
+describe('calculateCost', () => {
+  it('should price cached input at the cache rates', () => {
+    const pricing = { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 };
+
+    expect(calculateCost({ promptTokens: 1_000_000, completionTokens: 0 }, pricing)).toBe(3);
+    expect(
+      calculateCost(
+        { promptTokens: 1_000_000, completionTokens: 100_000, cacheReadTokens: 500_000, cacheWriteTokens: 200_000 },
+        pricing
+      )
+    ).toBeCloseTo(0.9 + 0.15 + 0.75 + 1.5);
+    expect(calculateCost({ promptTokens: 100, completionTokens: 0, cacheReadTokens: 100 }, { input: 2, output: 4 })).toBeCloseTo(
+      0.0002
+    );
+  });
+
+  it('should return null for models without prices', () => {
+    expect(getModelCost('no-such-model', 'local', { promptTokens: 10, completionTokens: 10 })).toBeNull();
+    expect(getModelCost('claude-haiku-4-5', 'anthropic', { promptTokens: 1_000_000, completionTokens: 0 })).toBe(1);
+  });
+});
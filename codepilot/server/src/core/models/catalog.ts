@@ -0,0 +1,220 @@
+/**
+ * Model catalog
+ * Context windows, output limits, prices and capabilities of the models CodePilot
+ * can use. Built-in entries cover the Claude models; a catalog file (YAML or JSON)
+ * adds models or overrides built-in ones with the same provider and ID:
+ *
+ *   models:
+ *     - id: qwen2.5-coder:32b
+ *       provider: local
+ *       contextWindow: 32768
+ *       maxOutputTokens: 8192
+ *       capabilities: { tools: true }
+ *     - id: anthropic/claude-sonnet-4.5
+ *       provider: openrouter
+ *       contextWindow: 1000000
+ *       pricing: { input: 6, output: 22.5, cacheRead: 0.6, cacheWrite: 7.5 }
+ *
+ * Set includeDefaults: false at the top level to start from an empty catalog.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { ProviderId } from '../../providers/types';
+import { getDefaultModels } from './defaults';
+import type { ModelEntry, ModelPricing, ModelUsage } from './types';
+
+const PROVIDER_IDS: ProviderId[] = ['openrouter', 'anthropic', 'openai', 'local', 'mock'];
+
+/** Looked for in the codepilot/ directory, in this order */
+const CATALOG_FILE_NAMES = ['models.yaml', 'models.yml', 'models.json'];
+
+const DEFAULT_MAX_OUTPUT_TOKENS = 4096;
+
+/**
+ * Path of the catalog file: MODEL_CATALOG, or models.yaml/.yml/.json in the codepilot/ directory.
+ * @returns null when there is no catalog file
+ */
+export function getModelCatalogPath(): string | null {
+  if (process.env.MODEL_CATALOG) {
+    return path.resolve(process.env.MODEL_CATALOG);
+  }
+  const dir = path.resolve(process.cwd(), '..');
+  const found = CATALOG_FILE_NAMES.map((name) => path.join(dir, name)).find((file) => fs.existsSync(file));
+  return found ?? null;
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Validate one catalog entry and fill in defaults.
+ * @throws Error describing the first problem found
+ */
+function parseModelEntry(raw: unknown, index: number): ModelEntry {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Model #${index + 1} must be an object`);
+  }
+
+  const entry = raw as Record<string, unknown>;
+  if (typeof entry.id !== 'string' || !entry.id) {
+    throw new Error(`Model #${index + 1} needs an "id"`);
+  }
+  const label = `Model "${entry.id}"`;
+
+  if (!PROVIDER_IDS.includes(entry.provider as ProviderId)) {
+    throw new Error(`${label} needs a "provider" (one of: ${PROVIDER_IDS.join(', ')})`);
+  }
+  if (!isPositiveInteger(entry.contextWindow)) {
+    throw new Error(`${label} needs a positive integer "contextWindow"`);
+  }
+  if (entry.maxOutputTokens !== undefined && !isPositiveInteger(entry.maxOutputTokens)) {
+    throw new Error(`${label}: "maxOutputTokens" must be a positive integer`);
+  }
+
+  let pricing: ModelPricing | undefined;
+  if (entry.pricing !== undefined) {
+    const raw = entry.pricing as Record<string, unknown>;
+    if (!raw || typeof raw !== 'object' || !isNonNegativeNumber(raw.input) || !isNonNegativeNumber(raw.output)) {
+      throw new Error(`${label}: "pricing" needs "input" and "output" prices (USD per million tokens)`);
+    }
+    for (const key of ['cacheRead', 'cacheWrite'] as const) {
+      if (raw[key] !== undefined && !isNonNegativeNumber(raw[key])) {
+        throw new Error(`${label}: "pricing.${key}" must be a non-negative number`);
+      }
+    }
+    pricing = {
+      input: raw.input,
+      output: raw.output,
+      ...(raw.cacheRead !== undefined ? { cacheRead: raw.cacheRead as number } : {}),
+      ...(raw.cacheWrite !== undefined ? { cacheWrite: raw.cacheWrite as number } : {}),
+    };
+  }
+
+  const capabilities = (entry.capabilities ?? {}) as Record<string, unknown>;
+
+  return {
+    id: entry.id,
+    provider: entry.provider as ProviderId,
+    name: typeof entry.name === 'string' ? entry.name : entry.id,
+    description: typeof entry.description === 'string' ? entry.description : undefined,
+    contextWindow: entry.contextWindow,
+    maxOutputTokens: (entry.maxOutputTokens as number | undefined) ?? DEFAULT_MAX_OUTPUT_TOKENS,
+    pricing,
+    capabilities: {
+      tools: capabilities.tools !== false,
+      vision: capabilities.vision === true,
+      reasoning: capabilities.reasoning === true,
+    },
+    ...(entry.default === true ? { default: true } : {}),
+  };
+}
+
+/**
+ * Parse catalog file contents (YAML, or JSON - which YAML parsers accept too).
+ * @returns The file's entries merged over the built-in catalog (unless includeDefaults is false)
+ * @throws Error if the file is not valid YAML/JSON or an entry is malformed
+ */
+export function parseModelCatalog(text: string): ModelEntry[] {
+  const parsed = (parseYaml(text) ?? {}) as { models?: unknown; includeDefaults?: unknown };
+  if (parsed.models !== undefined && !Array.isArray(parsed.models)) {
+    throw new Error('"models" must be a list');
+  }
+
+  const entries = (parsed.models ?? []).map((raw: unknown, index: number) => parseModelEntry(raw, index));
+  const base = parsed.includeDefaults === false ? [] : getDefaultModels();
+
+  // File entries replace built-in ones with the same provider and ID
+  const key = (model: ModelEntry) => `${model.provider}:${model.id}`;
+  const overridden = new Set(entries.map(key));
+  return [...base.filter((model) => !overridden.has(key(model))), ...entries];
+}
+
+/**
+ * Load the catalog from a file, or the built-in catalog when there is none
+ * @throws Error if the file exists but is invalid
+ */
+export function loadModelCatalog(catalogPath = getModelCatalogPath()): ModelEntry[] {
+  if (!catalogPath) {
+    return getDefaultModels();
+  }
+  return parseModelCatalog(fs.readFileSync(catalogPath, 'utf-8'));
+}
+
+// Loaded on first use, so dotenv and the working directory are set up first
+let catalog: ModelEntry[] | null = null;
+
+/**
+ * Get the catalog (loaded once; an invalid file is reported and the built-in catalog used)
+ */
+export function getModelCatalog(): ModelEntry[] {
+  if (!catalog) {
+    const catalogPath = getModelCatalogPath();
+    try {
+      catalog = loadModelCatalog(catalogPath);
+    } catch (err) {
+      console.error(
+        `❌ Invalid model catalog ${catalogPath}: ${err instanceof Error ? err.message : String(err)} - using built-in models`
+      );
+      catalog = getDefaultModels();
+    }
+  }
+  return catalog;
+}
+
+/**
+ * Forget the loaded catalog, so the next lookup reads the file again
+ */
+export function resetModelCatalog(): void {
+  catalog = null;
+}
+
+/**
+ * Find a model by ID. With a provider, that provider's entry is preferred, but
+ * an entry from another provider still matches (the Anthropic adapter accepts
+ * OpenRouter-style IDs, for example).
+ */
+export function findModel(modelId: string | undefined, providerId?: ProviderId): ModelEntry | undefined {
+  if (!modelId) return undefined;
+  const matches = getModelCatalog().filter((model) => model.id === modelId);
+  return matches.find((model) => model.provider === providerId) ?? matches[0];
+}
+
+/**
+ * List the catalog's models for a provider, in catalog order
+ */
+export function listModels(providerId: ProviderId): ModelEntry[] {
+  return getModelCatalog().filter((model) => model.provider === providerId);
+}
+
+/**
+ * Price token usage in USD
+ */
+export function calculateCost(usage: ModelUsage, pricing: ModelPricing): number {
+  const cacheRead = usage.cacheReadTokens ?? 0;
+  const cacheWrite = usage.cacheWriteTokens ?? 0;
+  const uncachedInput = Math.max(usage.promptTokens - cacheRead - cacheWrite, 0);
+
+  return (
+    (uncachedInput * pricing.input +
+      cacheRead * (pricing.cacheRead ?? pricing.input) +
+      cacheWrite * (pricing.cacheWrite ?? pricing.input) +
+      usage.completionTokens * pricing.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Price a model call in USD
+ * @returns null when the model is not in the catalog or has no prices
+ */
+export function getModelCost(modelId: string | undefined, providerId: ProviderId | undefined, usage: ModelUsage): number | null {
+  const pricing = findModel(modelId, providerId)?.pricing;
+  return pricing ? calculateCost(usage, pricing) : null;
+}
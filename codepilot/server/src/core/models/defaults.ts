@@ -0,0 +1,67 @@
+/**
+ * Built-in model catalog - used when no catalog file is configured, and as the
+ * base that a catalog file's entries are merged over.
+ */
+
+import type { ModelCapabilities, ModelEntry, ModelPricing } from './types';
+
+const CLAUDE_CAPABILITIES: ModelCapabilities = { tools: true, vision: true, reasoning: true };
+
+const CLAUDE_MODELS: Array<{
+  tier: 'haiku' | 'sonnet' | 'opus';
+  name: string;
+  description: string;
+  anthropicId: string;
+  openRouterId: string;
+  pricing: ModelPricing;
+}> = [
+  {
+    tier: 'haiku',
+    name: 'Claude Haiku',
+    description: 'Fast and efficient',
+    anthropicId: 'claude-haiku-4-5',
+    openRouterId: 'anthropic/claude-haiku-4.5',
+    pricing: { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  },
+  {
+    tier: 'sonnet',
+    name: 'Claude Sonnet',
+    description: 'Balanced performance',
+    anthropicId: 'claude-sonnet-4-5',
+    openRouterId: 'anthropic/claude-sonnet-4.5',
+    pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  },
+  {
+    tier: 'opus',
+    name: 'Claude Opus',
+    description: 'Most capable',
+    anthropicId: 'claude-opus-4-5',
+    openRouterId: 'anthropic/claude-opus-4.5',
+    pricing: { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  },
+];
+
+/**
+ * Get the built-in catalog.
+ * OpenRouter IDs can be overridden with OPENROUTER_MODEL_HAIKU, _SONNET and _OPUS
+ * (read on each call, so dotenv has loaded).
+ */
+export function getDefaultModels(): ModelEntry[] {
+  return CLAUDE_MODELS.flatMap((model) => {
+    const common = {
+      name: model.name,
+      description: model.description,
+      contextWindow: 200000,
+      maxOutputTokens: 64000,
+      pricing: model.pricing,
+      capabilities: CLAUDE_CAPABILITIES,
+      ...(model.tier === 'sonnet' ? { default: true } : {}),
+    };
+    const envId = process.env[`OPENROUTER_MODEL_${model.tier.toUpperCase()}`];
+
+    return [
+      { ...common, id: envId || model.openRouterId, provider: 'openrouter' as const },
+      { ...common, id: model.anthropicId, provider: 'anthropic' as const },
+    ];
+  });
+}
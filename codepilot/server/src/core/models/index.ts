@@ -0,0 +1,17 @@
+/**
+ * Model catalog module exports.
+ */
+
+export type { ModelPricing, ModelCapabilities, ModelEntry, ModelUsage } from './types';
+export { getDefaultModels } from './defaults';
+export {
+  getModelCatalogPath,
+  parseModelCatalog,
+  loadModelCatalog,
+  getModelCatalog,
+  resetModelCatalog,
+  findModel,
+  listModels,
+  calculateCost,
+  getModelCost,
+} from './catalog';
@@ -0,0 +1,60 @@
+/**
+ * Model catalog types
+ */
+
+import type { ProviderId } from '../../providers/types';
+
+/**
+ * Prices in USD per million tokens.
+ * Cache prices apply to the part of the prompt read from or written to the
+ * provider's prompt cache; without them, cached tokens are charged as input.
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+/**
+ * What a model can do.
+ */
+export interface ModelCapabilities {
+  /** Native tool calling */
+  tools: boolean;
+  /** Image input */
+  vision: boolean;
+  /** Extended thinking / reasoning */
+  reasoning: boolean;
+}
+
+/**
+ * A model in the catalog. The same model can appear once per provider.
+ */
+export interface ModelEntry {
+  /** Model ID as the provider expects it */
+  id: string;
+  provider: ProviderId;
+  /** Display name */
+  name: string;
+  description?: string;
+  /** Context window in tokens */
+  contextWindow: number;
+  /** Maximum tokens in a response */
+  maxOutputTokens: number;
+  /** Omitted for models whose cost is unknown (or free, e.g. local models) */
+  pricing?: ModelPricing;
+  capabilities: ModelCapabilities;
+  /** Selected in the UI when the provider's configured model isn't in the catalog */
+  default?: boolean;
+}
+
+/**
+ * Token counts to price. Cache counts are part of promptTokens.
+ */
+export interface ModelUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
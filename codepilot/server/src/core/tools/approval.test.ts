@@ -0,0 +1,65 @@
+/**
+ * Tool approval unit tests
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { buildApprovalRequest, needsApproval } from './approval';
+import { editFileTool, listDirTool, readFileTool, runShellTool, loadToolsTool } from './definitions';
+
+describe('needsApproval', () => {
+  it('should ask only for side-effecting tools under ask_for_writes', () => {
+    expect(needsApproval(editFileTool, 'ask_for_writes')).toBe(true);
+    expect(needsApproval(runShellTool, 'ask_for_writes')).toBe(true);
+    expect(needsApproval(readFileTool, 'ask_for_writes')).toBe(false);
+  });
+
+  it('should ask for every non-meta tool under always_ask and none under auto', () => {
+    expect(needsApproval(listDirTool, 'always_ask')).toBe(true);
+    expect(needsApproval(loadToolsTool, 'always_ask')).toBe(false);
+    expect(needsApproval(editFileTool, 'auto')).toBe(false);
+  });
+});
+
+describe('buildApprovalRequest', () => {
+  let workingDir: string;
+
+  beforeEach(async () => {
+    workingDir = await fs.mkdtemp(path.join(os.tmpdir(), 'codepilot-approval-'));
+    await fs.writeFile(path.join(workingDir, 'a.ts'), 'const x = 1;\n', 'utf8');
+  });
+
+  afterEach(async () => {
+    await fs.rm(workingDir, { recursive: true, force: true });
+  });
+
+  it('should include a preview of the edit without touching the file', async () => {
+    const invocation = {
+      id: 'call_1',
+      name: 'edit_file',
+      input: { path: 'a.ts', edits: [{ old_text: 'x = 1', new_text: 'x = 2' }] },
+    };
+
+    const request = await buildApprovalRequest(editFileTool, invocation, 'ask_for_writes', { workingDir });
+
+    expect(request.toolCall).toBe(invocation);
+    expect(request.preview?.files).toEqual([
+      { path: 'a.ts', oldContent: 'const x = 1;\n', newContent: 'const x = 2;\n' },
+    ]);
+    expect(await fs.readFile(path.join(workingDir, 'a.ts'), 'utf8')).toBe('const x = 1;\n');
+  });
+
+  it('should omit the preview when it fails', async () => {
+    const invocation = {
+      id: 'call_2',
+      name: 'edit_file',
+      input: { path: 'missing.ts', edits: [{ old_text: 'a', new_text: 'b' }] },
+    };
+
+    const request = await buildApprovalRequest(editFileTool, invocation, 'always_ask', { workingDir });
+
+    expect(request.preview).toBeUndefined();
+    expect(request.policy).toBe('always_ask');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Human-in-the-loop approval for tool calls.
+ * Decides which calls need the user's sign-off under a session's policy
+ * and builds the request (including a proposed diff) shown to the user.
+ */
+
+import type { ToolDefinition, ToolExecutionContext, ToolPreview } from './types';
+import type { ToolInvocation } from './executor';
+
+/**
+ * Approval policy for a session.
+ * - always_ask: every tool call except meta tools waits for approval
+ * - ask_for_writes: only tools marked `requiresApproval` (writes, shell) wait
+ * - auto: nothing waits (default)
+ */
+export type ApprovalPolicy = 'always_ask' | 'ask_for_writes' | 'auto';
+
+/** All valid approval policies */
+export const APPROVAL_POLICIES: readonly ApprovalPolicy[] = ['always_ask', 'ask_for_writes', 'auto'];
+
+/**
+ * The user's response to an approval request.
+ * `edit` approves the call with replacement input.
+ */
+export type ApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'deny'; reason?: string }
+  | { action: 'edit'; input: Record<string, unknown> };
+
+/**
+ * A tool call waiting for approval.
+ */
+export interface ApprovalRequest {
+  toolCall: ToolInvocation;
+  policy: ApprovalPolicy;
+  /** Proposed changes, if the tool supports previews */
+  preview?: ToolPreview;
+}
+
+/**
+ * Callback that asks the user for a decision and resolves when they answer.
+ */
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+/**
+ * Type guard for approval policy strings (e.g. from request bodies or env vars).
+ */
+export function isApprovalPolicy(value: unknown): value is ApprovalPolicy {
+  return typeof value === 'string' && (APPROVAL_POLICIES as readonly string[]).includes(value);
+}
+
+/**
+ * Default policy for new sessions, from APPROVAL_POLICY (default: auto).
+ */
+export function getDefaultApprovalPolicy(): ApprovalPolicy {
+  const fromEnv = process.env.APPROVAL_POLICY;
+  return isApprovalPolicy(fromEnv) ? fromEnv : 'auto';
+}
+
+/**
+ * Check whether a tool call needs approval under the given policy.
+ */
+export function needsApproval(tool: ToolDefinition, policy: ApprovalPolicy): boolean {
+  switch (policy) {
+    case 'always_ask':
+      return tool.metadata.category !== 'meta';
+    case 'ask_for_writes':
+      return tool.metadata.requiresApproval === true;
+    case 'auto':
+      return false;
+  }
+}
+
+/**
+ * Build the approval request for a call, including the tool's preview.
+ * A failing preview is not fatal - the user still sees the raw input.
+ */
+export async function buildApprovalRequest(
+  tool: ToolDefinition,
+  invocation: ToolInvocation,
+  policy: ApprovalPolicy,
+  context: ToolExecutionContext
+): Promise<ApprovalRequest> {
+  let preview: ToolPreview | undefined;
+
+  if (tool.preview) {
+    try {
+      preview = await tool.preview(invocation.input, context);
+    } catch (err) {
+      console.warn(`[Approval] Preview failed for ${tool.name}:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  return { toolCall: invocation, policy, ...(preview ? { preview } : {}) };
+}
@@ -0,0 +1,115 @@
+/**
+ * Code execution tools - programmatic tool calling from a sandboxed script.
+ * Category: code
+ */
+
+import type { ToolDefinition } from '../types';
+import { globalRegistry } from '../registry';
+import { executeInvocations } from '../executor';
+import { isToolAllowed } from '../policy';
+import { runInSandbox } from '../sandbox';
+
+/** Caller name that tools list in programmaticFrom to be callable from scripts */
+const EXECUTE_CODE_CALLER = 'execute_code';
+
+/**
+ * Response from execute_code.
+ */
+interface ExecuteCodeResponse {
+  /** The script's return value */
+  result: unknown;
+  /** Captured console output (omitted when empty) */
+  logs?: string[];
+  /** Number of tool calls the script made */
+  toolCalls: number;
+}
+
+/**
+ * Run a script that calls tools as async functions.
+ *
+ * Intermediate tool results stay inside the sandbox; only the script's return
+ * value (and console output) comes back, so a batch of reads or searches that
+ * would take many model rounds happens in one.
+ */
+export const executeCodeTool: ToolDefinition = {
+  name: 'execute_code',
+  description:
+    'Run a JavaScript or TypeScript script in a sandbox where read-only tools are async functions: ' +
+    '`await tools.read_file({ path })`, `await tools.grep({ pattern, path })`, `tools.find_files`, ' +
+    '`tools.list_dir`, `tools.git_status`, `tools.git_diff`, `tools.git_log` (also callable without the `tools.` prefix). ' +
+    'The code is the body of an async function: use await, Promise.all for parallel calls, and `return` the final result. ' +
+    'Only the returned value and console output are sent back - use this to process many files or search results in one step. ' +
+    'No require/import, file system or network access apart from the tools.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      code: {
+        type: 'string',
+        description: 'Script body. Must `return` a JSON-serializable result.',
+      },
+      language: {
+        type: 'string',
+        enum: ['javascript', 'typescript'],
+        description: 'Language of the script (default: javascript)',
+      },
+    },
+    required: ['code'],
+  },
+  metadata: {
+    category: 'code',
+    // Runs arbitrary model-written code, so it asks first under ask_for_writes
+    requiresApproval: true,
+    inputExamples: [
+      {
+        code:
+          "const { files } = await tools.find_files({ pattern: 'src/**/*.ts' });\n" +
+          'const counts = await Promise.all(files.map(async ({ path }) => {\n' +
+          '  const { content } = await tools.read_file({ path });\n' +
+          "  return { path, todos: (content.match(/TODO/g) ?? []).length };\n" +
+          '}));\n' +
+          'return counts.filter((c) => c.todos > 0);',
+      },
+    ],
+  },
+  async handler(input, context): Promise<ExecuteCodeResponse> {
+    const code = String(input.code ?? '');
+    if (!code.trim()) {
+      throw new Error('execute_code needs a script in "code".');
+    }
+
+    const callableTools = globalRegistry
+      .list()
+      .filter(
+        (tool) =>
+          tool.metadata.programmaticFrom?.includes(EXECUTE_CODE_CALLER) && isToolAllowed(tool, context.toolPolicy)
+      )
+      .map((tool) => tool.name);
+
+    const parentId = context.toolCallId ?? EXECUTE_CODE_CALLER;
+    let callCount = 0;
+
+    const { value, logs, toolCalls } = await runInSandbox(code, {
+      language: input.language === 'typescript' ? 'typescript' : 'javascript',
+      toolNames: callableTools,
+      // Each call goes through the executor, so policies and programmaticFrom are enforced
+      callTool: async (name, toolInput) => {
+        const [result] = await executeInvocations(
+          globalRegistry,
+          [{ id: `${parentId}:${++callCount}`, name, input: toolInput, caller: { type: EXECUTE_CODE_CALLER, toolId: parentId } }],
+          context
+        );
+        if (result.isError) {
+          throw result.error ?? new Error(String(result.value));
+        }
+        return result.value;
+      },
+    });
+
+    return { result: value, ...(logs.length > 0 ? { logs } : {}), toolCalls };
+  },
+};
+
+/**
+ * All code execution tools.
+ */
+export const codeTools: ToolDefinition[] = [executeCodeTool];
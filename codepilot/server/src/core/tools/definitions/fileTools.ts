@@ -1,11 +1,13 @@
 /**
- * File system tools - read, write, edit, and list files.
+ * File system tools - read, write, edit, patch, and list files.
  * Category: file_ops
  */
 
 import fs from 'fs/promises';
 import path from 'path';
-import type { ToolDefinition } from '../types';
+import type { ToolDefinition, ToolExecutionContext } from '../types';
+import { PatchError } from '../errors';
+import { parsePatch, getPatchPaths, applyHunks } from '../patch';
 
 // Import the path utilities from the old location (will be moved later)
 import { resolvePath } from '../../../tools/utils';
@@ -29,6 +31,9 @@ export const readFileTool: ToolDefinition = {
   metadata: {
     category: 'file_ops',
     highFrequency: true,
+    readOnly: true,
+    readsPaths: (input) => [input.path as string],
+    programmaticFrom: ['execute_code'],
     inputExamples: [
       { path: 'package.json' },
       { path: 'src/index.ts' },
@@ -36,7 +41,7 @@ export const readFileTool: ToolDefinition = {
   },
   async handler(input, context) {
     const filePath = input.path as string;
-    const absolutePath = resolvePath(filePath, context.workingDir);
+    const absolutePath = resolvePath(filePath, context.workingDir, context.allowedRoots);
     const content = await fs.readFile(absolutePath, 'utf8');
     return { path: filePath, content };
   },
@@ -66,11 +71,19 @@ export const writeFileTool: ToolDefinition = {
   metadata: {
     category: 'file_ops',
     highFrequency: true,
+    mutatesPaths: (input) => [input.path as string],
+    requiresApproval: true,
+  },
+  async preview(input, context) {
+    const filePath = input.path as string;
+    const absolutePath = resolvePath(filePath, context.workingDir, context.allowedRoots);
+    const oldContent = await fs.readFile(absolutePath, 'utf8').catch(() => '');
+    return { files: [{ path: filePath, oldContent, newContent: input.content as string }] };
   },
   async handler(input, context) {
     const filePath = input.path as string;
     const content = input.content as string;
-    const absolutePath = resolvePath(filePath, context.workingDir);
+    const absolutePath = resolvePath(filePath, context.workingDir, context.allowedRoots);
 
     // Ensure parent directory exists
     const dir = path.dirname(absolutePath);
@@ -102,6 +115,9 @@ export const listDirTool: ToolDefinition = {
   metadata: {
     category: 'file_ops',
     highFrequency: true,
+    readOnly: true,
+    readsPaths: (input) => [(input.path as string) || '.'],
+    programmaticFrom: ['execute_code'],
     inputExamples: [
       { path: '.' },
       { path: 'src' },
@@ -109,7 +125,7 @@ export const listDirTool: ToolDefinition = {
   },
   async handler(input, context) {
     const dirPath = (input.path as string) || '.';
-    const absolutePath = resolvePath(dirPath, context.workingDir);
+    const absolutePath = resolvePath(dirPath, context.workingDir, context.allowedRoots);
     const entries = await fs.readdir(absolutePath, { withFileTypes: true });
 
     return entries.map((entry) => ({
@@ -127,6 +143,70 @@ interface EditBlock {
   new_text: string;
 }
 
+/**
+ * Outcome of a single search/replace edit.
+ */
+interface AppliedEdit {
+  old_text: string;
+  new_text: string;
+  applied: boolean;
+  replacements: number;
+  warning?: string;
+}
+
+/**
+ * Apply search/replace edits to content in memory.
+ * Shared by the edit_file handler and its approval preview.
+ * @throws Error if any edit's old_text is not found in the original content
+ */
+function applyEditBlocks(
+  originalContent: string,
+  edits: EditBlock[]
+): { newContent: string; appliedEdits: AppliedEdit[] } {
+  let newContent = originalContent;
+  const appliedEdits: AppliedEdit[] = [];
+
+  // Apply each edit
+  for (const edit of edits) {
+    const existsInOriginal = originalContent.includes(edit.old_text);
+    const occurrenceCount = newContent.split(edit.old_text).length - 1;
+    const wasApplied = occurrenceCount > 0;
+
+    if (wasApplied) {
+      newContent = newContent.split(edit.old_text).join(edit.new_text);
+    }
+
+    let warning: string | undefined;
+    if (occurrenceCount > 1) {
+      warning = `Multiple occurrences (${occurrenceCount}) were replaced`;
+    } else if (!existsInOriginal && wasApplied) {
+      warning = 'Pattern was created by a previous edit';
+    }
+
+    appliedEdits.push({
+      old_text: edit.old_text,
+      new_text: edit.new_text,
+      applied: existsInOriginal,
+      replacements: occurrenceCount,
+      warning,
+    });
+  }
+
+  // Check for failed edits
+  const failedEdits = appliedEdits.filter((e) => !e.applied);
+  if (failedEdits.length > 0) {
+    const failedTexts = failedEdits
+      .map((e) => `"${e.old_text.slice(0, 50)}${e.old_text.length > 50 ? '...' : ''}"`)
+      .join(', ');
+    throw new Error(
+      `Failed to find text to replace: ${failedTexts}. ` +
+        'Make sure old_text matches exactly (including whitespace).'
+    );
+  }
+
+  return { newContent, appliedEdits };
+}
+
 /**
  * Apply targeted edits to a file using search/replace blocks.
  */
@@ -167,62 +247,24 @@ export const editFileTool: ToolDefinition = {
   metadata: {
     category: 'file_ops',
     highFrequency: true,
+    mutatesPaths: (input) => [input.path as string],
+    requiresApproval: true,
+  },
+  async preview(input, context) {
+    const filePath = input.path as string;
+    const absolutePath = resolvePath(filePath, context.workingDir, context.allowedRoots);
+    const oldContent = await fs.readFile(absolutePath, 'utf8');
+    const { newContent } = applyEditBlocks(oldContent, input.edits as EditBlock[]);
+    return { files: [{ path: filePath, oldContent, newContent }] };
   },
   async handler(input, context) {
     const filePath = input.path as string;
     const edits = input.edits as EditBlock[];
-    const absolutePath = resolvePath(filePath, context.workingDir);
+    const absolutePath = resolvePath(filePath, context.workingDir, context.allowedRoots);
 
-    // Read original content
+    // Read original content and apply edits in memory
     const originalContent = await fs.readFile(absolutePath, 'utf8');
-    let newContent = originalContent;
-
-    // Track which edits were applied
-    const appliedEdits: Array<{
-      old_text: string;
-      new_text: string;
-      applied: boolean;
-      replacements: number;
-      warning?: string;
-    }> = [];
-
-    // Apply each edit
-    for (const edit of edits) {
-      const existsInOriginal = originalContent.includes(edit.old_text);
-      const occurrenceCount = newContent.split(edit.old_text).length - 1;
-      const wasApplied = occurrenceCount > 0;
-
-      if (wasApplied) {
-        newContent = newContent.split(edit.old_text).join(edit.new_text);
-      }
-
-      let warning: string | undefined;
-      if (occurrenceCount > 1) {
-        warning = `Multiple occurrences (${occurrenceCount}) were replaced`;
-      } else if (!existsInOriginal && wasApplied) {
-        warning = 'Pattern was created by a previous edit';
-      }
-
-      appliedEdits.push({
-        old_text: edit.old_text,
-        new_text: edit.new_text,
-        applied: existsInOriginal,
-        replacements: occurrenceCount,
-        warning,
-      });
-    }
-
-    // Check for failed edits
-    const failedEdits = appliedEdits.filter((e) => !e.applied);
-    if (failedEdits.length > 0) {
-      const failedTexts = failedEdits
-        .map((e) => `"${e.old_text.slice(0, 50)}${e.old_text.length > 50 ? '...' : ''}"`)
-        .join(', ');
-      throw new Error(
-        `Failed to find text to replace: ${failedTexts}. ` +
-          'Make sure old_text matches exactly (including whitespace).'
-      );
-    }
+    const { newContent, appliedEdits } = applyEditBlocks(originalContent, edits);
 
     // Write modified content
     await fs.writeFile(absolutePath, newContent, 'utf8');
@@ -245,6 +287,215 @@ export const editFileTool: ToolDefinition = {
   },
 };
 
+/**
+ * A validated apply_patch change, computed in memory before anything is written.
+ */
+interface PlannedFileChange {
+  path: string;
+  /** Target path when the file is renamed */
+  newPath?: string;
+  action: 'add' | 'delete' | 'update';
+  absolutePath: string;
+  absoluteNewPath?: string;
+  oldContent: string;
+  newContent: string;
+  /** Hunks only matched after whitespace/punctuation normalization */
+  fuzzy: boolean;
+}
+
+/**
+ * Check whether a path exists.
+ */
+async function pathExists(absolutePath: string): Promise<boolean> {
+  return fs.access(absolutePath).then(
+    () => true,
+    () => false
+  );
+}
+
+/**
+ * Parse a patch and compute every file's new content without writing anything.
+ * Shared by the apply_patch handler and its approval preview.
+ * @throws PatchError if the patch is malformed or doesn't apply to the current files
+ */
+async function planPatch(patchText: string, context: ToolExecutionContext): Promise<PlannedFileChange[]> {
+  const changes: PlannedFileChange[] = [];
+  const targets = new Set<string>();
+
+  const claimTarget = (absolutePath: string, filePath: string) => {
+    if (targets.has(absolutePath)) {
+      throw new PatchError(`Patch writes "${filePath}" more than once.`, { path: filePath });
+    }
+    targets.add(absolutePath);
+  };
+
+  for (const file of parsePatch(patchText)) {
+    const absolutePath = resolvePath(file.path, context.workingDir, context.allowedRoots);
+    claimTarget(absolutePath, file.path);
+
+    if (file.type === 'add') {
+      if (await pathExists(absolutePath)) {
+        throw new PatchError(`Cannot add "${file.path}": the file already exists.`, { path: file.path });
+      }
+      changes.push({
+        path: file.path,
+        action: 'add',
+        absolutePath,
+        oldContent: '',
+        newContent: file.content,
+        fuzzy: false,
+      });
+      continue;
+    }
+
+    const oldContent = await fs.readFile(absolutePath, 'utf8').catch(() => {
+      throw new PatchError(`Cannot ${file.type} "${file.path}": the file does not exist.`, { path: file.path });
+    });
+
+    if (file.type === 'delete') {
+      changes.push({ path: file.path, action: 'delete', absolutePath, oldContent, newContent: '', fuzzy: false });
+      continue;
+    }
+
+    const { content: newContent, fuzz } = applyHunks(oldContent, file.hunks, file.path);
+    const change: PlannedFileChange = {
+      path: file.path,
+      action: 'update',
+      absolutePath,
+      oldContent,
+      newContent,
+      fuzzy: fuzz > 0,
+    };
+
+    if (file.movePath) {
+      const absoluteNewPath = resolvePath(file.movePath, context.workingDir, context.allowedRoots);
+      claimTarget(absoluteNewPath, file.movePath);
+      if (await pathExists(absoluteNewPath)) {
+        throw new PatchError(`Cannot move "${file.path}" to "${file.movePath}": the target already exists.`, {
+          path: file.path,
+          newPath: file.movePath,
+        });
+      }
+      change.newPath = file.movePath;
+      change.absoluteNewPath = absoluteNewPath;
+    }
+
+    changes.push(change);
+  }
+
+  return changes;
+}
+
+/**
+ * Write planned changes to disk. If any write fails, every touched file is
+ * restored to its original state before the error is rethrown.
+ */
+async function writePlannedChanges(changes: PlannedFileChange[]): Promise<void> {
+  // Original content of every path we touch (null = did not exist)
+  const originals = new Map<string, string | null>();
+  for (const change of changes) {
+    originals.set(change.absolutePath, change.action === 'add' ? null : change.oldContent);
+    if (change.absoluteNewPath) {
+      originals.set(change.absoluteNewPath, null);
+    }
+  }
+
+  try {
+    for (const change of changes) {
+      if (change.action === 'delete') {
+        await fs.rm(change.absolutePath);
+        continue;
+      }
+
+      const target = change.absoluteNewPath ?? change.absolutePath;
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, change.newContent, 'utf8');
+      if (change.absoluteNewPath) {
+        await fs.rm(change.absolutePath);
+      }
+    }
+  } catch (err) {
+    for (const [absolutePath, content] of originals) {
+      if (content === null) {
+        await fs.rm(absolutePath, { force: true }).catch(() => {});
+      } else {
+        await fs.mkdir(path.dirname(absolutePath), { recursive: true }).catch(() => {});
+        await fs.writeFile(absolutePath, content, 'utf8').catch(() => {});
+      }
+    }
+    throw new PatchError(
+      `Failed to write patch (${err instanceof Error ? err.message : String(err)}). All changes were rolled back.`
+    );
+  }
+}
+
+/**
+ * Apply a multi-file patch atomically.
+ */
+export const applyPatchTool: ToolDefinition = {
+  name: 'apply_patch',
+  description:
+    'Apply a patch that adds, deletes, renames or modifies one or more files. ' +
+    'Accepts a unified diff (as produced by `git diff`) or a V4A patch ' +
+    '(*** Begin Patch / *** Update File: path / @@ context / -old / +new / *** End Patch). ' +
+    'Hunks are located by their context lines, tolerating whitespace differences. ' +
+    'All files are validated before any is written, so a failing hunk changes nothing.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      patch: {
+        type: 'string',
+        description: 'Unified diff or V4A patch text covering every file to change',
+      },
+    },
+    required: ['patch'],
+  },
+  metadata: {
+    category: 'file_ops',
+    mutatesPaths: (input) => {
+      try {
+        return getPatchPaths(parsePatch(input.patch as string));
+      } catch {
+        return [];
+      }
+    },
+    requiresApproval: true,
+    inputExamples: [
+      {
+        patch:
+          '*** Begin Patch\n*** Update File: src/index.ts\n@@ function main() {\n-  start();\n+  await start();\n*** End Patch',
+      },
+    ],
+  },
+  async preview(input, context) {
+    const changes = await planPatch(input.patch as string, context);
+    return {
+      files: changes.map((change) => ({
+        path: change.newPath ?? change.path,
+        oldContent: change.oldContent,
+        newContent: change.newContent,
+      })),
+    };
+  },
+  async handler(input, context) {
+    const changes = await planPatch(input.patch as string, context);
+    await writePlannedChanges(changes);
+
+    return {
+      files: changes.map((change) => ({
+        path: change.path,
+        ...(change.newPath && { newPath: change.newPath }),
+        action: change.newPath ? 'rename' : change.action,
+        oldContent: change.oldContent,
+        newContent: change.newContent,
+        ...(change.fuzzy && { warning: 'Some hunks matched only after ignoring whitespace differences' }),
+      })),
+      filesChanged: changes.length,
+      success: true,
+    };
+  },
+};
+
 /**
  * All file operation tools.
  */
@@ -253,5 +504,6 @@ export const fileTools: ToolDefinition[] = [
   writeFileTool,
   listDirTool,
   editFileTool,
+  applyPatchTool,
 ];
 
@@ -39,6 +39,9 @@ export const gitDiffTool: ToolDefinition = {
   },
   metadata: {
     category: 'git',
+    readOnly: true,
+    readsPaths: (input) => [(input.path as string) || '.'],
+    programmaticFrom: ['execute_code'],
     inputExamples: [
       {},
       { path: 'src/index.ts' },
@@ -62,7 +65,7 @@ export const gitDiffTool: ToolDefinition = {
     }
 
     if (filePath) {
-      const absolutePath = resolvePath(filePath, workingDir);
+      const absolutePath = resolvePath(filePath, workingDir, context.allowedRoots);
       const relativePath = toRelativePath(absolutePath, workingDir);
       args.push('--', relativePath);
     }
@@ -126,6 +129,9 @@ export const gitStatusTool: ToolDefinition = {
   },
   metadata: {
     category: 'git',
+    readOnly: true,
+    readsPaths: () => ['.'],
+    programmaticFrom: ['execute_code'],
   },
   async handler(input, context) {
     const short = input.short as boolean | undefined;
@@ -184,6 +190,8 @@ export const gitLogTool: ToolDefinition = {
   },
   metadata: {
     category: 'git',
+    readOnly: true,
+    programmaticFrom: ['execute_code'],
   },
   async handler(input, context) {
     const count = (input.count as number) || 10;
@@ -197,7 +205,7 @@ export const gitLogTool: ToolDefinition = {
     }
 
     if (filePath) {
-      const absolutePath = resolvePath(filePath, workingDir);
+      const absolutePath = resolvePath(filePath, workingDir, context.allowedRoots);
       const relativePath = toRelativePath(absolutePath, workingDir);
       args.push('--', relativePath);
     }
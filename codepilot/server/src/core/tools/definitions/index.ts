@@ -3,7 +3,7 @@
  */
 
 // File operations
-export { fileTools, readFileTool, writeFileTool, listDirTool, editFileTool } from './fileTools';
+export { fileTools, readFileTool, writeFileTool, listDirTool, editFileTool, applyPatchTool } from './fileTools';
 
 // Git operations
 export { gitTools, gitDiffTool, gitStatusTool, gitLogTool } from './gitTools';
@@ -14,14 +14,18 @@ export { searchTools, grepTool, findFilesTool } from './searchTools';
 // Shell operations
 export { shellTools, runShellTool } from './shellTool';
 
+// Code execution
+export { codeTools, executeCodeTool } from './codeTools';
+
 // Meta tools (always loaded)
-export { metaTools, loadToolsTool } from './metaTools';
+export { metaTools, loadToolsTool, searchToolsTool, taskTool } from './metaTools';
 
 // All tools combined
 import { fileTools } from './fileTools';
 import { gitTools } from './gitTools';
 import { searchTools } from './searchTools';
 import { shellTools } from './shellTool';
+import { codeTools } from './codeTools';
 import { metaTools } from './metaTools';
 
 /**
@@ -33,6 +37,7 @@ export const allTools = [
   ...gitTools,     // git category
   ...searchTools,  // search category
   ...shellTools,   // shell category
+  ...codeTools,    // code category
 ];
 
 /**
@@ -1,12 +1,14 @@
 /**
- * Meta tools - tools for discovering and loading other tools.
+ * Meta tools - tools for discovering and loading other tools, and delegating work.
  * Category: meta
  * 
  * These tools are always loaded and available to the agent.
  */
 
-import type { ToolDefinition, ToolCategory, CategoryInfo } from '../types';
+import type { ToolDefinition, ToolCategory, CategoryInfo, SubAgentResult } from '../types';
 import { globalRegistry } from '../registry';
+import { ToolNotAllowedError } from '../errors';
+import { isToolAllowed } from '../policy';
 
 /**
  * Response from load_tools when listing categories.
@@ -52,7 +54,6 @@ export const loadToolsTool: ToolDefinition = {
         description:
           'Category to load (e.g., "file_ops", "git", "search", "shell"). ' +
           'Omit to list all available categories.',
-        enum: ['file_ops', 'git', 'search', 'shell'],
       },
     },
     required: [],
@@ -71,7 +72,7 @@ export const loadToolsTool: ToolDefinition = {
 
     // List categories if no category specified
     if (!requestedCategory) {
-      const categories = globalRegistry.getCategories()
+      const categories = globalRegistry.getCategories(context.toolPolicy)
         .filter(c => c.name !== 'meta'); // Don't list meta category
 
       return {
@@ -85,14 +86,28 @@ export const loadToolsTool: ToolDefinition = {
 
     // Validate category
     if (!globalRegistry.hasCategory(requestedCategory)) {
+      const validCategories = globalRegistry
+        .getCategories(context.toolPolicy)
+        .filter((c) => c.name !== 'meta')
+        .map((c) => c.name);
       throw new Error(
         `Unknown category: "${requestedCategory}". ` +
-        `Valid categories: file_ops, git, search, shell`
+        `Valid categories: ${validCategories.join(', ')}`
       );
     }
 
-    // Get tools in this category
-    const toolNames = globalRegistry.getToolNamesInCategory(requestedCategory);
+    // Get tools in this category that the session's policy permits
+    const toolNames = globalRegistry
+      .getByCategory(requestedCategory)
+      .filter((tool) => isToolAllowed(tool, context.toolPolicy))
+      .map((tool) => tool.name);
+
+    if (toolNames.length === 0) {
+      throw new ToolNotAllowedError(
+        'load_tools',
+        `category "${requestedCategory}" is not available`
+      );
+    }
 
     // Add tools to the session's loaded tools set
     if (context.loadedTools) {
@@ -110,10 +125,174 @@ export const loadToolsTool: ToolDefinition = {
   },
 };
 
+/** Default and maximum number of tools search_tools returns */
+const DEFAULT_SEARCH_LIMIT = 5;
+const MAX_SEARCH_LIMIT = 20;
+
+/**
+ * A tool returned by search_tools.
+ */
+interface ToolSearchMatch {
+  name: string;
+  category: ToolCategory;
+  description: string;
+  score: number;
+}
+
+/**
+ * Response from search_tools.
+ */
+interface SearchToolsResponse {
+  query: string;
+  tools: ToolSearchMatch[];
+  toolsLoaded: string[];
+  message: string;
+}
+
+/**
+ * Search tools meta-tool.
+ *
+ * Ranks every registered tool against a description of the needed capability
+ * (BM25 over names, descriptions, parameters and examples) and loads only the
+ * top matches. Scales to large tool sets where loading whole categories would
+ * flood the context with tool definitions.
+ */
+export const searchToolsTool: ToolDefinition = {
+  name: 'search_tools',
+  description:
+    'Find and load tools by describing what you need to do (e.g. "edit a file", "show git history"). ' +
+    'Returns the best matching tools and loads them for use in your next turn. ' +
+    'Prefer this over load_tools when you only need one or two tools.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Keywords describing the capability you need',
+      },
+      limit: {
+        type: 'integer',
+        description: `Maximum number of tools to return and load (default ${DEFAULT_SEARCH_LIMIT}, max ${MAX_SEARCH_LIMIT})`,
+        minimum: 1,
+        maximum: MAX_SEARCH_LIMIT,
+      },
+    },
+    required: ['query'],
+  },
+  metadata: {
+    category: 'meta',
+    highFrequency: true,
+    inputExamples: [
+      { query: 'replace text in a file' },
+      { query: 'search code for a pattern', limit: 3 },
+    ],
+  },
+  async handler(input, context): Promise<SearchToolsResponse> {
+    const query = String(input.query ?? '').trim();
+    if (!query) {
+      throw new Error('search_tools needs a query describing the capability you need.');
+    }
+
+    const requestedLimit = Number(input.limit) || DEFAULT_SEARCH_LIMIT;
+    const limit = Math.min(Math.max(Math.floor(requestedLimit), 1), MAX_SEARCH_LIMIT);
+    const matches = globalRegistry.search(query, limit, context.toolPolicy);
+
+    if (matches.length === 0) {
+      return {
+        query,
+        tools: [],
+        toolsLoaded: [],
+        message: `No tools matched "${query}". Try different keywords, or call load_tools() to list categories.`,
+      };
+    }
+
+    // Add matches to the session's loaded tools set
+    const toolsLoaded = matches.map(({ tool }) => tool.name);
+    if (context.loadedTools) {
+      for (const name of toolsLoaded) {
+        context.loadedTools.add(name);
+      }
+    }
+
+    return {
+      query,
+      tools: matches.map(({ tool, score }) => ({
+        name: tool.name,
+        category: tool.metadata.category,
+        description: tool.description,
+        score: Math.round(score * 100) / 100,
+      })),
+      toolsLoaded,
+      message: `Loaded ${toolsLoaded.join(', ')}. These tools are now available for use.`,
+    };
+  },
+};
+
+/**
+ * Task meta-tool.
+ *
+ * Delegates a self-contained research question to a child agent with its own
+ * history and read-only tools. Only the child's final summary comes back, so
+ * dozens of intermediate reads and searches never enter the parent's context.
+ */
+export const taskTool: ToolDefinition = {
+  name: 'task',
+  description:
+    'Delegate a self-contained research task to a sub-agent with its own context and read-only tools ' +
+    '(read files, search, git, read-only shell). It works independently and returns only a concise summary. ' +
+    'Use it for broad questions that would take many reads or searches. ' +
+    'Call it several times in one turn to research independent questions in parallel.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      description: {
+        type: 'string',
+        description: 'Short (3-5 word) label for the task, shown to the user',
+      },
+      prompt: {
+        type: 'string',
+        description:
+          'Complete instructions for the sub-agent. It cannot see this conversation, so include all ' +
+          'relevant context and say exactly what the summary should contain.',
+      },
+      categories: {
+        type: 'array',
+        description: 'Tool categories the sub-agent may use (default: all read-only tools)',
+        items: { type: 'string', enum: ['file_ops', 'search', 'git', 'shell'] },
+      },
+    },
+    required: ['description', 'prompt'],
+  },
+  metadata: {
+    category: 'meta',
+    // The child only gets read-only tools, so tasks can run alongside each other
+    readOnly: true,
+    inputExamples: [
+      {
+        description: 'Find auth middleware',
+        prompt: 'Find where HTTP requests are authenticated. List the files and functions involved, with line numbers.',
+      },
+    ],
+  },
+  async handler(input, context): Promise<SubAgentResult> {
+    if (!context.runSubAgent) {
+      throw new ToolNotAllowedError('task', 'sub-agents are not available here');
+    }
+
+    return context.runSubAgent(context.toolCallId ?? 'task', {
+      description: String(input.description ?? ''),
+      prompt: String(input.prompt ?? ''),
+      categories: input.categories as ToolCategory[] | undefined,
+    });
+  },
+};
+
 /**
  * All meta tools.
  */
 export const metaTools: ToolDefinition[] = [
   loadToolsTool,
+  searchToolsTool,
+  taskTool,
 ];
 
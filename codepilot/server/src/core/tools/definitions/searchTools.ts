@@ -220,6 +220,9 @@ export const grepTool: ToolDefinition = {
   },
   metadata: {
     category: 'search',
+    readOnly: true,
+    readsPaths: (input) => [(input.path as string) || '.'],
+    programmaticFrom: ['execute_code'],
     inputExamples: [
       { pattern: 'TODO' },
       { pattern: 'import.*React', regex: true },
@@ -227,7 +230,7 @@ export const grepTool: ToolDefinition = {
   },
   async handler(input, context) {
     const pattern = input.pattern as string;
-    const searchPath = resolvePath((input.path as string) || '.', context.workingDir);
+    const searchPath = resolvePath((input.path as string) || '.', context.workingDir, context.allowedRoots);
     const options = {
       regex: input.regex as boolean | undefined,
       caseSensitive: input.caseSensitive as boolean | undefined,
@@ -385,6 +388,9 @@ export const findFilesTool: ToolDefinition = {
   },
   metadata: {
     category: 'search',
+    readOnly: true,
+    readsPaths: (input) => [(input.path as string) || '.'],
+    programmaticFrom: ['execute_code'],
     inputExamples: [
       { pattern: '*.ts' },
       { pattern: '**/*.test.ts' },
@@ -392,7 +398,7 @@ export const findFilesTool: ToolDefinition = {
   },
   async handler(input, context) {
     const pattern = input.pattern as string;
-    const searchPath = resolvePath((input.path as string) || '.', context.workingDir);
+    const searchPath = resolvePath((input.path as string) || '.', context.workingDir, context.allowedRoots);
     const maxResults = (input.maxResults as number) || 100;
 
     const useRipgrep = await isRipgrepAvailable();
@@ -76,6 +76,7 @@ export const runShellTool: ToolDefinition = {
   },
   metadata: {
     category: 'shell',
+    requiresApproval: true,
     inputExamples: [
       { command: 'ls -la' },
       { command: 'npm test' },
@@ -90,7 +91,7 @@ export const runShellTool: ToolDefinition = {
       throw new Error(`Dangerous command blocked: ${blockedReason}`);
     }
 
-    const cwdAbsolute = resolvePath(cwdRelative, context.workingDir);
+    const cwdAbsolute = resolvePath(cwdRelative, context.workingDir, context.allowedRoots);
 
     try {
       const { stdout, stderr } = await execAsync(command, {
@@ -0,0 +1,137 @@
+/**
+ * Structured tool errors.
+ * Thrown by tool handlers (or the executor) when the failure is something the
+ * model can recover from - the code and details are serialized into the tool
+ * result so the model can adjust its next call instead of guessing.
+ */
+
+/**
+ * Base class for recoverable, structured tool errors.
+ */
+export class ToolError extends Error {
+  /** Machine-readable error code (snake_case) */
+  readonly code: string;
+  /** Extra context returned to the model alongside the message */
+  readonly details: Record<string, unknown>;
+
+  constructor(code: string, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'ToolError';
+    this.code = code;
+    this.details = details;
+  }
+
+  /**
+   * Serializable payload sent back to the model.
+   */
+  toJSON(): Record<string, unknown> {
+    return { code: this.code, message: this.message, ...this.details };
+  }
+}
+
+/**
+ * Raised when a path resolves outside the session's workspace
+ * (via `..` traversal, an absolute path, or a symlink).
+ */
+export class OutsideWorkspaceError extends ToolError {
+  constructor(requestedPath: string, workspace: string, allowedRoots: string[] = []) {
+    super(
+      'outside_workspace',
+      `Path "${requestedPath}" resolves outside the workspace (${workspace}).`,
+      {
+        path: requestedPath,
+        workspace,
+        allowedRoots,
+        hint: 'Use a path relative to the workspace root that stays inside it.',
+      }
+    );
+    this.name = 'OutsideWorkspaceError';
+  }
+}
+
+/**
+ * Raised when the user denies a tool call that required approval.
+ */
+export class ApprovalDeniedError extends ToolError {
+  constructor(toolName: string, reason?: string) {
+    super(
+      'approval_denied',
+      `The user denied the ${toolName} call${reason ? `: ${reason}` : '.'}`,
+      {
+        tool: toolName,
+        ...(reason ? { reason } : {}),
+        hint: 'Do not retry the same call. Adjust your approach based on the reason, or ask the user how to proceed.',
+      }
+    );
+    this.name = 'ApprovalDeniedError';
+  }
+}
+
+/**
+ * Raised when the session's command tool policy does not permit a tool call
+ * (a tool outside the allowed set, or a shell command outside the read-only allowlist).
+ */
+export class ToolNotAllowedError extends ToolError {
+  constructor(toolName: string, reason: string) {
+    super(
+      'tool_not_allowed',
+      `The ${toolName} call is not allowed in this mode: ${reason}`,
+      {
+        tool: toolName,
+        reason,
+        hint: 'This mode is read-only. Use only the tools and commands it allows.',
+      }
+    );
+    this.name = 'ToolNotAllowedError';
+  }
+}
+
+/**
+ * Raised when apply_patch can't parse a patch or a hunk doesn't match the file.
+ * Nothing is written when this is thrown.
+ */
+export class PatchError extends ToolError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super('patch_failed', message, {
+      ...details,
+      hint: 'No files were changed. Re-read the affected files and regenerate the patch against their current content.',
+    });
+    this.name = 'PatchError';
+  }
+}
+
+/**
+ * Raised when execute_code's script throws, times out or exceeds a sandbox limit.
+ * Console output captured before the failure is included to help debugging.
+ */
+export class CodeExecutionError extends ToolError {
+  constructor(message: string, logs: string[] = []) {
+    super('code_execution_failed', message, {
+      ...(logs.length > 0 ? { logs } : {}),
+      hint: 'Fix the script and run it again. Only tools exposed to the sandbox can be called, via `await tools.<name>(input)`.',
+    });
+    this.name = 'CodeExecutionError';
+  }
+}
+
+/**
+ * Raised when an MCP server reports that a tool call failed,
+ * or the server can't be reached to make the call.
+ */
+export class McpToolError extends ToolError {
+  constructor(server: string, toolName: string, message: string) {
+    super('mcp_tool_failed', message, {
+      server,
+      tool: toolName,
+      hint: 'The tool is provided by an external MCP server. Check the arguments against its schema, or try another approach.',
+    });
+    this.name = 'McpToolError';
+  }
+}
+
+/**
+ * Type guard for structured tool errors.
+ */
+export function isToolError(err: unknown): err is ToolError {
+  return err instanceof ToolError;
+}
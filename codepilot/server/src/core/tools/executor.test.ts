@@ -0,0 +1,175 @@
+/**
+ * Tool executor scheduling tests
+ */
+import { describe, it, expect } from 'vitest';
+import { ToolRegistry } from './registry';
+import { executeInvocations, streamInvocations, type ToolInvocation } from './executor';
+import type { ToolDefinition, ToolMetadata } from './types';
+
+/** Records when each call starts and finishes, in event order */
+type Timeline = string[];
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create a tool that logs start/end events and waits `input.ms` milliseconds.
+ */
+function timedTool(name: string, timeline: Timeline, metadata: Partial<ToolMetadata>): ToolDefinition {
+  return {
+    name,
+    description: name,
+    inputSchema: { type: 'object' },
+    metadata: { category: 'file_ops', ...metadata },
+    async handler(input) {
+      timeline.push(`start:${input.label}`);
+      await delay((input.ms as number) ?? 10);
+      timeline.push(`end:${input.label}`);
+      return input.label;
+    },
+  };
+}
+
+function createRegistry(timeline: Timeline): ToolRegistry {
+  const registry = new ToolRegistry();
+  registry.registerAll([
+    timedTool('read', timeline, { readOnly: true, readsPaths: (input) => (input.path ? [input.path as string] : []) }),
+    timedTool('write', timeline, { mutatesPaths: (input) => [input.path as string] }),
+    timedTool('shell', timeline, {}),
+  ]);
+  return registry;
+}
+
+function call(name: string, label: string, input: Record<string, unknown> = {}): ToolInvocation {
+  return { id: label, name, input: { label, ...input } };
+}
+
+const context = { workingDir: '/workspace' };
+
+describe('executeInvocations', () => {
+  it('should run read-only calls in parallel and keep result order', async () => {
+    const timeline: Timeline = [];
+    const registry = createRegistry(timeline);
+
+    const results = await executeInvocations(
+      registry,
+      [call('read', 'a', { ms: 30 }), call('read', 'b', { ms: 10 }), call('read', 'c', { ms: 20 })],
+      context
+    );
+
+    expect(results.map((r) => r.value)).toEqual(['a', 'b', 'c']);
+    expect(timeline.slice(0, 3)).toEqual(['start:a', 'start:b', 'start:c']);
+  });
+
+  it('should serialise writers to the same path but not to different paths', async () => {
+    const timeline: Timeline = [];
+    const registry = createRegistry(timeline);
+
+    await executeInvocations(
+      registry,
+      [
+        call('write', 'w1', { path: 'a.ts', ms: 20 }),
+        call('write', 'w2', { path: './a.ts', ms: 5 }),
+        call('write', 'w3', { path: 'b.ts', ms: 5 }),
+      ],
+      context
+    );
+
+    expect(timeline.indexOf('start:w2')).toBeGreaterThan(timeline.indexOf('end:w1'));
+    expect(timeline.indexOf('start:w3')).toBeLessThan(timeline.indexOf('end:w1'));
+  });
+
+  it('should keep reads and writes of overlapping paths in call order', async () => {
+    const timeline: Timeline = [];
+    const registry = createRegistry(timeline);
+
+    await executeInvocations(
+      registry,
+      [
+        call('write', 'w1', { path: 'src/a.ts', ms: 20 }),
+        call('read', 'r1', { path: 'src/a.ts', ms: 20 }),
+        call('read', 'r2', { path: 'src', ms: 5 }),
+        call('read', 'r3', { path: 'b.ts', ms: 5 }),
+        call('write', 'w2', { path: 'src/a.ts', ms: 5 }),
+      ],
+      context
+    );
+
+    // Read-after-write (including a directory above the file) waits for the write
+    expect(timeline.indexOf('start:r1')).toBeGreaterThan(timeline.indexOf('end:w1'));
+    expect(timeline.indexOf('start:r2')).toBeGreaterThan(timeline.indexOf('end:w1'));
+    // Write-after-read waits for the reads
+    expect(timeline.indexOf('start:w2')).toBeGreaterThan(timeline.indexOf('end:r1'));
+    expect(timeline.indexOf('start:w2')).toBeGreaterThan(timeline.indexOf('end:r2'));
+    // Unrelated reads don't wait
+    expect(timeline.indexOf('start:r3')).toBeLessThan(timeline.indexOf('end:w1'));
+  });
+
+  it('should run calls with undeclared side effects on their own', async () => {
+    const timeline: Timeline = [];
+    const registry = createRegistry(timeline);
+
+    await executeInvocations(
+      registry,
+      [call('read', 'r1', { ms: 10 }), call('shell', 's', { ms: 10 }), call('read', 'r2', { ms: 10 })],
+      context
+    );
+
+    expect(timeline).toEqual(['start:r1', 'end:r1', 'start:s', 'end:s', 'start:r2', 'end:r2']);
+  });
+
+  it('should call beforeMutation with the declared paths before a writer runs', async () => {
+    const timeline: Timeline = [];
+    const registry = createRegistry(timeline);
+    const beforeMutation = async (invocation: ToolInvocation, paths: string[]) => {
+      timeline.push(`checkpoint:${invocation.id}:${paths.join(',')}`);
+    };
+
+    await executeInvocations(
+      registry,
+      [call('read', 'r'), call('write', 'w', { path: 'a.ts' })],
+      { ...context, beforeMutation },
+      { concurrency: 1 }
+    );
+
+    expect(timeline).toEqual(['start:r', 'end:r', 'checkpoint:w:a.ts', 'start:w', 'end:w']);
+  });
+
+  it('should respect the concurrency limit', async () => {
+    const timeline: Timeline = [];
+    const registry = createRegistry(timeline);
+
+    await executeInvocations(
+      registry,
+      ['a', 'b', 'c', 'd'].map((label) => call('read', label, { ms: 10 })),
+      context,
+      { concurrency: 2 }
+    );
+
+    let running = 0;
+    let maxRunning = 0;
+    for (const event of timeline) {
+      running += event.startsWith('start:') ? 1 : -1;
+      maxRunning = Math.max(maxRunning, running);
+    }
+    expect(maxRunning).toBe(2);
+  });
+});
+
+describe('streamInvocations', () => {
+  it('should yield results in completion order', async () => {
+    const registry = createRegistry([]);
+    const finished: string[] = [];
+
+    for await (const result of streamInvocations(
+      registry,
+      [call('read', 'slow', { ms: 30 }), call('read', 'fast', { ms: 5 }), call('missing', 'unknown')],
+      context
+    )) {
+      finished.push(result.id);
+    }
+
+    expect(finished).toEqual(['unknown', 'fast', 'slow']);
+  });
+});
@@ -1,10 +1,14 @@
 /**
  * Tool Executor - executes tool invocations using the registry.
  * Provider-agnostic execution layer that handlers tool calls from any adapter.
+ * Independent calls in a batch run in parallel, scheduled by their declared side effects.
  */
 
+import path from 'path';
 import type { ToolRegistry } from './registry';
 import type { ToolExecutionContext } from './types';
+import { isToolError, ToolNotAllowedError } from './errors';
+import { checkToolPolicy } from './policy';
 
 /**
  * Represents a tool invocation from the LLM.
@@ -17,9 +21,11 @@ export interface ToolInvocation {
   name: string;
   /** Parsed input arguments */
   input: Record<string, unknown>;
-  /** Optional caller metadata (for programmatic calling) */
+  /** Set when the call was made programmatically (e.g. by an execute_code script) */
   caller?: {
+    /** Name of the calling tool, matched against the tool's programmaticFrom */
     type: string;
+    /** ID of the calling tool call */
     toolId?: string;
   };
 }
@@ -40,30 +46,197 @@ export interface ToolResult {
   isError: boolean;
 }
 
+/**
+ * Options for executing a batch of tool invocations.
+ */
+export interface ExecuteOptions {
+  /** Maximum number of calls running at once (default: TOOL_CONCURRENCY env var, otherwise 4) */
+  concurrency?: number;
+}
+
+/**
+ * Default parallelism for tool calls, from TOOL_CONCURRENCY (default: 4).
+ */
+export function getDefaultToolConcurrency(): number {
+  const fromEnv = Number(process.env.TOOL_CONCURRENCY);
+  return Number.isInteger(fromEnv) && fromEnv > 0 ? fromEnv : 4;
+}
+
 /**
  * Execute a list of tool invocations.
- * Runs each invocation sequentially and collects results.
+ * Independent calls run in parallel (see streamInvocations for the scheduling rules).
  *
  * @param registry - Tool registry to look up handlers
  * @param invocations - List of tool calls to execute
  * @param context - Execution context (workingDir, etc.)
+ * @param options - Concurrency options
  * @returns Array of results in the same order as invocations
  */
 export async function executeInvocations(
   registry: ToolRegistry,
   invocations: ToolInvocation[],
-  context: ToolExecutionContext
+  context: ToolExecutionContext,
+  options: ExecuteOptions = {}
 ): Promise<ToolResult[]> {
-  const results: ToolResult[] = [];
+  const results: ToolResult[] = new Array(invocations.length);
 
-  for (const invocation of invocations) {
-    const result = await executeSingleInvocation(registry, invocation, context);
-    results.push(result);
+  for await (const { index, result } of runScheduled(registry, invocations, context, options)) {
+    results[index] = result;
   }
 
   return results;
 }
 
+/**
+ * Execute a list of tool invocations, yielding each result as soon as it finishes.
+ *
+ * Scheduling follows each tool's declared side effects:
+ * - readOnly calls run in parallel with anything, except that calls declaring
+ *   readsPaths keep their order with calls writing overlapping paths
+ * - calls declaring mutatesPaths wait for earlier calls that touch the same path
+ * - calls with undeclared side effects (e.g. run_shell) wait for everything before
+ *   them, and everything after waits for them
+ * At most `concurrency` calls run at once.
+ */
+export async function* streamInvocations(
+  registry: ToolRegistry,
+  invocations: ToolInvocation[],
+  context: ToolExecutionContext,
+  options: ExecuteOptions = {}
+): AsyncGenerator<ToolResult> {
+  for await (const { result } of runScheduled(registry, invocations, context, options)) {
+    yield result;
+  }
+}
+
+/**
+ * How a call interacts with other calls in the same batch.
+ */
+type ToolAccess =
+  | { kind: 'read'; paths: string[] }
+  | { kind: 'write'; paths: string[] }
+  | { kind: 'exclusive' };
+
+/**
+ * Classify a call from its tool's metadata.
+ * Unknown tools are treated as reads - they fail without side effects.
+ */
+function getToolAccess(
+  registry: ToolRegistry,
+  invocation: ToolInvocation,
+  context: ToolExecutionContext
+): ToolAccess {
+  const tool = registry.get(invocation.name);
+  const resolvePaths = (declare: (input: Record<string, unknown>) => string[]) =>
+    declare(invocation.input)
+      .filter((p) => typeof p === 'string')
+      .map((p) => path.resolve(context.workingDir, p));
+
+  if (!tool) {
+    return { kind: 'read', paths: [] };
+  }
+
+  if (tool.metadata.readOnly) {
+    try {
+      return { kind: 'read', paths: tool.metadata.readsPaths ? resolvePaths(tool.metadata.readsPaths) : [] };
+    } catch {
+      // Malformed input - it will fail without reading anything
+      return { kind: 'read', paths: [] };
+    }
+  }
+
+  if (tool.metadata.mutatesPaths) {
+    try {
+      return { kind: 'write', paths: resolvePaths(tool.metadata.mutatesPaths) };
+    } catch {
+      // Malformed input - run it on its own to be safe
+      return { kind: 'exclusive' };
+    }
+  }
+
+  return { kind: 'exclusive' };
+}
+
+/**
+ * Whether two resolved paths are the same or one contains the other.
+ */
+function overlaps(a: string, b: string): boolean {
+  return a === b || a.startsWith(b + path.sep) || b.startsWith(a + path.sep);
+}
+
+/**
+ * Whether two calls must not overlap in time.
+ */
+function conflicts(a: ToolAccess, b: ToolAccess): boolean {
+  if (a.kind === 'exclusive' || b.kind === 'exclusive') return true;
+  if (a.kind === 'read' && b.kind === 'read') return false;
+  // Write/write, read-after-write and write-after-read on overlapping paths keep the model's order
+  return a.paths.some((p) => b.paths.some((q) => overlaps(p, q)));
+}
+
+/**
+ * Create a limiter that runs at most `concurrency` tasks at once (FIFO).
+ */
+function createLimiter(concurrency: number) {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active < concurrency) {
+      active++;
+    } else {
+      // The finishing task hands its slot over, so `active` stays unchanged
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
+
+/**
+ * Schedule invocations and yield { index, result } in completion order.
+ */
+async function* runScheduled(
+  registry: ToolRegistry,
+  invocations: ToolInvocation[],
+  context: ToolExecutionContext,
+  options: ExecuteOptions
+): AsyncGenerator<{ index: number; result: ToolResult }> {
+  const limit = createLimiter(Math.max(1, options.concurrency ?? getDefaultToolConcurrency()));
+  const accesses = invocations.map((invocation) => getToolAccess(registry, invocation, context));
+
+  // Each call starts once the earlier calls it conflicts with have finished.
+  // executeSingleInvocation never rejects, so dependencies always settle.
+  const tasks: Promise<ToolResult>[] = [];
+  invocations.forEach((invocation, index) => {
+    const dependencies = tasks.filter((_, earlier) => conflicts(accesses[earlier], accesses[index]));
+    tasks.push(
+      Promise.all(dependencies).then(() =>
+        limit(() => executeSingleInvocation(registry, invocation, context))
+      )
+    );
+  });
+
+  const pending = new Map(
+    tasks.map((task, index) => [index, task.then((result) => ({ index, result }))])
+  );
+
+  while (pending.size > 0) {
+    const finished = await Promise.race(pending.values());
+    pending.delete(finished.index);
+    yield finished;
+  }
+}
+
 /**
  * Execute a single tool invocation.
  */
@@ -85,8 +258,32 @@ async function executeSingleInvocation(
     };
   }
 
-  // Check if tool is loaded (skip check for meta tools which are always available)
-  if (tool.metadata.category !== 'meta' && context.loadedTools) {
+  // Enforce the session's command tool policy (e.g. read-only research mode)
+  const policyViolation = checkToolPolicy(tool, invocation.input, context.toolPolicy);
+  if (policyViolation) {
+    return {
+      id: invocation.id,
+      name: invocation.name,
+      value: null,
+      error: new ToolNotAllowedError(invocation.name, policyViolation),
+      isError: true,
+    };
+  }
+
+  // Programmatic calls are limited to tools that opt in to the caller
+  if (invocation.caller && !tool.metadata.programmaticFrom?.includes(invocation.caller.type)) {
+    return {
+      id: invocation.id,
+      name: invocation.name,
+      value: null,
+      error: new Error(`Tool "${invocation.name}" cannot be called from ${invocation.caller.type}.`),
+      isError: true,
+    };
+  }
+
+  // Check if tool is loaded (skip check for meta tools which are always available,
+  // and for programmatic calls, which don't go through the model's tool list)
+  if (tool.metadata.category !== 'meta' && !invocation.caller && context.loadedTools) {
     if (!context.loadedTools.has(invocation.name)) {
       return {
         id: invocation.id,
@@ -94,16 +291,28 @@ async function executeSingleInvocation(
         value: null,
         error: new Error(
           `Tool "${invocation.name}" is not loaded. ` +
-            `Use load_tools({ category: "${tool.metadata.category}" }) to load it first.`
+            `Use load_tools({ category: "${tool.metadata.category}" }) or search_tools to load it first.`
         ),
         isError: true,
       };
     }
   }
 
+  // Let the session snapshot the files this call is about to change
+  if (tool.metadata.mutatesPaths && context.beforeMutation) {
+    try {
+      await context.beforeMutation(invocation, tool.metadata.mutatesPaths(invocation.input));
+    } catch (err) {
+      console.warn(
+        `[Executor] Checkpoint before ${invocation.name} failed:`,
+        err instanceof Error ? err.message : err
+      );
+    }
+  }
+
   // Execute the handler
   try {
-    const value = await tool.handler(invocation.input, context);
+    const value = await tool.handler(invocation.input, { ...context, toolCallId: invocation.id });
     return {
       id: invocation.id,
       name: invocation.name,
@@ -125,9 +334,13 @@ async function executeSingleInvocation(
 /**
  * Format a tool result for returning to the LLM.
  * Serializes the value to a string format.
+ * Structured ToolErrors include their code and details as JSON after the message.
  */
 export function formatToolResult(result: ToolResult): string {
   if (result.isError && result.error) {
+    if (isToolError(result.error)) {
+      return `Error: ${result.error.message}\n${JSON.stringify(result.error.toJSON(), null, 2)}`;
+    }
     return `Error: ${result.error.message}`;
   }
 
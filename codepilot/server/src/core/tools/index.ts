@@ -4,9 +4,13 @@
 
 // Types
 export type {
+  BuiltinToolCategory,
   ToolCategory,
   ToolExecutionContext,
   ToolMetadata,
+  ToolPreview,
+  SubAgentRequest,
+  SubAgentResult,
   BaseToolDefinition,
   ToolDefinition,
   CategoryInfo,
@@ -15,9 +19,54 @@ export type {
 // Registry
 export { ToolRegistry, globalRegistry } from './registry';
 
+// Errors
+export {
+  ToolError,
+  OutsideWorkspaceError,
+  ApprovalDeniedError,
+  ToolNotAllowedError,
+  PatchError,
+  CodeExecutionError,
+  McpToolError,
+  isToolError,
+} from './errors';
+
+// Policy
+export type { ToolPolicy } from './policy';
+export {
+  READ_ONLY_SHELL_COMMANDS,
+  isToolAllowed,
+  intersectToolPolicies,
+  checkShellCommand,
+  checkToolPolicy,
+} from './policy';
+
+// Search
+export type { ToolSearchResult } from './search';
+export { ToolSearchIndex, tokenize } from './search';
+
+// Sandbox
+export type { SandboxLimits, SandboxResult, SandboxToolCaller } from './sandbox';
+export { runInSandbox, DEFAULT_SANDBOX_LIMITS } from './sandbox';
+
+// Approval
+export type { ApprovalPolicy, ApprovalDecision, ApprovalRequest, ApprovalHandler } from './approval';
+export {
+  APPROVAL_POLICIES,
+  isApprovalPolicy,
+  getDefaultApprovalPolicy,
+  needsApproval,
+  buildApprovalRequest,
+} from './approval';
+
 // Executor
-export type { ToolInvocation, ToolResult } from './executor';
-export { executeInvocations, formatToolResult } from './executor';
+export type { ToolInvocation, ToolResult, ExecuteOptions } from './executor';
+export {
+  executeInvocations,
+  streamInvocations,
+  getDefaultToolConcurrency,
+  formatToolResult,
+} from './executor';
 
 // Tool definitions
 export {
@@ -27,17 +76,22 @@ export {
   gitTools,
   searchTools,
   shellTools,
+  codeTools,
   metaTools,
   loadToolsTool,
+  searchToolsTool,
+  taskTool,
   readFileTool,
   writeFileTool,
   listDirTool,
   editFileTool,
+  applyPatchTool,
   gitDiffTool,
   gitStatusTool,
   gitLogTool,
   grepTool,
   findFilesTool,
   runShellTool,
+  executeCodeTool,
 } from './definitions';
 
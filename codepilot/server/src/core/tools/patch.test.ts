@@ -0,0 +1,210 @@
+/**
+ * Patch parsing and apply_patch tool tests
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { parsePatch, applyHunks, getPatchPaths } from './patch';
+import { applyPatchTool } from './definitions';
+import { isToolError } from './errors';
+
+describe('parsePatch', () => {
+  it('should parse a multi-file git diff with add, delete and rename', () => {
+    const files = parsePatch(
+      [
+        'diff --git a/src/a.ts b/src/a.ts',
+        'index 1111111..2222222 100644',
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1,2 +1,2 @@',
+        ' const a = 1;',
+        '-const b = 2;',
+        '+const b = 3;',
+        'diff --git a/new.ts b/new.ts',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/new.ts',
+        '@@ -0,0 +1 @@',
+        '+export {};',
+        'diff --git a/old.ts b/old.ts',
+        'deleted file mode 100644',
+        '--- a/old.ts',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-gone',
+        'diff --git a/from.ts b/to.ts',
+        'similarity index 100%',
+        'rename from from.ts',
+        'rename to to.ts',
+      ].join('\n')
+    );
+
+    expect(files.map((f) => f.type)).toEqual(['update', 'add', 'delete', 'update']);
+    expect(files[1]).toEqual({ type: 'add', path: 'new.ts', content: 'export {};\n' });
+    expect(files[3]).toMatchObject({ path: 'from.ts', movePath: 'to.ts', hunks: [] });
+    expect(getPatchPaths(files)).toEqual(['src/a.ts', 'new.ts', 'old.ts', 'from.ts', 'to.ts']);
+  });
+
+  it('should parse a V4A patch', () => {
+    const files = parsePatch(
+      [
+        '*** Begin Patch',
+        '*** Add File: hello.txt',
+        '+hello',
+        '*** Update File: src/app.ts',
+        '*** Move to: src/main.ts',
+        '@@ class App',
+        '@@   run() {',
+        '-    return 1;',
+        '+    return 2;',
+        '*** Delete File: tmp.txt',
+        '*** End Patch',
+      ].join('\n')
+    );
+
+    expect(files).toEqual([
+      { type: 'add', path: 'hello.txt', content: 'hello\n' },
+      {
+        type: 'update',
+        path: 'src/app.ts',
+        movePath: 'src/main.ts',
+        hunks: [
+          {
+            anchors: ['class App', 'run() {'],
+            lines: [
+              { op: '-', text: '    return 1;' },
+              { op: '+', text: '    return 2;' },
+            ],
+          },
+        ],
+      },
+      { type: 'delete', path: 'tmp.txt' },
+    ]);
+  });
+});
+
+describe('applyHunks', () => {
+  it('should use anchors to pick the right occurrence', () => {
+    const content = 'function a() {\n  return 0;\n}\nfunction b() {\n  return 0;\n}\n';
+    const [file] = parsePatch('*** Begin Patch\n*** Update File: x.ts\n@@ function b() {\n-  return 0;\n+  return 1;\n*** End Patch');
+
+    const result = applyHunks(content, file.type === 'update' ? file.hunks : [], 'x.ts');
+
+    expect(result.content).toBe('function a() {\n  return 0;\n}\nfunction b() {\n  return 1;\n}\n');
+    expect(result.fuzz).toBe(0);
+  });
+
+  it('should match hunks despite whitespace drift and preserve CRLF', () => {
+    const content = 'if (x) {\r\n    doThing();  \r\n}\r\n';
+    const [file] = parsePatch('--- a/x.ts\n+++ b/x.ts\n@@ -1,3 +1,3 @@\n if (x) {\n-  doThing();\n+  doOther();\n }\n');
+
+    const result = applyHunks(content, file.type === 'update' ? file.hunks : [], 'x.ts');
+
+    expect(result.content).toBe('if (x) {\r\n  doOther();\r\n}\r\n');
+    expect(result.fuzz).toBeGreaterThan(0);
+  });
+
+  it('should throw a patch error when a hunk does not match', () => {
+    const [file] = parsePatch('--- a/x.ts\n+++ b/x.ts\n@@ -1 +1 @@\n-missing\n+present\n');
+
+    expect(() => applyHunks('other\n', file.type === 'update' ? file.hunks : [], 'x.ts')).toThrow(
+      'does not match'
+    );
+  });
+});
+
+describe('apply_patch tool', () => {
+  let workingDir: string;
+
+  beforeEach(async () => {
+    workingDir = await fs.mkdtemp(path.join(os.tmpdir(), 'codepilot-patch-'));
+    await fs.writeFile(path.join(workingDir, 'a.txt'), 'one\ntwo\nthree\n');
+    await fs.writeFile(path.join(workingDir, 'b.txt'), 'alpha\nbeta\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(workingDir, { recursive: true, force: true });
+  });
+
+  const read = (name: string) => fs.readFile(path.join(workingDir, name), 'utf8');
+
+  it('should apply every file and return old and new content', async () => {
+    const result = (await applyPatchTool.handler(
+      {
+        patch: [
+          '*** Begin Patch',
+          '*** Update File: a.txt',
+          ' one',
+          '-two',
+          '+TWO',
+          '*** Update File: b.txt',
+          '*** Move to: dir/c.txt',
+          ' alpha',
+          '+gamma',
+          '*** Add File: d.txt',
+          '+new',
+          '*** End Patch',
+        ].join('\n'),
+      },
+      { workingDir }
+    )) as { files: Array<{ path: string; action: string; oldContent: string; newContent: string }> };
+
+    expect(await read('a.txt')).toBe('one\nTWO\nthree\n');
+    expect(await read('dir/c.txt')).toBe('alpha\ngamma\nbeta\n');
+    expect(await read('d.txt')).toBe('new\n');
+    await expect(read('b.txt')).rejects.toThrow();
+    expect(result.files.map((f) => f.action)).toEqual(['update', 'rename', 'add']);
+    expect(result.files[0]).toMatchObject({ oldContent: 'one\ntwo\nthree\n', newContent: 'one\nTWO\nthree\n' });
+  });
+
+  it('should write nothing if any file fails to validate', async () => {
+    const error = await applyPatchTool
+      .handler(
+        {
+          patch: [
+            '*** Begin Patch',
+            '*** Update File: a.txt',
+            '-one',
+            '+ONE',
+            '*** Update File: b.txt',
+            '-not in the file',
+            '+x',
+            '*** End Patch',
+          ].join('\n'),
+        },
+        { workingDir }
+      )
+      .catch((err) => err);
+
+    expect(isToolError(error) && error.code).toBe('patch_failed');
+    expect(await read('a.txt')).toBe('one\ntwo\nthree\n');
+  });
+
+  it('should roll back written files when a later write fails', async () => {
+    // Adding a file under an existing regular file makes the final write fail
+    await fs.writeFile(path.join(workingDir, 'blocker.txt'), '');
+
+    const error = await applyPatchTool
+      .handler(
+        {
+          patch: [
+            '*** Begin Patch',
+            '*** Update File: a.txt',
+            '-one',
+            '+ONE',
+            '*** Delete File: b.txt',
+            '*** Add File: blocker.txt/inner.txt',
+            '+x',
+            '*** End Patch',
+          ].join('\n'),
+        },
+        { workingDir }
+      )
+      .catch((err) => err);
+
+    expect((error as Error).message).toContain('rolled back');
+    expect(await read('a.txt')).toBe('one\ntwo\nthree\n');
+    expect(await read('b.txt')).toBe('alpha\nbeta\n');
+  });
+});
@@ -0,0 +1,441 @@
+/**
+ * Patch parsing and application for the apply_patch tool.
+ * Supports multi-file unified diffs (git style) and V4A patches
+ * (`*** Begin Patch` / `*** Update File:` ...), with fuzzy hunk matching.
+ * Everything here is in-memory - callers handle reading and writing files.
+ */
+
+import { PatchError } from './errors';
+
+/**
+ * A single line of a hunk.
+ */
+interface HunkLine {
+  op: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * A contiguous change within a file.
+ */
+export interface Hunk {
+  /** 1-based start line in the old file (unified diffs only - used as a search hint) */
+  oldStart?: number;
+  /** Anchor lines to locate before the hunk (V4A `@@ anchor` headers) */
+  anchors: string[];
+  lines: HunkLine[];
+  /** Hunk must match at the end of the file (V4A `*** End of File`) */
+  atEndOfFile?: boolean;
+  /** `\ No newline at end of file` applies to the new side */
+  noNewlineAtEnd?: boolean;
+  /** `\ No newline at end of file` applies to the old side only */
+  oldNoNewlineAtEnd?: boolean;
+}
+
+/**
+ * One file's change in a patch.
+ */
+export type FilePatch =
+  | { type: 'add'; path: string; content: string }
+  | { type: 'delete'; path: string }
+  | { type: 'update'; path: string; movePath?: string; hunks: Hunk[] };
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse a patch in either supported format.
+ * @throws PatchError if the patch is malformed or empty
+ */
+export function parsePatch(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  const isV4A = lines.some((line) => /^\*\*\* (Begin Patch|Add File:|Update File:|Delete File:)/.test(line));
+  const files = isV4A ? parseV4APatch(lines) : parseUnifiedDiff(lines);
+
+  if (files.length === 0) {
+    throw new PatchError('Patch contains no file changes.');
+  }
+
+  const seen = new Set<string>();
+  for (const file of files) {
+    if (seen.has(file.path)) {
+      throw new PatchError(`Patch changes "${file.path}" more than once. Combine its hunks into one file section.`, {
+        path: file.path,
+      });
+    }
+    seen.add(file.path);
+  }
+
+  return files;
+}
+
+/**
+ * Every path a patch reads or writes (sources and rename targets).
+ */
+export function getPatchPaths(files: FilePatch[]): string[] {
+  return files.flatMap((file) =>
+    file.type === 'update' && file.movePath ? [file.path, file.movePath] : [file.path]
+  );
+}
+
+/**
+ * Parse a V4A patch:
+ *   *** Begin Patch
+ *   *** Update File: path  (optionally followed by *** Move to: new_path)
+ *   @@ optional anchor line
+ *    context / -removed / +added
+ *   *** Add File: path     (+ lines)
+ *   *** Delete File: path
+ *   *** End Patch
+ */
+function parseV4APatch(lines: string[]): FilePatch[] {
+  const files: FilePatch[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    let match: RegExpMatchArray | null;
+
+    if ((match = line.match(/^\*\*\* Add File: (.+)$/))) {
+      const content: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith('***')) {
+        if (!lines[i].startsWith('+')) {
+          throw new PatchError(`Lines of an added file must start with "+" (in "${match[1].trim()}").`, {
+            path: match[1].trim(),
+            line: lines[i],
+          });
+        }
+        content.push(lines[i].slice(1));
+        i++;
+      }
+      files.push({ type: 'add', path: match[1].trim(), content: content.length ? `${content.join('\n')}\n` : '' });
+    } else if ((match = line.match(/^\*\*\* Delete File: (.+)$/))) {
+      files.push({ type: 'delete', path: match[1].trim() });
+      i++;
+    } else if ((match = line.match(/^\*\*\* Update File: (.+)$/))) {
+      const filePath = match[1].trim();
+      let movePath: string | undefined;
+      i++;
+
+      const moveMatch = lines[i]?.match(/^\*\*\* Move to: (.+)$/);
+      if (moveMatch) {
+        movePath = moveMatch[1].trim();
+        i++;
+      }
+
+      const hunks: Hunk[] = [];
+      let current: Hunk | null = null;
+      while (i < lines.length && !/^\*\*\* (Add File|Delete File|Update File|End Patch)/.test(lines[i])) {
+        const hunkLine = lines[i];
+        if (hunkLine.startsWith('@@')) {
+          const anchor = hunkLine.slice(2).trim();
+          // Consecutive @@ lines narrow the location (e.g. class, then method)
+          if (current && current.lines.length === 0) {
+            if (anchor) current.anchors.push(anchor);
+          } else {
+            current = { anchors: anchor ? [anchor] : [], lines: [] };
+            hunks.push(current);
+          }
+        } else if (hunkLine === '*** End of File') {
+          if (current) current.atEndOfFile = true;
+        } else {
+          if (!current) {
+            current = { anchors: [], lines: [] };
+            hunks.push(current);
+          }
+          const op = hunkLine[0];
+          if (op === '+' || op === '-' || op === ' ') {
+            current.lines.push({ op, text: hunkLine.slice(1) });
+          } else if (hunkLine === '') {
+            // Blank context line whose leading space was stripped
+            current.lines.push({ op: ' ', text: '' });
+          } else {
+            throw new PatchError(`Invalid hunk line in "${filePath}": lines must start with " ", "-" or "+".`, {
+              path: filePath,
+              line: hunkLine,
+            });
+          }
+        }
+        i++;
+      }
+
+      // Drop trailing blank context produced by the patch's final newline
+      for (const hunk of hunks) trimTrailingBlankContext(hunk);
+
+      const nonEmpty = hunks.filter((hunk) => hunk.lines.length > 0);
+      if (nonEmpty.length === 0 && !movePath) {
+        throw new PatchError(`Update for "${filePath}" has no changes.`, { path: filePath });
+      }
+      files.push({ type: 'update', path: filePath, movePath, hunks: nonEmpty });
+    } else {
+      // *** Begin Patch, *** End Patch, blank lines and commentary outside file sections
+      i++;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Parse a unified diff with one or more files (git or plain `diff -u` output).
+ */
+function parseUnifiedDiff(lines: string[]): FilePatch[] {
+  const files: FilePatch[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    // Git headers before ---/+++ carry renames and mode changes
+    let renameFrom: string | undefined;
+    let renameTo: string | undefined;
+    let gitPaths: { from: string; to: string } | undefined;
+    let isNewFile = false;
+    let isDeletedFile = false;
+
+    if (lines[i].startsWith('diff --git ')) {
+      const match = lines[i].match(/^diff --git a\/(.+) b\/(.+)$/);
+      if (match) gitPaths = { from: match[1], to: match[2] };
+      i++;
+      while (i < lines.length && !lines[i].startsWith('--- ') && !lines[i].startsWith('diff --git ')) {
+        const header = lines[i];
+        if (header.startsWith('rename from ')) renameFrom = header.slice('rename from '.length).trim();
+        else if (header.startsWith('rename to ')) renameTo = header.slice('rename to '.length).trim();
+        else if (header.startsWith('new file mode')) isNewFile = true;
+        else if (header.startsWith('deleted file mode')) isDeletedFile = true;
+        i++;
+      }
+
+      // Pure rename (or empty new/deleted file) - no ---/+++ section follows
+      if (i >= lines.length || lines[i].startsWith('diff --git ')) {
+        if (renameFrom && renameTo) {
+          files.push({ type: 'update', path: renameFrom, movePath: renameTo, hunks: [] });
+        } else if (gitPaths && isNewFile) {
+          files.push({ type: 'add', path: gitPaths.to, content: '' });
+        } else if (gitPaths && isDeletedFile) {
+          files.push({ type: 'delete', path: gitPaths.from });
+        }
+        continue;
+      }
+    }
+
+    if (!lines[i].startsWith('--- ') || !lines[i + 1]?.startsWith('+++ ')) {
+      i++;
+      continue;
+    }
+
+    const oldPath = parseDiffPath(lines[i].slice(4));
+    const newPath = parseDiffPath(lines[i + 1].slice(4));
+    i += 2;
+
+    const hunks: Hunk[] = [];
+    while (i < lines.length && lines[i].startsWith('@@')) {
+      const header = lines[i].match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+      if (!header) {
+        throw new PatchError(`Invalid hunk header: "${lines[i]}"`, { path: newPath ?? oldPath, line: lines[i] });
+      }
+      let oldCount = header[2] === undefined ? 1 : Number(header[2]);
+      let newCount = header[4] === undefined ? 1 : Number(header[4]);
+      const hunk: Hunk = { oldStart: Number(header[1]), anchors: [], lines: [] };
+      i++;
+
+      // Read exactly the counted lines so stray text between files isn't swallowed
+      while (i < lines.length && (oldCount > 0 || newCount > 0 || lines[i].startsWith('\\'))) {
+        const hunkLine = lines[i];
+        if (hunkLine.startsWith('\\')) {
+          // "\ No newline at end of file" refers to the preceding line
+          const previous = hunk.lines[hunk.lines.length - 1];
+          if (previous?.op === '-') hunk.oldNoNewlineAtEnd = true;
+          else if (previous) hunk.noNewlineAtEnd = true;
+          i++;
+          continue;
+        }
+
+        const op = hunkLine === '' ? ' ' : hunkLine[0];
+        if (op !== ' ' && op !== '-' && op !== '+') break;
+        hunk.lines.push({ op, text: hunkLine.slice(1) });
+        if (op !== '+') oldCount--;
+        if (op !== '-') newCount--;
+        i++;
+      }
+      hunks.push(hunk);
+    }
+
+    if (oldPath === null && newPath === null) {
+      throw new PatchError('Diff section has /dev/null for both old and new paths.');
+    }
+
+    if (oldPath === null) {
+      const added = hunks.flatMap((hunk) => hunk.lines.filter((l) => l.op === '+').map((l) => l.text));
+      const noNewline = hunks.some((hunk) => hunk.noNewlineAtEnd);
+      files.push({
+        type: 'add',
+        path: newPath!,
+        content: added.length ? added.join('\n') + (noNewline ? '' : '\n') : '',
+      });
+    } else if (newPath === null) {
+      files.push({ type: 'delete', path: oldPath });
+    } else {
+      const source = renameFrom ?? oldPath;
+      const target = renameTo ?? newPath;
+      files.push({
+        type: 'update',
+        path: source,
+        movePath: target !== source ? target : undefined,
+        hunks,
+      });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Extract a path from a ---/+++ line, stripping a/ b/ prefixes and timestamps.
+ * @returns null for /dev/null
+ */
+function parseDiffPath(raw: string): string | null {
+  const filePath = raw.split('\t')[0].trim();
+  if (filePath === '/dev/null') return null;
+  return filePath.replace(/^[ab]\//, '');
+}
+
+/**
+ * Remove blank context lines at the end of a hunk (artifacts of trailing newlines).
+ */
+function trimTrailingBlankContext(hunk: Hunk): void {
+  while (hunk.lines.length > 0) {
+    const last = hunk.lines[hunk.lines.length - 1];
+    if (last.op !== ' ' || last.text !== '') break;
+    hunk.lines.pop();
+  }
+}
+
+// ============================================================================
+// Application
+// ============================================================================
+
+/**
+ * Line comparison levels tried in order: exact, ignoring trailing whitespace,
+ * ignoring surrounding whitespace, then also normalizing typographic punctuation.
+ */
+const FUZZ_LEVELS: Array<(line: string) => string> = [
+  (line) => line,
+  (line) => line.trimEnd(),
+  (line) => line.trim(),
+  (line) =>
+    line
+      .trim()
+      .replace(/[‘’‛]/g, "'")
+      .replace(/[“”‟]/g, '"')
+      .replace(/[‐-―−]/g, '-')
+      .replace(/ /g, ' '),
+];
+
+/**
+ * Find `pattern` in `lines` at or after `start`, at the lowest fuzz level that matches.
+ * With a hint, the match closest to it wins; otherwise the first one.
+ */
+function findLines(
+  lines: string[],
+  pattern: string[],
+  start: number,
+  options: { hint?: number; atEnd?: boolean } = {}
+): { index: number; fuzz: number } | null {
+  for (let fuzz = 0; fuzz < FUZZ_LEVELS.length; fuzz++) {
+    const normalize = FUZZ_LEVELS[fuzz];
+    const target = pattern.map(normalize);
+    let best: number | null = null;
+
+    const first = options.atEnd ? lines.length - pattern.length : start;
+    for (let index = Math.max(first, start); index <= lines.length - pattern.length; index++) {
+      if (target.every((line, offset) => normalize(lines[index + offset]) === line)) {
+        if (options.hint === undefined) {
+          best = index;
+          break;
+        }
+        if (best === null || Math.abs(index - options.hint) < Math.abs(best - options.hint)) {
+          best = index;
+        }
+      }
+    }
+
+    if (best !== null) return { index: best, fuzz };
+  }
+
+  return null;
+}
+
+/**
+ * Apply an update's hunks to file content.
+ * @returns The new content and the highest fuzz level any hunk needed (0 = exact)
+ * @throws PatchError if a hunk can't be located
+ */
+export function applyHunks(
+  content: string,
+  hunks: Hunk[],
+  filePath: string
+): { content: string; fuzz: number } {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  let hasTrailingNewline = content.length === 0 || content.endsWith('\n');
+  const lines = content.split(/\r?\n/);
+  if (content.endsWith('\n') || content.length === 0) lines.pop();
+
+  let cursor = 0;
+  let maxFuzz = 0;
+
+  for (const [hunkIndex, hunk] of hunks.entries()) {
+    // Move past anchors (V4A @@ lines) so the hunk matches inside the right scope
+    for (const anchor of hunk.anchors) {
+      const found = findLines(lines, [anchor], cursor);
+      if (!found) {
+        throw new PatchError(`Could not find anchor "${anchor}" in "${filePath}".`, {
+          path: filePath,
+          hunk: hunkIndex + 1,
+        });
+      }
+      cursor = found.index + 1;
+      maxFuzz = Math.max(maxFuzz, found.fuzz);
+    }
+
+    const oldLines = hunk.lines.filter((l) => l.op !== '+').map((l) => l.text);
+    const newLines = hunk.lines.filter((l) => l.op !== '-').map((l) => l.text);
+
+    let index: number;
+    if (oldLines.length === 0) {
+      // Pure insertion: after the hinted line, at the end, or at the cursor
+      index = hunk.atEndOfFile
+        ? lines.length
+        : hunk.oldStart !== undefined
+          ? Math.min(hunk.oldStart, lines.length)
+          : cursor;
+    } else {
+      const hint = hunk.oldStart !== undefined ? Math.max(0, hunk.oldStart - 1) : undefined;
+      const found = findLines(lines, oldLines, hint !== undefined ? 0 : cursor, {
+        hint,
+        atEnd: hunk.atEndOfFile,
+      });
+      if (!found) {
+        throw new PatchError(`Hunk ${hunkIndex + 1} does not match the current content of "${filePath}".`, {
+          path: filePath,
+          hunk: hunkIndex + 1,
+          expected: oldLines.slice(0, 5),
+        });
+      }
+      index = found.index;
+      maxFuzz = Math.max(maxFuzz, found.fuzz);
+    }
+
+    lines.splice(index, oldLines.length, ...newLines);
+    cursor = index + newLines.length;
+
+    if (hunk.noNewlineAtEnd) hasTrailingNewline = false;
+    else if (hunk.oldNoNewlineAtEnd) hasTrailingNewline = true;
+  }
+
+  const joined = lines.join(eol);
+  return {
+    content: lines.length > 0 && hasTrailingNewline ? joined + eol : joined,
+    fuzz: maxFuzz,
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Tool policy unit tests
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import { checkShellCommand, intersectToolPolicies, READ_ONLY_SHELL_COMMANDS, type ToolPolicy } from './policy';
+import { ToolRegistry } from './registry';
+import { executeInvocations } from './executor';
+import { isToolError } from './errors';
+import { fileTools, shellTools, metaTools, loadToolsTool, registerAllTools } from './definitions';
+import { getToolPolicy } from '../../agent/commands';
+import { getSubAgentToolPolicy } from '../../agent/subagent';
+
+const readOnlyPolicy: ToolPolicy = {
+  allowedCategories: ['file_ops', 'shell'],
+  allowedTools: ['read_file', 'list_dir', 'run_shell'],
+  shellAllowlist: READ_ONLY_SHELL_COMMANDS,
+};
+
+function createRegistry(): ToolRegistry {
+  const registry = new ToolRegistry();
+  registry.registerAll([...metaTools, ...fileTools, ...shellTools]);
+  return registry;
+}
+
+describe('checkShellCommand', () => {
+  it('should allow read-only commands, pipelines and harmless redirects', () => {
+    expect(checkShellCommand('ls -la src', READ_ONLY_SHELL_COMMANDS)).toBeNull();
+    expect(checkShellCommand('git log --oneline | head -5', READ_ONLY_SHELL_COMMANDS)).toBeNull();
+    expect(checkShellCommand('grep -rn foo . 2>/dev/null && wc -l a.ts', READ_ONLY_SHELL_COMMANDS)).toBeNull();
+    expect(checkShellCommand('git diff 2>&1 | head -20', READ_ONLY_SHELL_COMMANDS)).toBeNull();
+    expect(checkShellCommand('git status 2>&1;ls >/dev/null', READ_ONLY_SHELL_COMMANDS)).toBeNull();
+    expect(checkShellCommand('sort -k2 -n -r data.txt', READ_ONLY_SHELL_COMMANDS)).toBeNull();
+  });
+
+  it('should reject writes, unknown programs and command substitution', () => {
+    expect(checkShellCommand('echo hi > a.ts', READ_ONLY_SHELL_COMMANDS)).toContain('redirection');
+    expect(checkShellCommand('ls; rm -rf src', READ_ONLY_SHELL_COMMANDS)).toContain('"rm"');
+    expect(checkShellCommand('git checkout .', READ_ONLY_SHELL_COMMANDS)).toContain('"git"');
+    expect(checkShellCommand('cat $(which node)', READ_ONLY_SHELL_COMMANDS)).toContain('substitution');
+    expect(checkShellCommand('find . -name "*.tmp" -delete', READ_ONLY_SHELL_COMMANDS)).toContain('-delete');
+    expect(checkShellCommand('git diff --output=patch.diff', READ_ONLY_SHELL_COMMANDS)).toContain('--output');
+    expect(checkShellCommand('cat a.txt >&1x', READ_ONLY_SHELL_COMMANDS)).toContain('redirection');
+    expect(checkShellCommand('cat a.txt 2>&2file', READ_ONLY_SHELL_COMMANDS)).toContain('redirection');
+    expect(checkShellCommand('ls >/dev/null.txt', READ_ONLY_SHELL_COMMANDS)).toContain('redirection');
+  });
+
+  it('should reject write arguments with attached values, in flag clusters or abbreviated', () => {
+    expect(checkShellCommand('sort -o/tmp/pwned.txt package.json', READ_ONLY_SHELL_COMMANDS)).toContain('-o');
+    expect(checkShellCommand('sort -uo /tmp/pwned.txt package.json', READ_ONLY_SHELL_COMMANDS)).toContain('-o');
+    expect(checkShellCommand('sort --out=/tmp/pwned.txt package.json', READ_ONLY_SHELL_COMMANDS)).toContain('--output');
+    expect(checkShellCommand('sort --compress-program=sh -S 1 big.txt', READ_ONLY_SHELL_COMMANDS)).toContain(
+      '--compress-program'
+    );
+    expect(checkShellCommand('find . -execdir rm {} +', READ_ONLY_SHELL_COMMANDS)).toContain('-exec');
+  });
+});
+
+describe('tool policy enforcement', () => {
+  // load_tools resolves categories through the global registry
+  beforeAll(() => {
+    registerAllTools();
+  });
+
+  it('should hide disallowed tools from getLoadedTools', () => {
+    const registry = createRegistry();
+    const loaded = new Set(['read_file', 'write_file', 'edit_file', 'run_shell']);
+
+    const names = registry.getLoadedTools(loaded, readOnlyPolicy).map((t) => t.name);
+
+    expect(names).toEqual(['load_tools', 'search_tools', 'task', 'read_file', 'run_shell']);
+  });
+
+  it('should only load permitted tools through load_tools', async () => {
+    const loadedTools = new Set<string>();
+
+    const result = (await loadToolsTool.handler(
+      { category: 'file_ops' },
+      { workingDir: process.cwd(), loadedTools, toolPolicy: readOnlyPolicy }
+    )) as { toolsLoaded: string[] };
+
+    expect(result.toolsLoaded).toEqual(['read_file', 'list_dir']);
+    await expect(
+      loadToolsTool.handler({ category: 'git' }, { workingDir: process.cwd(), toolPolicy: readOnlyPolicy })
+    ).rejects.toThrow('not allowed');
+  });
+
+  it('should refuse disallowed calls in the executor even if loaded', async () => {
+    const registry = createRegistry();
+    const context = {
+      workingDir: process.cwd(),
+      loadedTools: new Set(['write_file', 'run_shell']),
+      toolPolicy: readOnlyPolicy,
+    };
+
+    const [write, shell] = await executeInvocations(
+      registry,
+      [
+        { id: '1', name: 'write_file', input: { path: 'x.txt', content: 'x' } },
+        { id: '2', name: 'run_shell', input: { command: 'touch x.txt' } },
+      ],
+      context
+    );
+
+    expect(write.isError).toBe(true);
+    expect(isToolError(write.error) && write.error.code).toBe('tool_not_allowed');
+    expect(shell.error?.message).toContain('"touch"');
+  });
+});
+
+describe('intersectToolPolicies', () => {
+  it('should only allow what both policies allow', () => {
+    const policy = intersectToolPolicies(readOnlyPolicy, {
+      allowedCategories: ['file_ops', 'git'],
+      deniedTools: ['task'],
+    });
+
+    expect(policy).toEqual({
+      allowedCategories: ['file_ops'],
+      allowedTools: ['read_file', 'list_dir', 'run_shell'],
+      shellAllowlist: READ_ONLY_SHELL_COMMANDS,
+      deniedTools: ['task'],
+    });
+    expect(intersectToolPolicies(undefined, readOnlyPolicy)).toBe(readOnlyPolicy);
+  });
+});
+
+describe('sub-agent tool policy', () => {
+  it('should be read-only, scoped to the requested categories and unable to nest tasks', () => {
+    const registry = new ToolRegistry();
+    registry.registerAll([...metaTools, ...fileTools, ...shellTools]);
+    const policy = getSubAgentToolPolicy({ description: 'x', prompt: 'x', categories: ['file_ops'] });
+
+    const names = registry.getLoadedTools(new Set(['read_file', 'edit_file', 'run_shell']), policy).map((t) => t.name);
+
+    expect(names).toEqual(['load_tools', 'search_tools', 'read_file']);
+  });
+
+  it('should never exceed the parent policy', () => {
+    const policy = getSubAgentToolPolicy({ description: 'x', prompt: 'x' }, getToolPolicy('revise_plan'));
+
+    expect(policy.allowedCategories).not.toContain('shell');
+    expect(policy.allowedTools).not.toContain('run_shell');
+  });
+});
+
+describe('command tool policies', () => {
+  it('should make research and planning read-only and leave implement unrestricted', () => {
+    for (const id of ['research', 'create_plan', 'revise_plan'] as const) {
+      const policy = getToolPolicy(id);
+      expect(policy?.allowedTools).not.toContain('write_file');
+      expect(policy?.allowedTools).not.toContain('edit_file');
+    }
+    expect(getToolPolicy('implement_simple')).toBeUndefined();
+  });
+});
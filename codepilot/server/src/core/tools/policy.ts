@@ -0,0 +1,204 @@
+/**
+ * Tool policy - declarative restrictions on which tools a session may use.
+ * Agent commands attach a policy (e.g. research and planning modes are read-only);
+ * the registry, load_tools and the executor all enforce it.
+ */
+
+import type { ToolCategory, ToolDefinition } from './types';
+
+/**
+ * Restrictions on the tools available to a session.
+ * Omitted fields impose no restriction; meta tools are always allowed.
+ */
+export interface ToolPolicy {
+  /** Categories whose tools may be loaded and called */
+  allowedCategories?: ToolCategory[];
+  /** Tool names that may be loaded and called */
+  allowedTools?: string[];
+  /** Tool names that may never be called - applies to meta tools too */
+  deniedTools?: string[];
+  /**
+   * Commands that shell tools may run (e.g. "ls", "git log").
+   * Each command in a pipeline or chain must start with one of these.
+   */
+  shellAllowlist?: string[];
+}
+
+/**
+ * Shell commands that only read from the workspace.
+ * Multi-word entries restrict a program to specific subcommands.
+ */
+export const READ_ONLY_SHELL_COMMANDS: string[] = [
+  'ls',
+  'cat',
+  'head',
+  'tail',
+  'wc',
+  'pwd',
+  'tree',
+  'file',
+  'stat',
+  'du',
+  'grep',
+  'rg',
+  'find',
+  'sort',
+  'uniq',
+  'cut',
+  'echo',
+  'which',
+  'git status',
+  'git diff',
+  'git log',
+  'git show',
+  'git blame',
+  'git ls-files',
+];
+
+/**
+ * Arguments that make an otherwise read-only program write or execute.
+ * Matched the way the programs parse them (see matchesArgument), so attached
+ * values (-o/tmp/x, --output=x), bundled short flags and abbreviated long options count.
+ */
+const WRITE_ARGUMENTS: Record<string, string[]> = {
+  find: ['-delete', '-exec', '-execdir', '-ok', '-okdir', '-fprint', '-fprint0', '-fprintf', '-fls'],
+  sort: ['-o', '--output', '--compress-program'],
+  tree: ['-o'],
+  rg: ['--pre'],
+  git: ['--output', '--ext-diff', '--textconv'],
+};
+
+/**
+ * Redirections that don't write to files (fd duplication, /dev/null).
+ * The target must end the word - ">&1x" and ">/dev/null.txt" write to files.
+ */
+const HARMLESS_REDIRECT = /\d*>>?\s*(&\d+|\/dev\/null)(?![^\s;&|)])/g;
+
+/**
+ * Whether a command-line word sets a blocked argument.
+ * - Long options (--output) also match "--output=x" and abbreviations getopt accepts ("--out").
+ * - Short options (-o) match anywhere in a cluster of flags ("-uo", "-o/tmp/x").
+ * - Single-dash words (find's -exec) match as a prefix ("-execdir", "-fprint0").
+ */
+function matchesArgument(word: string, arg: string): boolean {
+  if (arg.startsWith('--')) {
+    const name = word.split('=')[0];
+    return name.length > 2 && name.startsWith('--') && arg.startsWith(name);
+  }
+  if (arg.length === 2) {
+    return /^-[^-]/.test(word) && word.slice(1).includes(arg[1]);
+  }
+  return word.startsWith(arg);
+}
+
+/**
+ * Check whether a tool may be loaded and called under a policy.
+ */
+export function isToolAllowed(tool: ToolDefinition, policy?: ToolPolicy): boolean {
+  if (policy?.deniedTools?.includes(tool.name)) {
+    return false;
+  }
+  if (!policy || tool.metadata.category === 'meta') {
+    return true;
+  }
+  if (policy.allowedCategories && !policy.allowedCategories.includes(tool.metadata.category)) {
+    return false;
+  }
+  if (policy.allowedTools && !policy.allowedTools.includes(tool.name)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Combine two policies so a call must satisfy both (e.g. a sub-agent inside a read-only session).
+ */
+export function intersectToolPolicies(a: ToolPolicy | undefined, b: ToolPolicy | undefined): ToolPolicy | undefined {
+  if (!a) return b;
+  if (!b) return a;
+
+  const intersect = <T>(x?: T[], y?: T[]): T[] | undefined =>
+    x && y ? x.filter((item) => y.includes(item)) : (x ?? y);
+
+  const policy: ToolPolicy = {};
+  const allowedCategories = intersect(a.allowedCategories, b.allowedCategories);
+  const allowedTools = intersect(a.allowedTools, b.allowedTools);
+  const shellAllowlist = intersect(a.shellAllowlist, b.shellAllowlist);
+  const deniedTools = [...new Set([...(a.deniedTools ?? []), ...(b.deniedTools ?? [])])];
+
+  if (allowedCategories) policy.allowedCategories = allowedCategories;
+  if (allowedTools) policy.allowedTools = allowedTools;
+  if (shellAllowlist) policy.shellAllowlist = shellAllowlist;
+  if (deniedTools.length > 0) policy.deniedTools = deniedTools;
+  return policy;
+}
+
+/**
+ * Check a shell command against an allowlist.
+ * @returns The reason the command is rejected, or null if it is allowed
+ */
+export function checkShellCommand(command: string, allowlist: string[]): string | null {
+  if (/`|\$\(|<\(|>\(/.test(command)) {
+    return 'command substitution is not allowed';
+  }
+
+  // Strip 2>&1 and friends first, so their "&" isn't taken for a command separator
+  const withoutRedirects = command.replace(HARMLESS_REDIRECT, '');
+  if (withoutRedirects.includes('>')) {
+    return 'output redirection is not allowed';
+  }
+
+  const segments = withoutRedirects
+    .split(/&&|\|\||[;|&\n]/)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+  if (segments.length === 0) {
+    return 'empty command';
+  }
+
+  for (const segment of segments) {
+    const words = segment.split(/\s+/);
+    const allowed = allowlist.some((entry) => {
+      const entryWords = entry.split(/\s+/);
+      return entryWords.every((word, i) => words[i] === word);
+    });
+
+    if (!allowed) {
+      return `"${words[0]}" is not in the allowed commands (${allowlist.join(', ')})`;
+    }
+
+    const blockedArgument = WRITE_ARGUMENTS[words[0]]?.find((arg) =>
+      words.slice(1).some((word) => matchesArgument(word, arg))
+    );
+    if (blockedArgument) {
+      return `"${words[0]} ${blockedArgument}" can modify files`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a tool call against a policy.
+ * @returns The reason the call is rejected, or null if it is allowed
+ */
+export function checkToolPolicy(
+  tool: ToolDefinition,
+  input: Record<string, unknown>,
+  policy?: ToolPolicy
+): string | null {
+  if (!policy) {
+    return null;
+  }
+
+  if (!isToolAllowed(tool, policy)) {
+    return `tool "${tool.name}" is not available`;
+  }
+
+  if (tool.metadata.category === 'shell' && policy.shellAllowlist) {
+    return checkShellCommand(String(input.command ?? ''), policy.shellAllowlist);
+  }
+
+  return null;
+}
@@ -3,16 +3,19 @@
  * Supports deferred tool loading where only the meta-tool is initially available.
  */
 
-import type { ToolDefinition, ToolCategory, CategoryInfo } from './types';
+import type { ToolDefinition, ToolCategory, BuiltinToolCategory, CategoryInfo } from './types';
+import { isToolAllowed, type ToolPolicy } from './policy';
+import { ToolSearchIndex, type ToolSearchResult } from './search';
 
 /**
- * Category descriptions for the load_tools meta-tool.
+ * Category descriptions for the load_tools and search_tools meta-tools.
  */
-const CATEGORY_DESCRIPTIONS: Record<ToolCategory, string> = {
+const CATEGORY_DESCRIPTIONS: Record<BuiltinToolCategory, string> = {
   file_ops: 'File system operations: read, write, edit, and list files',
   git: 'Git operations: diff, status, and log',
   search: 'Search tools: grep and find files',
   shell: 'Shell command execution',
+  code: 'Code execution: run a JavaScript/TypeScript script that calls read-only tools and returns one result',
   meta: 'Meta-tools for discovering and loading other tools',
 };
 
@@ -23,6 +26,10 @@ const CATEGORY_DESCRIPTIONS: Record<ToolCategory, string> = {
 export class ToolRegistry {
   private tools = new Map<string, ToolDefinition>();
   private toolsByCategory = new Map<ToolCategory, Set<string>>();
+  /** Descriptions of dynamic categories (e.g. one per MCP server) */
+  private categoryDescriptions = new Map<ToolCategory, string>();
+  /** Built on first search, discarded whenever a tool is registered or removed */
+  private searchIndex: ToolSearchIndex | null = null;
 
   /**
    * Register a tool definition.
@@ -34,6 +41,7 @@ export class ToolRegistry {
     }
 
     this.tools.set(tool.name, tool);
+    this.searchIndex = null;
 
     // Index by category
     const category = tool.metadata.category;
@@ -52,6 +60,33 @@ export class ToolRegistry {
     }
   }
 
+  /**
+   * Remove a tool definition.
+   * @returns Whether a tool with that name was registered
+   */
+  unregister(name: string): boolean {
+    const tool = this.tools.get(name);
+    if (!tool) return false;
+
+    this.tools.delete(name);
+    this.searchIndex = null;
+
+    const category = tool.metadata.category;
+    const toolNames = this.toolsByCategory.get(category);
+    toolNames?.delete(name);
+    if (toolNames?.size === 0) {
+      this.toolsByCategory.delete(category);
+    }
+    return true;
+  }
+
+  /**
+   * Describe a category that isn't built in, for load_tools listings.
+   */
+  setCategoryDescription(category: ToolCategory, description: string): void {
+    this.categoryDescriptions.set(category, description);
+  }
+
   /**
    * Get a tool by name.
    */
@@ -86,18 +121,36 @@ export class ToolRegistry {
     return toolNames ? Array.from(toolNames) : [];
   }
 
+  /**
+   * Rank non-meta tools by relevance to a free-text query.
+   * With a policy, only permitted tools are returned.
+   */
+  search(query: string, limit: number, policy?: ToolPolicy): ToolSearchResult[] {
+    if (!this.searchIndex) {
+      this.searchIndex = new ToolSearchIndex(this.list().filter((tool) => tool.metadata.category !== 'meta'));
+    }
+    return this.searchIndex.search(query, limit, (tool) => isToolAllowed(tool, policy));
+  }
+
   /**
    * Get all available categories with their info.
+   * With a policy, only permitted tools (and categories that have any) are listed.
    */
-  getCategories(): CategoryInfo[] {
+  getCategories(policy?: ToolPolicy): CategoryInfo[] {
     const categories: CategoryInfo[] = [];
 
     for (const [category, toolNames] of this.toolsByCategory.entries()) {
+      const tools = Array.from(toolNames).filter((name) => isToolAllowed(this.tools.get(name)!, policy));
+      if (tools.length === 0) continue;
+
       categories.push({
         name: category,
-        description: CATEGORY_DESCRIPTIONS[category] || category,
-        toolCount: toolNames.size,
-        tools: Array.from(toolNames),
+        description:
+          this.categoryDescriptions.get(category) ??
+          CATEGORY_DESCRIPTIONS[category as BuiltinToolCategory] ??
+          category,
+        toolCount: tools.length,
+        tools,
       });
     }
 
@@ -120,20 +173,23 @@ export class ToolRegistry {
 
   /**
    * Get tools that should be sent to the LLM based on loaded set.
-   * Always includes meta tools, plus any tools in the loadedTools set.
+   * Always includes meta tools, plus any tools in the loadedTools set
+   * that the session's policy permits.
    */
-  getLoadedTools(loadedTools: Set<string>): ToolDefinition[] {
+  getLoadedTools(loadedTools: Set<string>, policy?: ToolPolicy): ToolDefinition[] {
     const result: ToolDefinition[] = [];
 
-    // Always include meta tools
+    // Always include meta tools (unless the policy denies them by name)
     for (const tool of this.getMetaTools()) {
-      result.push(tool);
+      if (isToolAllowed(tool, policy)) {
+        result.push(tool);
+      }
     }
 
     // Include explicitly loaded tools (excluding meta since already added)
     for (const toolName of loadedTools) {
       const tool = this.tools.get(toolName);
-      if (tool && tool.metadata.category !== 'meta') {
+      if (tool && tool.metadata.category !== 'meta' && isToolAllowed(tool, policy)) {
         result.push(tool);
       }
     }
@@ -0,0 +1,205 @@
+/**
+ * Code sandbox and execute_code tool tests
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runInSandbox } from './sandbox';
+import { CodeExecutionError } from './errors';
+import { executeInvocations } from './executor';
+import { globalRegistry } from './registry';
+import { executeCodeTool, registerAllTools } from './definitions';
+
+const noTools = { toolNames: [], callTool: async () => null };
+
+describe('runInSandbox', () => {
+  it('should return only the script result', async () => {
+    const result = await runInSandbox('const xs = [1, 2, 3];\nreturn xs.map((x) => x * 2);', noTools);
+
+    expect(result).toEqual({ value: [2, 4, 6], logs: [], toolCalls: 0 });
+  });
+
+  it('should expose tools as async functions', async () => {
+    const calls: Array<{ name: string; input: Record<string, unknown> }> = [];
+
+    const result = await runInSandbox(
+      "const a = await tools.echo({ text: 'a' });\nconst [b, c] = await Promise.all([echo({ text: 'b' }), echo({ text: 'c' })]);\nreturn [a, b, c];",
+      {
+        toolNames: ['echo'],
+        callTool: async (name, input) => {
+          calls.push({ name, input });
+          return { echoed: input.text };
+        },
+      }
+    );
+
+    expect(result.value).toEqual([{ echoed: 'a' }, { echoed: 'b' }, { echoed: 'c' }]);
+    expect(result.toolCalls).toBe(3);
+    expect(calls.map((c) => c.input.text).sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should rethrow tool failures inside the script', async () => {
+    const result = await runInSandbox(
+      "try { await fail({}); } catch (err) { return 'caught: ' + err.message; }",
+      {
+        toolNames: ['fail'],
+        callTool: async () => {
+          throw new Error('no such file');
+        },
+      }
+    );
+
+    expect(result.value).toBe('caught: no such file');
+  });
+
+  it('should rethrow tool results that cannot be serialized inside the script', async () => {
+    const results: unknown[] = [10n, () => 'fn'];
+    const cyclic: Record<string, unknown> = {};
+    cyclic.self = cyclic;
+    results.push(cyclic);
+
+    const result = await runInSandbox(
+      'const errors = [];\n' +
+        'for (let i = 0; i < 3; i++) {\n' +
+        '  try { await odd({}); } catch (err) { errors.push(err.message); }\n' +
+        '}\n' +
+        'return errors;',
+      { toolNames: ['odd'], callTool: async () => results.shift() }
+    );
+
+    expect(result.value).toHaveLength(3);
+    for (const message of result.value as string[]) {
+      expect(message).toContain('could not be serialized');
+    }
+  });
+
+  it('should report script errors with the captured logs', async () => {
+    const run = runInSandbox("console.log('step 1', { ok: true });\nthrow new Error('boom');", noTools);
+
+    await expect(run).rejects.toBeInstanceOf(CodeExecutionError);
+    await run.catch((error: CodeExecutionError) => {
+      expect(error.message).toContain('boom');
+      expect(error.details.logs).toEqual(['step 1 {"ok":true}']);
+    });
+  });
+
+  it('should stop runaway scripts at the timeout', async () => {
+    const run = runInSandbox('while (true) {}', { ...noTools, limits: { timeoutMs: 200 } });
+
+    await expect(run).rejects.toThrow(/timed out/);
+  });
+
+  it('should not expose the host environment', async () => {
+    const result = await runInSandbox(
+      "return [typeof require, typeof process, typeof fetch];",
+      noTools
+    );
+
+    expect(result.value).toEqual(['undefined', 'undefined', 'undefined']);
+  });
+
+  it('should not let the script reach the host realm', async () => {
+    // Each attempt returns the host's process if it escapes; a throw counts as blocked
+    const attempts = [
+      "console.log.constructor('return process')()",
+      "this.constructor.constructor('return process')()",
+      "tools.probe.constructor('return process')()",
+      "probe({}).constructor.constructor('return process')()",
+      "(await probe({})).constructor.constructor('return process')()",
+      "await fail({}).catch((err) => err.constructor.constructor('return process')())",
+      // Stack frames of the error raised for a failed tool call
+      "(async () => { Error.prepareStackTrace = (_, frames) => frames.map((f) => f.getFunction()).find(Boolean); " +
+        "const err = await fail({}).catch((e) => e); return err.stack && err.stack.constructor('return process')(); })()",
+    ];
+    const script =
+      'const results = [];\n' +
+      attempts
+        .map((attempt) =>
+          `try { const p = await ${attempt}; results.push(p && typeof p.getBuiltinModule === 'function' ? 'escaped' : 'blocked'); }\n` +
+          "catch { results.push('blocked'); }"
+        )
+        .join('\n') +
+      '\nreturn results;';
+
+    const result = await runInSandbox(script, {
+      toolNames: ['probe', 'fail'],
+      callTool: async (name) => {
+        if (name === 'fail') throw new Error('failed');
+        return { ok: true };
+      },
+    });
+
+    expect(result.value).toEqual(attempts.map(() => 'blocked'));
+  });
+
+  it('should run TypeScript', async () => {
+    const result = await runInSandbox(
+      'interface Point { x: number; y: number }\nconst p: Point = { x: 1, y: 2 };\nreturn p.x + p.y;',
+      { ...noTools, language: 'typescript' }
+    );
+
+    expect(result.value).toBe(3);
+  });
+});
+
+describe('execute_code', () => {
+  let workspace: string;
+
+  beforeAll(() => {
+    registerAllTools();
+    workspace = mkdtempSync(join(tmpdir(), 'codepilot-sandbox-'));
+    for (let i = 0; i < 5; i++) {
+      writeFileSync(join(workspace, `file${i}.txt`), `line\n`.repeat(i + 1));
+    }
+  });
+
+  afterAll(() => {
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should call read-only tools and return the aggregate', async () => {
+    const result = (await executeCodeTool.handler(
+      {
+        code:
+          "const { files } = await tools.find_files({ pattern: '*.txt' });\n" +
+          'const rows = await Promise.all(files.map(async ({ path }) => {\n' +
+          '  const { content } = await tools.read_file({ path });\n' +
+          "  return [path, content.split('\\n').filter(Boolean).length];\n" +
+          '}));\n' +
+          'return Object.fromEntries(rows);',
+      },
+      { workingDir: workspace, toolCallId: 'call_1' }
+    )) as { result: Record<string, number>; toolCalls: number };
+
+    expect(result.result).toEqual({ 'file0.txt': 1, 'file1.txt': 2, 'file2.txt': 3, 'file3.txt': 4, 'file4.txt': 5 });
+    expect(result.toolCalls).toBe(6);
+  });
+
+  it('should not expose tools that are not programmatically callable', async () => {
+    const result = (await executeCodeTool.handler(
+      { code: 'return [typeof tools.write_file, typeof tools.run_shell, typeof tools.read_file];' },
+      { workingDir: workspace }
+    )) as { result: string[] };
+
+    expect(result.result).toEqual(['undefined', 'undefined', 'function']);
+  });
+
+  it('should reject programmatic calls to tools that did not opt in', async () => {
+    const [result] = await executeInvocations(
+      globalRegistry,
+      [
+        {
+          id: 'call_2',
+          name: 'write_file',
+          input: { path: 'x.txt', content: 'x' },
+          caller: { type: 'execute_code', toolId: 'call_1' },
+        },
+      ],
+      { workingDir: workspace }
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.error?.message).toContain('cannot be called from execute_code');
+  });
+});
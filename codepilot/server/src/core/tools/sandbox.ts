@@ -0,0 +1,298 @@
+/**
+ * Code sandbox for the execute_code tool.
+ * Runs model-written JavaScript (or TypeScript) in a worker thread with memory
+ * and time limits, inside a fresh node:vm context whose only capabilities are
+ * the tool functions it is given and a console that is captured.
+ *
+ * Tool calls are forwarded to the host over the worker's message port, so the
+ * tools themselves run (and are policy-checked) in the main thread. Nothing from
+ * the host realm is placed in the context (see BRIDGE_SOURCE), so the script cannot
+ * climb a constructor chain back to require/process. node:vm is still not a hardened
+ * isolate, so execute_code is marked requiresApproval: it waits for approval under the
+ * ask_for_writes and always_ask policies (auto runs it without asking).
+ */
+
+import { Worker } from 'worker_threads';
+import { CodeExecutionError } from './errors';
+
+/**
+ * Limits applied to a sandboxed run.
+ */
+export interface SandboxLimits {
+  /** Wall-clock limit for the whole run, including tool calls */
+  timeoutMs: number;
+  /** V8 old-generation heap limit for the worker */
+  memoryMb: number;
+  /** Maximum tool calls the script may make */
+  maxToolCalls: number;
+  /** Maximum console lines kept */
+  maxLogLines: number;
+}
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  timeoutMs: 30_000,
+  memoryMb: 128,
+  maxToolCalls: 200,
+  maxLogLines: 100,
+};
+
+/**
+ * Outcome of a sandboxed run.
+ */
+export interface SandboxResult {
+  /** The script's return value (JSON round-tripped; undefined becomes null) */
+  value: unknown;
+  /** Captured console output */
+  logs: string[];
+  /** Number of tool calls the script made */
+  toolCalls: number;
+}
+
+/**
+ * Calls a tool on behalf of the script and resolves with its result.
+ * Rejections are rethrown inside the script as Errors.
+ */
+export type SandboxToolCaller = (name: string, input: Record<string, unknown>) => Promise<unknown>;
+
+/**
+ * Messages posted by the worker: a tool call request, or the script's outcome.
+ */
+type WorkerMessage =
+  | { type: 'call'; id: number; name: string; input: Record<string, unknown> }
+  | { type: 'result'; value: string; logs: string[] }
+  | { type: 'error'; error: string; logs: string[] };
+
+/**
+ * Script-side bridge (evaluated inside the vm context, so every object the script
+ * can reach - console, tools, the promises and errors they return - belongs to the
+ * context's realm). Returns the functions the worker drives it with.
+ *
+ * Host functions must never be reachable from the script: their `constructor` is the
+ * host's Function, which compiles code outside the context and returns the real
+ * `process`. So the host callbacks it closes over take and return only strings and
+ * numbers, and results come back as JSON parsed in here.
+ */
+const BRIDGE_SOURCE = `(function (hostCall, hostLog, hostDone, toolNamesJson) {
+  'use strict';
+  const parse = JSON.parse;
+  const stringify = JSON.stringify;
+  const pending = new Map();
+  let nextCallId = 0;
+
+  function callTool(name, input) {
+    return new Promise((resolve, reject) => {
+      const id = ++nextCallId;
+      pending.set(id, { resolve, reject });
+      hostCall(id, name, stringify(input ?? {}) ?? '{}');
+    });
+  }
+
+  function format(args) {
+    return args.map((arg) => (typeof arg === 'string' ? arg : stringify(arg))).join(' ');
+  }
+
+  function log(prefix) {
+    return (...args) => hostLog(prefix + format(args));
+  }
+
+  const tools = {};
+  globalThis.console = { log: log(''), info: log(''), warn: log('[warn] '), error: log('[error] ') };
+  globalThis.tools = tools;
+  for (const name of parse(toolNamesJson)) {
+    tools[name] = (input) => callTool(name, input);
+    if (/^[A-Za-z_$][\\w$]*$/.test(name)) globalThis[name] = tools[name];
+  }
+  Object.freeze(tools);
+
+  return {
+    deliver(id, error, valueJson) {
+      const call = pending.get(id);
+      if (!call) return;
+      pending.delete(id);
+      if (error !== null) call.reject(new Error(error));
+      else call.resolve(parse(valueJson));
+    },
+    settle(promise) {
+      promise.then(
+        (value) => {
+          const serialized = value === undefined ? 'null' : stringify(value);
+          hostDone(null, serialized === undefined ? 'null' : serialized);
+        },
+        (err) => {
+          const message = err && err.stack ? String(err.stack).split('\\n').slice(0, 4).join('\\n') : String(err);
+          hostDone(message, null);
+        }
+      ).catch((err) => hostDone(String(err), null));
+    },
+  };
+})`;
+
+/**
+ * Worker body (plain CommonJS, evaluated with `eval: true`).
+ * Builds the vm context, relays tool calls to the host and posts the final value.
+ */
+const WORKER_SOURCE = `
+'use strict';
+const { parentPort, workerData } = require('node:worker_threads');
+const vm = require('node:vm');
+
+const { source, bridgeSource, toolNames, maxLogLines, timeoutMs } = workerData;
+const logs = [];
+
+function fail(error) {
+  parentPort.postMessage({ type: 'error', error, logs });
+}
+
+// A null-prototype global: a plain object would lend the script this realm's Object.prototype
+const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+
+// Called from inside the context - arguments are checked, nothing is returned and nothing throws
+function hostCall(id, name, inputJson) {
+  if (typeof id !== 'number' || typeof name !== 'string' || typeof inputJson !== 'string') return;
+  parentPort.postMessage({ type: 'call', id, name, input: JSON.parse(inputJson) });
+}
+
+function hostLog(line) {
+  if (typeof line !== 'string') return;
+  if (logs.length < maxLogLines) logs.push(line);
+  else if (logs.length === maxLogLines) logs.push('[... further output dropped]');
+}
+
+function hostDone(error, valueJson) {
+  if (typeof error === 'string') fail(error);
+  else if (typeof valueJson === 'string') parentPort.postMessage({ type: 'result', value: valueJson, logs });
+}
+
+try {
+  const createBridge = vm.runInContext(bridgeSource, context);
+  const bridge = createBridge(hostCall, hostLog, hostDone, JSON.stringify(toolNames));
+  const deliver = bridge.deliver;
+  const settle = bridge.settle;
+
+  parentPort.on('message', (message) => {
+    const error = typeof message.error === 'string' ? message.error : null;
+    const valueJson = error === null ? JSON.stringify(message.value ?? null) : null;
+    try {
+      deliver(message.id, error, valueJson);
+    } catch {
+      // A broken script can only hurt itself
+    }
+  });
+
+  const script = new vm.Script(source, { filename: 'execute_code.js' });
+  settle(script.runInContext(context, { timeout: timeoutMs }));
+} catch (err) {
+  fail(err && err.stack ? String(err.stack).split('\\n').slice(0, 4).join('\\n') : String(err));
+}
+`;
+
+/**
+ * Wrap the script body in an async function so it can use top-level await and return.
+ */
+function wrapSource(code: string): string {
+  return `(async () => {\n${code}\n})()`;
+}
+
+/**
+ * Strip TypeScript syntax using the typescript package, if installed.
+ */
+async function transpileTypeScript(source: string): Promise<string> {
+  let ts: typeof import('typescript');
+  try {
+    const mod = await import('typescript');
+    ts = ('default' in mod ? mod.default : mod) as typeof import('typescript');
+  } catch {
+    throw new CodeExecutionError('TypeScript is not available on this server. Write the code in JavaScript instead.');
+  }
+
+  return ts.transpileModule(source, {
+    compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.None, removeComments: true },
+  }).outputText;
+}
+
+/**
+ * Run a script in the sandbox.
+ * @param code - Body of an async function: may use await and must `return` its result
+ * @param toolNames - Tools exposed to the script as `tools.<name>(input)` (and as globals where the name allows)
+ * @throws CodeExecutionError if the script throws, times out or exceeds a limit
+ */
+export async function runInSandbox(
+  code: string,
+  options: {
+    language?: 'javascript' | 'typescript';
+    toolNames: string[];
+    callTool: SandboxToolCaller;
+    limits?: Partial<SandboxLimits>;
+  }
+): Promise<SandboxResult> {
+  const limits = { ...DEFAULT_SANDBOX_LIMITS, ...options.limits };
+  const wrapped = wrapSource(code);
+  const source = options.language === 'typescript' ? await transpileTypeScript(wrapped) : wrapped;
+
+  const worker = new Worker(WORKER_SOURCE, {
+    eval: true,
+    workerData: { source, bridgeSource: BRIDGE_SOURCE, toolNames: options.toolNames, maxLogLines: limits.maxLogLines, timeoutMs: limits.timeoutMs },
+    resourceLimits: { maxOldGenerationSizeMb: limits.memoryMb },
+    // Scripts can't reach the server's environment (API keys) even through a vm escape
+    env: {},
+  });
+
+  let toolCalls = 0;
+
+  return new Promise<SandboxResult>((resolve, reject) => {
+    let settled = false;
+    const finish = (outcome: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      void worker.terminate();
+      outcome();
+    };
+
+    const timer = setTimeout(() => {
+      finish(() => reject(new CodeExecutionError(`Code execution timed out after ${limits.timeoutMs / 1000}s.`)));
+    }, limits.timeoutMs);
+
+    worker.on('message', (message: WorkerMessage) => {
+      if (message.type === 'call') {
+        toolCalls++;
+        const reply = (payload: { value?: unknown; error?: string }) => {
+          if (!settled) worker.postMessage({ id: message.id, ...payload });
+        };
+        if (toolCalls > limits.maxToolCalls) {
+          reply({ error: `Tool call limit reached (${limits.maxToolCalls} per execution).` });
+          return;
+        }
+        options.callTool(message.name, message.input).then(
+          (value) => {
+            // Only JSON crosses into the script; a result that has no JSON form is reported as an error
+            let serialized: unknown;
+            try {
+              serialized = value === undefined ? null : JSON.parse(JSON.stringify(value));
+            } catch (err) {
+              reply({ error: `Tool result could not be serialized: ${err instanceof Error ? err.message : String(err)}` });
+              return;
+            }
+            reply({ value: serialized });
+          },
+          (err: unknown) => reply({ error: err instanceof Error ? err.message : String(err) })
+        );
+      } else if (message.type === 'result') {
+        finish(() => resolve({ value: JSON.parse(message.value), logs: message.logs, toolCalls }));
+      } else if (message.type === 'error') {
+        finish(() => reject(new CodeExecutionError(message.error, message.logs)));
+      }
+    });
+
+    worker.on('error', (err) => {
+      const reason = (err as NodeJS.ErrnoException).code === 'ERR_WORKER_OUT_OF_MEMORY'
+        ? `Code execution exceeded the ${limits.memoryMb} MB memory limit.`
+        : err.message;
+      finish(() => reject(new CodeExecutionError(reason)));
+    });
+
+    worker.on('exit', (code) => {
+      finish(() => reject(new CodeExecutionError(`Code execution stopped unexpectedly (exit code ${code}).`)));
+    });
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * Tool search index and search_tools meta-tool tests
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import { ToolSearchIndex, tokenize } from './search';
+import { ToolRegistry } from './registry';
+import { allTools, registerAllTools, searchToolsTool } from './definitions';
+import type { ToolDefinition } from './types';
+
+function syntheticTool(name: string, description: string): ToolDefinition {
+  return {
+    name,
+    description,
+    inputSchema: { type: 'object' },
+    metadata: { category: 'shell' },
+    async handler() {
+      return null;
+    },
+  };
+}
+
+describe('tokenize', () => {
+  it('should split identifiers and normalize plurals', () => {
+    expect(tokenize('github.createPullRequest')).toEqual(['github', 'create', 'pull', 'request']);
+    expect(tokenize('List the git_commits and directories')).toEqual(['list', 'git', 'commit', 'directory']);
+  });
+});
+
+describe('ToolSearchIndex', () => {
+  const registry = new ToolRegistry();
+  registry.registerAll(allTools);
+
+  it('should rank the built-in tools by capability', () => {
+    expect(registry.search('show git commit history', 1)[0].tool.name).toBe('git_log');
+    expect(registry.search('find files by glob pattern', 1)[0].tool.name).toBe('find_files');
+    expect(registry.search('replace text in a file', 3).map((r) => r.tool.name)).toContain('edit_file');
+  });
+
+  it('should never return meta tools or tools the policy forbids', () => {
+    const names = registry.search('load tools file', 20, { allowedTools: ['read_file'] }).map((r) => r.tool.name);
+
+    expect(names).toEqual(['read_file']);
+  });
+
+  it('should stay fast and accurate with hundreds of tools', () => {
+    const tools = Array.from({ length: 500 }, (_, i) =>
+      syntheticTool(`service${i}.fetchRecord${i}`, `Fetch record ${i} from service number ${i}`)
+    );
+    tools.push(syntheticTool('slack.postMessage', 'Post a message to a Slack channel'));
+    const index = new ToolSearchIndex(tools);
+
+    const start = performance.now();
+    const [best] = index.search('send a slack message to a channel', 5);
+    const elapsed = performance.now() - start;
+
+    expect(best.tool.name).toBe('slack.postMessage');
+    expect(elapsed).toBeLessThan(50);
+  });
+});
+
+describe('search_tools', () => {
+  beforeAll(() => {
+    registerAllTools();
+  });
+
+  it('should load only the top matches', async () => {
+    const loadedTools = new Set<string>();
+
+    const result = (await searchToolsTool.handler(
+      { query: 'git diff of staged changes', limit: 2 },
+      { workingDir: process.cwd(), loadedTools }
+    )) as { tools: Array<{ name: string }>; toolsLoaded: string[] };
+
+    expect(result.tools).toHaveLength(2);
+    expect(result.toolsLoaded[0]).toBe('git_diff');
+    expect([...loadedTools]).toEqual(result.toolsLoaded);
+  });
+
+  it('should report when nothing matches', async () => {
+    const loadedTools = new Set<string>();
+
+    const result = (await searchToolsTool.handler(
+      { query: 'kubernetes deployment' },
+      { workingDir: process.cwd(), loadedTools }
+    )) as { tools: unknown[]; message: string };
+
+    expect(result.tools).toEqual([]);
+    expect(loadedTools.size).toBe(0);
+    expect(result.message).toContain('No tools matched');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tool search index - BM25 keyword ranking over registered tools.
+ * Lets the agent find the few tools it needs by describing the capability,
+ * instead of loading whole categories. Built in memory from each tool's name,
+ * description, parameters and inputExamples.
+ */
+
+import type { ToolDefinition } from './types';
+
+/** BM25 term-frequency saturation */
+const K1 = 1.2;
+/** BM25 document-length normalization */
+const B = 0.75;
+
+/** How many times each field's terms count, so name matches outrank passing mentions */
+const FIELD_WEIGHTS = {
+  name: 3,
+  description: 1,
+  parameters: 1,
+  examples: 1,
+};
+
+/** Common words that carry no signal about what a tool does */
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'how', 'i',
+  'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'that', 'the', 'this',
+  'to', 'tool', 'tools', 'use', 'want', 'with', 'you',
+]);
+
+/**
+ * A tool matched by a search, with its relevance score.
+ */
+export interface ToolSearchResult {
+  tool: ToolDefinition;
+  score: number;
+}
+
+/**
+ * Split text into lowercase search terms.
+ * Handles snake_case, camelCase, dotted names (e.g. "github.createPullRequest")
+ * and simple plurals, so "create pull requests" matches that name.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length > 1 && !STOPWORDS.has(term))
+    .map(stem);
+}
+
+/**
+ * Minimal suffix stripping so plurals and simple verb forms match.
+ */
+function stem(term: string): string {
+  if (term.length > 4 && term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+}
+
+/**
+ * Collect parameter names and descriptions from a tool's input schema.
+ */
+function parameterText(tool: ToolDefinition): string {
+  const properties = (tool.inputSchema.properties ?? {}) as Record<string, { description?: string }>;
+  return Object.entries(properties)
+    .map(([name, schema]) => `${name} ${typeof schema === 'object' ? (schema.description ?? '') : ''}`)
+    .join(' ');
+}
+
+/**
+ * Build the weighted term list for one tool.
+ */
+function documentTerms(tool: ToolDefinition): string[] {
+  const fields: Array<[string, number]> = [
+    [tool.name, FIELD_WEIGHTS.name],
+    [tool.description, FIELD_WEIGHTS.description],
+    [parameterText(tool), FIELD_WEIGHTS.parameters],
+    [JSON.stringify(tool.metadata.inputExamples ?? []), FIELD_WEIGHTS.examples],
+  ];
+
+  return fields.flatMap(([text, weight]) => {
+    const terms = tokenize(text);
+    return Array.from({ length: weight }, () => terms).flat();
+  });
+}
+
+/**
+ * Inverted BM25 index over a fixed set of tools.
+ * Scoring only touches tools that share a term with the query, so it stays
+ * fast with hundreds of registered tools (e.g. from MCP servers).
+ */
+export class ToolSearchIndex {
+  private tools: ToolDefinition[];
+  private lengths: number[];
+  private averageLength: number;
+  /** term -> (tool index -> term frequency) */
+  private postings = new Map<string, Map<number, number>>();
+
+  constructor(tools: ToolDefinition[]) {
+    this.tools = tools;
+    this.lengths = [];
+
+    tools.forEach((tool, index) => {
+      const terms = documentTerms(tool);
+      this.lengths.push(terms.length);
+      for (const term of terms) {
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(term, posting);
+        }
+        posting.set(index, (posting.get(index) ?? 0) + 1);
+      }
+    });
+
+    const totalLength = this.lengths.reduce((sum, length) => sum + length, 0);
+    this.averageLength = tools.length > 0 ? totalLength / tools.length : 0;
+  }
+
+  /**
+   * Rank tools against a free-text query.
+   * @param filter - Excludes tools from the results (e.g. ones the session's policy forbids)
+   * @returns Up to `limit` matches, best first; tools sharing no term with the query are omitted
+   */
+  search(query: string, limit: number, filter?: (tool: ToolDefinition) => boolean): ToolSearchResult[] {
+    const scores = new Map<number, number>();
+    const queryTerms = new Set(tokenize(query));
+
+    for (const term of queryTerms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (this.tools.length - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [index, frequency] of posting) {
+        const lengthNorm = 1 - B + B * (this.lengths[index] / this.averageLength);
+        const termScore = idf * ((frequency * (K1 + 1)) / (frequency + K1 * lengthNorm));
+        scores.set(index, (scores.get(index) ?? 0) + termScore);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .map(([index, score]) => ({ tool: this.tools[index], score }))
+      .filter((result) => !filter || filter(result.tool))
+      .sort((a, b) => b.score - a.score || a.tool.name.localeCompare(b.tool.name))
+      .slice(0, limit);
+  }
+}
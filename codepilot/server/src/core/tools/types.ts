@@ -4,12 +4,20 @@
  */
 
 import type { JSONSchema7 } from 'json-schema';
+import type { ToolPolicy } from './policy';
+import type { ToolInvocation } from './executor';
+
+/**
+ * Categories of the built-in tools.
+ */
+export type BuiltinToolCategory = 'file_ops' | 'git' | 'search' | 'shell' | 'code' | 'meta';
 
 /**
  * Tool categories for deferred loading.
  * Tools are grouped by category and only loaded when needed.
+ * Tools from an MCP server share a category named after it (e.g. "mcp:github").
  */
-export type ToolCategory = 'file_ops' | 'git' | 'search' | 'shell' | 'meta';
+export type ToolCategory = BuiltinToolCategory | `mcp:${string}`;
 
 /**
  * Context passed to tool handlers during execution.
@@ -22,6 +30,51 @@ export interface ToolExecutionContext {
   correlationId?: string;
   /** Set of currently loaded tool names for this session */
   loadedTools?: Set<string>;
+  /**
+   * Extra roots outside workingDir that path-based tools may access.
+   * Defaults to CODEPILOT_ALLOWED_ROOTS when omitted.
+   */
+  allowedRoots?: string[];
+  /** Restrictions from the session's agent command (e.g. read-only research mode) */
+  toolPolicy?: ToolPolicy;
+  /**
+   * Called before a tool that declares mutatesPaths runs, with the paths it will write.
+   * Used to checkpoint files so the session can be rewound.
+   */
+  beforeMutation?: (invocation: ToolInvocation, paths: string[]) => Promise<void>;
+  /** ID of the tool call being executed (set by the executor for each call) */
+  toolCallId?: string;
+  /**
+   * Runs a scoped child agent for the task tool and resolves with its final summary.
+   * Provided by the agent loop; absent where sub-agents aren't supported.
+   */
+  runSubAgent?: (toolCallId: string, request: SubAgentRequest) => Promise<SubAgentResult>;
+}
+
+/**
+ * A self-contained task delegated to a child agent.
+ */
+export interface SubAgentRequest {
+  /** Short label shown in the UI (3-5 words) */
+  description: string;
+  /** Full instructions for the child agent */
+  prompt: string;
+  /** Tool categories the child may use (further limited to read-only tools) */
+  categories?: ToolCategory[];
+}
+
+/**
+ * What a child agent reports back to its parent.
+ */
+export interface SubAgentResult {
+  /** The child's final answer - the only part of its work the parent sees */
+  summary: string;
+  /** Number of tool calls the child made */
+  toolCalls: number;
+  /** Tokens the child used across all its turns */
+  totalTokens: number;
+  /** Set if the child stopped on an error after producing a partial summary */
+  error?: string;
 }
 
 /**
@@ -45,10 +98,48 @@ export interface ToolMetadata {
   inputExamples?: unknown[];
 
   /**
-   * Whether this tool can be called programmatically from code execution.
-   * Reserved for future use with providers that support this feature.
+   * Callers that may invoke this tool programmatically (e.g. 'execute_code').
+   * Only tools without side effects should opt in - programmatic calls skip approval.
    */
   programmaticFrom?: string[];
+
+  /**
+   * Whether the tool has side effects (writes files, runs commands).
+   * Under the 'ask_for_writes' approval policy these calls wait for the user.
+   */
+  requiresApproval?: boolean;
+
+  /**
+   * The tool has no side effects, so calls may run in parallel with any other
+   * call - except writes to paths it declares in readsPaths.
+   */
+  readOnly?: boolean;
+
+  /**
+   * Paths (relative to the working directory) a readOnly call reads; a directory
+   * covers everything below it. The call keeps its place in the batch relative to
+   * calls writing those paths, so it sees exactly the writes the model made before it.
+   */
+  readsPaths?: (input: Record<string, unknown>) => string[];
+
+  /**
+   * Paths (relative to the working directory) a call writes.
+   * Calls touching the same path run in order; others may run in parallel.
+   * Tools that are neither readOnly nor declare mutatesPaths run alone.
+   */
+  mutatesPaths?: (input: Record<string, unknown>) => string[];
+}
+
+/**
+ * Preview of a tool call's effect, shown to the user when approval is required.
+ */
+export interface ToolPreview {
+  /** Files the call would change, with their current and proposed content */
+  files?: Array<{
+    path: string;
+    oldContent: string;
+    newContent: string;
+  }>;
 }
 
 /**
@@ -71,6 +162,12 @@ export interface BaseToolDefinition<I = Record<string, unknown>, O = unknown> {
 
   /** Optional metadata for provider-specific optimizations */
   metadata: ToolMetadata;
+
+  /**
+   * Optional dry run describing what the handler would change.
+   * Used to show a proposed diff before approval; must not have side effects.
+   */
+  preview?: (input: I, context: ToolExecutionContext) => Promise<ToolPreview>;
 }
 
 /**
@@ -7,10 +7,8 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
-
-// Database file location - in codepilot/data/ directory
-const DATA_DIR = path.resolve(process.cwd(), '..', 'data');
-const DB_PATH = path.join(DATA_DIR, 'codepilot.db');
+import type { StreamEvent } from './types';
+import { migrations, runMigrations, getSchemaVersion, assertSchemaVersion, LATEST_SCHEMA_VERSION } from './migrations';
 
 // Lazy-initialized database instance
 let db: Database.Database | null = null;
@@ -21,77 +19,42 @@ let db: Database.Database | null = null;
 export function getDb(): Database.Database {
   if (db) return db;
 
+  // Database file location - DATABASE_PATH if set (':memory:' for a throwaway database),
+  // otherwise codepilot/data/ (resolved on first use, so entry points can set the
+  // working directory first)
+  const DB_PATH = process.env.DATABASE_PATH || path.join(path.resolve(process.cwd(), '..', 'data'), 'codepilot.db');
+  const DATA_DIR = path.dirname(path.resolve(DB_PATH));
+
   // Ensure data directory exists
-  if (!fs.existsSync(DATA_DIR)) {
+  if (DB_PATH !== ':memory:' && !fs.existsSync(DATA_DIR)) {
     fs.mkdirSync(DATA_DIR, { recursive: true });
     console.log(`📁 Created data directory: ${DATA_DIR}`);
   }
 
   // Open/create database
-  db = new Database(DB_PATH);
+  const database = new Database(DB_PATH);
   
   // Enable foreign keys
-  db.pragma('foreign_keys = ON');
+  database.pragma('foreign_keys = ON');
   
-  // Initialize schema
-  initSchema(db);
+  // Bring the schema up to date, then make sure it's the version this code expects
+  try {
+    const applied = runMigrations(database, migrations);
+    if (applied.length > 0) {
+      console.log(`🗃️  Applied ${applied.length} schema migration(s), now at version ${getSchemaVersion(database)}`);
+    }
+    assertSchemaVersion(database, LATEST_SCHEMA_VERSION);
+  } catch (err) {
+    database.close();
+    throw err;
+  }
   
   console.log(`💾 SQLite database initialized: ${DB_PATH}`);
   
+  db = database;
   return db;
 }
 
-/**
- * Initialize database schema
- */
-function initSchema(db: Database.Database): void {
-  // Sessions table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS sessions (
-      id TEXT PRIMARY KEY,
-      status TEXT NOT NULL DEFAULT 'idle',
-      working_dir TEXT NOT NULL,
-      title TEXT,
-      total_tokens INTEGER DEFAULT 0,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL
-    );
-  `);
-
-  // Add title column if it doesn't exist (migration for existing DBs)
-  try {
-    db.exec(`ALTER TABLE sessions ADD COLUMN title TEXT`);
-  } catch {
-    // Column already exists, ignore
-  }
-
-  // Add current_plan column for storing generated plans (migration)
-  try {
-    db.exec(`ALTER TABLE sessions ADD COLUMN current_plan TEXT`);
-  } catch {
-    // Column already exists, ignore
-  }
-
-  // Messages table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS messages (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      session_id TEXT NOT NULL,
-      role TEXT NOT NULL,
-      content TEXT,
-      tool_call_id TEXT,
-      tool_calls TEXT,
-      created_at TEXT NOT NULL,
-      FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
-    );
-  `);
-
-  // Index for faster message lookups by session
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_messages_session ON messages(session_id);
-  `);
-}
-
 /**
  * Close the database connection (for graceful shutdown)
  */
@@ -114,6 +77,12 @@ export interface DbSession {
   title: string | null;
   total_tokens: number;
   current_plan: string | null;
+  approval_policy: string | null;
+  last_command: string | null;
+  parent_session_id: string | null;
+  forked_from_message_id: number | null;
+  budget_usd: number | null;
+  budget_tokens: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -215,6 +184,76 @@ export function updateDbSessionPlan(id: string, plan: string | null): void {
   stmt.run(plan, now, id);
 }
 
+/**
+ * Record the agent command of the session's latest run
+ */
+export function updateDbSessionCommand(id: string, command: string): void {
+  const stmt = getDb().prepare('UPDATE sessions SET last_command = ? WHERE id = ?');
+  stmt.run(command, id);
+}
+
+/**
+ * Get the IDs of all sessions with a status (e.g. runs left 'running' by a crash)
+ */
+export function listDbSessionIdsByStatus(status: string): string[] {
+  const stmt = getDb().prepare('SELECT id FROM sessions WHERE status = ? ORDER BY created_at ASC');
+  return (stmt.all(status) as Array<{ id: string }>).map((row) => row.id);
+}
+
+/**
+ * Create a fork of a session: a new idle session with the same working directory,
+ * plan, approval policy and command, and copies of its messages up to and including
+ * throughMessageId. Records the lineage in parent_session_id and forked_from_message_id.
+ * @returns Number of messages copied
+ */
+export function forkDbSession(sourceId: string, newId: string, throughMessageId: number): number {
+  const database = getDb();
+  const now = new Date().toISOString();
+
+  const fork = database.transaction(() => {
+    database.prepare(`
+      INSERT INTO sessions (
+        id, status, working_dir, total_tokens, current_plan, approval_policy, last_command,
+        budget_usd, budget_tokens, parent_session_id, forked_from_message_id, created_at, updated_at
+      )
+      SELECT ?, 'idle', working_dir, 0, current_plan, approval_policy, last_command,
+        budget_usd, budget_tokens, id, ?, ?, ?
+      FROM sessions WHERE id = ?
+    `).run(newId, throughMessageId, now, now, sourceId);
+
+    return database.prepare(`
+      INSERT INTO messages (session_id, role, content, tool_call_id, tool_calls, created_at)
+      SELECT ?, role, content, tool_call_id, tool_calls, created_at
+      FROM messages WHERE session_id = ? AND id <= ?
+      ORDER BY id ASC
+    `).run(newId, sourceId, throughMessageId).changes;
+  });
+
+  return fork();
+}
+
+/**
+ * Update session's tool approval policy
+ */
+export function updateDbSessionApprovalPolicy(id: string, policy: string): void {
+  const now = new Date().toISOString();
+  const stmt = getDb().prepare(`
+    UPDATE sessions SET approval_policy = ?, updated_at = ? WHERE id = ?
+  `);
+  stmt.run(policy, now, id);
+}
+
+/**
+ * Update session's budget (null limits fall back to the server default)
+ */
+export function updateDbSessionBudget(id: string, budgetUsd: number | null, budgetTokens: number | null): void {
+  const now = new Date().toISOString();
+  const stmt = getDb().prepare(`
+    UPDATE sessions SET budget_usd = ?, budget_tokens = ?, updated_at = ? WHERE id = ?
+  `);
+  stmt.run(budgetUsd, budgetTokens, now, id);
+}
+
 /**
  * List all sessions with pagination
  */
@@ -287,6 +326,43 @@ export function insertMessage(
   return result.lastInsertRowid as number;
 }
 
+/**
+ * Replace all messages for a session in a single transaction
+ * Used after context compaction so resumed sessions load the compacted history
+ */
+export function replaceSessionMessages(
+  sessionId: string,
+  messages: ChatCompletionMessageParam[]
+): void {
+  const database = getDb();
+  const replace = database.transaction(() => {
+    database.prepare('DELETE FROM messages WHERE session_id = ?').run(sessionId);
+    for (const message of messages) {
+      insertMessage(sessionId, message);
+    }
+    // Re-point checkpoints at the reinserted messages (NULL if their call was summarized away)
+    database.prepare(`
+      UPDATE checkpoints SET message_id = (
+        SELECT m.id FROM messages m
+        WHERE m.session_id = checkpoints.session_id AND m.role = 'assistant'
+          AND m.tool_calls LIKE '%"id":"' || checkpoints.tool_call_id || '"%'
+        ORDER BY m.id ASC LIMIT 1
+      )
+      WHERE session_id = ?
+    `).run(sessionId);
+  });
+  replace();
+}
+
+/**
+ * Delete a message and everything after it in a session
+ * @returns Number of messages removed
+ */
+export function deleteSessionMessagesFrom(sessionId: string, messageId: number): number {
+  const stmt = getDb().prepare('DELETE FROM messages WHERE session_id = ? AND id >= ?');
+  return stmt.run(sessionId, messageId).changes;
+}
+
 /**
  * Get all messages for a session
  * Returns messages in the format expected by the OpenAI API
@@ -300,6 +376,14 @@ export function getSessionMessages(sessionId: string): ChatCompletionMessagePara
   return rows.map(row => dbMessageToOpenAI(row));
 }
 
+/**
+ * Get the ids of a session's messages, in the same order as getSessionMessages
+ */
+export function getSessionMessageIds(sessionId: string): number[] {
+  const stmt = getDb().prepare('SELECT id FROM messages WHERE session_id = ? ORDER BY id ASC');
+  return (stmt.all(sessionId) as Array<{ id: number }>).map((row) => row.id);
+}
+
 /**
  * Get message count for a session
  */
@@ -362,6 +446,305 @@ function dbMessageToOpenAI(row: DbMessage): ChatCompletionMessageParam {
   return base as ChatCompletionMessageParam;
 }
 
+// ============================================================================
+// Checkpoint Operations
+// ============================================================================
+
+export interface DbCheckpoint {
+  id: number;
+  session_id: string;
+  message_id: number | null;
+  tool_call_id: string;
+  tool_name: string;
+  created_at: string;
+}
+
+export interface DbCheckpointFile {
+  checkpoint_id: number;
+  path: string;
+  content: Buffer | null;
+}
+
+/**
+ * Insert a checkpoint with its file snapshots
+ * @returns The new checkpoint ID
+ */
+export function insertCheckpoint(
+  sessionId: string,
+  toolCallId: string,
+  toolName: string,
+  files: Array<{ path: string; content: Buffer | null }>
+): number {
+  const database = getDb();
+  const insert = database.transaction(() => {
+    const result = database.prepare(`
+      INSERT INTO checkpoints (session_id, tool_call_id, tool_name, created_at)
+      VALUES (?, ?, ?, ?)
+    `).run(sessionId, toolCallId, toolName, new Date().toISOString());
+    const checkpointId = result.lastInsertRowid as number;
+
+    const insertFile = database.prepare(`
+      INSERT INTO checkpoint_files (checkpoint_id, path, content) VALUES (?, ?, ?)
+    `);
+    for (const file of files) {
+      insertFile.run(checkpointId, file.path, file.content);
+    }
+    return checkpointId;
+  });
+  return insert();
+}
+
+/**
+ * Link checkpoints to the assistant message that made their tool calls
+ */
+export function linkCheckpointsToMessage(
+  sessionId: string,
+  toolCallIds: string[],
+  messageId: number
+): void {
+  const stmt = getDb().prepare(`
+    UPDATE checkpoints SET message_id = ? WHERE session_id = ? AND tool_call_id = ?
+  `);
+  for (const toolCallId of toolCallIds) {
+    stmt.run(messageId, sessionId, toolCallId);
+  }
+}
+
+/**
+ * Get a checkpoint by ID
+ */
+export function getDbCheckpoint(id: number): DbCheckpoint | undefined {
+  const stmt = getDb().prepare('SELECT * FROM checkpoints WHERE id = ?');
+  return stmt.get(id) as DbCheckpoint | undefined;
+}
+
+/**
+ * List a session's checkpoints, oldest first, with the paths each one snapshotted
+ */
+export function listDbCheckpoints(sessionId: string): Array<DbCheckpoint & { paths: string[] }> {
+  const checkpoints = getDb().prepare(`
+    SELECT * FROM checkpoints WHERE session_id = ? ORDER BY id ASC
+  `).all(sessionId) as DbCheckpoint[];
+
+  const pathStmt = getDb().prepare('SELECT path FROM checkpoint_files WHERE checkpoint_id = ? ORDER BY id ASC');
+  return checkpoints.map((checkpoint) => ({
+    ...checkpoint,
+    paths: (pathStmt.all(checkpoint.id) as Array<{ path: string }>).map((row) => row.path),
+  }));
+}
+
+/**
+ * Get file snapshots from a checkpoint onwards, oldest first
+ */
+export function getDbCheckpointFilesFrom(sessionId: string, checkpointId: number): DbCheckpointFile[] {
+  const stmt = getDb().prepare(`
+    SELECT f.checkpoint_id, f.path, f.content
+    FROM checkpoint_files f
+    JOIN checkpoints c ON c.id = f.checkpoint_id
+    WHERE c.session_id = ? AND c.id >= ?
+    ORDER BY c.id ASC, f.id ASC
+  `);
+  return stmt.all(sessionId, checkpointId) as DbCheckpointFile[];
+}
+
+/**
+ * Delete a checkpoint and every later checkpoint in the session
+ */
+export function deleteCheckpointsFrom(sessionId: string, checkpointId: number): number {
+  const stmt = getDb().prepare('DELETE FROM checkpoints WHERE session_id = ? AND id >= ?');
+  return stmt.run(sessionId, checkpointId).changes;
+}
+
+// ============================================================================
+// Event Log Operations
+// ============================================================================
+
+/**
+ * Append a stream event to a session's event log
+ * @returns The event ID (increases with every insert, across all sessions)
+ */
+export function insertSessionEvent(sessionId: string, event: StreamEvent): number {
+  const result = getDb().prepare(`
+    INSERT INTO session_events (session_id, type, data, created_at)
+    VALUES (?, ?, ?, ?)
+  `).run(sessionId, event.type, JSON.stringify(event), new Date().toISOString());
+  return result.lastInsertRowid as number;
+}
+
+/**
+ * Get a session's logged events after an event ID, oldest first
+ */
+export function getSessionEventsAfter(
+  sessionId: string,
+  afterId: number
+): Array<{ id: number; event: StreamEvent }> {
+  const rows = getDb().prepare(`
+    SELECT id, data FROM session_events WHERE session_id = ? AND id > ? ORDER BY id ASC
+  `).all(sessionId, afterId) as Array<{ id: number; data: string }>;
+  return rows.map((row) => ({ id: row.id, event: JSON.parse(row.data) as StreamEvent }));
+}
+
+/**
+ * Delete a session's logged events
+ */
+export function deleteSessionEvents(sessionId: string): void {
+  getDb().prepare('DELETE FROM session_events WHERE session_id = ?').run(sessionId);
+}
+
+// ============================================================================
+// Usage Operations
+// ============================================================================
+
+export interface DbUsageRow {
+  sessionId: string | null;
+  provider: string | null;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  totalTokens: number;
+  cost: number | null;
+}
+
+/** Which calls to aggregate: created_at in [from, to), optionally one session's */
+export interface DbUsageFilter {
+  from?: string;
+  to?: string;
+  sessionId?: string;
+}
+
+export type DbUsageGrouping = 'day' | 'model' | 'session';
+
+export interface DbUsageAggregate {
+  /** The group - null when not grouping (or for calls of deleted sessions) */
+  key: string | null;
+  /** Session title or model provider, for display */
+  label: string | null;
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  total_tokens: number;
+  /** NULL when none of the calls were priced */
+  cost: number | null;
+  /** Calls without a price, whose cost is missing from the total */
+  unpriced_calls: number;
+}
+
+// Timestamps are ISO strings in UTC, so a day is the first 10 characters
+const USAGE_GROUPINGS: Record<DbUsageGrouping, { key: string; label: string; order: string }> = {
+  day: { key: 'substr(u.created_at, 1, 10)', label: 'NULL', order: 'key ASC' },
+  model: { key: 'u.model', label: 'MIN(u.provider)', order: 'cost DESC, total_tokens DESC' },
+  session: { key: 'u.session_id', label: 'MIN(s.title)', order: 'cost DESC, total_tokens DESC' },
+};
+
+/**
+ * Record one model call
+ */
+export function insertUsage(usage: DbUsageRow): void {
+  const stmt = getDb().prepare(`
+    INSERT INTO usage (
+      session_id, provider, model, prompt_tokens, completion_tokens,
+      cache_read_tokens, cache_write_tokens, total_tokens, cost, created_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  stmt.run(
+    usage.sessionId,
+    usage.provider,
+    usage.model,
+    usage.promptTokens,
+    usage.completionTokens,
+    usage.cacheReadTokens,
+    usage.cacheWriteTokens,
+    usage.totalTokens,
+    usage.cost,
+    new Date().toISOString()
+  );
+}
+
+/**
+ * Sum up recorded calls, in total or per day, model or session
+ */
+export function aggregateDbUsage(filter: DbUsageFilter = {}, groupBy?: DbUsageGrouping): DbUsageAggregate[] {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (filter.from) {
+    conditions.push('u.created_at >= ?');
+    params.push(filter.from);
+  }
+  if (filter.to) {
+    conditions.push('u.created_at < ?');
+    params.push(filter.to);
+  }
+  if (filter.sessionId) {
+    conditions.push('u.session_id = ?');
+    params.push(filter.sessionId);
+  }
+
+  const grouping = groupBy ? USAGE_GROUPINGS[groupBy] : null;
+  const stmt = getDb().prepare(`
+    SELECT
+      ${grouping?.key ?? 'NULL'} AS key,
+      ${grouping?.label ?? 'NULL'} AS label,
+      COUNT(*) AS calls,
+      COALESCE(SUM(u.prompt_tokens), 0) AS prompt_tokens,
+      COALESCE(SUM(u.completion_tokens), 0) AS completion_tokens,
+      COALESCE(SUM(u.cache_read_tokens), 0) AS cache_read_tokens,
+      COALESCE(SUM(u.cache_write_tokens), 0) AS cache_write_tokens,
+      COALESCE(SUM(u.total_tokens), 0) AS total_tokens,
+      SUM(u.cost) AS cost,
+      COUNT(*) - COUNT(u.cost) AS unpriced_calls
+    FROM usage u
+    LEFT JOIN sessions s ON s.id = u.session_id
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ${grouping ? `GROUP BY key ORDER BY ${grouping.order}` : ''}
+  `);
+  return stmt.all(...params) as DbUsageAggregate[];
+}
+
+// ============================================================================
+// Search Operations
+// ============================================================================
+
+export interface DbSearchHit {
+  message_id: number;
+  session_id: string;
+  session_title: string | null;
+  role: string;
+  snippet: string;
+  created_at: string;
+}
+
+/** Markers around matched terms in search snippets */
+export const SNIPPET_MATCH_START = '<mark>';
+export const SNIPPET_MATCH_END = '</mark>';
+
+/**
+ * Search message content, tool names and tool arguments, best matches first
+ * @param ftsQuery - An FTS5 MATCH expression
+ */
+export function searchDbMessages(ftsQuery: string, limit: number = 20): DbSearchHit[] {
+  const stmt = getDb().prepare(`
+    SELECT
+      m.id AS message_id,
+      m.session_id,
+      s.title AS session_title,
+      m.role,
+      snippet(messages_fts, -1, ?, ?, '…', 16) AS snippet,
+      m.created_at
+    FROM messages_fts
+    JOIN messages m ON m.id = messages_fts.rowid
+    JOIN sessions s ON s.id = m.session_id
+    WHERE messages_fts MATCH ?
+    ORDER BY rank
+    LIMIT ?
+  `);
+  return stmt.all(SNIPPET_MATCH_START, SNIPPET_MATCH_END, ftsQuery, limit) as DbSearchHit[];
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -379,6 +762,10 @@ export interface SessionSummary {
   messageCount: number;
   totalTokens: number;
   preview: string | null;
+  /** Session this one was forked from (null for an original session) */
+  parentSessionId: string | null;
+  /** Last message copied from the parent when forking */
+  forkedFromMessageId: number | null;
 }
 
 /**
@@ -400,6 +787,8 @@ export function listSessionSummaries(
     messageCount: getMessageCount(s.id),
     totalTokens: s.total_tokens,
     preview: truncatePreview(getFirstUserMessage(s.id)),
+    parentSessionId: s.parent_session_id,
+    forkedFromMessageId: s.forked_from_message_id,
   }));
 
   return { sessions, total };
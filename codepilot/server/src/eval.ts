@@ -0,0 +1,112 @@
+/**
+ * CodePilot eval runner entry point.
+ * Measures agent task success on a suite of task fixtures (see src/evals/tasks.ts).
+ *
+ * Usage:
+ *   tsx src/eval.ts [tasks-dir] [--json <file>] [--markdown <file>] [--live | --record]
+ *                   [--model <model>] [--keep] [--verbose]
+ *
+ * Tasks with a cassette replay it, so the default suite (server/evals) runs offline.
+ * --live runs every task against the provider selected from env vars; --record does
+ * the same and saves each run as the task's cassette. The markdown report goes to
+ * stdout; exits with 1 when any task fails (130 when interrupted).
+ */
+
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+
+// .env is in codepilot/ (2 levels up from server/src/), as for the HTTP server
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.resolve(__dirname, '../../.env'), quiet: true });
+
+import { createProviderAdapter, RecordingAdapter } from './providers';
+import { loadEvalTasks, runEvals, formatEvalMarkdown, defaultEvalAdapter, EvalTaskError, type EvalTask } from './evals';
+
+const USAGE = `Usage: tsx src/eval.ts [tasks-dir] [options]
+
+Runs each task in tasks-dir (default: server/evals) and prints a markdown report.
+
+Options:
+      --json <file>       Also write the report as JSON
+      --markdown <file>   Also write the markdown report to a file
+      --live              Call the configured provider even for tasks with a cassette
+      --record            Like --live, and save each run as the task's cassette
+  -m, --model <model>     Model for live runs
+      --keep              Keep each run's workspace in the temp directory
+  -v, --verbose           Print agent and tool logs to stderr
+  -h, --help              Show this help`;
+
+let args;
+try {
+  args = parseArgs({
+    allowPositionals: true,
+    options: {
+      json: { type: 'string' },
+      markdown: { type: 'string' },
+      live: { type: 'boolean', default: false },
+      record: { type: 'boolean', default: false },
+      model: { type: 'string', short: 'm' },
+      keep: { type: 'boolean', default: false },
+      verbose: { type: 'boolean', short: 'v', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+} catch (err) {
+  console.error(`${err instanceof Error ? err.message : err}\n\n${USAGE}`);
+  process.exit(2);
+}
+
+const { values, positionals } = args;
+if (values.help) {
+  process.stdout.write(`${USAGE}\n`);
+  process.exit(0);
+}
+
+// stdout carries the report, so logs from the agent and tools go to stderr (or nowhere)
+const log = values.verbose ? console.error : () => {};
+console.log = log;
+console.info = log;
+console.debug = log;
+
+let tasks: EvalTask[];
+try {
+  tasks = loadEvalTasks(positionals[0] ?? path.resolve(__dirname, '../evals'));
+} catch (err) {
+  if (!(err instanceof EvalTaskError)) throw err;
+  console.error(err.message);
+  process.exit(2);
+}
+
+const createAdapter = values.record
+  ? (task: EvalTask) => new RecordingAdapter(createProviderAdapter(), task.cassettePath)
+  : values.live
+    ? () => createProviderAdapter()
+    : defaultEvalAdapter;
+
+const interrupt = new AbortController();
+process.on('SIGINT', () => interrupt.abort());
+
+const report = await runEvals(tasks, {
+  createAdapter,
+  model: values.model,
+  keepWorkspaces: values.keep,
+  signal: interrupt.signal,
+  onTaskComplete: (result, workspace) => {
+    const kept = values.keep ? ` (workspace: ${workspace})` : '';
+    console.error(`${result.passed ? '✅' : '❌'} ${result.name} in ${result.wallTimeMs}ms${kept}`);
+  },
+});
+
+const markdown = formatEvalMarkdown(report);
+process.stdout.write(markdown);
+if (values.markdown) {
+  fs.writeFileSync(values.markdown, markdown);
+}
+if (values.json) {
+  fs.writeFileSync(values.json, JSON.stringify(report, null, 2) + '\n');
+}
+
+process.exit(interrupt.signal.aborted ? 130 : report.summary.passed === report.summary.total ? 0 : 1);
@@ -0,0 +1,114 @@
+/**
+ * Eval checks - decide whether a run did what its task asked
+ */
+
+import { exec } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import util from 'util';
+import type { EvalCheck, EvalCheckResult } from './types';
+
+const execAsync = util.promisify(exec);
+
+const DEFAULT_COMMAND_TIMEOUT_MS = 60000;
+
+/** Longest command output quoted in a failed check's detail */
+const MAX_OUTPUT_DETAIL = 500;
+
+/**
+ * Short description of a check, for reports
+ */
+export function describeCheck(check: EvalCheck): string {
+  switch (check.type) {
+    case 'file':
+      if (check.exists === false) return `${check.path} does not exist`;
+      if (check.equals !== undefined) return `${check.path} equals expected contents`;
+      if (check.contains !== undefined) return `${check.path} contains ${JSON.stringify(check.contains)}`;
+      if (check.matches !== undefined) return `${check.path} matches /${check.matches}/`;
+      return `${check.path} exists`;
+    case 'command':
+      return `\`${check.run}\` exits with ${check.exitCode ?? 0}`;
+    case 'answer':
+      return `answer matches /${check.matches}/${check.flags ?? ''}`;
+  }
+}
+
+function tail(output: string): string {
+  const trimmed = output.trim();
+  return trimmed.length > MAX_OUTPUT_DETAIL ? `…${trimmed.slice(-MAX_OUTPUT_DETAIL)}` : trimmed;
+}
+
+async function checkFile(check: Extract<EvalCheck, { type: 'file' }>, workspace: string): Promise<string | null> {
+  let contents: string | null;
+  try {
+    contents = await fs.readFile(path.resolve(workspace, check.path), 'utf-8');
+  } catch {
+    contents = null;
+  }
+
+  if (check.exists === false) {
+    return contents === null ? null : 'file exists';
+  }
+  if (contents === null) {
+    return 'file not found';
+  }
+  if (check.equals !== undefined && contents !== check.equals) {
+    return 'contents differ from the expected text';
+  }
+  if (check.contains !== undefined && !contents.includes(check.contains)) {
+    return 'text not found in file';
+  }
+  if (check.matches !== undefined && !new RegExp(check.matches, 'm').test(contents)) {
+    return 'pattern not found in file';
+  }
+  return null;
+}
+
+async function checkCommand(check: Extract<EvalCheck, { type: 'command' }>, workspace: string): Promise<string | null> {
+  const expected = check.exitCode ?? 0;
+  let exitCode = 0;
+  let output = '';
+
+  try {
+    const { stdout, stderr } = await execAsync(check.run, {
+      cwd: workspace,
+      timeout: check.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS,
+      maxBuffer: 1024 * 1024,
+    });
+    output = stdout + stderr;
+  } catch (err) {
+    const failure = err as { code?: number | string; killed?: boolean; stdout?: string; stderr?: string };
+    if (failure.killed) {
+      return 'command timed out';
+    }
+    exitCode = typeof failure.code === 'number' ? failure.code : 1;
+    output = (failure.stdout ?? '') + (failure.stderr ?? '');
+  }
+
+  return exitCode === expected ? null : `exited with ${exitCode}${output ? `: ${tail(output)}` : ''}`;
+}
+
+/**
+ * Run one check against a finished run's workspace and final answer
+ */
+export async function runCheck(check: EvalCheck, workspace: string, answer: string): Promise<EvalCheckResult> {
+  let detail: string | null;
+  try {
+    switch (check.type) {
+      case 'file':
+        detail = await checkFile(check, workspace);
+        break;
+      case 'command':
+        detail = await checkCommand(check, workspace);
+        break;
+      case 'answer':
+        detail = new RegExp(check.matches, check.flags).test(answer) ? null : 'pattern not found in the answer';
+        break;
+    }
+  } catch (err) {
+    // e.g. an invalid regular expression in the task
+    detail = err instanceof Error ? err.message : String(err);
+  }
+
+  return detail === null ? { check, passed: true } : { check, passed: false, detail };
+}
@@ -0,0 +1,98 @@
+/**
+ * Eval tests - task fixtures, checks, and the bundled suite replayed offline
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { loadEvalTasks, EvalTaskError } from './tasks';
+import { runCheck } from './checks';
+import { runEvals } from './runner';
+import { formatEvalMarkdown } from './report';
+import { MockAdapter } from '../providers';
+
+const SUITE = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../evals');
+
+describe('eval tasks and checks', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codepilot-evals-'));
+    fs.mkdirSync(path.join(dir, 'task', 'repo'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'task', 'repo', 'a.txt'), 'alpha\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeTask = (task: object) => fs.writeFileSync(path.join(dir, 'task', 'task.json'), JSON.stringify(task));
+
+  it('should load a suite with defaults filled in', () => {
+    writeTask({ prompt: 'hi', checks: [{ type: 'answer', matches: 'hello' }] });
+
+    const [task] = loadEvalTasks(dir);
+
+    expect(task).toMatchObject({ name: 'task', command: 'chat', hasCassette: false });
+    expect(task.repoDir).toBe(path.join(dir, 'task', 'repo'));
+  });
+
+  it('should reject tasks that cannot run offline or have bad checks', () => {
+    writeTask({ prompt: 'fix it', command: 'implement', checks: [{ type: 'answer', matches: 'x' }] });
+    expect(() => loadEvalTasks(dir)).toThrow(/unsupported command: implement/);
+
+    writeTask({ prompt: 'hi', checks: [{ type: 'vibes' }] });
+    expect(() => loadEvalTasks(dir)).toThrow(EvalTaskError);
+
+    expect(() => loadEvalTasks(path.join(dir, 'task', 'repo'))).toThrow(/no tasks found/);
+  });
+
+  it('should check files, commands and the answer', async () => {
+    const workspace = path.join(dir, 'task', 'repo');
+    const run = async (check: Parameters<typeof runCheck>[0], answer = '') => runCheck(check, workspace, answer);
+
+    expect((await run({ type: 'file', path: 'a.txt', equals: 'alpha\n' })).passed).toBe(true);
+    expect((await run({ type: 'file', path: 'a.txt', matches: '^beta' })).detail).toBe('pattern not found in file');
+    expect((await run({ type: 'file', path: 'gone.txt', exists: false })).passed).toBe(true);
+
+    expect((await run({ type: 'command', run: 'grep -q alpha a.txt' })).passed).toBe(true);
+    expect((await run({ type: 'command', run: 'echo nope; exit 3' })).detail).toBe('exited with 3: nope');
+    expect((await run({ type: 'command', run: 'exit 3', exitCode: 3 })).passed).toBe(true);
+
+    expect((await run({ type: 'answer', matches: 'done', flags: 'i' }, 'All DONE.')).passed).toBe(true);
+    expect((await run({ type: 'answer', matches: '(' }, 'x')).passed).toBe(false);
+  });
+});
+
+describe('runEvals', () => {
+  it('should pass the bundled suite replayed from its cassettes', async () => {
+    const report = await runEvals(loadEvalTasks(SUITE));
+
+    expect(report.tasks.map((task) => [task.name, task.passed, task.errors])).toEqual([
+      ['find-date-helper', true, []],
+      ['fix-greeting', true, []],
+    ]);
+    expect(report.summary).toMatchObject({ total: 2, passed: 2, passRate: 1 });
+
+    const fix = report.tasks.find((task) => task.name === 'fix-greeting')!;
+    expect(fix).toMatchObject({ toolRounds: 3, toolCalls: 3, provider: 'mock' });
+    expect(fix.usage.totalTokens).toBeGreaterThan(0);
+    expect(fix.answer).toMatch(/^Fixed greet\.js/);
+  });
+
+  it('should report failed checks and errors', async () => {
+    const tasks = loadEvalTasks(path.join(SUITE, 'fix-greeting'));
+
+    const report = await runEvals(tasks, {
+      createAdapter: () => new MockAdapter([[{ type: 'text', text: 'Looks fine to me.' }]]),
+    });
+
+    expect(report.summary).toMatchObject({ total: 1, passed: 0, passRate: 0 });
+    expect(report.tasks[0].checks.map((check) => check.passed)).toEqual([false, false, false]);
+
+    const markdown = formatEvalMarkdown(report);
+    expect(markdown).toContain('**0/1 passed (0%)**');
+    expect(markdown).toContain('- greet.js contains "Hello, ": text not found in file');
+  });
+});
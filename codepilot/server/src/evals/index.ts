@@ -0,0 +1,17 @@
+/**
+ * Eval module exports - offline evaluation of agent task success.
+ */
+
+export type {
+  EvalCheck,
+  EvalTaskFile,
+  EvalTask,
+  EvalCheckResult,
+  EvalUsage,
+  EvalTaskResult,
+  EvalReport,
+} from './types';
+export { loadEvalTask, loadEvalTasks, EvalTaskError } from './tasks';
+export { runCheck, describeCheck } from './checks';
+export { runEvalTask, runEvals, summarizeEvals, defaultEvalAdapter, type EvalRunOptions } from './runner';
+export { formatEvalMarkdown } from './report';
@@ -0,0 +1,63 @@
+/**
+ * Eval reports as markdown (the JSON report is the EvalReport itself)
+ */
+
+import { describeCheck } from './checks';
+import type { EvalReport } from './types';
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+/** Keep table cells on one line and their pipes from ending the cell */
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Render a report as markdown: a summary, a table of tasks and what failed
+ */
+export function formatEvalMarkdown(report: EvalReport): string {
+  const { summary } = report;
+  const lines = [
+    '# Eval Report',
+    '',
+    `**${summary.passed}/${summary.total} passed (${formatPercent(summary.passRate)})** · ` +
+      `${summary.toolRounds} tool rounds · ${summary.toolCalls} tool calls · ` +
+      `${summary.usage.totalTokens.toLocaleString('en-US')} tokens · ${formatDuration(summary.wallTimeMs)}`,
+    '',
+    `Started ${report.startedAt}`,
+    '',
+    '| Task | Result | Checks | Tool rounds | Tool calls | Tokens | Time | Model |',
+    '| --- | --- | --- | ---: | ---: | ---: | ---: | --- |',
+  ];
+
+  for (const task of report.tasks) {
+    const checksPassed = task.checks.filter((check) => check.passed).length;
+    lines.push(
+      `| ${cell(task.name)} | ${task.passed ? '✅ pass' : '❌ fail'} | ${checksPassed}/${task.checks.length} | ` +
+        `${task.toolRounds} | ${task.toolCalls} | ${task.usage.totalTokens.toLocaleString('en-US')} | ` +
+        `${formatDuration(task.wallTimeMs)} | ${cell(`${task.provider}/${task.model}`)} |`
+    );
+  }
+
+  const failed = report.tasks.filter((task) => !task.passed);
+  if (failed.length > 0) {
+    lines.push('', '## Failures');
+    for (const task of failed) {
+      lines.push('', `### ${task.name}`, '');
+      for (const error of task.errors) {
+        lines.push(`- Error: ${cell(error)}`);
+      }
+      for (const result of task.checks.filter((check) => !check.passed)) {
+        lines.push(`- ${cell(describeCheck(result.check))}: ${cell(result.detail ?? 'failed')}`);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,168 @@
+/**
+ * Eval runner
+ * Runs each task through the agent loop in a temp copy of its seed repository,
+ * then checks the result and measures the run.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runAgentLoop } from '../agent/loop';
+import { getSystemPrompt, getToolPolicy } from '../agent/commands';
+import { createProviderAdapter, loadCassette, ReplayAdapter, type ProviderAdapter } from '../providers';
+import { runCheck } from './checks';
+import type { EvalCheckResult, EvalReport, EvalTask, EvalTaskResult, EvalUsage } from './types';
+
+/**
+ * Options for an eval run.
+ */
+export interface EvalRunOptions {
+  /** Adapter for a task (default: defaultEvalAdapter) */
+  createAdapter?: (task: EvalTask) => ProviderAdapter;
+  /** Model override for live runs */
+  model?: string;
+  /** Leave workspaces in the temp directory for inspection */
+  keepWorkspaces?: boolean;
+  signal?: AbortSignal;
+  /** Called as each task finishes */
+  onTaskComplete?: (result: EvalTaskResult, workspace: string) => void;
+}
+
+/**
+ * Replay the task's cassette if it has one, otherwise use the provider selected from env vars
+ */
+export function defaultEvalAdapter(task: EvalTask): ProviderAdapter {
+  return task.hasCassette ? new ReplayAdapter(loadCassette(task.cassettePath)) : createProviderAdapter();
+}
+
+/**
+ * Run one task in a fresh copy of its seed repository
+ */
+export async function runEvalTask(task: EvalTask, options: EvalRunOptions = {}): Promise<EvalTaskResult> {
+  const workspace = fs.mkdtempSync(path.join(os.tmpdir(), `codepilot-eval-${task.name}-`));
+  fs.cpSync(task.repoDir, workspace, { recursive: true });
+
+  const usage: EvalUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  const errors: string[] = [];
+  let toolRounds = 0;
+  let toolCalls = 0;
+  let answer = '';
+  let provider = 'unknown';
+  let model = options.model ?? 'unknown';
+
+  const startedAt = Date.now();
+  try {
+    const adapter = (options.createAdapter ?? defaultEvalAdapter)(task);
+    provider = adapter.id;
+    model = options.model ?? adapter.defaultModel;
+
+    // A round's calls all stream before any of its results
+    let inRound = false;
+    for await (const event of runAgentLoop({
+      userPrompt: task.prompt,
+      workingDir: workspace,
+      systemPrompt: getSystemPrompt(task.command, null),
+      toolPolicy: getToolPolicy(task.command),
+      adapter,
+      model: options.model,
+      maxToolRounds: task.maxToolRounds,
+      signal: options.signal,
+    })) {
+      switch (event.type) {
+        case 'text_delta':
+          answer += event.text ?? '';
+          break;
+        case 'tool_call':
+          if (!inRound) {
+            toolRounds++;
+            inRound = true;
+          }
+          toolCalls++;
+          answer = '';
+          break;
+        case 'tool_result':
+          inRound = false;
+          break;
+        case 'usage':
+          if (event.usage) {
+            usage.promptTokens += event.usage.prompt_tokens;
+            usage.completionTokens += event.usage.completion_tokens;
+            usage.totalTokens += event.usage.total_tokens;
+          }
+          break;
+        case 'error':
+          errors.push(event.error ?? 'Unknown error');
+          break;
+      }
+    }
+  } catch (err) {
+    errors.push(err instanceof Error ? err.message : String(err));
+  }
+  const wallTimeMs = Date.now() - startedAt;
+
+  const checks: EvalCheckResult[] = [];
+  for (const check of task.checks) {
+    checks.push(await runCheck(check, workspace, answer));
+  }
+
+  const result: EvalTaskResult = {
+    name: task.name,
+    provider,
+    model,
+    passed: errors.length === 0 && checks.every((check) => check.passed),
+    checks,
+    toolRounds,
+    toolCalls,
+    usage,
+    wallTimeMs,
+    answer: answer.trim(),
+    errors,
+  };
+
+  options.onTaskComplete?.(result, workspace);
+  if (!options.keepWorkspaces) {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  }
+  return result;
+}
+
+/**
+ * Sum up task results into a report
+ */
+export function summarizeEvals(results: EvalTaskResult[], startedAt: Date): EvalReport {
+  const passed = results.filter((result) => result.passed).length;
+  const sum = (value: (result: EvalTaskResult) => number) => results.reduce((total, result) => total + value(result), 0);
+
+  return {
+    startedAt: startedAt.toISOString(),
+    summary: {
+      total: results.length,
+      passed,
+      passRate: results.length > 0 ? passed / results.length : 0,
+      toolRounds: sum((result) => result.toolRounds),
+      toolCalls: sum((result) => result.toolCalls),
+      usage: {
+        promptTokens: sum((result) => result.usage.promptTokens),
+        completionTokens: sum((result) => result.usage.completionTokens),
+        totalTokens: sum((result) => result.usage.totalTokens),
+      },
+      wallTimeMs: sum((result) => result.wallTimeMs),
+    },
+    tasks: results,
+  };
+}
+
+/**
+ * Run tasks one after another and report on them
+ */
+export async function runEvals(tasks: EvalTask[], options: EvalRunOptions = {}): Promise<EvalReport> {
+  const startedAt = new Date();
+  const results: EvalTaskResult[] = [];
+
+  for (const task of tasks) {
+    if (options.signal?.aborted) break;
+    results.push(await runEvalTask(task, options));
+  }
+
+  return summarizeEvals(results, startedAt);
+}
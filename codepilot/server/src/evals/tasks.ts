@@ -0,0 +1,120 @@
+/**
+ * Eval task fixtures
+ * A task is a directory with a task.json, the seed repository the agent works in
+ * and, optionally, a cassette of recorded model turns to replay:
+ *
+ *   fix-greeting/
+ *     task.json       { "prompt": "...", "command": "implement_simple", "checks": [...] }
+ *     repo/           copied to a temp directory for every run
+ *     cassette.json   replayed so the task runs without network
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getCommand, type CommandId } from '../agent/commands';
+import type { EvalCheck, EvalTask, EvalTaskFile } from './types';
+
+const TASK_FILE = 'task.json';
+
+/**
+ * A task fixture that cannot be loaded.
+ */
+export class EvalTaskError extends Error {
+  constructor(
+    readonly taskPath: string,
+    message: string
+  ) {
+    super(`${taskPath}: ${message}`);
+    this.name = 'EvalTaskError';
+  }
+}
+
+/**
+ * Find the problem with a check, if any
+ */
+function validateCheck(check: EvalCheck): string | null {
+  switch (check?.type) {
+    case 'file':
+      return typeof check.path === 'string' ? null : 'file checks need a "path"';
+    case 'command':
+      return typeof check.run === 'string' ? null : 'command checks need a "run" command';
+    case 'answer':
+      return typeof check.matches === 'string' ? null : 'answer checks need a "matches" pattern';
+    default:
+      return `unknown check type: ${JSON.stringify((check as { type?: unknown })?.type)}`;
+  }
+}
+
+/**
+ * Load the task in a fixture directory
+ * @throws EvalTaskError if task.json is missing or invalid
+ */
+export function loadEvalTask(taskDir: string): EvalTask {
+  const taskPath = path.join(taskDir, TASK_FILE);
+  let file: EvalTaskFile;
+  try {
+    file = JSON.parse(fs.readFileSync(taskPath, 'utf-8')) as EvalTaskFile;
+  } catch (err) {
+    throw new EvalTaskError(taskPath, err instanceof Error ? err.message : String(err));
+  }
+
+  if (typeof file.prompt !== 'string' || !file.prompt.trim()) {
+    throw new EvalTaskError(taskPath, '"prompt" is required');
+  }
+
+  // 'implement' asks a model to pick simple or complex, which a replayed run can't do
+  const command: CommandId = file.command ?? 'chat';
+  if (command === 'implement' || !getCommand(command)) {
+    throw new EvalTaskError(taskPath, `unsupported command: ${command} (use a concrete command such as implement_simple)`);
+  }
+
+  if (!Array.isArray(file.checks) || file.checks.length === 0) {
+    throw new EvalTaskError(taskPath, 'at least one check is required');
+  }
+  for (const check of file.checks) {
+    const problem = validateCheck(check);
+    if (problem) throw new EvalTaskError(taskPath, problem);
+  }
+
+  const repoDir = path.resolve(taskDir, file.repo ?? 'repo');
+  if (!fs.existsSync(repoDir) || !fs.statSync(repoDir).isDirectory()) {
+    throw new EvalTaskError(taskPath, `seed repository not found: ${repoDir}`);
+  }
+
+  const cassettePath = path.resolve(taskDir, file.cassette ?? 'cassette.json');
+
+  return {
+    name: file.name ?? path.basename(taskDir),
+    description: file.description,
+    prompt: file.prompt,
+    command,
+    repoDir,
+    cassettePath,
+    hasCassette: fs.existsSync(cassettePath),
+    maxToolRounds: file.maxToolRounds,
+    checks: file.checks,
+  };
+}
+
+/**
+ * Load a task directory, or every task directory inside a suite directory (sorted by name)
+ * @throws EvalTaskError if a task is invalid or there are none
+ */
+export function loadEvalTasks(dir: string): EvalTask[] {
+  const root = path.resolve(dir);
+  if (fs.existsSync(path.join(root, TASK_FILE))) {
+    return [loadEvalTask(root)];
+  }
+
+  const entries = fs.existsSync(root) ? fs.readdirSync(root, { withFileTypes: true }) : [];
+  const tasks = entries
+    .filter((entry) => entry.isDirectory() && fs.existsSync(path.join(root, entry.name, TASK_FILE)))
+    .map((entry) => entry.name)
+    .sort()
+    .map((name) => loadEvalTask(path.join(root, name)));
+
+  if (tasks.length === 0) {
+    throw new EvalTaskError(root, `no tasks found (expected ${TASK_FILE} in it or its subdirectories)`);
+  }
+  return tasks;
+}
@@ -0,0 +1,128 @@
+/**
+ * Eval types - task fixtures, success checks and the results of running them
+ */
+
+import type { CommandId } from '../agent/commands';
+
+/**
+ * A condition the workspace or the agent's answer must meet after a run.
+ */
+export type EvalCheck =
+  | {
+      /** A file in the workspace (exists by default; set exists: false to require it be gone) */
+      type: 'file';
+      path: string;
+      exists?: boolean;
+      equals?: string;
+      contains?: string;
+      /** Regular expression the file contents must match */
+      matches?: string;
+    }
+  | {
+      /** A shell command run in the workspace */
+      type: 'command';
+      run: string;
+      /** Expected exit code (default: 0) */
+      exitCode?: number;
+      /** Timeout in milliseconds (default: 60000) */
+      timeoutMs?: number;
+    }
+  | {
+      /** A regular expression the agent's final answer must match */
+      type: 'answer';
+      matches: string;
+      flags?: string;
+    };
+
+/**
+ * A task as written in a fixture's task.json. Paths are relative to the fixture directory.
+ */
+export interface EvalTaskFile {
+  /** Defaults to the fixture directory's name */
+  name?: string;
+  description?: string;
+  prompt: string;
+  /** Agent command to run the prompt as (default: chat) */
+  command?: CommandId;
+  /** Seed repository copied into the run's workspace (default: repo) */
+  repo?: string;
+  /** Recorded model turns to replay instead of calling a model (default: cassette.json, if present) */
+  cassette?: string;
+  maxToolRounds?: number;
+  checks: EvalCheck[];
+}
+
+/**
+ * A loaded task, with its paths resolved.
+ */
+export interface EvalTask {
+  name: string;
+  description?: string;
+  prompt: string;
+  command: CommandId;
+  repoDir: string;
+  /** Cassette to replay or record to */
+  cassettePath: string;
+  /** Whether the cassette exists (tasks without one need a live model) */
+  hasCassette: boolean;
+  maxToolRounds?: number;
+  checks: EvalCheck[];
+}
+
+/**
+ * Outcome of one check.
+ */
+export interface EvalCheckResult {
+  check: EvalCheck;
+  passed: boolean;
+  /** Why the check failed */
+  detail?: string;
+}
+
+/**
+ * Token usage summed over a run (sub-agents included).
+ */
+export interface EvalUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Outcome of one task.
+ */
+export interface EvalTaskResult {
+  name: string;
+  /** Provider and model the run used (replayed runs report the recorded ones) */
+  provider: string;
+  model: string;
+  /** The run finished without errors and every check passed */
+  passed: boolean;
+  checks: EvalCheckResult[];
+  /** Model turns that made tool calls */
+  toolRounds: number;
+  toolCalls: number;
+  usage: EvalUsage;
+  wallTimeMs: number;
+  /** The agent's final answer (its text after the last tool call) */
+  answer: string;
+  /** Errors the run reported */
+  errors: string[];
+}
+
+/**
+ * Outcome of a suite of tasks.
+ */
+export interface EvalReport {
+  startedAt: string;
+  summary: {
+    total: number;
+    passed: number;
+    passRate: number;
+    toolRounds: number;
+    toolCalls: number;
+    usage: EvalUsage;
+    wallTimeMs: number;
+  };
+  tasks: EvalTaskResult[];
+}
@@ -0,0 +1,105 @@
+/**
+ * Event log tests - replay by id and fan-out to multiple subscribers
+ */
+import { describe, it, expect } from 'vitest';
+import { EventLog, type EventStore, type LoggedEvent } from './event-log';
+import type { StreamEvent } from './types';
+
+/** In-memory store with ids shared across sessions, like the session_events table */
+function memoryStore(): EventStore {
+  let nextId = 0;
+  let rows: Array<LoggedEvent & { sessionId: string }> = [];
+  return {
+    append(sessionId, event) {
+      rows.push({ id: ++nextId, sessionId, event });
+      return nextId;
+    },
+    list(sessionId, afterId) {
+      return rows.filter((row) => row.sessionId === sessionId && row.id > afterId).map(({ id, event }) => ({ id, event }));
+    },
+    clear(sessionId) {
+      rows = rows.filter((row) => row.sessionId !== sessionId);
+    },
+  };
+}
+
+async function collect(iterable: AsyncIterable<LoggedEvent>): Promise<LoggedEvent[]> {
+  const events: LoggedEvent[] = [];
+  for await (const item of iterable) events.push(item);
+  return events;
+}
+
+const text = (value: string): StreamEvent => ({ type: 'text_delta', text: value });
+
+describe('EventLog', () => {
+  it('should assign increasing ids', () => {
+    const log = new EventLog('s1', memoryStore());
+
+    const ids = [log.append(text('a')), log.append(text('b')), log.append({ type: 'done' })];
+
+    expect(ids).toEqual([1, 2, 3]);
+  });
+
+  it('should deliver every event to every subscriber', async () => {
+    const log = new EventLog('s1', memoryStore());
+    const first = collect(log.subscribe());
+    const second = collect(log.subscribe());
+
+    log.append(text('a'));
+    await Promise.resolve();
+    log.append(text('b'));
+    log.close();
+
+    const expected = [{ id: 1, event: text('a') }, { id: 2, event: text('b') }];
+    expect(await first).toEqual(expected);
+    expect(await second).toEqual(expected);
+  });
+
+  it('should replay events after the last seen id, then follow live', async () => {
+    const log = new EventLog('s1', memoryStore());
+    log.append(text('a'));
+    log.append(text('b'));
+
+    const resumed = collect(log.subscribe(1));
+    log.append(text('c'));
+    log.close();
+
+    expect((await resumed).map((item) => item.id)).toEqual([2, 3]);
+  });
+
+  it('should replay a closed log and end', async () => {
+    const log = new EventLog('s1', memoryStore());
+    log.append(text('a'));
+    log.append({ type: 'done' });
+    log.close();
+
+    expect(await collect(log.subscribe())).toHaveLength(2);
+    expect(log.append(text('late'))).toBe(-1);
+  });
+
+  it('should start a new run without the previous run or its ids', async () => {
+    const store = memoryStore();
+    const firstRun = new EventLog('s1', store);
+    firstRun.append(text('old'));
+    firstRun.close();
+
+    const secondRun = EventLog.startRun('s1', store);
+    const id = secondRun.append(text('new'));
+    secondRun.close();
+
+    expect(id).toBe(2);
+    expect((await collect(secondRun.subscribe())).map((item) => item.event)).toEqual([text('new')]);
+  });
+
+  it('should stop delivering to a subscriber that stops early', async () => {
+    const log = new EventLog('s1', memoryStore());
+    const subscription = log.subscribe();
+
+    log.append(text('a'));
+    expect((await subscription.next()).value).toEqual({ id: 1, event: text('a') });
+    await subscription.return(undefined);
+    log.append(text('b'));
+
+    expect((await subscription.next()).done).toBe(true);
+  });
+});
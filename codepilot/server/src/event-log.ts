@@ -0,0 +1,148 @@
+/**
+ * Session Event Log
+ * Append-only log of a run's StreamEvents with monotonic ids.
+ *
+ * Every event is persisted before it is delivered, so any number of subscribers
+ * (browser tabs, the CLI, a reconnecting EventSource) can replay the run from the
+ * start or from the last id they saw, then follow it live.
+ */
+
+import {
+  insertSessionEvent,
+  getSessionEventsAfter,
+  deleteSessionEvents,
+} from './db';
+import type { StreamEvent } from './types';
+
+/**
+ * An event with its position in the log.
+ */
+export interface LoggedEvent {
+  id: number;
+  event: StreamEvent;
+}
+
+/**
+ * Where logged events are kept. Ids must increase with every append.
+ */
+export interface EventStore {
+  append(sessionId: string, event: StreamEvent): number;
+  /** Events with an id greater than afterId, oldest first */
+  list(sessionId: string, afterId: number): LoggedEvent[];
+  clear(sessionId: string): void;
+}
+
+/**
+ * Events stored in the session_events table
+ */
+export const dbEventStore: EventStore = {
+  append: insertSessionEvent,
+  list: getSessionEventsAfter,
+  clear: deleteSessionEvents,
+};
+
+/**
+ * A live subscriber: events waiting to be consumed, and a waiting consumer to wake.
+ */
+interface Subscriber {
+  pending: LoggedEvent[];
+  wake: (() => void) | null;
+}
+
+/**
+ * The event log of a session's current run.
+ */
+export class EventLog {
+  private subscribers = new Set<Subscriber>();
+  private closed = false;
+
+  constructor(
+    readonly sessionId: string,
+    private readonly store: EventStore = dbEventStore
+  ) {}
+
+  /**
+   * Start a new run's log, discarding the previous run's events.
+   * Ids keep increasing, so ids seen in an earlier run never skip new events.
+   */
+  static startRun(sessionId: string, store: EventStore = dbEventStore): EventLog {
+    store.clear(sessionId);
+    return new EventLog(sessionId, store);
+  }
+
+  /**
+   * Persist an event and deliver it to every subscriber
+   * @returns The event's id
+   */
+  append(event: StreamEvent): number {
+    if (this.closed) return -1;
+
+    const id = this.store.append(this.sessionId, event);
+    for (const subscriber of this.subscribers) {
+      subscriber.pending.push({ id, event });
+      subscriber.wake?.();
+    }
+    return id;
+  }
+
+  /**
+   * Close the log - subscribers finish once they have consumed every event
+   */
+  close(): void {
+    this.closed = true;
+    for (const subscriber of this.subscribers) {
+      subscriber.wake?.();
+    }
+    this.subscribers.clear();
+  }
+
+  /**
+   * Check if the log is closed
+   */
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Follow the log: replay events after lastEventId (all of them by default),
+   * then receive new ones as they are appended until the log closes.
+   */
+  subscribe(lastEventId = 0): AsyncGenerator<LoggedEvent> {
+    // Replay and registration happen together, so no event is missed or repeated
+    const subscriber: Subscriber = {
+      pending: this.store.list(this.sessionId, lastEventId),
+      wake: null,
+    };
+    if (!this.closed) {
+      this.subscribers.add(subscriber);
+    }
+
+    const log = this;
+    return (async function* () {
+      try {
+        while (true) {
+          const next = subscriber.pending.shift();
+          if (next) {
+            yield next;
+          } else if (log.closed) {
+            return;
+          } else {
+            await new Promise<void>((resolve) => (subscriber.wake = resolve));
+            subscriber.wake = null;
+          }
+        }
+      } finally {
+        log.subscribers.delete(subscriber);
+      }
+    })();
+  }
+
+  /**
+   * Iterate the run's events from the start (as the CLI and tests consume them)
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<StreamEvent> {
+    for await (const { event } of this.subscribe()) {
+      yield event;
+    }
+  }
+}
@@ -20,12 +20,18 @@ if (result.error) {
 import { Elysia } from 'elysia';
 import { node } from '@elysiajs/node';
 import { tools } from './tools/index';
-import { chatRoutes, streamRoutes, plansRoutes } from './routes/index';
-import { getAvailableModels } from './llm-client';
+import { chatRoutes, streamRoutes, plansRoutes, searchRoutes, usageRoutes } from './routes/index';
 import { getDropdownCommands } from './agent/commands';
+import { resolveProviderId, createLocalAdapter } from './providers';
+import { loadMcpServers, globalMcpManager } from './core/mcp';
+import { findModel, listModels } from './core/models';
+import { recoverInterruptedSessions } from './recovery';
+import { getDb, closeDb } from './db';
+import { getSchemaVersion } from './migrations';
 
 // Re-export core modules for library usage
 export * from './core/tools';
+export * from './core/mcp';
 export * from './providers';
 export { runAgentLoop } from './agent';
 
@@ -35,13 +41,42 @@ const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 3001;
 // CORS configuration for development
 const CORS_ORIGIN = process.env.CORS_ORIGIN || 'http://localhost:5173';
 
+/**
+ * Resolve the configured provider without throwing when no key is set.
+ */
+function safeResolveProviderId() {
+  try {
+    return resolveProviderId();
+  } catch {
+    return undefined;
+  }
+}
+
+// --migrate-only: apply pending schema migrations and exit without starting the server
+if (process.argv.includes('--migrate-only')) {
+  try {
+    console.log(`🗃️  Database schema is at version ${getSchemaVersion(getDb())}`);
+    closeDb();
+    process.exit(0);
+  } catch (err) {
+    console.error('❌ Migration failed:', err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+}
+
+// Runs left 'running' by a previous process can't still be running - mark them interrupted
+const recoveredSessions = recoverInterruptedSessions();
+if (recoveredSessions.length > 0) {
+  console.log(`♻️  Recovered ${recoveredSessions.length} interrupted session(s); resume with POST /api/session/:id/resume`);
+}
+
 // Create Elysia app with Node.js adapter
 const app = new Elysia({ adapter: node() })
   // CORS headers for cross-origin requests from frontend
   .onRequest(({ set }) => {
     set.headers['Access-Control-Allow-Origin'] = CORS_ORIGIN;
     set.headers['Access-Control-Allow-Methods'] = 'GET, POST, PATCH, DELETE, OPTIONS';
-    set.headers['Access-Control-Allow-Headers'] = 'Content-Type';
+    set.headers['Access-Control-Allow-Headers'] = 'Content-Type, Last-Event-ID';
   })
   // Handle preflight OPTIONS requests
   .options('/*', ({ set }) => {
@@ -64,21 +99,45 @@ const app = new Elysia({ adapter: node() })
   }))
 
   // List available LLM models with context window sizes
-  .get('/api/models', () => {
-    const models = getAvailableModels();
-    // Context windows for Claude models (in tokens)
-    const CONTEXT_WINDOWS = {
-      haiku: 200000,
-      sonnet: 200000,
-      opus: 200000,
-    };
+  .get('/api/models', async ({ set }) => {
+    const providerId = safeResolveProviderId();
+
+    // Local servers report their own models; catalog entries fill in what they know about them
+    if (providerId === 'local') {
+      const adapter = createLocalAdapter();
+      const contextWindow = process.env.LOCAL_CONTEXT_WINDOW
+        ? parseInt(process.env.LOCAL_CONTEXT_WINDOW, 10)
+        : 8192;
+      try {
+        const localModels = await adapter.listModels();
+        return {
+          models: localModels.map(
+            (m) =>
+              findModel(m.id, 'local') ?? {
+                id: m.id,
+                name: m.id,
+                description: m.ownedBy ? `Local model (${m.ownedBy})` : 'Local model',
+                contextWindow,
+              }
+          ),
+          default: localModels.some((m) => m.id === adapter.defaultModel)
+            ? adapter.defaultModel
+            : localModels[0]?.id ?? adapter.defaultModel,
+        };
+      } catch (err) {
+        set.status = 502;
+        return {
+          error: `Failed to list models from local server: ${err instanceof Error ? err.message : String(err)}`,
+        };
+      }
+    }
+
+    // Providers without catalog entries of their own get the OpenRouter list
+    const catalogModels = listModels(providerId ?? 'openrouter');
+    const models = catalogModels.length > 0 ? catalogModels : listModels('openrouter');
     return {
-      models: [
-        { id: models.haiku, name: 'Claude Haiku', description: 'Fast and efficient', contextWindow: CONTEXT_WINDOWS.haiku },
-        { id: models.sonnet, name: 'Claude Sonnet', description: 'Balanced performance', contextWindow: CONTEXT_WINDOWS.sonnet },
-        { id: models.opus, name: 'Claude Opus', description: 'Most capable', contextWindow: CONTEXT_WINDOWS.opus },
-      ],
-      default: models.sonnet,
+      models,
+      default: (models.find((m) => m.default) ?? models[0])?.id,
     };
   })
 
@@ -95,9 +154,21 @@ const app = new Elysia({ adapter: node() })
   .use(chatRoutes)
   .use(streamRoutes)
   .use(plansRoutes)
+  .use(searchRoutes)
+  .use(usageRoutes)
 
   .listen(PORT);
 
 console.log(`🚀 Server running at http://localhost:${PORT}`);
 console.log(`📦 ${tools.length} tools loaded: ${tools.map((tool) => tool.name).join(', ')}`);
 console.log(`📡 SSE streaming available at GET /api/stream/:id`);
+
+// Mount tools from configured MCP servers (in the background, so slow servers don't delay startup)
+void loadMcpServers();
+
+// Stop MCP server processes along with the server
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    void globalMcpManager.closeAll().finally(() => process.exit(0));
+  });
+}
@@ -31,15 +31,6 @@ function getEnvConfig() {
   };
 }
 
-// Export available models for future model selection UI (read lazily)
-export function getAvailableModels() {
-  return {
-    sonnet: process.env.OPENROUTER_MODEL_SONNET || 'anthropic/claude-sonnet-4.5',
-    haiku: process.env.OPENROUTER_MODEL_HAIKU || 'anthropic/claude-haiku-4.5',
-    opus: process.env.OPENROUTER_MODEL_OPUS || 'anthropic/claude-opus-4.5',
-  };
-}
-
 /**
  * Capabilities that an LLM client may or may not support
  * Check these before calling methods that depend on them
@@ -174,7 +165,7 @@ function createAnthropicClient(env: ReturnType<typeof getEnvConfig>) {
     provider: 'anthropic' as const,
     model: 'claude-3-5-sonnet-20241022',
     client,
-    /** Anthropic direct client does not yet support tool calling - use OpenRouter instead */
+    /** Legacy client does not support tool calling - the agent loop uses AnthropicAdapter instead */
     capabilities: { tools: false } as LLMClientCapabilities,
 
     /**
@@ -194,13 +185,13 @@ function createAnthropicClient(env: ReturnType<typeof getEnvConfig>) {
 
     /**
      * Placeholder for tool-based streaming (Anthropic format)
-     * Note: Anthropic uses a different format for tools - implement if needed
+     * Note: Tool calling is implemented by AnthropicAdapter in providers/anthropic
      */
     async streamChatWithTools(
       _messages: ChatCompletionMessageParam[],
       _tools: ToolDef[]
     ) {
-      throw new Error('Anthropic direct client tool support not yet implemented. Use OpenRouter.');
+      throw new Error('Legacy Anthropic client does not support tools. Use createAnthropicAdapter() from providers.');
     },
   };
 }
@@ -0,0 +1,66 @@
+/**
+ * CodePilot MCP server entry point.
+ * Serves CodePilot's tools (file, search, git, shell, code) to other agents and editors.
+ *
+ * Usage:
+ *   tsx src/mcp-server.ts [--cwd <dir>] [--read-only] [--http [--port <n>] [--host <addr>]]
+ *
+ * Over stdio (the default) the client launches this process and talks on stdin/stdout;
+ * with --http it listens for streamable HTTP requests at /mcp.
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+
+// .env is in codepilot/ (2 levels up from server/src/), as for the HTTP server
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.resolve(__dirname, '../../.env'), quiet: true });
+
+import { globalRegistry, registerAllTools } from './core/tools';
+import { McpToolServer, getReadOnlyServerPolicy, serveHttp, serveStdio } from './core/mcp';
+import { getAllowedRoots, getDefaultWorkingDir } from './tools/utils';
+
+const { values: args } = parseArgs({
+  options: {
+    cwd: { type: 'string' },
+    'read-only': { type: 'boolean', default: false },
+    http: { type: 'boolean', default: false },
+    port: { type: 'string', default: process.env.MCP_SERVER_PORT ?? '3002' },
+    host: { type: 'string', default: '127.0.0.1' },
+  },
+});
+
+// stdout carries the protocol over stdio, so any logging from tools goes to stderr
+if (!args.http) {
+  console.log = console.error;
+  console.info = console.error;
+}
+
+registerAllTools();
+
+const workingDir = path.resolve(args.cwd ?? getDefaultWorkingDir());
+const server = new McpToolServer({
+  workingDir,
+  allowedRoots: getAllowedRoots(),
+  toolPolicy: args['read-only'] ? getReadOnlyServerPolicy(globalRegistry) : undefined,
+});
+
+const mode = args['read-only'] ? 'read-only' : 'read-write';
+const toolCount = server.listTools().length;
+
+if (args.http) {
+  const port = parseInt(args.port!, 10);
+  const allowedOrigins = (process.env.MCP_ALLOWED_ORIGINS ?? '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  await serveHttp(server, { port, host: args.host, allowedOrigins });
+  console.error(`🔧 CodePilot MCP server (${mode}, ${toolCount} tools) at http://${args.host}:${port}/mcp`);
+  console.error(`📂 Workspace: ${workingDir}`);
+} else {
+  console.error(`🔧 CodePilot MCP server (${mode}, ${toolCount} tools) on stdio, workspace ${workingDir}`);
+  await serveStdio(server);
+  process.exit(0);
+}
@@ -0,0 +1,40 @@
+/**
+ * Sessions and their messages
+ */
+
+import type { Migration } from './types';
+import { addColumnIfMissing } from './runner';
+
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL DEFAULT 'idle',
+        working_dir TEXT NOT NULL,
+        title TEXT,
+        total_tokens INTEGER DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT,
+        tool_call_id TEXT,
+        tool_calls TEXT,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_messages_session ON messages(session_id);
+    `);
+
+    // The earliest databases were created before sessions had titles
+    addColumnIfMissing(db, 'sessions', 'title', 'TEXT');
+  },
+};
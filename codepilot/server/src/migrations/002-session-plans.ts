@@ -0,0 +1,14 @@
+/**
+ * Plans generated by research and create_plan, stored on the session
+ */
+
+import type { Migration } from './types';
+import { addColumnIfMissing } from './runner';
+
+export const sessionPlans: Migration = {
+  version: 2,
+  name: 'session_plans',
+  up(db) {
+    addColumnIfMissing(db, 'sessions', 'current_plan', 'TEXT');
+  },
+};
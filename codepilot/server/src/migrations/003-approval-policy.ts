@@ -0,0 +1,14 @@
+/**
+ * Per-session tool approval policy (human-in-the-loop)
+ */
+
+import type { Migration } from './types';
+import { addColumnIfMissing } from './runner';
+
+export const approvalPolicy: Migration = {
+  version: 3,
+  name: 'approval_policy',
+  up(db) {
+    addColumnIfMissing(db, 'sessions', 'approval_policy', 'TEXT');
+  },
+};
@@ -0,0 +1,34 @@
+/**
+ * File snapshots taken before each mutating tool call
+ */
+
+import type { Migration } from './types';
+
+export const checkpoints: Migration = {
+  version: 4,
+  name: 'checkpoints',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS checkpoints (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        message_id INTEGER,
+        tool_call_id TEXT NOT NULL,
+        tool_name TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      );
+
+      -- Snapshot content is NULL when the file did not exist yet
+      CREATE TABLE IF NOT EXISTS checkpoint_files (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        checkpoint_id INTEGER NOT NULL,
+        path TEXT NOT NULL,
+        content BLOB,
+        FOREIGN KEY (checkpoint_id) REFERENCES checkpoints(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_checkpoints_session ON checkpoints(session_id);
+    `);
+  },
+};
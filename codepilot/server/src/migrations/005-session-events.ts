@@ -0,0 +1,24 @@
+/**
+ * Event log - a run's stream events, replayed to SSE subscribers by id
+ */
+
+import type { Migration } from './types';
+
+export const sessionEvents: Migration = {
+  version: 5,
+  name: 'session_events',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS session_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_session_events_session ON session_events(session_id, id);
+    `);
+  },
+};
@@ -0,0 +1,14 @@
+/**
+ * The command a session last ran, so an interrupted run can be resumed in the same mode
+ */
+
+import type { Migration } from './types';
+import { addColumnIfMissing } from './runner';
+
+export const lastCommand: Migration = {
+  version: 6,
+  name: 'last_command',
+  up(db) {
+    addColumnIfMissing(db, 'sessions', 'last_command', 'TEXT');
+  },
+};
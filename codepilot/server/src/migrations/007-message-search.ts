@@ -0,0 +1,50 @@
+/**
+ * Full-text index over message content and tool calls (rowid = messages.id),
+ * kept in sync with the messages table by triggers
+ */
+
+import type { Migration } from './types';
+
+/**
+ * SQL expression joining one function field (name or arguments) of every call
+ * in a tool_calls JSON column with spaces. NULL when there are no tool calls.
+ */
+function toolCallFieldSql(column: string, field: 'name' | 'arguments'): string {
+  return `(
+    SELECT group_concat(json_extract(value, '$.function.${field}'), ' ')
+    FROM json_each(CASE WHEN json_valid(${column}) THEN ${column} END)
+  )`;
+}
+
+export const messageSearch: Migration = {
+  version: 7,
+  name: 'message_search',
+  up(db) {
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(content, tool_names, tool_args);
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+        INSERT INTO messages_fts (rowid, content, tool_names, tool_args)
+        VALUES (new.id, new.content, ${toolCallFieldSql('new.tool_calls', 'name')}, ${toolCallFieldSql('new.tool_calls', 'arguments')});
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+        DELETE FROM messages_fts WHERE rowid = old.id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE ON messages BEGIN
+        DELETE FROM messages_fts WHERE rowid = old.id;
+        INSERT INTO messages_fts (rowid, content, tool_names, tool_args)
+        VALUES (new.id, new.content, ${toolCallFieldSql('new.tool_calls', 'name')}, ${toolCallFieldSql('new.tool_calls', 'arguments')});
+      END;
+    `);
+
+    // Index existing messages (rebuilt from scratch, in case an index already existed)
+    db.exec(`
+      DELETE FROM messages_fts;
+      INSERT INTO messages_fts (rowid, content, tool_names, tool_args)
+      SELECT id, content, ${toolCallFieldSql('tool_calls', 'name')}, ${toolCallFieldSql('tool_calls', 'arguments')}
+      FROM messages;
+    `);
+  },
+};
@@ -0,0 +1,16 @@
+/**
+ * Session lineage - the session and message a fork was copied from
+ */
+
+import type { Migration } from './types';
+import { addColumnIfMissing } from './runner';
+
+export const sessionForks: Migration = {
+  version: 8,
+  name: 'session_forks',
+  up(db) {
+    addColumnIfMissing(db, 'sessions', 'parent_session_id', 'TEXT REFERENCES sessions(id) ON DELETE SET NULL');
+    addColumnIfMissing(db, 'sessions', 'forked_from_message_id', 'INTEGER');
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_sessions_parent ON sessions(parent_session_id)`);
+  },
+};
@@ -0,0 +1,38 @@
+/**
+ * Usage accounting - one row per model call, and per-session budgets
+ */
+
+import type { Migration } from './types';
+import { addColumnIfMissing } from './runner';
+
+export const usage: Migration = {
+  version: 9,
+  name: 'usage',
+  up(db) {
+    db.exec(`
+      -- Rows outlive their session (session_id is cleared), so totals stay accurate
+      -- after sessions are deleted. Cost is NULL when the model has no catalog prices.
+      CREATE TABLE IF NOT EXISTS usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT,
+        provider TEXT,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL,
+        completion_tokens INTEGER NOT NULL,
+        cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+        total_tokens INTEGER NOT NULL,
+        cost REAL,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE SET NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_usage_session ON usage(session_id);
+      CREATE INDEX IF NOT EXISTS idx_usage_created ON usage(created_at);
+    `);
+
+    // NULL means the server default (SESSION_BUDGET_USD / SESSION_BUDGET_TOKENS)
+    addColumnIfMissing(db, 'sessions', 'budget_usd', 'REAL');
+    addColumnIfMissing(db, 'sessions', 'budget_tokens', 'INTEGER');
+  },
+};
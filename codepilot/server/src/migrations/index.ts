@@ -0,0 +1,45 @@
+/**
+ * Database schema migrations.
+ *
+ * To change the schema, add a module with the next version number and append
+ * it to the list below. Never edit a migration that has shipped.
+ */
+
+import type { Migration } from './types';
+import { initialSchema } from './001-initial';
+import { sessionPlans } from './002-session-plans';
+import { approvalPolicy } from './003-approval-policy';
+import { checkpoints } from './004-checkpoints';
+import { sessionEvents } from './005-session-events';
+import { lastCommand } from './006-last-command';
+import { messageSearch } from './007-message-search';
+import { sessionForks } from './008-session-forks';
+import { usage } from './009-usage';
+
+// Types
+export type { Migration } from './types';
+
+// Runner
+export {
+  SchemaVersionError,
+  getSchemaVersion,
+  runMigrations,
+  assertSchemaVersion,
+  addColumnIfMissing,
+} from './runner';
+
+/** Every migration, in order */
+export const migrations: Migration[] = [
+  initialSchema,
+  sessionPlans,
+  approvalPolicy,
+  checkpoints,
+  sessionEvents,
+  lastCommand,
+  messageSearch,
+  sessionForks,
+  usage,
+];
+
+/** Schema version this code expects */
+export const LATEST_SCHEMA_VERSION = migrations.length;
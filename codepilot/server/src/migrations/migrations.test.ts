@@ -0,0 +1,158 @@
+/**
+ * Migration tests - runner behaviour and the real migrations, on in-memory databases
+ */
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import {
+  migrations,
+  runMigrations,
+  getSchemaVersion,
+  assertSchemaVersion,
+  SchemaVersionError,
+  LATEST_SCHEMA_VERSION,
+  type Migration,
+} from './index';
+
+function openMemoryDb(): Database.Database {
+  const db = new Database(':memory:');
+  db.pragma('foreign_keys = ON');
+  return db;
+}
+
+function tableNames(db: Database.Database): string[] {
+  return (db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table'`).all() as Array<{ name: string }>)
+    .map((row) => row.name);
+}
+
+function columnNames(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map((row) => row.name);
+}
+
+const createTable = (version: number, table: string): Migration => ({
+  version,
+  name: `create_${table}`,
+  up: (db) => db.exec(`CREATE TABLE ${table} (id INTEGER PRIMARY KEY)`),
+});
+
+describe('runMigrations', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = openMemoryDb();
+  });
+
+  it('should apply pending migrations in order and record them', () => {
+    const applied = runMigrations(db, [createTable(1, 'a'), createTable(2, 'b')]);
+
+    expect(applied).toEqual([1, 2]);
+    expect(getSchemaVersion(db)).toBe(2);
+    expect(tableNames(db)).toEqual(expect.arrayContaining(['a', 'b']));
+  });
+
+  it('should only apply migrations newer than the database', () => {
+    runMigrations(db, [createTable(1, 'a')]);
+
+    expect(runMigrations(db, [createTable(1, 'a'), createTable(2, 'b')])).toEqual([2]);
+    expect(runMigrations(db, [createTable(1, 'a'), createTable(2, 'b')])).toEqual([]);
+  });
+
+  it('should roll back a failed migration and stop at the previous version', () => {
+    const failing: Migration = {
+      version: 2,
+      name: 'failing',
+      up(database) {
+        database.exec('CREATE TABLE half_done (id INTEGER)');
+        throw new Error('boom');
+      },
+    };
+
+    expect(() => runMigrations(db, [createTable(1, 'a'), failing])).toThrow('boom');
+    expect(getSchemaVersion(db)).toBe(1);
+    expect(tableNames(db)).not.toContain('half_done');
+  });
+
+  it('should refuse a database newer than the known migrations', () => {
+    runMigrations(db, [createTable(1, 'a'), createTable(2, 'b')]);
+
+    expect(() => runMigrations(db, [createTable(1, 'a')])).toThrow(SchemaVersionError);
+  });
+
+  it('should reject migrations that are out of order or have gaps', () => {
+    expect(() => runMigrations(db, [createTable(2, 'b'), createTable(1, 'a')])).toThrow(/expected 1/);
+    expect(() => runMigrations(db, [createTable(1, 'a'), createTable(3, 'c')])).toThrow(/expected 2/);
+    expect(getSchemaVersion(db)).toBe(0);
+  });
+});
+
+describe('assertSchemaVersion', () => {
+  it('should throw when the schema is not at the expected version', () => {
+    const db = openMemoryDb();
+    runMigrations(db, [createTable(1, 'a')]);
+
+    expect(() => assertSchemaVersion(db, 1)).not.toThrow();
+    expect(() => assertSchemaVersion(db, 2)).toThrow(/--migrate-only/);
+  });
+});
+
+describe('migrations', () => {
+  it('should build the current schema on an empty database', () => {
+    const db = openMemoryDb();
+
+    runMigrations(db, migrations);
+
+    expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(tableNames(db)).toEqual(
+      expect.arrayContaining(['sessions', 'messages', 'checkpoints', 'checkpoint_files', 'session_events', 'messages_fts', 'usage'])
+    );
+    expect(columnNames(db, 'sessions')).toEqual(
+      expect.arrayContaining([
+        'title',
+        'current_plan',
+        'approval_policy',
+        'last_command',
+        'parent_session_id',
+        'forked_from_message_id',
+        'budget_usd',
+        'budget_tokens',
+      ])
+    );
+  });
+
+  it('should upgrade a database created before versioned migrations', () => {
+    const db = openMemoryDb();
+    db.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY, status TEXT NOT NULL DEFAULT 'idle', working_dir TEXT NOT NULL,
+        total_tokens INTEGER DEFAULT 0, created_at TEXT NOT NULL, updated_at TEXT NOT NULL,
+        approval_policy TEXT
+      );
+      CREATE TABLE messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, session_id TEXT NOT NULL, role TEXT NOT NULL,
+        content TEXT, tool_call_id TEXT, tool_calls TEXT, created_at TEXT NOT NULL
+      );
+      INSERT INTO sessions (id, working_dir, created_at, updated_at) VALUES ('s1', '/repo', 't', 't');
+      INSERT INTO messages (session_id, role, content, created_at) VALUES ('s1', 'user', 'rename the parser', 't');
+    `);
+
+    runMigrations(db, migrations);
+
+    expect(columnNames(db, 'sessions')).toEqual(expect.arrayContaining(['title', 'current_plan', 'last_command']));
+    expect(db.prepare(`SELECT rowid FROM messages_fts WHERE messages_fts MATCH 'parser'`).all()).toEqual([{ rowid: 1 }]);
+  });
+
+  it('should keep the search index in sync with messages', () => {
+    const db = openMemoryDb();
+    runMigrations(db, migrations);
+    db.exec(`INSERT INTO sessions (id, working_dir, created_at, updated_at) VALUES ('s1', '/repo', 't', 't')`);
+
+    const toolCalls = JSON.stringify([{ id: 't1', type: 'function', function: { name: 'read_file', arguments: '{"path":"lexer.ts"}' } }]);
+    db.prepare(`INSERT INTO messages (session_id, role, tool_calls, created_at) VALUES ('s1', 'assistant', ?, 't')`).run(toolCalls);
+    const match = (query: string) => db.prepare('SELECT rowid FROM messages_fts WHERE messages_fts MATCH ?').all(query);
+
+    expect(match('read_file')).toHaveLength(1);
+    expect(match('lexer')).toHaveLength(1);
+
+    db.exec(`DELETE FROM sessions WHERE id = 's1'`);
+    expect(match('lexer')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Migration runner - applies pending schema migrations and checks the schema version.
+ */
+
+import type Database from 'better-sqlite3';
+import type { Migration } from './types';
+
+/**
+ * Raised when the database schema is not at the version this code expects,
+ * e.g. a database written by a newer CodePilot.
+ */
+export class SchemaVersionError extends Error {
+  readonly actualVersion: number;
+  readonly expectedVersion: number;
+
+  constructor(actualVersion: number, expectedVersion: number) {
+    super(
+      actualVersion > expectedVersion
+        ? `Database schema is at version ${actualVersion}, newer than this server supports (${expectedVersion}). Upgrade CodePilot or use another database.`
+        : `Database schema is at version ${actualVersion}, expected ${expectedVersion}. Run the server with --migrate-only to apply pending migrations.`
+    );
+    this.name = 'SchemaVersionError';
+    this.actualVersion = actualVersion;
+    this.expectedVersion = expectedVersion;
+  }
+}
+
+/**
+ * Create the table that records applied migrations
+ */
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+}
+
+/**
+ * Check that migrations are numbered 1, 2, 3, ... in order
+ * @throws Error describing the first gap or misordering
+ */
+function validateMigrations(migrations: Migration[]): void {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Migration "${migration.name}" has version ${migration.version}, expected ${index + 1} - migrations must be numbered in order without gaps`
+      );
+    }
+  });
+}
+
+/**
+ * Get the schema version of a database (0 for one that has never been migrated)
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  ensureMigrationsTable(db);
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+/**
+ * Apply every migration newer than the database's schema version.
+ * Each migration and its schema_migrations record commit together, so a failed
+ * migration leaves the database at the previous version.
+ * @returns Versions applied by this call
+ * @throws SchemaVersionError if the database is newer than the known migrations
+ */
+export function runMigrations(db: Database.Database, migrations: Migration[]): number[] {
+  validateMigrations(migrations);
+
+  const current = getSchemaVersion(db);
+  if (current > migrations.length) {
+    throw new SchemaVersionError(current, migrations.length);
+  }
+
+  const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+  const applied: number[] = [];
+
+  for (const migration of migrations.slice(current)) {
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.name, new Date().toISOString());
+    })();
+    applied.push(migration.version);
+  }
+
+  return applied;
+}
+
+/**
+ * Make sure the database schema is at the expected version
+ * @throws SchemaVersionError otherwise
+ */
+export function assertSchemaVersion(db: Database.Database, expectedVersion: number): void {
+  const version = getSchemaVersion(db);
+  if (version !== expectedVersion) {
+    throw new SchemaVersionError(version, expectedVersion);
+  }
+}
+
+/**
+ * Add a column unless the table already has it.
+ * Databases created before versioned migrations may already have any column an
+ * early migration adds.
+ */
+export function addColumnIfMissing(
+  db: Database.Database,
+  table: string,
+  column: string,
+  definition: string
+): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
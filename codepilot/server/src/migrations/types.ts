@@ -0,0 +1,18 @@
+/**
+ * Migration types
+ */
+
+import type Database from 'better-sqlite3';
+
+/**
+ * One step of the database schema's history.
+ * Migrations run in version order, each in its own transaction, and are
+ * recorded in the schema_migrations table so they run only once.
+ */
+export interface Migration {
+  /** Position in the history - versions start at 1 and increase by 1 */
+  version: number;
+  /** Short description, recorded alongside the version */
+  name: string;
+  up(db: Database.Database): void;
+}
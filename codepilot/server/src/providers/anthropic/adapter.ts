@@ -0,0 +1,244 @@
+/**
+ * Anthropic Provider Adapter
+ * Implements ProviderAdapter using the native Anthropic Messages API.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type {
+  ProviderAdapter,
+  ProviderAdapterConfig,
+  ProviderTurnParams,
+  ProviderStreamEvent,
+  ProviderTurnResult,
+  CoreMessage,
+  CoreToolCallBlock,
+  TokenUsage,
+} from '../types';
+import type { ToolInvocation } from '../../core/tools';
+import { toAnthropicTools, toAnthropicMessages, toAnthropicModelId } from './mapping';
+import { toProviderError } from '../errors';
+
+/**
+ * Default configuration values.
+ */
+const DEFAULTS = {
+  model: 'claude-sonnet-4-5',
+  maxTokens: 4096,
+};
+
+/**
+ * Tool use block being assembled from streaming `input_json_delta` events.
+ */
+interface PendingToolUse {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * Anthropic adapter implementing the ProviderAdapter interface.
+ */
+export class AnthropicAdapter implements ProviderAdapter {
+  readonly id = 'anthropic' as const;
+  readonly defaultModel: string;
+
+  private client: Anthropic;
+  private maxTokens: number;
+
+  constructor(config: ProviderAdapterConfig) {
+    this.client = new Anthropic({
+      apiKey: config.apiKey,
+      ...(config.baseURL ? { baseURL: config.baseURL } : {}),
+      // Retries are ResilientAdapter's job, so they can be reported and fall back
+      maxRetries: 0,
+    });
+
+    this.defaultModel = config.model || DEFAULTS.model;
+    this.maxTokens = config.maxTokens || DEFAULTS.maxTokens;
+  }
+
+  /**
+   * Send a turn to the LLM, streaming back events.
+   */
+  async *sendTurn(params: ProviderTurnParams): AsyncGenerator<ProviderStreamEvent> {
+    const { messages, registry, loadedTools, toolPolicy, model, signal } = params;
+
+    // Get tools to send (meta tools + loaded tools)
+    const toolDefs = registry.getLoadedTools(loadedTools, toolPolicy);
+    const anthropicTools = toAnthropicTools(toolDefs);
+    const { system, messages: anthropicMessages } = toAnthropicMessages(messages);
+
+    let contentAccumulator = '';
+    // Tool use blocks keyed by content block index
+    const toolUses = new Map<number, PendingToolUse>();
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let cacheReadTokens = 0;
+    let cacheWriteTokens = 0;
+
+    try {
+      const stream = await this.client.messages.create(
+        {
+          model: toAnthropicModelId(model || this.defaultModel),
+          max_tokens: this.maxTokens,
+          messages: anthropicMessages,
+          ...(system ? { system } : {}),
+          ...(anthropicTools.length > 0 ? { tools: anthropicTools } : {}),
+          stream: true,
+        },
+        { signal }
+      );
+
+      for await (const event of stream) {
+        // Check for abort
+        if (signal?.aborted) {
+          yield { type: 'error', error: 'Aborted by user' };
+          break;
+        }
+
+        switch (event.type) {
+          case 'message_start': {
+            const usage = event.message.usage;
+            cacheReadTokens = usage.cache_read_input_tokens ?? 0;
+            cacheWriteTokens = usage.cache_creation_input_tokens ?? 0;
+            inputTokens = usage.input_tokens + cacheReadTokens + cacheWriteTokens;
+            outputTokens = usage.output_tokens;
+            break;
+          }
+
+          case 'content_block_start':
+            if (event.content_block.type === 'tool_use') {
+              toolUses.set(event.index, {
+                id: event.content_block.id,
+                name: event.content_block.name,
+                arguments: '',
+              });
+              yield {
+                type: 'tool_call_start',
+                id: event.content_block.id,
+                name: event.content_block.name,
+              };
+            }
+            break;
+
+          case 'content_block_delta':
+            if (event.delta.type === 'text_delta') {
+              contentAccumulator += event.delta.text;
+              yield { type: 'text_delta', text: event.delta.text };
+            } else if (event.delta.type === 'input_json_delta') {
+              const toolUse = toolUses.get(event.index);
+              if (toolUse && event.delta.partial_json) {
+                toolUse.arguments += event.delta.partial_json;
+                yield {
+                  type: 'tool_call_delta',
+                  id: toolUse.id,
+                  argumentsDelta: event.delta.partial_json,
+                };
+              }
+            }
+            break;
+
+          case 'message_delta':
+            // Output token count is cumulative
+            outputTokens = event.usage.output_tokens;
+            break;
+        }
+      }
+    } catch (err) {
+      yield toProviderError(err);
+      return;
+    }
+
+    // Emit usage
+    const usage: TokenUsage = {
+      promptTokens: inputTokens,
+      completionTokens: outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      ...(cacheReadTokens > 0 ? { cacheReadTokens } : {}),
+      ...(cacheWriteTokens > 0 ? { cacheWriteTokens } : {}),
+    };
+    if (usage.totalTokens > 0) {
+      yield { type: 'usage', usage };
+    }
+
+    // Build result (tool calls in content block order)
+    const toolCalls = Array.from(toolUses.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, tc]) => ({ ...tc, arguments: tc.arguments || '{}' }));
+
+    const toolInvocations: ToolInvocation[] = toolCalls.map((tc) => ({
+      id: tc.id,
+      name: tc.name,
+      input: safeParseJSON(tc.arguments),
+    }));
+
+    // Build messages to append
+    const messagesToAppend: CoreMessage[] = [];
+
+    if (toolCalls.length > 0) {
+      const toolCallBlocks: CoreToolCallBlock[] = toolCalls.map((tc) => ({
+        type: 'tool_call',
+        id: tc.id,
+        name: tc.name,
+        arguments: tc.arguments,
+      }));
+
+      messagesToAppend.push({
+        role: 'assistant',
+        content: contentAccumulator
+          ? [{ type: 'text', text: contentAccumulator }, ...toolCallBlocks]
+          : toolCallBlocks,
+      });
+
+      // Emit completion events for tool calls
+      for (const tc of toolCalls) {
+        yield { type: 'tool_call_complete', id: tc.id };
+      }
+    } else if (contentAccumulator) {
+      messagesToAppend.push({
+        role: 'assistant',
+        content: contentAccumulator,
+      });
+    }
+
+    const result: ProviderTurnResult = {
+      messagesToAppend,
+      toolInvocations,
+      done: toolInvocations.length === 0,
+      textContent: contentAccumulator || undefined,
+    };
+
+    yield { type: 'turn_complete', result };
+  }
+}
+
+/**
+ * Safely parse JSON, returning empty object on failure.
+ */
+function safeParseJSON(jsonString: string): Record<string, unknown> {
+  try {
+    return JSON.parse(jsonString);
+  } catch {
+    console.error('Failed to parse tool arguments:', jsonString);
+    return {};
+  }
+}
+
+/**
+ * Create an Anthropic adapter from environment variables.
+ */
+export function createAnthropicAdapter(): AnthropicAdapter {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error('ANTHROPIC_API_KEY environment variable is required');
+  }
+
+  const model = process.env.ANTHROPIC_MODEL || DEFAULTS.model;
+  const maxTokens = process.env.MAX_TOKENS ? parseInt(process.env.MAX_TOKENS, 10) : DEFAULTS.maxTokens;
+
+  return new AnthropicAdapter({
+    apiKey,
+    model,
+    maxTokens,
+  });
+}
@@ -0,0 +1,6 @@
+/**
+ * Anthropic provider module exports.
+ */
+
+export { AnthropicAdapter, createAnthropicAdapter } from './adapter';
+export { toAnthropicTools, toAnthropicMessages, toAnthropicTool, toAnthropicModelId } from './mapping';
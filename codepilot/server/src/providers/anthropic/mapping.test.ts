@@ -0,0 +1,70 @@
+/**
+ * Anthropic mapping unit tests
+ */
+import { describe, it, expect } from 'vitest';
+import { toAnthropicMessages, toAnthropicModelId } from './mapping';
+import type { CoreMessage } from '../types';
+
+describe('toAnthropicMessages', () => {
+  it('should lift system messages into the system parameter', () => {
+    const { system, messages } = toAnthropicMessages([
+      { role: 'system', content: 'You are CodePilot.' },
+      { role: 'user', content: 'Hello' },
+    ]);
+
+    expect(system).toBe('You are CodePilot.');
+    expect(messages).toEqual([{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }]);
+  });
+
+  it('should map tool calls and tool results to tool_use/tool_result blocks', () => {
+    const history: CoreMessage[] = [
+      { role: 'user', content: 'Read package.json' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Reading it now.' },
+          { type: 'tool_call', id: 'toolu_1', name: 'read_file', arguments: '{"path":"package.json"}' },
+        ],
+      },
+      {
+        role: 'user',
+        content: [{ type: 'tool_result', toolUseId: 'toolu_1', content: 'Error: not found', isError: true }],
+      },
+    ];
+
+    const { messages } = toAnthropicMessages(history);
+
+    expect(messages[1]).toEqual({
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Reading it now.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'read_file', input: { path: 'package.json' } },
+      ],
+    });
+    expect(messages[2]).toEqual({
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'Error: not found', is_error: true }],
+    });
+  });
+
+  it('should merge consecutive same-role messages and drop empty text', () => {
+    const { messages } = toAnthropicMessages([
+      { role: 'user', content: [{ type: 'tool_result', toolUseId: 'toolu_1', content: 'ok' }] },
+      { role: 'user', content: 'Now continue' },
+      { role: 'assistant', content: '' },
+    ]);
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].content).toEqual([
+      { type: 'tool_result', tool_use_id: 'toolu_1', content: 'ok' },
+      { type: 'text', text: 'Now continue' },
+    ]);
+  });
+});
+
+describe('toAnthropicModelId', () => {
+  it('should convert OpenRouter-style IDs', () => {
+    expect(toAnthropicModelId('anthropic/claude-sonnet-4.5')).toBe('claude-sonnet-4-5');
+    expect(toAnthropicModelId('claude-3-5-haiku-20241022')).toBe('claude-3-5-haiku-20241022');
+  });
+});
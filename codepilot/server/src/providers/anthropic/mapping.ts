@@ -0,0 +1,139 @@
+/**
+ * Anthropic Messages API mapping utilities.
+ * Converts between provider-agnostic types and Anthropic API format.
+ */
+
+import type {
+  MessageParam,
+  Tool,
+  ContentBlockParam,
+} from '@anthropic-ai/sdk/resources/messages';
+import type { ToolDefinition } from '../../core/tools';
+import type { CoreMessage } from '../types';
+
+/**
+ * Convert a ToolDefinition to Anthropic tool format.
+ */
+export function toAnthropicTool(tool: ToolDefinition): Tool {
+  return {
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.inputSchema as Tool.InputSchema,
+  };
+}
+
+/**
+ * Convert multiple ToolDefinitions to Anthropic format.
+ */
+export function toAnthropicTools(tools: ToolDefinition[]): Tool[] {
+  return tools.map(toAnthropicTool);
+}
+
+/**
+ * Convert a CoreMessage's content to Anthropic content blocks.
+ * Empty text blocks are dropped (the API rejects them).
+ */
+function toAnthropicContent(message: CoreMessage): ContentBlockParam[] {
+  if (typeof message.content === 'string') {
+    return message.content ? [{ type: 'text', text: message.content }] : [];
+  }
+
+  const blocks: ContentBlockParam[] = [];
+
+  for (const block of message.content) {
+    switch (block.type) {
+      case 'text':
+        if (block.text) {
+          blocks.push({ type: 'text', text: block.text });
+        }
+        break;
+
+      case 'tool_call':
+        blocks.push({
+          type: 'tool_use',
+          id: block.id,
+          name: block.name,
+          input: safeParseArguments(block.arguments),
+        });
+        break;
+
+      case 'tool_result':
+        blocks.push({
+          type: 'tool_result',
+          tool_use_id: block.toolUseId,
+          content: block.content,
+          ...(block.isError ? { is_error: true } : {}),
+        });
+        break;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Convert an array of CoreMessages to Anthropic format.
+ *
+ * - System messages are lifted into the top-level `system` parameter
+ * - Tool results (user/tool role) become `tool_result` blocks in a user message
+ * - Consecutive messages with the same role are merged, since the API
+ *   expects user/assistant turns to alternate
+ */
+export function toAnthropicMessages(messages: CoreMessage[]): {
+  system: string | undefined;
+  messages: MessageParam[];
+} {
+  const systemParts: string[] = [];
+  const result: MessageParam[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      const text = typeof message.content === 'string'
+        ? message.content
+        : message.content
+            .filter((b): b is Extract<typeof b, { type: 'text' }> => b.type === 'text')
+            .map((b) => b.text)
+            .join('');
+      if (text) systemParts.push(text);
+      continue;
+    }
+
+    const role: MessageParam['role'] = message.role === 'assistant' ? 'assistant' : 'user';
+    const content = toAnthropicContent(message);
+    if (content.length === 0) continue;
+
+    const previous = result[result.length - 1];
+    if (previous && previous.role === role) {
+      previous.content = [...(previous.content as ContentBlockParam[]), ...content];
+    } else {
+      result.push({ role, content });
+    }
+  }
+
+  return {
+    system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+    messages: result,
+  };
+}
+
+/**
+ * Normalize a model ID for the Anthropic API.
+ * Accepts OpenRouter-style IDs (e.g. "anthropic/claude-sonnet-4.5") so the
+ * same model selection works regardless of provider.
+ */
+export function toAnthropicModelId(model: string): string {
+  return model.replace(/^anthropic\//, '').replace(/(\d)\.(\d)/g, '$1-$2');
+}
+
+/**
+ * Parse tool call arguments into an object for `tool_use.input`.
+ */
+function safeParseArguments(args: string): Record<string, unknown> {
+  if (!args) return {};
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Provider errors - turn SDK errors into 'error' stream events that keep the
+ * HTTP status and Retry-After, and say whether trying again may help (rate limits,
+ * server errors, dropped connections), for ResilientAdapter.
+ */
+
+import type { ProviderStreamEvent } from './types';
+
+type ProviderErrorEvent = Extract<ProviderStreamEvent, { type: 'error' }>;
+
+/** Statuses worth retrying: timeouts, conflicts, rate limits, server errors and overload (529) */
+const TRANSIENT_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+/** Network failures that never got a response */
+const CONNECTION_ERRORS = new Set(['APIConnectionError', 'APIConnectionTimeoutError']);
+const CONNECTION_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN']);
+
+/**
+ * Read a response header from an SDK error (a plain object or a Headers instance)
+ */
+function getHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') return undefined;
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Parse Retry-After (seconds or an HTTP date), or OpenAI's retry-after-ms
+ * @returns Milliseconds to wait, or undefined when the response gave no hint
+ */
+export function parseRetryAfter(headers: unknown, now: number = Date.now()): number | undefined {
+  const ms = getHeader(headers, 'retry-after-ms');
+  if (ms && Number.isFinite(Number(ms)) && Number(ms) >= 0) {
+    return Number(ms);
+  }
+
+  const value = getHeader(headers, 'retry-after');
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * Build the 'error' event for an error thrown by a provider SDK
+ */
+export function toProviderError(err: unknown): ProviderErrorEvent {
+  const error = err instanceof Error ? err.message : String(err);
+  if (!err || typeof err !== 'object') {
+    return { type: 'error', error };
+  }
+
+  const { status, headers, name, code, cause } = err as {
+    status?: unknown;
+    headers?: unknown;
+    name?: string;
+    code?: unknown;
+    cause?: { code?: unknown };
+  };
+  const retryAfterMs = parseRetryAfter(headers);
+  const connectionFailed =
+    CONNECTION_ERRORS.has(name ?? '') || CONNECTION_CODES.has(String(code)) || CONNECTION_CODES.has(String(cause?.code));
+
+  const httpStatus = typeof status === 'number' ? status : undefined;
+
+  return {
+    type: 'error',
+    error,
+    ...(httpStatus !== undefined ? { status: httpStatus } : {}),
+    ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+    transient: httpStatus !== undefined ? TRANSIENT_STATUSES.has(httpStatus) : connectionFailed,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Provider factory - selects and creates the ProviderAdapter for the agent loop.
+ */
+
+import type { ProviderAdapter, ProviderId } from './types';
+import { createOpenRouterAdapter } from './openrouter';
+import { createAnthropicAdapter } from './anthropic';
+import { createLocalAdapter } from './local';
+import { createRecordingAdapter, createReplayAdapter } from './mock';
+import { ResilientAdapter, getRetryOptions, type FallbackTarget } from './resilient';
+
+const PROVIDER_IDS: ProviderId[] = ['openrouter', 'anthropic', 'openai', 'local', 'mock'];
+
+/**
+ * Determine which provider to use from environment variables.
+ * LLM_PROVIDER wins if set; otherwise the first configured API key is used.
+ * Priority: OpenRouter > Anthropic direct > local OpenAI-compatible server
+ */
+export function resolveProviderId(): ProviderId {
+  const explicit = process.env.LLM_PROVIDER as ProviderId | undefined;
+  if (explicit) {
+    return explicit;
+  }
+
+  if (process.env.OPENROUTER_API_KEY) {
+    return 'openrouter';
+  }
+  if (process.env.ANTHROPIC_API_KEY) {
+    return 'anthropic';
+  }
+  if (process.env.LOCAL_BASE_URL) {
+    return 'local';
+  }
+
+  throw new Error(
+    'No API key found. Please set OPENROUTER_API_KEY or ANTHROPIC_API_KEY (or LOCAL_BASE_URL for a local server) in your .env file'
+  );
+}
+
+/**
+ * Parse LLM_FALLBACK: comma-separated models to try, in order, when the primary
+ * keeps failing. Each is a model of the primary provider, or "provider:model"
+ * ("provider:" alone for that provider's default model).
+ */
+export function parseFallbackChain(value: string | undefined): Array<{ provider?: ProviderId; model?: string }> {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      const provider = entry.slice(0, separator) as ProviderId;
+      // Model IDs may contain colons too (e.g. qwen2.5-coder:32b)
+      if (separator === -1 || !PROVIDER_IDS.includes(provider)) {
+        return { model: entry };
+      }
+      const model = entry.slice(separator + 1);
+      return model ? { provider, model } : { provider };
+    });
+}
+
+/**
+ * Create a provider adapter.
+ * Transient failures are retried (LLM_MAX_RETRIES, with backoff) and then handed to
+ * the LLM_FALLBACK chain. When RECORD_CASSETTE is set, every turn is also recorded to that file.
+ * @param providerId - Provider to use (defaults to resolveProviderId())
+ * @throws Error if the provider is unsupported or missing configuration
+ */
+export function createProviderAdapter(providerId: ProviderId = resolveProviderId()): ProviderAdapter {
+  const adapter = withRetries(createAdapter(providerId), providerId);
+  const cassettePath = process.env.RECORD_CASSETTE;
+  return cassettePath ? createRecordingAdapter(adapter, cassettePath) : adapter;
+}
+
+/**
+ * Wrap an adapter in a ResilientAdapter, unless retrying is off and there is no
+ * fallback chain. Replayed cassettes (which report the recorded provider's id)
+ * are served exactly as recorded.
+ */
+function withRetries(adapter: ProviderAdapter, providerId: ProviderId): ProviderAdapter {
+  if (providerId === 'mock') return adapter;
+
+  const fallbacks: FallbackTarget[] = parseFallbackChain(process.env.LLM_FALLBACK).flatMap(({ provider, model }) => {
+    if (!provider || provider === adapter.id) {
+      return [{ adapter, model }];
+    }
+    try {
+      return [{ adapter: createAdapter(provider), model }];
+    } catch (err) {
+      console.warn(`⚠️  Skipping fallback ${provider}:${model ?? ''} - ${err instanceof Error ? err.message : err}`);
+      return [];
+    }
+  });
+
+  const retry = getRetryOptions();
+  if (retry.maxRetries === 0 && fallbacks.length === 0) return adapter;
+  return new ResilientAdapter(adapter, { fallbacks, retry });
+}
+
+function createAdapter(providerId: ProviderId): ProviderAdapter {
+  switch (providerId) {
+    case 'openrouter':
+      return createOpenRouterAdapter();
+    case 'anthropic':
+      return createAnthropicAdapter();
+    case 'local':
+      return createLocalAdapter();
+    case 'mock':
+      return createReplayAdapter();
+    default:
+      throw new Error(`Unsupported LLM provider: "${providerId}"`);
+  }
+}
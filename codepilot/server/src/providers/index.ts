@@ -18,10 +18,38 @@ export type {
   ProviderTurnParams,
   ProviderAdapter,
   ProviderAdapterConfig,
+  ProviderRetryInfo,
 } from './types';
 
 // OpenRouter
 export { OpenRouterAdapter, createOpenRouterAdapter } from './openrouter';
 
+// Anthropic
+export { AnthropicAdapter, createAnthropicAdapter } from './anthropic';
+
+// Local OpenAI-compatible servers (Ollama, llama.cpp, vLLM, ...)
+export { LocalAdapter, createLocalAdapter } from './local';
+export type { LocalToolMode, LocalModelInfo } from './local';
+
+// Scripted turns and recorded cassettes (tests, offline runs)
+export {
+  MockAdapter,
+  RecordingAdapter,
+  ReplayAdapter,
+  createRecordingAdapter,
+  createReplayAdapter,
+  loadCassette,
+  saveCassette,
+} from './mock';
+export type { MockStep, MockTurn, MockRequest, Cassette, CassetteTurn } from './mock';
+
+// Retries with backoff and fallback chains
+export { ResilientAdapter, getRetryOptions, getRetryDelay } from './resilient';
+export type { RetryOptions, FallbackTarget, ResilientAdapterConfig } from './resilient';
+export { toProviderError, parseRetryAfter } from './errors';
+
+// Provider selection
+export { createProviderAdapter, resolveProviderId, parseFallbackChain } from './factory';
+
 // Message format conversion utilities
-export { fromOpenAIMessage, fromOpenAIMessages } from './openrouter/mapping';
+export { fromOpenAIMessage, fromOpenAIMessages, toOpenAIMessages } from './openrouter/mapping';
@@ -0,0 +1,371 @@
+/**
+ * Local Provider Adapter
+ * Implements ProviderAdapter for any OpenAI-compatible /v1/chat/completions server
+ * (Ollama, llama.cpp server, vLLM, LM Studio, ...).
+ *
+ * Models without native tool calling fall back to prompt-based tool calls
+ * parsed from the response text.
+ */
+
+import { randomUUID } from 'crypto';
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type {
+  ProviderAdapter,
+  ProviderAdapterConfig,
+  ProviderTurnParams,
+  ProviderStreamEvent,
+  ProviderTurnResult,
+  CoreMessage,
+  CoreToolCallBlock,
+  TokenUsage,
+} from '../types';
+import type { ToolInvocation } from '../../core/tools';
+import { toOpenAITools, toOpenAIMessages, ToolCallAccumulator } from '../openrouter';
+import { toPromptMessages, parseToolCalls, ToolCallTextFilter } from './prompt-tools';
+import { toProviderError } from '../errors';
+
+/**
+ * How tool calls are exchanged with the model.
+ * - native: OpenAI `tools` parameter
+ * - prompt: tools described in the system prompt, calls parsed from text
+ * - auto: try native, fall back to prompt if the server rejects tools
+ */
+export type LocalToolMode = 'native' | 'prompt' | 'auto';
+
+/**
+ * Configuration for the local adapter.
+ */
+export interface LocalAdapterConfig extends ProviderAdapterConfig {
+  /** Tool calling mode (default: auto) */
+  toolMode?: LocalToolMode;
+}
+
+/**
+ * Model info reported by the server's /v1/models endpoint.
+ */
+export interface LocalModelInfo {
+  id: string;
+  ownedBy?: string;
+}
+
+/**
+ * Default configuration values.
+ */
+const DEFAULTS = {
+  baseURL: 'http://localhost:11434/v1',
+  model: 'llama3.1',
+  maxTokens: 4096,
+  toolMode: 'auto' as LocalToolMode,
+};
+
+/**
+ * Error messages that indicate the model/server does not support native tools.
+ */
+const TOOLS_UNSUPPORTED_PATTERN = /does not support tools|tools? (are|is) not supported|tool.*not supported|unsupported.*tool/i;
+
+/**
+ * Local adapter implementing the ProviderAdapter interface.
+ */
+export class LocalAdapter implements ProviderAdapter {
+  readonly id = 'local' as const;
+  readonly defaultModel: string;
+
+  private client: OpenAI;
+  private maxTokens: number;
+  private toolMode: LocalToolMode;
+  /** Models that rejected native tools (auto mode remembers per model) */
+  private promptOnlyModels = new Set<string>();
+
+  constructor(config: LocalAdapterConfig) {
+    this.client = new OpenAI({
+      baseURL: config.baseURL || DEFAULTS.baseURL,
+      // Most local servers ignore the key, but the SDK requires one
+      apiKey: config.apiKey || 'local',
+      // Retries are ResilientAdapter's job, so they can be reported and fall back
+      maxRetries: 0,
+    });
+
+    this.defaultModel = config.model || DEFAULTS.model;
+    this.maxTokens = config.maxTokens || DEFAULTS.maxTokens;
+    this.toolMode = config.toolMode || DEFAULTS.toolMode;
+  }
+
+  /**
+   * List the models the server reports via /v1/models.
+   */
+  async listModels(): Promise<LocalModelInfo[]> {
+    const models: LocalModelInfo[] = [];
+    for await (const model of this.client.models.list()) {
+      models.push({ id: model.id, ownedBy: model.owned_by });
+    }
+    return models;
+  }
+
+  /**
+   * Send a turn to the LLM, streaming back events.
+   */
+  async *sendTurn(params: ProviderTurnParams): AsyncGenerator<ProviderStreamEvent> {
+    const model = params.model || this.defaultModel;
+    const usePromptTools = this.toolMode === 'prompt' || this.promptOnlyModels.has(model);
+
+    if (usePromptTools) {
+      yield* this.sendPromptTurn(params, model);
+      return;
+    }
+
+    // Native mode - in auto mode, fall back to prompt tools if the server rejects them
+    let fallBack = false;
+    for await (const event of this.sendNativeTurn(params, model)) {
+      if (
+        event.type === 'error' &&
+        this.toolMode === 'auto' &&
+        TOOLS_UNSUPPORTED_PATTERN.test(event.error)
+      ) {
+        console.warn(`[Local] Model "${model}" does not support native tools, using prompt-based tool calls`);
+        this.promptOnlyModels.add(model);
+        fallBack = true;
+        break;
+      }
+      yield event;
+    }
+
+    if (fallBack) {
+      yield* this.sendPromptTurn(params, model);
+    }
+  }
+
+  /**
+   * Turn using the OpenAI `tools` parameter.
+   */
+  private async *sendNativeTurn(
+    params: ProviderTurnParams,
+    model: string
+  ): AsyncGenerator<ProviderStreamEvent> {
+    const { messages, registry, loadedTools, toolPolicy, signal } = params;
+    const openAITools = toOpenAITools(registry.getLoadedTools(loadedTools, toolPolicy));
+
+    let contentAccumulator = '';
+    const toolCallAccumulator = new ToolCallAccumulator();
+    let usageData: TokenUsage | null = null;
+
+    try {
+      const stream = await this.client.chat.completions.create(
+        {
+          model,
+          messages: toOpenAIMessages(messages),
+          tools: openAITools.length > 0 ? openAITools : undefined,
+          max_tokens: this.maxTokens,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal }
+      );
+
+      for await (const chunk of stream) {
+        if (signal?.aborted) {
+          yield { type: 'error', error: 'Aborted by user' };
+          break;
+        }
+
+        if (chunk.usage) {
+          usageData = toUsage(chunk.usage);
+        }
+
+        const delta = chunk.choices[0]?.delta;
+        if (!delta) continue;
+
+        if (delta.content) {
+          contentAccumulator += delta.content;
+          yield { type: 'text_delta', text: delta.content };
+        }
+
+        if (delta.tool_calls) {
+          for (const tc of delta.tool_calls) {
+            // Some local servers omit tool call IDs - synthesize one
+            const id = tc.id || (tc.function?.name ? generateCallId() : undefined);
+            if (id && tc.function?.name) {
+              yield { type: 'tool_call_start', id, name: tc.function.name };
+            }
+            toolCallAccumulator.addDelta({ index: tc.index, id, function: tc.function });
+          }
+        }
+      }
+    } catch (err) {
+      yield toProviderError(err);
+      return;
+    }
+
+    if (usageData) {
+      yield { type: 'usage', usage: usageData };
+    }
+
+    yield* this.completeTurn(contentAccumulator, toolCallAccumulator.getToolCalls());
+  }
+
+  /**
+   * Turn using prompt-described tools, parsing `<tool_call>` blocks from text.
+   */
+  private async *sendPromptTurn(
+    params: ProviderTurnParams,
+    model: string
+  ): AsyncGenerator<ProviderStreamEvent> {
+    const { messages, registry, loadedTools, toolPolicy, signal } = params;
+    const promptMessages: ChatCompletionMessageParam[] = toPromptMessages(
+      messages,
+      registry.getLoadedTools(loadedTools, toolPolicy)
+    );
+
+    let rawText = '';
+    const filter = new ToolCallTextFilter();
+    let usageData: TokenUsage | null = null;
+
+    try {
+      const stream = await this.client.chat.completions.create(
+        {
+          model,
+          messages: promptMessages,
+          max_tokens: this.maxTokens,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal }
+      );
+
+      for await (const chunk of stream) {
+        if (signal?.aborted) {
+          yield { type: 'error', error: 'Aborted by user' };
+          break;
+        }
+
+        if (chunk.usage) {
+          usageData = toUsage(chunk.usage);
+        }
+
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) {
+          rawText += content;
+          const visible = filter.push(content);
+          if (visible) {
+            yield { type: 'text_delta', text: visible };
+          }
+        }
+      }
+    } catch (err) {
+      yield toProviderError(err);
+      return;
+    }
+
+    const tail = filter.flush();
+    if (tail) {
+      yield { type: 'text_delta', text: tail };
+    }
+
+    if (usageData) {
+      yield { type: 'usage', usage: usageData };
+    }
+
+    const parsed = parseToolCalls(rawText);
+    const toolCalls = parsed.toolCalls.map((tc) => ({ id: generateCallId(), ...tc }));
+
+    for (const tc of toolCalls) {
+      yield { type: 'tool_call_start', id: tc.id, name: tc.name };
+    }
+
+    yield* this.completeTurn(parsed.text, toolCalls);
+  }
+
+  /**
+   * Build the turn result shared by both modes.
+   */
+  private *completeTurn(
+    text: string,
+    toolCalls: Array<{ id: string; name: string; arguments: string }>
+  ): Generator<ProviderStreamEvent> {
+    const toolInvocations: ToolInvocation[] = toolCalls.map((tc) => ({
+      id: tc.id,
+      name: tc.name,
+      input: safeParseJSON(tc.arguments),
+    }));
+
+    const messagesToAppend: CoreMessage[] = [];
+
+    if (toolCalls.length > 0) {
+      const toolCallBlocks: CoreToolCallBlock[] = toolCalls.map((tc) => ({
+        type: 'tool_call',
+        id: tc.id,
+        name: tc.name,
+        arguments: tc.arguments || '{}',
+      }));
+
+      messagesToAppend.push({
+        role: 'assistant',
+        content: text ? [{ type: 'text', text }, ...toolCallBlocks] : toolCallBlocks,
+      });
+
+      for (const tc of toolCalls) {
+        yield { type: 'tool_call_complete', id: tc.id };
+      }
+    } else if (text) {
+      messagesToAppend.push({ role: 'assistant', content: text });
+    }
+
+    const result: ProviderTurnResult = {
+      messagesToAppend,
+      toolInvocations,
+      done: toolInvocations.length === 0,
+      textContent: text || undefined,
+    };
+
+    yield { type: 'turn_complete', result };
+  }
+}
+
+/**
+ * Convert OpenAI usage to TokenUsage.
+ */
+function toUsage(usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }): TokenUsage {
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+/**
+ * Generate an ID for tool calls the server did not assign one to.
+ */
+function generateCallId(): string {
+  return `call_${randomUUID().replace(/-/g, '').slice(0, 24)}`;
+}
+
+/**
+ * Safely parse JSON, returning empty object on failure.
+ */
+function safeParseJSON(jsonString: string): Record<string, unknown> {
+  if (!jsonString) return {};
+  try {
+    return JSON.parse(jsonString);
+  } catch {
+    console.error('Failed to parse tool arguments:', jsonString);
+    return {};
+  }
+}
+
+/**
+ * Create a local adapter from environment variables.
+ */
+export function createLocalAdapter(): LocalAdapter {
+  const baseURL = process.env.LOCAL_BASE_URL || DEFAULTS.baseURL;
+  const model = process.env.LOCAL_MODEL || DEFAULTS.model;
+  const maxTokens = process.env.MAX_TOKENS ? parseInt(process.env.MAX_TOKENS, 10) : DEFAULTS.maxTokens;
+  const toolMode = (process.env.LOCAL_TOOL_MODE as LocalToolMode | undefined) || DEFAULTS.toolMode;
+
+  return new LocalAdapter({
+    apiKey: process.env.LOCAL_API_KEY || 'local',
+    baseURL,
+    model,
+    maxTokens,
+    toolMode,
+  });
+}
@@ -0,0 +1,8 @@
+/**
+ * Local (OpenAI-compatible) provider module exports.
+ */
+
+export { LocalAdapter, createLocalAdapter } from './adapter';
+export type { LocalAdapterConfig, LocalToolMode, LocalModelInfo } from './adapter';
+export { buildToolPrompt, toPromptMessages, parseToolCalls, ToolCallTextFilter } from './prompt-tools';
+export type { PromptToolCall } from './prompt-tools';
@@ -0,0 +1,70 @@
+/**
+ * Prompt-based tool calling unit tests
+ */
+import { describe, it, expect } from 'vitest';
+import { parseToolCalls, toPromptMessages, ToolCallTextFilter } from './prompt-tools';
+import type { ToolDefinition } from '../../core/tools';
+
+describe('parseToolCalls', () => {
+  it('should extract tool calls and strip them from the text', () => {
+    const { text, toolCalls } = parseToolCalls(
+      'Let me look.\n<tool_call>{"name": "read_file", "arguments": {"path": "a.ts"}}</tool_call>'
+    );
+
+    expect(text).toBe('Let me look.');
+    expect(toolCalls).toEqual([{ name: 'read_file', arguments: '{"path":"a.ts"}' }]);
+  });
+
+  it('should accept code fences and leave malformed blocks in place', () => {
+    const { text, toolCalls } = parseToolCalls(
+      '<tool_call>```json\n{"name": "list_dir", "arguments": {}}\n```</tool_call><tool_call>not json</tool_call>'
+    );
+
+    expect(toolCalls).toEqual([{ name: 'list_dir', arguments: '{}' }]);
+    expect(text).toBe('<tool_call>not json</tool_call>');
+  });
+});
+
+describe('ToolCallTextFilter', () => {
+  it('should hide tool call blocks split across deltas', () => {
+    const filter = new ToolCallTextFilter();
+    const chunks = ['Hello <to', 'ol_call>{"name":', '"x"}</tool_', 'call> done'];
+
+    const visible = chunks.map((c) => filter.push(c)).join('') + filter.flush();
+
+    expect(visible).toBe('Hello  done');
+  });
+});
+
+describe('toPromptMessages', () => {
+  it('should inject tool docs and render tool calls/results as text', () => {
+    const tools: ToolDefinition[] = [
+      {
+        name: 'read_file',
+        description: 'Read a file',
+        inputSchema: { type: 'object', properties: { path: { type: 'string' } } },
+        handler: async () => 'ok',
+        metadata: { category: 'file_ops' },
+      },
+    ];
+
+    const messages = toPromptMessages(
+      [
+        { role: 'system', content: 'You are CodePilot.' },
+        {
+          role: 'assistant',
+          content: [{ type: 'tool_call', id: 'c1', name: 'read_file', arguments: '{"path":"a.ts"}' }],
+        },
+        { role: 'tool', content: [{ type: 'tool_result', toolUseId: 'c1', content: 'file body' }] },
+      ],
+      tools
+    );
+
+    expect(messages[0].content).toContain('### read_file');
+    expect(messages[1]).toEqual({
+      role: 'assistant',
+      content: '<tool_call>{"name":"read_file","arguments":{"path":"a.ts"}}</tool_call>',
+    });
+    expect(messages[2]).toEqual({ role: 'user', content: '<tool_result id="c1">\nfile body\n</tool_result>' });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Prompt-based tool calling for models without native function calling.
+ *
+ * Tools are described in the system prompt and the model is asked to emit
+ * calls as `<tool_call>{"name": "...", "arguments": {...}}</tool_call>` blocks,
+ * which are parsed back out of the streamed text.
+ */
+
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { ToolDefinition } from '../../core/tools';
+import type { CoreMessage } from '../types';
+
+const OPEN_TAG = '<tool_call>';
+const CLOSE_TAG = '</tool_call>';
+
+/**
+ * A tool call parsed from model output text.
+ */
+export interface PromptToolCall {
+  name: string;
+  /** JSON string of the arguments */
+  arguments: string;
+}
+
+/**
+ * Build the system prompt section that describes available tools
+ * and the expected call format.
+ */
+export function buildToolPrompt(tools: ToolDefinition[]): string {
+  if (tools.length === 0) return '';
+
+  const toolDocs = tools
+    .map((tool) => `### ${tool.name}\n${tool.description}\nInput schema: ${JSON.stringify(tool.inputSchema)}`)
+    .join('\n\n');
+
+  return `# Tools
+
+You can call the tools below. To call a tool, output a block in exactly this format:
+
+${OPEN_TAG}{"name": "tool_name", "arguments": {"param": "value"}}${CLOSE_TAG}
+
+Rules:
+- The content between the tags must be a single valid JSON object.
+- You may emit several ${OPEN_TAG} blocks in one response.
+- After calling tools, stop and wait - results arrive in the next message inside <tool_result> tags.
+- When you no longer need tools, answer normally without any ${OPEN_TAG} blocks.
+
+${toolDocs}`;
+}
+
+/**
+ * Convert CoreMessages to plain-text OpenAI messages for prompt-based tool calling.
+ * Tool calls are rendered back into `<tool_call>` text and tool results into
+ * `<tool_result>` text, since the server does not understand tool roles.
+ */
+export function toPromptMessages(
+  messages: CoreMessage[],
+  tools: ToolDefinition[]
+): ChatCompletionMessageParam[] {
+  const toolPrompt = buildToolPrompt(tools);
+  const result: ChatCompletionMessageParam[] = [];
+  let systemInjected = false;
+
+  for (const message of messages) {
+    const text = renderContent(message);
+
+    if (message.role === 'system') {
+      result.push({ role: 'system', content: toolPrompt ? `${text}\n\n${toolPrompt}` : text });
+      systemInjected = true;
+    } else if (message.role === 'assistant') {
+      result.push({ role: 'assistant', content: text });
+    } else {
+      result.push({ role: 'user', content: text });
+    }
+  }
+
+  if (!systemInjected && toolPrompt) {
+    result.unshift({ role: 'system', content: toolPrompt });
+  }
+
+  return result;
+}
+
+/**
+ * Render a CoreMessage's content as text.
+ */
+function renderContent(message: CoreMessage): string {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+
+  return message.content
+    .map((block) => {
+      switch (block.type) {
+        case 'text':
+          return block.text;
+        case 'tool_call':
+          return `${OPEN_TAG}${JSON.stringify({ name: block.name, arguments: safeParse(block.arguments) })}${CLOSE_TAG}`;
+        case 'tool_result':
+          return `<tool_result id="${block.toolUseId}"${block.isError ? ' error="true"' : ''}>\n${block.content}\n</tool_result>`;
+      }
+    })
+    .join('\n');
+}
+
+/**
+ * Extract tool calls from complete model output.
+ * Malformed blocks are left in the text so the model sees what went wrong.
+ */
+export function parseToolCalls(text: string): { text: string; toolCalls: PromptToolCall[] } {
+  const toolCalls: PromptToolCall[] = [];
+  const pattern = /<tool_call>\s*([\s\S]*?)\s*<\/tool_call>/g;
+
+  const remaining = text.replace(pattern, (match, body: string) => {
+    const parsed = safeParse(stripCodeFence(body));
+    if (typeof parsed.name !== 'string') {
+      return match;
+    }
+    const args = parsed.arguments ?? parsed.parameters ?? {};
+    toolCalls.push({
+      name: parsed.name,
+      arguments: typeof args === 'string' ? args : JSON.stringify(args),
+    });
+    return '';
+  });
+
+  return { text: remaining.trim(), toolCalls };
+}
+
+/**
+ * Streaming filter that hides `<tool_call>` blocks from text deltas.
+ * Holds back any suffix that could be the start of an opening tag.
+ */
+export class ToolCallTextFilter {
+  private buffer = '';
+  private insideCall = false;
+
+  /**
+   * Feed a text delta; returns the portion that is safe to show.
+   */
+  push(delta: string): string {
+    this.buffer += delta;
+    let visible = '';
+
+    for (;;) {
+      if (this.insideCall) {
+        const end = this.buffer.indexOf(CLOSE_TAG);
+        if (end === -1) return visible;
+        this.buffer = this.buffer.slice(end + CLOSE_TAG.length);
+        this.insideCall = false;
+        continue;
+      }
+
+      const start = this.buffer.indexOf(OPEN_TAG);
+      if (start !== -1) {
+        visible += this.buffer.slice(0, start);
+        this.buffer = this.buffer.slice(start + OPEN_TAG.length);
+        this.insideCall = true;
+        continue;
+      }
+
+      // Keep a possible partial opening tag in the buffer
+      const holdBack = partialTagLength(this.buffer);
+      visible += this.buffer.slice(0, this.buffer.length - holdBack);
+      this.buffer = this.buffer.slice(this.buffer.length - holdBack);
+      return visible;
+    }
+  }
+
+  /**
+   * Flush remaining text at end of stream (an unterminated call is dropped).
+   */
+  flush(): string {
+    const rest = this.insideCall ? '' : this.buffer;
+    this.buffer = '';
+    return rest;
+  }
+}
+
+/**
+ * Length of the longest suffix of text that is a prefix of the opening tag.
+ */
+function partialTagLength(text: string): number {
+  for (let len = Math.min(OPEN_TAG.length - 1, text.length); len > 0; len--) {
+    if (OPEN_TAG.startsWith(text.slice(-len))) {
+      return len;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Remove a surrounding ```json fence some models add inside the tags.
+ */
+function stripCodeFence(body: string): string {
+  return body.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+}
+
+function safeParse(json: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Mock Provider Adapter
+ * Implements ProviderAdapter by playing back a scripted sequence of turns, so the
+ * agent loop and everything built on it can be exercised without a model.
+ *
+ * Each sendTurn call consumes the next scripted turn and streams it the way a
+ * real provider would: text deltas and tool calls as they come, usage, then
+ * turn_complete with the assistant message to append.
+ */
+
+import type {
+  ProviderAdapter,
+  ProviderTurnParams,
+  ProviderStreamEvent,
+  ProviderTurnResult,
+  CoreMessage,
+  CoreToolCallBlock,
+} from '../types';
+import type { ToolInvocation } from '../../core/tools';
+
+/**
+ * One scripted step of a turn.
+ */
+export type MockStep =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; name: string; input?: Record<string, unknown>; id?: string }
+  | { type: 'usage'; promptTokens: number; completionTokens: number }
+  | { type: 'error'; error: string };
+
+/**
+ * A scripted model response: the steps of one sendTurn call, in order.
+ */
+export type MockTurn = MockStep[];
+
+/**
+ * What the agent sent for one turn (kept by the mock adapter and in cassettes).
+ */
+export interface MockRequest {
+  model?: string;
+  messages: CoreMessage[];
+  loadedTools: string[];
+}
+
+/**
+ * Configuration for the mock adapter.
+ */
+export interface MockAdapterConfig {
+  /** Model reported as the default (default: mock-model) */
+  model?: string;
+}
+
+/**
+ * Snapshot what the agent sent for a turn
+ */
+export function toMockRequest(params: ProviderTurnParams): MockRequest {
+  return {
+    model: params.model,
+    messages: structuredClone(params.messages),
+    loadedTools: [...params.loadedTools],
+  };
+}
+
+/**
+ * Stream a scripted turn as provider events, ending with turn_complete.
+ * Tool calls without an id get one from the turn and step index.
+ */
+export function* playTurn(turn: MockTurn, turnIndex: number): Generator<ProviderStreamEvent> {
+  let text = '';
+  const toolCalls: CoreToolCallBlock[] = [];
+  const toolInvocations: ToolInvocation[] = [];
+
+  for (const [stepIndex, step] of turn.entries()) {
+    switch (step.type) {
+      case 'text':
+        text += step.text;
+        yield { type: 'text_delta', text: step.text };
+        break;
+
+      case 'tool_call': {
+        const id = step.id ?? `mock_call_${turnIndex}_${stepIndex}`;
+        const input = step.input ?? {};
+        const args = JSON.stringify(input);
+        toolCalls.push({ type: 'tool_call', id, name: step.name, arguments: args });
+        toolInvocations.push({ id, name: step.name, input });
+        yield { type: 'tool_call_start', id, name: step.name };
+        yield { type: 'tool_call_delta', id, argumentsDelta: args };
+        break;
+      }
+
+      case 'usage':
+        yield {
+          type: 'usage',
+          usage: {
+            promptTokens: step.promptTokens,
+            completionTokens: step.completionTokens,
+            totalTokens: step.promptTokens + step.completionTokens,
+          },
+        };
+        break;
+
+      case 'error':
+        yield { type: 'error', error: step.error };
+        break;
+    }
+  }
+
+  const messagesToAppend: CoreMessage[] = [];
+  if (toolCalls.length > 0) {
+    for (const call of toolCalls) {
+      yield { type: 'tool_call_complete', id: call.id };
+    }
+    messagesToAppend.push({
+      role: 'assistant',
+      content: text ? [{ type: 'text', text }, ...toolCalls] : toolCalls,
+    });
+  } else if (text) {
+    messagesToAppend.push({ role: 'assistant', content: text });
+  }
+
+  const result: ProviderTurnResult = {
+    messagesToAppend,
+    toolInvocations,
+    done: toolInvocations.length === 0,
+    textContent: text || undefined,
+  };
+
+  yield { type: 'turn_complete', result };
+}
+
+/**
+ * Mock adapter implementing the ProviderAdapter interface.
+ * Throws when asked for more turns than were scripted.
+ */
+export class MockAdapter implements ProviderAdapter {
+  readonly id = 'mock' as const;
+  readonly defaultModel: string;
+
+  /** Parameters of every turn sent so far, for assertions */
+  readonly requests: MockRequest[] = [];
+
+  private turns: MockTurn[];
+
+  constructor(turns: MockTurn[], config: MockAdapterConfig = {}) {
+    this.turns = [...turns];
+    this.defaultModel = config.model || 'mock-model';
+  }
+
+  /**
+   * Number of scripted turns not yet played
+   */
+  get remainingTurns(): number {
+    return this.turns.length - this.requests.length;
+  }
+
+  async *sendTurn(params: ProviderTurnParams): AsyncGenerator<ProviderStreamEvent> {
+    const turnIndex = this.requests.length;
+    const turn = this.turns[turnIndex];
+    if (!turn) {
+      throw new Error(`Mock adapter has no scripted turn left (${this.turns.length} played)`);
+    }
+
+    this.requests.push(toMockRequest(params));
+
+    for (const event of playTurn(turn, turnIndex)) {
+      if (params.signal?.aborted) {
+        yield { type: 'error', error: 'Aborted by user' };
+        return;
+      }
+      yield event;
+    }
+  }
+}
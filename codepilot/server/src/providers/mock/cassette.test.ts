@@ -0,0 +1,104 @@
+/**
+ * Cassette tests - recording a run and replaying it offline
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockAdapter } from './adapter';
+import { RecordingAdapter, ReplayAdapter, createRecordingAdapter, loadCassette } from './cassette';
+import { runAgentLoop } from '../../agent/loop';
+import { ToolRegistry } from '../../core/tools';
+import type { ProviderAdapter, ProviderStreamEvent, ProviderTurnParams } from '../types';
+import type { StreamEvent } from '../../types';
+
+async function runTranscript(adapter: ProviderAdapter, workingDir: string): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of runAgentLoop({ userPrompt: 'which tools are there?', workingDir, adapter })) {
+    // Timings and context sizes vary between runs; the conversation itself must not
+    if (event.type === 'text_delta' || event.type === 'tool_call' || event.type === 'usage' || event.type === 'done') {
+      events.push(event);
+    }
+  }
+  return events;
+}
+
+const failingAdapter: ProviderAdapter = {
+  id: 'openrouter',
+  defaultModel: 'flaky',
+  async *sendTurn(_params: ProviderTurnParams): AsyncGenerator<ProviderStreamEvent> {
+    yield { type: 'text_delta', text: 'partial' };
+    throw new Error('502 Bad Gateway');
+  },
+};
+
+describe('cassettes', () => {
+  let dir: string;
+  let cassettePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codepilot-cassette-'));
+    cassettePath = path.join(dir, 'cassettes', 'run.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should record every turn and replay the same run offline', async () => {
+    const recorder = new RecordingAdapter(
+      new MockAdapter([
+        [{ type: 'tool_call', name: 'search_tools', input: { query: 'git' } }],
+        [
+          { type: 'text', text: 'There are git tools.' },
+          { type: 'usage', promptTokens: 300, completionTokens: 6 },
+        ],
+      ]),
+      cassettePath
+    );
+
+    const recorded = await runTranscript(recorder, dir);
+    const cassette = loadCassette(cassettePath);
+
+    expect(cassette).toMatchObject({ version: 1, provider: 'mock', model: 'mock-model' });
+    expect(cassette.turns).toHaveLength(2);
+    expect(cassette.turns[0].request?.messages.at(-1)).toEqual({ role: 'user', content: 'which tools are there?' });
+    expect(cassette.turns[1].events.at(-1)?.type).toBe('turn_complete');
+
+    const replay = new ReplayAdapter(cassette);
+    expect(await runTranscript(replay, dir)).toEqual(recorded);
+    expect(replay.remainingTurns).toBe(0);
+  });
+
+  it('should replay a turn the provider failed with the same error', async () => {
+    const recorder = new RecordingAdapter(failingAdapter, cassettePath);
+    const drain = async (adapter: ProviderAdapter) => {
+      const events: ProviderStreamEvent[] = [];
+      for await (const event of adapter.sendTurn({ messages: [], registry: new ToolRegistry(), loadedTools: new Set() })) {
+        events.push(event);
+      }
+      return events;
+    };
+
+    await expect(drain(recorder)).rejects.toThrow('502 Bad Gateway');
+
+    const replay = new ReplayAdapter(loadCassette(cassettePath));
+    await expect(drain(replay)).rejects.toThrow('502 Bad Gateway');
+    await expect(drain(replay)).rejects.toThrow(/no recorded turn left/);
+  });
+
+  it('should append to the same cassette for later runs in the process', async () => {
+    const script = () => new MockAdapter([[{ type: 'text', text: 'ok' }]]);
+
+    await runTranscript(createRecordingAdapter(script(), cassettePath), dir);
+    await runTranscript(createRecordingAdapter(script(), cassettePath), dir);
+
+    expect(loadCassette(cassettePath).turns).toHaveLength(2);
+  });
+
+  it('should reject files that are not cassettes', () => {
+    fs.writeFileSync(path.join(dir, 'other.json'), '{"turns": {}}');
+
+    expect(() => loadCassette(path.join(dir, 'other.json'))).toThrow(/Not a cassette/);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Cassettes - recorded provider exchanges
+ * A RecordingAdapter wraps a real adapter and saves every sendTurn exchange (the
+ * request and everything streamed back) to a JSON cassette. A ReplayAdapter serves
+ * a cassette's turns back in order, so a recorded run can be repeated offline.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { ProviderAdapter, ProviderId, ProviderTurnParams, ProviderStreamEvent } from '../types';
+import { toMockRequest, type MockRequest } from './adapter';
+
+/**
+ * One recorded sendTurn exchange.
+ */
+export interface CassetteTurn {
+  /**
+   * What the agent sent, for reading the cassette (replay does not match on it,
+   * so hand-written cassettes can leave it out)
+   */
+  request?: MockRequest;
+  /** Everything the provider streamed back, in order */
+  events: ProviderStreamEvent[];
+  /** Set when the provider threw mid-turn - replay throws it after the events */
+  error?: string;
+}
+
+/**
+ * A recorded run.
+ */
+export interface Cassette {
+  version: 1;
+  /** Provider the run was recorded against */
+  provider: ProviderId;
+  model: string;
+  recordedAt: string;
+  turns: CassetteTurn[];
+}
+
+/**
+ * Read a cassette file
+ * @throws Error if the file is missing or not a cassette
+ */
+export function loadCassette(filePath: string): Cassette {
+  const cassette = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<Cassette>;
+  if (cassette.version !== 1 || !Array.isArray(cassette.turns)) {
+    throw new Error(`Not a cassette (expected version 1 with turns): ${filePath}`);
+  }
+  return cassette as Cassette;
+}
+
+/**
+ * Write a cassette file, creating its directory if needed
+ */
+export function saveCassette(filePath: string, cassette: Cassette): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(cassette, null, 2) + '\n');
+}
+
+/**
+ * Adapter that passes turns through to another adapter and records them.
+ * The cassette is rewritten after every turn, so a run that dies midway
+ * still leaves everything up to that point on disk.
+ */
+export class RecordingAdapter implements ProviderAdapter {
+  readonly id: ProviderId;
+  readonly defaultModel: string;
+  readonly cassette: Cassette;
+
+  /**
+   * @param cassette - Cassette to append to (default: a new one, replacing the file)
+   */
+  constructor(
+    private inner: ProviderAdapter,
+    private filePath: string,
+    cassette?: Cassette
+  ) {
+    this.id = inner.id;
+    this.defaultModel = inner.defaultModel;
+    this.cassette = cassette ?? {
+      version: 1,
+      provider: inner.id,
+      model: inner.defaultModel,
+      recordedAt: new Date().toISOString(),
+      turns: [],
+    };
+  }
+
+  async *sendTurn(params: ProviderTurnParams): AsyncGenerator<ProviderStreamEvent> {
+    const turn: CassetteTurn = { request: toMockRequest(params), events: [] };
+    this.cassette.turns.push(turn);
+
+    try {
+      for await (const event of this.inner.sendTurn(params)) {
+        turn.events.push(event);
+        yield event;
+      }
+    } catch (err) {
+      turn.error = err instanceof Error ? err.message : String(err);
+      throw err;
+    } finally {
+      saveCassette(this.filePath, this.cassette);
+    }
+  }
+}
+
+/**
+ * Adapter that serves a cassette's turns in order.
+ * Reports the recorded provider's id, so provider-specific behaviour
+ * (e.g. compaction defaults) matches the recorded run.
+ * Throws when asked for more turns than were recorded.
+ */
+export class ReplayAdapter implements ProviderAdapter {
+  readonly id: ProviderId;
+  readonly defaultModel: string;
+
+  /** Parameters of every turn sent so far, for assertions */
+  readonly requests: MockRequest[] = [];
+
+  constructor(private cassette: Cassette) {
+    this.id = cassette.provider;
+    this.defaultModel = cassette.model;
+  }
+
+  /**
+   * Number of recorded turns not yet played
+   */
+  get remainingTurns(): number {
+    return this.cassette.turns.length - this.requests.length;
+  }
+
+  async *sendTurn(params: ProviderTurnParams): AsyncGenerator<ProviderStreamEvent> {
+    const turn = this.cassette.turns[this.requests.length];
+    if (!turn) {
+      throw new Error(`Cassette has no recorded turn left (${this.cassette.turns.length} played)`);
+    }
+
+    this.requests.push(toMockRequest(params));
+
+    for (const event of turn.events) {
+      if (params.signal?.aborted) {
+        yield { type: 'error', error: 'Aborted by user' };
+        return;
+      }
+      yield structuredClone(event);
+    }
+
+    if (turn.error) {
+      throw new Error(turn.error);
+    }
+  }
+}
+
+// Adapters created from env vars share one cassette per file for the whole
+// process, so a session's later runs (and its sub-agents) continue the same recording
+const recordings = new Map<string, Cassette>();
+const replays = new Map<string, ReplayAdapter>();
+
+/**
+ * Wrap an adapter to record into the file at filePath.
+ * The first recording in a process replaces the file; later ones append to it.
+ */
+export function createRecordingAdapter(inner: ProviderAdapter, filePath: string): RecordingAdapter {
+  const resolved = path.resolve(filePath);
+  const adapter = new RecordingAdapter(inner, resolved, recordings.get(resolved));
+  recordings.set(resolved, adapter.cassette);
+  return adapter;
+}
+
+/**
+ * Create a replay adapter for the cassette at MOCK_CASSETTE (LLM_PROVIDER=mock).
+ * Turns are served in order across every run in the process.
+ */
+export function createReplayAdapter(): ReplayAdapter {
+  const filePath = process.env.MOCK_CASSETTE;
+  if (!filePath) {
+    throw new Error('MOCK_CASSETTE environment variable is required for LLM_PROVIDER=mock');
+  }
+
+  const resolved = path.resolve(filePath);
+  let adapter = replays.get(resolved);
+  if (!adapter) {
+    adapter = new ReplayAdapter(loadCassette(resolved));
+    replays.set(resolved, adapter);
+  }
+  return adapter;
+}
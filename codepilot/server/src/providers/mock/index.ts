@@ -0,0 +1,8 @@
+/**
+ * Mock provider module exports - scripted turns and recorded cassettes for tests and offline runs.
+ */
+
+export { MockAdapter, playTurn, toMockRequest } from './adapter';
+export type { MockStep, MockTurn, MockRequest, MockAdapterConfig } from './adapter';
+export { RecordingAdapter, ReplayAdapter, createRecordingAdapter, createReplayAdapter, loadCassette, saveCassette } from './cassette';
+export type { Cassette, CassetteTurn } from './cassette';
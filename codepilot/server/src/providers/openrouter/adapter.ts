@@ -16,6 +16,7 @@ import type {
 } from '../types';
 import type { ToolInvocation } from '../../core/tools';
 import { toOpenAITools, toOpenAIMessages } from './mapping';
+import { toProviderError } from '../errors';
 
 /**
  * Default configuration values.
@@ -29,8 +30,9 @@ const DEFAULTS = {
 /**
  * Accumulator for building tool calls from streaming deltas.
  * OpenAI streams tool calls piece by piece.
+ * Shared with other OpenAI-compatible adapters.
  */
-class ToolCallAccumulator {
+export class ToolCallAccumulator {
   private toolCalls = new Map<number, {
     index: number;
     id: string;
@@ -91,6 +93,8 @@ export class OpenRouterAdapter implements ProviderAdapter {
         'HTTP-Referer': 'https://github.com/codepilot',
         'X-Title': 'CodePilot',
       },
+      // Retries are ResilientAdapter's job, so they can be reported and fall back
+      maxRetries: 0,
     });
 
     this.defaultModel = config.model || DEFAULTS.model;
@@ -101,29 +105,29 @@ export class OpenRouterAdapter implements ProviderAdapter {
    * Send a turn to the LLM, streaming back events.
    */
   async *sendTurn(params: ProviderTurnParams): AsyncGenerator<ProviderStreamEvent> {
-    const { messages, registry, loadedTools, model, signal } = params;
+    const { messages, registry, loadedTools, toolPolicy, model, signal } = params;
 
     // Get tools to send (meta tools + loaded tools)
-    const toolDefs = registry.getLoadedTools(loadedTools);
+    const toolDefs = registry.getLoadedTools(loadedTools, toolPolicy);
     const openAITools = toOpenAITools(toolDefs);
     const openAIMessages = toOpenAIMessages(messages);
 
-    // Make streaming request
-    const stream = await this.client.chat.completions.create({
-      model: model || this.defaultModel,
-      messages: openAIMessages,
-      tools: openAITools.length > 0 ? openAITools : undefined,
-      max_tokens: this.maxTokens,
-      stream: true,
-      stream_options: { include_usage: true },
-    });
-
     // Process stream
     let contentAccumulator = '';
     const toolCallAccumulator = new ToolCallAccumulator();
     let usageData: TokenUsage | null = null;
 
     try {
+      // Make streaming request (rate limits and server errors are reported from here)
+      const stream = await this.client.chat.completions.create({
+        model: model || this.defaultModel,
+        messages: openAIMessages,
+        tools: openAITools.length > 0 ? openAITools : undefined,
+        max_tokens: this.maxTokens,
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+
       for await (const chunk of stream) {
         // Check for abort
         if (signal?.aborted) {
@@ -133,10 +137,12 @@ export class OpenRouterAdapter implements ProviderAdapter {
 
         // Capture usage from final chunk
         if (chunk.usage) {
+          const cachedTokens = chunk.usage.prompt_tokens_details?.cached_tokens;
           usageData = {
             promptTokens: chunk.usage.prompt_tokens,
             completionTokens: chunk.usage.completion_tokens,
             totalTokens: chunk.usage.total_tokens,
+            ...(cachedTokens ? { cacheReadTokens: cachedTokens } : {}),
           };
         }
 
@@ -174,8 +180,7 @@ export class OpenRouterAdapter implements ProviderAdapter {
         }
       }
     } catch (err) {
-      const error = err instanceof Error ? err.message : String(err);
-      yield { type: 'error', error };
+      yield toProviderError(err);
       return;
     }
 
@@ -2,6 +2,6 @@
  * OpenRouter provider module exports.
  */
 
-export { OpenRouterAdapter, createOpenRouterAdapter } from './adapter';
+export { OpenRouterAdapter, createOpenRouterAdapter, ToolCallAccumulator } from './adapter';
 export { toOpenAITools, toOpenAIMessages, toOpenAITool, toOpenAIMessage } from './mapping';
 
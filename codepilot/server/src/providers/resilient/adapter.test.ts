@@ -0,0 +1,209 @@
+/**
+ * Resilient adapter tests - retries and fallbacks against a local HTTP stub of
+ * the OpenRouter chat completions API
+ */
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { ResilientAdapter, getRetryDelay, type ResilientAdapterConfig } from './adapter';
+import { OpenRouterAdapter } from '../openrouter';
+import { parseRetryAfter } from '../errors';
+import { parseFallbackChain } from '../factory';
+import { ToolRegistry } from '../../core/tools';
+import type { ProviderStreamEvent } from '../types';
+
+/** A canned response: an error status (with headers), or a streamed reply */
+type StubResponse = { status: number; headers?: Record<string, string> } | { text: string };
+
+/**
+ * Chat completions endpoint that answers each request with the next queued
+ * response for the requested model, and records the models asked for
+ */
+class CompletionsStub {
+  readonly requests: string[] = [];
+  private queues = new Map<string, StubResponse[]>();
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/v1`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.queues.clear();
+  }
+
+  /** Queue responses for a model; the last one repeats once the others are used */
+  respond(model: string, ...responses: StubResponse[]): void {
+    this.queues.set(model, responses);
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const { model } = JSON.parse(body) as { model: string };
+      this.requests.push(model);
+
+      const queue = this.queues.get(model) ?? [{ status: 404 }];
+      const response = queue.length > 1 ? queue.shift()! : queue[0];
+
+      if ('status' in response) {
+        res.writeHead(response.status, { 'content-type': 'application/json', ...response.headers });
+        res.end(JSON.stringify({ error: { message: `Stub error ${response.status}` } }));
+        return;
+      }
+
+      const chunk = (data: object) => `data: ${JSON.stringify({ id: 'stub', object: 'chat.completion.chunk', created: 0, model, ...data })}\n\n`;
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.write(chunk({ choices: [{ index: 0, delta: { role: 'assistant', content: response.text }, finish_reason: null }] }));
+      res.write(chunk({ choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] }));
+      res.write(chunk({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 } }));
+      res.end('data: [DONE]\n\n');
+    });
+  }
+}
+
+const stub = new CompletionsStub();
+let baseURL: string;
+
+function openRouter(model: string): OpenRouterAdapter {
+  return new OpenRouterAdapter({ apiKey: 'test-key', baseURL, model });
+}
+
+async function collect(adapter: ResilientAdapter): Promise<ProviderStreamEvent[]> {
+  const events: ProviderStreamEvent[] = [];
+  for await (const event of adapter.sendTurn({
+    messages: [{ role: 'user', content: 'hello' }],
+    registry: new ToolRegistry(),
+    loadedTools: new Set(),
+  })) {
+    events.push(event);
+  }
+  return events;
+}
+
+function resilient(config: ResilientAdapterConfig = {}): ResilientAdapter {
+  return new ResilientAdapter(openRouter('primary-model'), {
+    ...config,
+    retry: { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 1000, ...config.retry },
+  });
+}
+
+describe('ResilientAdapter', () => {
+  beforeAll(async () => {
+    baseURL = await stub.start();
+  });
+
+  beforeEach(() => {
+    stub.reset();
+  });
+
+  afterAll(async () => {
+    await stub.stop();
+  });
+
+  it('should retry rate limits after Retry-After and then stream the reply', async () => {
+    stub.respond('primary-model', { status: 429, headers: { 'retry-after': '0' } }, { status: 429, headers: { 'retry-after': '0' } }, { text: 'Hello' });
+
+    const events = await collect(resilient());
+
+    expect(stub.requests).toEqual(['primary-model', 'primary-model', 'primary-model']);
+    expect(events.filter((e) => e.type === 'retry')).toEqual([
+      { type: 'retry', retry: expect.objectContaining({ attempt: 1, maxRetries: 3, delayMs: 0, status: 429, provider: 'openrouter', model: 'primary-model', fallback: false }) },
+      { type: 'retry', retry: expect.objectContaining({ attempt: 2, delayMs: 0, status: 429, fallback: false }) },
+    ]);
+    expect(events.find((e) => e.type === 'text_delta')).toEqual({ type: 'text_delta', text: 'Hello' });
+    expect(events.at(-1)?.type).toBe('turn_complete');
+    expect(events.some((e) => e.type === 'error')).toBe(false);
+  });
+
+  it('should fall back to the next model once retries run out', async () => {
+    stub.respond('primary-model', { status: 503 });
+    stub.respond('backup-model', { text: 'From the backup' });
+
+    const events = await collect(resilient({
+      retry: { maxRetries: 1 },
+      fallbacks: [{ adapter: openRouter('unused-default'), model: 'backup-model' }],
+    }));
+
+    expect(stub.requests).toEqual(['primary-model', 'primary-model', 'backup-model']);
+    expect(events.filter((e) => e.type === 'retry')).toEqual([
+      { type: 'retry', retry: expect.objectContaining({ attempt: 1, status: 503, model: 'primary-model', fallback: false }) },
+      { type: 'retry', retry: expect.objectContaining({ attempt: 0, delayMs: 0, status: 503, model: 'backup-model', fallback: true }) },
+    ]);
+    expect(events.find((e) => e.type === 'text_delta')).toEqual({ type: 'text_delta', text: 'From the backup' });
+  });
+
+  it('should give up without waiting when Retry-After exceeds the longest delay', async () => {
+    stub.respond('primary-model', { status: 429, headers: { 'retry-after': '60' } });
+
+    const events = await collect(resilient());
+
+    expect(stub.requests).toEqual(['primary-model']);
+    expect(events).toEqual([
+      { type: 'error', error: expect.stringContaining('429'), status: 429, retryAfterMs: 60000, transient: true },
+    ]);
+  });
+
+  it('should report the last failure when every model fails', async () => {
+    stub.respond('primary-model', { status: 502 });
+    stub.respond('backup-model', { status: 502 });
+
+    const events = await collect(resilient({
+      retry: { maxRetries: 0 },
+      fallbacks: [{ adapter: openRouter('backup-model') }],
+    }));
+
+    expect(stub.requests).toEqual(['primary-model', 'backup-model']);
+    expect(events.map((e) => e.type)).toEqual(['retry', 'error']);
+    expect(events[1]).toMatchObject({ status: 502, transient: true });
+  });
+
+  it('should not retry errors that are not transient', async () => {
+    stub.respond('primary-model', { status: 400 });
+
+    const events = await collect(resilient({ fallbacks: [{ adapter: openRouter('backup-model') }] }));
+
+    expect(stub.requests).toEqual(['primary-model']);
+    expect(events).toEqual([{ type: 'error', error: expect.stringContaining('400'), status: 400, transient: false }]);
+  });
+});
+
+describe('retry helpers', () => {
+  it('should back off exponentially with jitter, up to the longest delay', () => {
+    const options = { maxRetries: 5, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+    expect(getRetryDelay(1, options, undefined, () => 0)).toBe(500);
+    expect(getRetryDelay(1, options, undefined, () => 1)).toBe(1000);
+    expect(getRetryDelay(3, options, undefined, () => 1)).toBe(4000);
+    expect(getRetryDelay(5, options, undefined, () => 1)).toBe(5000);
+    expect(getRetryDelay(1, options, 3000)).toBe(3000);
+    expect(getRetryDelay(1, options, 6000)).toBeNull();
+  });
+
+  it('should parse Retry-After as seconds, milliseconds or an HTTP date', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+
+    expect(parseRetryAfter({ 'retry-after': '4' })).toBe(4000);
+    expect(parseRetryAfter(new Headers({ 'retry-after-ms': '250', 'retry-after': '1' }))).toBe(250);
+    expect(parseRetryAfter({ 'retry-after': 'Wed, 01 Jan 2025 00:00:10 GMT' }, now)).toBe(10000);
+    expect(parseRetryAfter({ 'retry-after': 'soon' })).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+
+  it('should parse the fallback chain', () => {
+    expect(parseFallbackChain('openai/gpt-4o, anthropic:claude-haiku-4-5, local:, qwen2.5-coder:32b')).toEqual([
+      { model: 'openai/gpt-4o' },
+      { provider: 'anthropic', model: 'claude-haiku-4-5' },
+      { provider: 'local' },
+      { model: 'qwen2.5-coder:32b' },
+    ]);
+    expect(parseFallbackChain(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Resilient Provider Adapter
+ * Wraps an adapter to survive transient failures: retries rate limits, server errors
+ * and dropped connections with jittered exponential backoff (honouring Retry-After),
+ * then falls through a chain of fallback models or providers. Each retry is announced
+ * with a 'retry' event, so the UI can show "retrying in 4s".
+ *
+ * Only failures before the turn produced any output are retried - once text or tool
+ * calls have streamed, trying again would repeat them, so the error is passed on.
+ */
+
+import type {
+  ProviderAdapter,
+  ProviderId,
+  ProviderRetryInfo,
+  ProviderStreamEvent,
+  ProviderTurnParams,
+} from '../types';
+import { toProviderError } from '../errors';
+
+type ProviderErrorEvent = Extract<ProviderStreamEvent, { type: 'error' }>;
+
+/**
+ * Backoff settings
+ */
+export interface RetryOptions {
+  /** Retries per model before falling back (0 disables retrying) */
+  maxRetries: number;
+  /** Delay ceiling of the first retry; it doubles with each retry */
+  baseDelayMs: number;
+  /** Longest wait - a Retry-After beyond this falls back (or fails) right away */
+  maxDelayMs: number;
+}
+
+/**
+ * A model to try after the ones before it keep failing
+ */
+export interface FallbackTarget {
+  adapter: ProviderAdapter;
+  /** Model for this target (default: the adapter's default model) */
+  model?: string;
+}
+
+export interface ResilientAdapterConfig {
+  /** Tried in order once the primary adapter keeps failing */
+  fallbacks?: FallbackTarget[];
+  retry?: Partial<RetryOptions>;
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Read backoff settings from LLM_MAX_RETRIES, LLM_RETRY_BASE_DELAY_MS and LLM_RETRY_MAX_DELAY_MS
+ */
+export function getRetryOptions(): RetryOptions {
+  const read = (name: string, fallback: number) => {
+    const value = process.env[name] ? parseInt(process.env[name]!, 10) : NaN;
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    maxRetries: read('LLM_MAX_RETRIES', DEFAULT_RETRY_OPTIONS.maxRetries),
+    baseDelayMs: read('LLM_RETRY_BASE_DELAY_MS', DEFAULT_RETRY_OPTIONS.baseDelayMs),
+    maxDelayMs: read('LLM_RETRY_MAX_DELAY_MS', DEFAULT_RETRY_OPTIONS.maxDelayMs),
+  };
+}
+
+/**
+ * Delay before a retry: the server's Retry-After if it sent one, otherwise
+ * exponential backoff with jitter (between half and all of the ceiling).
+ * @param attempt - Retry number, starting at 1
+ * @returns null when Retry-After asks for longer than maxDelayMs
+ */
+export function getRetryDelay(
+  attempt: number,
+  options: RetryOptions,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number | null {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs > options.maxDelayMs ? null : retryAfterMs;
+  }
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
+
+/**
+ * Wait for a delay, or until the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Adapter that retries and falls back on transient failures.
+ * Reports the primary adapter's id and default model.
+ */
+export class ResilientAdapter implements ProviderAdapter {
+  readonly id: ProviderId;
+  readonly defaultModel: string;
+
+  private fallbacks: FallbackTarget[];
+  private options: RetryOptions;
+
+  constructor(
+    private primary: ProviderAdapter,
+    config: ResilientAdapterConfig = {}
+  ) {
+    this.id = primary.id;
+    this.defaultModel = primary.defaultModel;
+    this.fallbacks = config.fallbacks ?? [];
+    this.options = { ...DEFAULT_RETRY_OPTIONS, ...config.retry };
+  }
+
+  async *sendTurn(params: ProviderTurnParams): AsyncGenerator<ProviderStreamEvent> {
+    const targets: FallbackTarget[] = [{ adapter: this.primary, model: params.model }, ...this.fallbacks];
+    const { maxRetries } = this.options;
+
+    for (let index = 0; index < targets.length; index++) {
+      const target = targets[index];
+      let failure: ProviderErrorEvent | null = null;
+
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        failure = yield* this.attempt(target, params);
+        if (!failure) return;
+
+        const delayMs = attempt < maxRetries ? getRetryDelay(attempt + 1, this.options, failure.retryAfterMs) : null;
+        if (delayMs === null) break;
+
+        yield { type: 'retry', retry: this.describeRetry(target, failure, attempt + 1, delayMs, false) };
+        await sleep(delayMs, params.signal);
+        if (params.signal?.aborted) {
+          yield { type: 'error', error: 'Aborted by user' };
+          return;
+        }
+      }
+
+      const next = targets[index + 1];
+      if (!next) {
+        yield failure!;
+        return;
+      }
+      yield { type: 'retry', retry: this.describeRetry(next, failure!, 0, 0, true) };
+    }
+  }
+
+  /**
+   * Run one attempt, passing its events through
+   * @returns The failure if it was transient and nothing had streamed yet, otherwise null
+   */
+  private async *attempt(
+    target: FallbackTarget,
+    params: ProviderTurnParams
+  ): AsyncGenerator<ProviderStreamEvent, ProviderErrorEvent | null> {
+    let streamed = false;
+    try {
+      for await (const event of target.adapter.sendTurn({ ...params, model: target.model })) {
+        if (event.type === 'error' && event.transient && !streamed && !params.signal?.aborted) {
+          return event;
+        }
+        streamed = true;
+        yield event;
+      }
+      return null;
+    } catch (err) {
+      const failure = toProviderError(err);
+      if (failure.transient && !streamed && !params.signal?.aborted) {
+        return failure;
+      }
+      throw err;
+    }
+  }
+
+  private describeRetry(
+    target: FallbackTarget,
+    failure: ProviderErrorEvent,
+    attempt: number,
+    delayMs: number,
+    fallback: boolean
+  ): ProviderRetryInfo {
+    return {
+      attempt,
+      maxRetries: this.options.maxRetries,
+      delayMs,
+      error: failure.error,
+      ...(failure.status !== undefined ? { status: failure.status } : {}),
+      provider: target.adapter.id,
+      model: target.model ?? target.adapter.defaultModel,
+      fallback,
+    };
+  }
+}
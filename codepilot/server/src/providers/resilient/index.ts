@@ -0,0 +1,6 @@
+/**
+ * Resilient provider module exports - retries with backoff and fallback chains.
+ */
+
+export { ResilientAdapter, getRetryOptions, getRetryDelay } from './adapter';
+export type { RetryOptions, FallbackTarget, ResilientAdapterConfig } from './adapter';
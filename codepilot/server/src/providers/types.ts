@@ -3,12 +3,13 @@
  * Each provider implements this interface to integrate with the agent loop.
  */
 
-import type { ToolDefinition, ToolInvocation, ToolRegistry } from '../core/tools';
+import type { ToolDefinition, ToolInvocation, ToolPolicy, ToolRegistry } from '../core/tools';
 
 /**
  * Provider identifiers for supported LLM providers.
+ * 'mock' is the scripted/replayed adapter used by tests and offline runs.
  */
-export type ProviderId = 'openrouter' | 'anthropic' | 'openai' | 'local';
+export type ProviderId = 'openrouter' | 'anthropic' | 'openai' | 'local' | 'mock';
 
 /**
  * Role for messages in conversation.
@@ -77,6 +78,10 @@ export interface TokenUsage {
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
+  /** Prompt tokens read from the provider's prompt cache (included in promptTokens) */
+  cacheReadTokens?: number;
+  /** Prompt tokens written to the provider's prompt cache (included in promptTokens) */
+  cacheWriteTokens?: number;
 }
 
 /**
@@ -92,6 +97,27 @@ export interface ContextEstimate {
   source: 'tiktoken' | 'heuristic';
 }
 
+/**
+ * A failed provider call that is about to be retried, or handed to a fallback.
+ */
+export interface ProviderRetryInfo {
+  /** Retry number on this provider and model (1 for the first retry; 0 when falling back) */
+  attempt: number;
+  /** Retries allowed per provider and model */
+  maxRetries: number;
+  /** Wait before the next attempt */
+  delayMs: number;
+  /** The failure */
+  error: string;
+  /** HTTP status of the failure, when there was a response */
+  status?: number;
+  /** Provider and model of the next attempt */
+  provider: ProviderId;
+  model: string;
+  /** Whether the next attempt goes to a fallback model or provider */
+  fallback: boolean;
+}
+
 /**
  * Events emitted during a provider turn for streaming UI updates.
  */
@@ -102,7 +128,8 @@ export type ProviderStreamEvent =
   | { type: 'tool_call_complete'; id: string }
   | { type: 'context_estimate'; estimate: ContextEstimate }  // Pre-send context size
   | { type: 'usage'; usage: TokenUsage }                     // Post-response API usage (for cost)
-  | { type: 'error'; error: string }
+  | { type: 'error'; error: string; status?: number; retryAfterMs?: number; transient?: boolean }  // See errors.ts
+  | { type: 'retry'; retry: ProviderRetryInfo }                // Emitted by ResilientAdapter
   | { type: 'turn_complete'; result: ProviderTurnResult };
 
 /**
@@ -115,6 +142,8 @@ export interface ProviderTurnParams {
   registry: ToolRegistry;
   /** Set of currently loaded tool names */
   loadedTools: Set<string>;
+  /** Optional restrictions on which loaded tools are exposed */
+  toolPolicy?: ToolPolicy;
   /** Optional model override */
   model?: string;
   /** Optional abort signal */
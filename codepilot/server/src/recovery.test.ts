@@ -0,0 +1,115 @@
+/**
+ * Startup recovery tests - finding what an interrupted run had not persisted
+ */
+import { describe, it, expect, afterAll } from 'vitest';
+import os from 'os';
+import { collectUnpersistedTurn, findUnansweredToolCalls, recoverSession, INTERRUPTED_TOOL_RESULT } from './recovery';
+import { assistantMessage, assistantToolCallMessage, toolResultMessage, userMessage } from './agent/messages';
+import { runAgentLoop } from './agent/loop';
+import { MockAdapter } from './providers';
+import { createSession, getSessionInfo } from './session';
+import { closeDb, getSessionMessages, insertMessage, insertSessionEvent, updateDbSessionStatus } from './db';
+import type { StreamEvent, ToolCall } from './types';
+
+process.env.DATABASE_PATH = ':memory:';
+
+const call = (id: string, input: Record<string, unknown> = {}): ToolCall => ({
+  id,
+  name: 'read_file',
+  input,
+  status: 'pending',
+});
+
+describe('collectUnpersistedTurn', () => {
+  it('should return text streamed since the last persisted message', () => {
+    const events: StreamEvent[] = [
+      { type: 'text_delta', text: 'Let me ' },
+      { type: 'tool_call', toolCall: call('t1') },
+      { type: 'tool_result', toolCall: { ...call('t1'), status: 'completed', result: 'ok' } },
+      { type: 'text_delta', text: 'The file ' },
+      { type: 'text_delta', text: 'says' },
+    ];
+
+    expect(collectUnpersistedTurn(events)).toEqual({ text: 'The file says', toolCalls: [] });
+  });
+
+  it('should return tool calls that had no result yet, with their full input', () => {
+    const events: StreamEvent[] = [
+      { type: 'text_delta', text: 'Writing.' },
+      { type: 'tool_call', toolCall: call('t1') },
+      { type: 'tool_call', toolCall: call('t2') },
+      { type: 'approval_required', approval: { toolCall: call('t2', { path: 'b.ts' }), policy: 'always_ask' } },
+    ];
+
+    const turn = collectUnpersistedTurn(events);
+
+    expect(turn.text).toBe('Writing.');
+    expect(turn.toolCalls.map((c) => c.id)).toEqual(['t1', 't2']);
+    expect(turn.toolCalls[1].input).toEqual({ path: 'b.ts' });
+  });
+
+  it('should return nothing for a run that finished', () => {
+    const events: StreamEvent[] = [{ type: 'text_delta', text: 'All done.' }, { type: 'done' }];
+
+    expect(collectUnpersistedTurn(events)).toEqual({ text: '', toolCalls: [] });
+  });
+});
+
+describe('findUnansweredToolCalls', () => {
+  it('should find tool calls without a result message', () => {
+    const messages = [
+      userMessage('fix it'),
+      assistantToolCallMessage([
+        { id: 't1', name: 'read_file', arguments: '{}' },
+        { id: 't2', name: 'read_file', arguments: '{}' },
+      ]),
+      toolResultMessage('t1', 'contents'),
+    ];
+
+    expect(findUnansweredToolCalls(messages)).toEqual(['t2']);
+  });
+
+  it('should find nothing in a consistent history', () => {
+    const messages = [userMessage('hi'), assistantMessage('hello')];
+
+    expect(findUnansweredToolCalls(messages)).toEqual([]);
+  });
+});
+
+describe('recoverSession', () => {
+  afterAll(() => {
+    closeDb();
+  });
+
+  it('should rebuild tool calls with their arguments from a run under the auto policy', async () => {
+    const session = createSession(os.tmpdir(), 'auto');
+    updateDbSessionStatus(session.id, 'running');
+    insertMessage(session.id, userMessage('find the read tools'));
+
+    const adapter = new MockAdapter([
+      [
+        { type: 'text', text: 'Searching.' },
+        { type: 'tool_call', id: 'call_search', name: 'search_tools', input: { query: 'read' } },
+      ],
+    ]);
+
+    // The server stops as soon as the call is announced, before it has a result
+    const run = runAgentLoop({ userPrompt: 'find the read tools', workingDir: os.tmpdir(), adapter, approvalPolicy: 'auto' });
+    for await (const event of run) {
+      insertSessionEvent(session.id, event);
+      if (event.type === 'tool_call') break;
+    }
+
+    recoverSession(session.id);
+
+    const messages = getSessionMessages(session.id);
+    expect(messages.map((m) => m.role)).toEqual(['user', 'assistant', 'tool']);
+    expect(messages[1]).toMatchObject({
+      content: 'Searching.',
+      tool_calls: [{ id: 'call_search', function: { name: 'search_tools', arguments: '{"query":"read"}' } }],
+    });
+    expect(messages[2]).toMatchObject({ tool_call_id: 'call_search' });
+    expect(String(messages[2].content)).toContain(INTERRUPTED_TOOL_RESULT);
+    expect(getSessionInfo(session.id)).toMatchObject({ status: 'interrupted' });
+  });
+});
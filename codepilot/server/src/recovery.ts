@@ -0,0 +1,146 @@
+/**
+ * Startup Recovery
+ * Finds sessions left 'running' by a server that stopped mid-run and marks them
+ * 'interrupted', after bringing their history to a consistent message boundary:
+ *
+ * - Text and tool calls the run had streamed but not yet persisted are recovered
+ *   from the session's event log and saved.
+ * - Tool calls without a result get one saying the run was interrupted, since
+ *   providers reject a history with unanswered tool calls.
+ *
+ * The run can then be continued with POST /api/session/:id/resume.
+ */
+
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import {
+  listDbSessionIdsByStatus,
+  getSessionEventsAfter,
+  insertSessionEvent,
+  updateDbSessionStatus,
+  getSessionMessages,
+  insertMessage,
+} from './db';
+import { assistantMessage, assistantToolCallMessage, toolResultMessage } from './agent/messages';
+import type { StreamEvent, ToolCall } from './types';
+
+/** Reported on the interrupted run's event stream */
+export const INTERRUPTED_ERROR = 'The server stopped before this run finished. Resume the session to continue.';
+
+/** Result given to tool calls that never finished */
+export const INTERRUPTED_TOOL_RESULT =
+  'Interrupted: the server stopped before this tool call finished. It may or may not have taken effect; check before retrying.';
+
+/**
+ * Output of a run that had been streamed but not yet persisted.
+ */
+export interface UnpersistedTurn {
+  /** Assistant text since the last persisted message */
+  text: string;
+  /** Tool calls the assistant made that no result has been received for */
+  toolCalls: ToolCall[];
+}
+
+/**
+ * Replay a run's events the way the conversation runner persists them, and
+ * return what was still waiting to be saved when the events stop.
+ */
+export function collectUnpersistedTurn(events: StreamEvent[]): UnpersistedTurn {
+  let text = '';
+  let toolCalls: ToolCall[] = [];
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'text_delta':
+        text += event.text ?? '';
+        break;
+      case 'tool_call':
+        if (event.toolCall) toolCalls.push({ ...event.toolCall });
+        break;
+      case 'approval_required': {
+        // tool_call events carry the complete input; runs logged before they did only have it here
+        const pending = toolCalls.find((call) => call.id === event.approval?.toolCall.id);
+        if (pending && event.approval) pending.input = event.approval.toolCall.input;
+        break;
+      }
+      case 'tool_result':
+        // The first result persists the assistant message with every call collected so far
+        if (event.toolCall && toolCalls.some((call) => call.id === event.toolCall!.id)) {
+          text = '';
+          toolCalls = [];
+        }
+        break;
+      case 'done':
+        text = '';
+        toolCalls = [];
+        break;
+    }
+  }
+
+  return { text, toolCalls };
+}
+
+/**
+ * Find tool calls in the history that have no tool result message.
+ */
+export function findUnansweredToolCalls(messages: ChatCompletionMessageParam[]): string[] {
+  const answered = new Set(
+    messages
+      .filter((message): message is Extract<ChatCompletionMessageParam, { role: 'tool' }> => message.role === 'tool')
+      .map((message) => message.tool_call_id)
+  );
+
+  return messages.flatMap((message) =>
+    message.role === 'assistant' && message.tool_calls
+      ? message.tool_calls.map((call) => call.id).filter((id) => !answered.has(id))
+      : []
+  );
+}
+
+/**
+ * Bring one orphaned session to a consistent boundary and mark it interrupted.
+ */
+export function recoverSession(sessionId: string): void {
+  const events = getSessionEventsAfter(sessionId, 0).map((logged) => logged.event);
+  const { text, toolCalls } = collectUnpersistedTurn(events);
+
+  if (toolCalls.length > 0) {
+    insertMessage(
+      sessionId,
+      assistantToolCallMessage(
+        toolCalls.map((call) => ({ id: call.id, name: call.name, arguments: JSON.stringify(call.input) })),
+        text || null
+      )
+    );
+  } else if (text) {
+    insertMessage(sessionId, assistantMessage(text));
+  }
+
+  for (const toolCallId of findUnansweredToolCalls(getSessionMessages(sessionId))) {
+    insertMessage(sessionId, toolResultMessage(toolCallId, INTERRUPTED_TOOL_RESULT, true));
+  }
+
+  // End the run's stream, so clients following it stop waiting
+  insertSessionEvent(sessionId, { type: 'error', error: INTERRUPTED_ERROR });
+  insertSessionEvent(sessionId, { type: 'done' });
+
+  updateDbSessionStatus(sessionId, 'interrupted');
+}
+
+/**
+ * Recover every session a previous server process left running.
+ * Call once at startup, before any run starts.
+ * @returns IDs of the recovered sessions
+ */
+export function recoverInterruptedSessions(): string[] {
+  const sessionIds = listDbSessionIdsByStatus('running');
+
+  for (const sessionId of sessionIds) {
+    try {
+      recoverSession(sessionId);
+    } catch (err) {
+      console.error(`[Recovery] Failed to recover session ${sessionId}:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  return sessionIds;
+}
@@ -6,31 +6,29 @@
  */
 
 import { Elysia, t } from 'elysia';
-import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
-import {
-  createSession,
-  updateSessionStatus,
-  updateSessionWorkingDir,
-  getSession,
-  persistMessage,
-  incrementTokens,
-  getMessages,
-  prepareSessionForContinuation,
-  setSessionPlan,
-  getSessionPlan,
-  hasSessionPlan,
-} from '../session';
-import { runAgentLoop } from '../agent/index';
-import { userMessage, assistantMessage, assistantToolCallMessage, toolResultMessage } from '../agent/messages';
-import { resolveCommand, getSystemPrompt, type CommandId } from '../agent/commands';
-import { savePlan, extractTitleFromContent, detectPlanType } from '../plans';
-import { fromOpenAIMessages, type CoreMessage } from '../providers';
-import type { ToolCall } from '../types';
+import { getSession, forkSession, setSessionApprovalPolicy, resolveToolApproval, updateSessionWorkingDir } from '../session';
+import { startConversation, continueConversation, resumeConversation } from '../conversation';
+import { listCheckpoints, rewindToCheckpoint } from '../checkpoints';
+import { setSessionBudget, getSessionBudget } from '../usage';
+import type { ApprovalDecision } from '../core/tools';
+
+/** Request body schema for a session's tool approval policy */
+const approvalPolicySchema = t.Union([
+  t.Literal('always_ask'),
+  t.Literal('ask_for_writes'),
+  t.Literal('auto'),
+]);
 
 /**
  * Chat route plugin
  * POST /api/chat - Start a new conversation
  * POST /api/chat/:id - Continue an existing conversation
+ * POST /api/session/:id/resume - Resume a run interrupted by a server restart
+ * POST /api/session/:id/fork - Fork a session at a message into a new session
+ * POST /api/session/:id/approve - Approve, deny or edit a pending tool call
+ * GET /api/session/:id/checkpoints - List file checkpoints
+ * POST /api/session/:id/rewind/:checkpointId - Restore files and truncate to a checkpoint
+ * PATCH /api/session/:id/budget - Set the session's cost and token budget
  */
 export const chatRoutes = new Elysia({ prefix: '/api' })
   /**
@@ -41,42 +39,13 @@ export const chatRoutes = new Elysia({ prefix: '/api' })
   .post(
     '/chat',
     async ({ body }) => {
-      const { message, workingDir, model, command } = body;
-
-      // Create a new session
-      const session = createSession(workingDir);
-
-      // Resolve the command (includes detection and classification)
-      const { command: resolvedCommand, cleanedMessage } = await resolveCommand(
-        command as CommandId | null,
-        message,
-        false // New session has no plan yet
-      );
-
-      // Mark session as running
-      updateSessionStatus(session.id, 'running');
-
-      // Persist the user message immediately
-      persistMessage(session.id, userMessage(message));
-
-      // Get system prompt for the command
-      const systemPrompt = getSystemPrompt(resolvedCommand.id, null);
-
-      // Spawn the agent loop with command-specific system prompt
-      spawnAgentLoop(
-        session.id,
-        cleanedMessage,
-        session.workingDir,
-        model,
-        systemPrompt,
-        resolvedCommand.id
-      );
+      const { session, command } = await startConversation(body);
 
       // Return session ID, working directory, and resolved command
       return {
         sessionId: session.id,
         workingDir: session.workingDir,
-        command: resolvedCommand.id,
+        command: command.id,
       };
     },
     {
@@ -85,6 +54,8 @@ export const chatRoutes = new Elysia({ prefix: '/api' })
         workingDir: t.Optional(t.String()),
         model: t.Optional(t.String()),
         command: t.Optional(t.String()),
+        approvalPolicy: t.Optional(approvalPolicySchema),
+        plan: t.Optional(t.String()),
       }),
     }
   )
@@ -96,56 +67,17 @@ export const chatRoutes = new Elysia({ prefix: '/api' })
   .post(
     '/chat/:id',
     async ({ params, body, set }) => {
-      const { message, model, command } = body;
-
-      // Get and prepare session for continuation
-      const session = prepareSessionForContinuation(params.id);
+      const run = await continueConversation(params.id, body);
 
-      if (!session) {
+      if (!run) {
         set.status = 404;
         return { error: 'Session not found or is currently running' };
       }
 
-      // Check if session has a plan (for command resolution)
-      const hasPlan = hasSessionPlan(session.id);
-      const currentPlan = hasPlan ? getSessionPlan(session.id) : null;
-
-      // Resolve the command (includes detection and classification)
-      const { command: resolvedCommand, cleanedMessage } = await resolveCommand(
-        command as CommandId | null,
-        message,
-        hasPlan
-      );
-
-      // Mark session as running
-      updateSessionStatus(session.id, 'running');
-
-      // Persist the new user message
-      persistMessage(session.id, userMessage(message));
-
-      // Get existing conversation history from database and convert to CoreMessage format
-      // The DB stores messages in OpenAI format, but the agent loop expects CoreMessage format
-      const openAIHistory = getMessages(session.id);
-      const conversationHistory = fromOpenAIMessages(openAIHistory);
-
-      // Get system prompt for the command (inject plan if relevant)
-      const systemPrompt = getSystemPrompt(resolvedCommand.id, currentPlan);
-
-      // Spawn the agent loop with history
-      spawnAgentLoopWithHistory(
-        session.id,
-        cleanedMessage,
-        session.workingDir,
-        conversationHistory,
-        model,
-        systemPrompt,
-        resolvedCommand.id
-      );
-
       return {
-        sessionId: session.id,
-        workingDir: session.workingDir,
-        command: resolvedCommand.id,
+        sessionId: run.session.id,
+        workingDir: run.session.workingDir,
+        command: run.command.id,
       };
     },
     {
@@ -156,6 +88,259 @@ export const chatRoutes = new Elysia({ prefix: '/api' })
         message: t.String({ minLength: 1 }),
         model: t.Optional(t.String()),
         command: t.Optional(t.String()),
+        approvalPolicy: t.Optional(approvalPolicySchema),
+        plan: t.Optional(t.String()),
+      }),
+    }
+  )
+
+  /**
+   * Resume a run that was interrupted by a server restart
+   * POST /api/session/:id/resume
+   */
+  .post(
+    '/session/:id/resume',
+    async ({ params, body, set }) => {
+      const session = getSession(params.id);
+
+      if (!session) {
+        set.status = 404;
+        return { error: 'Session not found' };
+      }
+
+      const run = await resumeConversation(params.id, body ?? {});
+
+      if (!run) {
+        set.status = 409;
+        return { error: `Session was not interrupted: ${session.status}` };
+      }
+
+      return {
+        sessionId: run.session.id,
+        workingDir: run.session.workingDir,
+        command: run.command.id,
+      };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      body: t.Optional(
+        t.Object({
+          model: t.Optional(t.String()),
+          approvalPolicy: t.Optional(approvalPolicySchema),
+        })
+      ),
+    }
+  )
+
+  /**
+   * Fork a session at a message, to try another approach without losing the original
+   * The fork copies the history up to and including the message (and its tool results)
+   * POST /api/session/:id/fork
+   */
+  .post(
+    '/session/:id/fork',
+    ({ params, body, set }) => {
+      if (!getSession(params.id)) {
+        set.status = 404;
+        return { error: 'Session not found' };
+      }
+
+      const fork = forkSession(params.id, body.messageId);
+
+      if (!fork) {
+        set.status = 404;
+        return { error: `Message not found in session: ${body.messageId}` };
+      }
+
+      return {
+        sessionId: fork.id,
+        workingDir: fork.workingDir,
+        parentSessionId: params.id,
+        messageCount: fork.messages.length,
+      };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      body: t.Object({
+        messageId: t.Number(),
+      }),
+    }
+  )
+
+  /**
+   * Respond to a tool call that is waiting for approval
+   * POST /api/session/:id/approve
+   */
+  .post(
+    '/session/:id/approve',
+    async ({ params, body, set }) => {
+      const { toolCallId, action, input, reason } = body;
+
+      if (!getSession(params.id)) {
+        set.status = 404;
+        return { error: 'Session not found' };
+      }
+
+      let decision: ApprovalDecision;
+      if (action === 'edit') {
+        if (!input) {
+          set.status = 400;
+          return { error: 'Edited input is required when action is "edit"' };
+        }
+        decision = { action: 'edit', input };
+      } else if (action === 'deny') {
+        decision = { action: 'deny', reason };
+      } else {
+        decision = { action: 'approve' };
+      }
+
+      if (!resolveToolApproval(params.id, toolCallId, decision)) {
+        set.status = 404;
+        return { error: 'No pending approval for this tool call' };
+      }
+
+      return {
+        sessionId: params.id,
+        toolCallId,
+        action,
+        success: true,
+      };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      body: t.Object({
+        toolCallId: t.String({ minLength: 1 }),
+        action: t.Union([t.Literal('approve'), t.Literal('deny'), t.Literal('edit')]),
+        input: t.Optional(t.Record(t.String(), t.Unknown())),
+        reason: t.Optional(t.String()),
+      }),
+    }
+  )
+
+  /**
+   * List a session's checkpoints (oldest first)
+   * GET /api/session/:id/checkpoints
+   */
+  .get(
+    '/session/:id/checkpoints',
+    async ({ params, set }) => {
+      if (!getSession(params.id)) {
+        set.status = 404;
+        return { error: 'Session not found' };
+      }
+
+      return {
+        sessionId: params.id,
+        checkpoints: listCheckpoints(params.id),
+      };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+    }
+  )
+
+  /**
+   * Rewind a session to just before a checkpoint's tool call
+   * Restores files and truncates the conversation from the message that made the call
+   * POST /api/session/:id/rewind/:checkpointId
+   */
+  .post(
+    '/session/:id/rewind/:checkpointId',
+    async ({ params, set }) => {
+      const session = getSession(params.id);
+
+      if (!session) {
+        set.status = 404;
+        return { error: 'Session not found' };
+      }
+
+      if (session.status === 'running') {
+        set.status = 409;
+        return { error: 'Cannot rewind while the agent is running' };
+      }
+
+      const result = await rewindToCheckpoint(params.id, params.checkpointId);
+
+      if (!result) {
+        set.status = 404;
+        return { error: 'Checkpoint not found' };
+      }
+
+      return {
+        sessionId: params.id,
+        ...result,
+        success: true,
+      };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+        checkpointId: t.Numeric(),
+      }),
+    }
+  )
+
+  /**
+   * Update session tool approval policy
+   * PATCH /api/session/:id/approval-policy
+   */
+  .patch(
+    '/session/:id/approval-policy',
+    async ({ params, body, set }) => {
+      if (!setSessionApprovalPolicy(params.id, body.approvalPolicy)) {
+        set.status = 404;
+        return { error: 'Session not found' };
+      }
+
+      return {
+        sessionId: params.id,
+        approvalPolicy: body.approvalPolicy,
+        success: true,
+      };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      body: t.Object({
+        approvalPolicy: approvalPolicySchema,
+      }),
+    }
+  )
+
+  /**
+   * Update session budget (null limits fall back to SESSION_BUDGET_USD / SESSION_BUDGET_TOKENS)
+   * PATCH /api/session/:id/budget
+   */
+  .patch(
+    '/session/:id/budget',
+    async ({ params, body, set }) => {
+      if (!setSessionBudget(params.id, { maxCostUsd: body.maxCostUsd, maxTokens: body.maxTokens })) {
+        set.status = 404;
+        return { error: 'Session not found' };
+      }
+
+      return {
+        sessionId: params.id,
+        budget: getSessionBudget(params.id),
+        success: true,
+      };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      body: t.Object({
+        maxCostUsd: t.Union([t.Number({ exclusiveMinimum: 0 }), t.Null()]),
+        maxTokens: t.Union([t.Integer({ minimum: 1 }), t.Null()]),
       }),
     }
   )
@@ -196,240 +381,3 @@ export const chatRoutes = new Elysia({ prefix: '/api' })
       }),
     }
   );
-
-/**
- * Spawn the agent loop for a new conversation
- * Handles message persistence as events stream
- */
-function spawnAgentLoop(
-  sessionId: string,
-  userPrompt: string,
-  workingDir: string,
-  model?: string,
-  systemPrompt?: string,
-  commandId?: CommandId
-): void {
-  const session = getSession(sessionId);
-  if (!session) return;
-
-  runAgentLoopWithPersistence(
-    session,
-    userPrompt,
-    workingDir,
-    undefined,
-    model,
-    systemPrompt,
-    commandId
-  );
-}
-
-/**
- * Spawn the agent loop with existing conversation history
- */
-function spawnAgentLoopWithHistory(
-  sessionId: string,
-  userPrompt: string,
-  workingDir: string,
-  conversationHistory: CoreMessage[],
-  model?: string,
-  systemPrompt?: string,
-  commandId?: CommandId
-): void {
-  const session = getSession(sessionId);
-  if (!session) return;
-
-  runAgentLoopWithPersistence(
-    session,
-    userPrompt,
-    workingDir,
-    conversationHistory,
-    model,
-    systemPrompt,
-    commandId
-  );
-}
-
-/**
- * Run the agent loop with message persistence
- * Tracks streaming state and persists messages to database
- */
-function runAgentLoopWithPersistence(
-  session: ReturnType<typeof getSession>,
-  userPrompt: string,
-  workingDir: string,
-  conversationHistory: CoreMessage[] | undefined,
-  model?: string,
-  systemPrompt?: string,
-  commandId?: CommandId
-): void {
-  if (!session) return;
-
-  // State for tracking streaming content
-  let textAccumulator = '';
-  let pendingToolCalls: ToolCall[] = [];
-  let hasError = false;
-
-  // Fire-and-forget async loop
-  (async () => {
-    try {
-      for await (const event of runAgentLoop({
-        userPrompt,
-        workingDir,
-        conversationHistory,
-        signal: session.abortController.signal,
-        model,
-        systemPrompt,
-      })) {
-        // Push event to SSE queue
-        session.eventQueue.push(event);
-
-        // Track state for persistence
-        switch (event.type) {
-          case 'text_delta':
-            // Accumulate text content
-            if (event.text) {
-              textAccumulator += event.text;
-            }
-            break;
-
-          case 'tool_call':
-            // A tool call is starting - if we have accumulated text, persist it first
-            if (textAccumulator && pendingToolCalls.length === 0) {
-              // This is text before any tool calls in this turn
-              // Don't persist yet - wait for all tool calls to collect
-            }
-            // Collect tool calls
-            if (event.toolCall) {
-              pendingToolCalls.push(event.toolCall);
-            }
-            break;
-
-          case 'tool_result':
-            // Tool execution completed
-            if (event.toolCall) {
-              // If this is the first tool result and we have pending tool calls,
-              // persist the assistant message with tool calls
-              if (pendingToolCalls.length > 0) {
-                // Find if this tool call is in our pending list
-                const matchIndex = pendingToolCalls.findIndex(tc => tc.id === event.toolCall?.id);
-                if (matchIndex !== -1) {
-                  // Persist the assistant message with ALL collected tool calls
-                  const assistantMsg = assistantToolCallMessage(
-                    pendingToolCalls.map(tc => ({
-                      id: tc.id,
-                      name: tc.name,
-                      arguments: JSON.stringify(tc.input),
-                    })),
-                    textAccumulator || null
-                  );
-                  persistMessage(session.id, assistantMsg);
-
-                  // Reset accumulators after persisting assistant message
-                  textAccumulator = '';
-                  pendingToolCalls = [];
-                }
-              }
-
-              // Persist the tool result message
-              const resultContent = event.toolCall.error || event.toolCall.result;
-              const toolMsg = toolResultMessage(
-                event.toolCall.id,
-                resultContent,
-                event.toolCall.status === 'error'
-              );
-              persistMessage(session.id, toolMsg);
-            }
-            break;
-
-          case 'usage':
-            // Track token usage
-            if (event.usage) {
-              incrementTokens(session.id, event.usage.total_tokens);
-            }
-            break;
-
-          case 'error':
-            hasError = true;
-            break;
-
-          case 'done':
-            // Persist any remaining text as final assistant message
-            if (textAccumulator) {
-              persistMessage(session.id, assistantMessage(textAccumulator));
-
-              // If this was a create_plan, revise_plan, or research command, store and save the plan
-              if (commandId === 'create_plan' || commandId === 'revise_plan' || commandId === 'research') {
-                // Extract plan from the response (look for markdown structure)
-                const planContent = extractPlanFromResponse(textAccumulator);
-                if (planContent) {
-                  // Store in session database
-                  setSessionPlan(session.id, planContent);
-
-                  // Also save as a file for cross-session access
-                  try {
-                    const title = extractTitleFromContent(planContent);
-                    const type = commandId === 'research' ? 'research' : detectPlanType(planContent);
-                    await savePlan(workingDir, title, planContent, {
-                      type,
-                      sessionId: session.id,
-                      tags: [],
-                    });
-                    console.log(`[Chat] Saved plan to file: ${title}`);
-                  } catch (saveErr) {
-                    console.error('[Chat] Failed to save plan to file:', saveErr);
-                  }
-                }
-              }
-
-              textAccumulator = '';
-            }
-            // Update session status
-            updateSessionStatus(session.id, hasError ? 'failed' : 'completed');
-            break;
-        }
-      }
-    } catch (err) {
-      // Handle unexpected errors in the agent loop
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      console.error(`[Chat] Agent loop error for session ${session.id}:`, errorMessage);
-      try {
-        session.eventQueue.push({ type: 'error', error: errorMessage });
-        session.eventQueue.push({ type: 'done' });
-        updateSessionStatus(session.id, 'failed');
-      } catch (queueError) {
-        console.error(`[Chat] Failed to push error events for session ${session.id}:`, queueError);
-      }
-    } finally {
-      // Always close the event queue when done
-      session.eventQueue.close();
-    }
-  })();
-}
-
-/**
- * Extract plan content from an agent's response
- * Looks for structured markdown content that represents a plan
- */
-function extractPlanFromResponse(response: string): string | null {
-  // If the response contains plan-like structure, use the whole thing
-  // Otherwise, try to extract just the plan section
-  
-  const hasPlanStructure = 
-    /^##?\s+(overview|plan|implementation|steps|files)/im.test(response) ||
-    (response.match(/^\d+\.\s+/gm) || []).length >= 3 ||
-    response.includes('## Implementation Steps') ||
-    response.includes('## Files to Modify');
-
-  if (hasPlanStructure) {
-    return response;
-  }
-
-  // Try to extract a plan section if present
-  const planMatch = response.match(/## Plan[\s\S]*?(?=\n## [^P]|$)/i);
-  if (planMatch) {
-    return planMatch[0];
-  }
-
-  // No clear plan structure found
-  return null;
-}
@@ -6,3 +6,5 @@
 export { chatRoutes } from './chat';
 export { streamRoutes } from './stream';
 export { plansRoutes } from './plans';
+export { searchRoutes } from './search';
+export { usageRoutes } from './usage';
@@ -0,0 +1,38 @@
+/**
+ * Search Routes
+ * Full-text search across all session history
+ */
+
+import { Elysia, t } from 'elysia';
+import { searchHistory } from '../search';
+
+/**
+ * Search route plugin
+ * GET /api/search?q= - Search messages, tool names and tool arguments
+ */
+export const searchRoutes = new Elysia({ prefix: '/api' })
+  /**
+   * Search all sessions
+   * Query params: q (required), limit (optional, default 20, max 100)
+   */
+  .get(
+    '/search',
+    ({ query }) => {
+      const limit = query.limit ? parseInt(query.limit, 10) || 20 : 20;
+      const clampedLimit = Math.min(Math.max(1, limit), 100);
+
+      const results = searchHistory(query.q, clampedLimit);
+
+      return {
+        query: query.q,
+        results,
+        count: results.length,
+      };
+    },
+    {
+      query: t.Object({
+        q: t.String({ minLength: 1 }),
+        limit: t.Optional(t.String()),
+      }),
+    }
+  );
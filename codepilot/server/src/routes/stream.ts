@@ -4,11 +4,11 @@
  */
 
 import { Elysia, t, sse } from 'elysia';
-import { getSession, deleteSession, getSessionInfo, listSessions, getMessages, updateSessionTitle } from '../session';
+import { getSession, deleteSession, getSessionInfo, listSessions, getMessages, getMessageIds, updateSessionTitle } from '../session';
 
 /**
  * Stream route plugin
- * GET /api/stream/:id - SSE stream of agent events
+ * GET /api/stream/:id - SSE stream of agent events (resumable with Last-Event-ID)
  * POST /api/stop/:id - Abort a running agent
  * GET /api/session/:id - Get session info
  * PATCH /api/session/:id - Update session (title)
@@ -19,11 +19,13 @@ import { getSession, deleteSession, getSessionInfo, listSessions, getMessages, u
 export const streamRoutes = new Elysia({ prefix: '/api' })
   /**
    * SSE stream endpoint
-   * Streams events from the agent loop to the client
+   * Streams the current run's events, each with its log id. Any number of clients
+   * can follow the same run; a reconnecting client sends Last-Event-ID (or
+   * ?lastEventId= when it opens a new EventSource) and receives only what it missed.
    */
   .get(
     '/stream/:id',
-    async function* ({ params }) {
+    async function* ({ params, query, headers }) {
       const session = getSession(params.id);
 
       if (!session) {
@@ -35,9 +37,12 @@ export const streamRoutes = new Elysia({ prefix: '/api' })
         return;
       }
 
-      // Stream events from the session's event queue
-      for await (const event of session.eventQueue) {
+      const lastEventId = parseInt(headers['last-event-id'] ?? query.lastEventId ?? '0', 10) || 0;
+
+      // Replay missed events, then follow the log live
+      for await (const { id, event } of session.eventLog.subscribe(lastEventId)) {
         yield sse({
+          id,
           event: event.type,
           data: event,
         });
@@ -52,6 +57,9 @@ export const streamRoutes = new Elysia({ prefix: '/api' })
       params: t.Object({
         id: t.String(),
       }),
+      query: t.Object({
+        lastEventId: t.Optional(t.String()),
+      }),
     }
   )
 
@@ -105,6 +113,9 @@ export const streamRoutes = new Elysia({ prefix: '/api' })
         updatedAt: sessionInfo.updatedAt,
         messageCount: sessionInfo.messageCount,
         totalTokens: sessionInfo.totalTokens,
+        approvalPolicy: sessionInfo.approvalPolicy,
+        parentSessionId: sessionInfo.parentSessionId,
+        forkedFromMessageId: sessionInfo.forkedFromMessageId,
       };
     },
     {
@@ -160,6 +171,8 @@ export const streamRoutes = new Elysia({ prefix: '/api' })
       return {
         sessionId: params.id,
         messages,
+        // Database id of each message, e.g. to find a search result's message
+        messageIds: getMessageIds(params.id),
         count: messages.length,
       };
     },
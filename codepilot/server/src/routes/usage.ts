@@ -0,0 +1,50 @@
+/**
+ * Usage Routes
+ * Token and cost accounting across sessions
+ */
+
+import { Elysia, t } from 'elysia';
+import { getUsageReport } from '../usage';
+
+/** A date (YYYY-MM-DD, taken as UTC midnight) or a full ISO timestamp */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+Z)?$/;
+
+/** Normalize a date to the ISO form stored in created_at */
+function toTimestamp(value: string): string {
+  return value.length === 10 ? `${value}T00:00:00.000Z` : new Date(value).toISOString();
+}
+
+/**
+ * Usage route plugin
+ * GET /api/usage - Usage aggregated by day, model and session
+ */
+export const usageRoutes = new Elysia({ prefix: '/api' })
+  /**
+   * Aggregate recorded model calls
+   * Query params: from, to (optional, YYYY-MM-DD or ISO timestamp; to is exclusive),
+   * sessionId (optional, limit to one session)
+   */
+  .get(
+    '/usage',
+    ({ query, set }) => {
+      for (const value of [query.from, query.to]) {
+        if (value !== undefined && (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value)))) {
+          set.status = 400;
+          return { error: `Invalid date: ${value} (use YYYY-MM-DD or an ISO timestamp)` };
+        }
+      }
+
+      return getUsageReport({
+        from: query.from ? toTimestamp(query.from) : undefined,
+        to: query.to ? toTimestamp(query.to) : undefined,
+        sessionId: query.sessionId,
+      });
+    },
+    {
+      query: t.Object({
+        from: t.Optional(t.String()),
+        to: t.Optional(t.String()),
+        sessionId: t.Optional(t.String()),
+      }),
+    }
+  );
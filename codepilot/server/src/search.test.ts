@@ -0,0 +1,25 @@
+/**
+ * Search tests - turning typed input into an FTS5 query
+ */
+import { describe, it, expect } from 'vitest';
+import { toFtsQuery } from './search';
+
+describe('toFtsQuery', () => {
+  it('should require every term and match the last as a prefix', () => {
+    expect(toFtsQuery('read config')).toBe('"read" "config"*');
+  });
+
+  it('should match FTS5 operators and punctuation literally', () => {
+    expect(toFtsQuery('NOT src/db.ts')).toBe('"NOT" "src/db.ts"*');
+    expect(toFtsQuery('say "hi"')).toBe('"say" """hi"""*');
+  });
+
+  it('should ignore terms without letters or digits', () => {
+    expect(toFtsQuery('  fix - it  ')).toBe('"fix" "it"*');
+  });
+
+  it('should return null when there is nothing to search for', () => {
+    expect(toFtsQuery('')).toBeNull();
+    expect(toFtsQuery(' * - " ')).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Search Module
+ * Full-text search across every session's history: message content, tool names
+ * and tool arguments, indexed by SQLite FTS5 (see messages_fts in db.ts)
+ */
+
+import { searchDbMessages } from './db';
+
+/**
+ * A message matching a search, for API responses
+ */
+export interface SearchResult {
+  sessionId: string;
+  sessionTitle: string | null;
+  messageId: number;
+  role: string;
+  /** Excerpt around the match, matched terms wrapped in <mark></mark> */
+  snippet: string;
+  createdAt: string;
+}
+
+/**
+ * Turn what the user typed into an FTS5 query.
+ * Each whitespace-separated term is matched literally (FTS5 operators and
+ * punctuation carry no meaning), all terms must match, and the last term also
+ * matches as a prefix so results show up while typing.
+ * @returns null when the input has nothing to search for
+ */
+export function toFtsQuery(input: string): string | null {
+  const terms = input
+    .split(/\s+/)
+    .filter((term) => /[\p{L}\p{N}]/u.test(term))
+    .map((term) => `"${term.replace(/"/g, '""')}"`);
+
+  if (terms.length === 0) return null;
+
+  terms[terms.length - 1] += '*';
+  return terms.join(' ');
+}
+
+/**
+ * Search all session history, best matches first
+ */
+export function searchHistory(query: string, limit: number = 20): SearchResult[] {
+  const ftsQuery = toFtsQuery(query);
+  if (!ftsQuery) return [];
+
+  return searchDbMessages(ftsQuery, limit).map((hit) => ({
+    sessionId: hit.session_id,
+    sessionTitle: hit.session_title,
+    messageId: hit.message_id,
+    role: hit.role,
+    snippet: hit.snippet,
+    createdAt: hit.created_at,
+  }));
+}
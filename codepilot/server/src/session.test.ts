@@ -0,0 +1,29 @@
+/**
+ * Session tests - where a fork's copied history ends
+ */
+import { describe, it, expect } from 'vitest';
+import { findForkBoundary } from './session';
+
+describe('findForkBoundary', () => {
+  const messages = [
+    { id: 1, role: 'user' as const },
+    { id: 2, role: 'assistant' as const },
+    { id: 3, role: 'tool' as const },
+    { id: 4, role: 'tool' as const },
+    { id: 5, role: 'assistant' as const },
+    { id: 6, role: 'user' as const },
+  ];
+
+  it('should end at the chosen message', () => {
+    expect(findForkBoundary(messages, 1)).toBe(1);
+    expect(findForkBoundary(messages, 5)).toBe(5);
+  });
+
+  it('should include the tool results answering the chosen message', () => {
+    expect(findForkBoundary(messages, 2)).toBe(4);
+  });
+
+  it('should return null for a message from another session', () => {
+    expect(findForkBoundary(messages, 42)).toBeNull();
+  });
+});
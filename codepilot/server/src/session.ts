@@ -1,18 +1,24 @@
 /**
  * Session Manager
  * Handles session state with SQLite persistence for conversations
- * Provides event queue pattern for streaming to SSE clients
+ * Provides a per-run event log for streaming to SSE clients
  * 
  * Architecture:
  * - Active sessions are cached in memory for fast access
- * - All sessions and messages are persisted to SQLite
- * - EventQueue and AbortController are runtime-only (not persisted)
+ * - All sessions, messages and the current run's events are persisted to SQLite
+ * - AbortController and pending approvals are runtime-only (not persisted)
  */
 
 import { randomUUID } from 'crypto';
 import path from 'path';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
-import type { StreamEvent } from './types';
+import { EventLog } from './event-log';
+import {
+  getDefaultApprovalPolicy,
+  isApprovalPolicy,
+  type ApprovalPolicy,
+  type ApprovalDecision,
+} from './core/tools';
 import {
   insertSession,
   getDbSession,
@@ -21,10 +27,16 @@ import {
   updateDbSessionTitle,
   updateDbSessionPlan,
   getDbSessionPlan,
+  updateDbSessionApprovalPolicy,
+  updateDbSessionCommand,
+  forkDbSession,
   deleteDbSession,
   incrementDbSessionTokens,
   insertMessage,
+  replaceSessionMessages,
+  deleteSessionMessagesFrom,
   getSessionMessages as getDbSessionMessages,
+  getSessionMessageIds,
   getMessageCount,
   listSessionSummaries,
   type SessionSummary,
@@ -35,85 +47,18 @@ import {
  */
 export interface SessionState {
   id: string;
-  status: 'idle' | 'running' | 'completed' | 'failed';
+  status: 'idle' | 'running' | 'completed' | 'failed' | 'interrupted';
   messages: ChatCompletionMessageParam[];
   workingDir: string;
   abortController: AbortController;
   createdAt: Date;
   totalTokens: number;
-  /** Queue of events for SSE streaming (runtime-only) */
-  eventQueue: EventQueue;
-}
-
-/**
- * Simple async event queue for streaming events to SSE clients
- * Implements async iterable pattern for use with for-await-of
- */
-export class EventQueue {
-  private queue: StreamEvent[] = [];
-  private resolvers: Array<(value: IteratorResult<StreamEvent>) => void> = [];
-  private closed = false;
-
-  /**
-   * Push an event to the queue
-   * If there's a waiting consumer, resolve immediately
-   */
-  push(event: StreamEvent): void {
-    if (this.closed) return;
-
-    if (this.resolvers.length > 0) {
-      // Consumer is waiting, resolve immediately
-      const resolve = this.resolvers.shift()!;
-      resolve({ value: event, done: false });
-    } else {
-      // No consumer waiting, queue the event
-      this.queue.push(event);
-    }
-  }
-
-  /**
-   * Close the queue - signals end of stream
-   */
-  close(): void {
-    this.closed = true;
-    // Resolve any waiting consumers with done
-    for (const resolve of this.resolvers) {
-      resolve({ value: undefined as any, done: true });
-    }
-    this.resolvers = [];
-  }
-
-  /**
-   * Check if queue is closed
-   */
-  isClosed(): boolean {
-    return this.closed;
-  }
-
-  /**
-   * Async iterator implementation
-   */
-  [Symbol.asyncIterator](): AsyncIterator<StreamEvent> {
-    return {
-      next: (): Promise<IteratorResult<StreamEvent>> => {
-        // If there are queued events, return immediately
-        if (this.queue.length > 0) {
-          const event = this.queue.shift()!;
-          return Promise.resolve({ value: event, done: false });
-        }
-
-        // If closed, we're done
-        if (this.closed) {
-          return Promise.resolve({ value: undefined as any, done: true });
-        }
-
-        // Otherwise, wait for next event
-        return new Promise((resolve) => {
-          this.resolvers.push(resolve);
-        });
-      },
-    };
-  }
+  /** Tool approval policy for this session */
+  approvalPolicy: ApprovalPolicy;
+  /** Event log of the current run, replayed to SSE subscribers */
+  eventLog: EventLog;
+  /** Resolvers for tool calls awaiting approval, keyed by tool call ID (runtime-only) */
+  pendingApprovals: Map<string, (decision: ApprovalDecision) => void>;
 }
 
 /**
@@ -133,15 +78,18 @@ function generateSessionId(): string {
  * Create a new session
  * Persists to database and caches in memory
  * @param workingDir - Working directory for the session (defaults to PROJECT_ROOT env var if set, otherwise parent of cwd)
+ * @param approvalPolicy - Tool approval policy (defaults to APPROVAL_POLICY env var, otherwise auto)
  */
-export function createSession(workingDir?: string): SessionState {
+export function createSession(workingDir?: string, approvalPolicy?: ApprovalPolicy): SessionState {
   const id = generateSessionId();
   // Default to parent directory since server runs from /codepilot/server
   const defaultWorkingDir = process.env.PROJECT_ROOT || path.resolve(process.cwd(), '..');
   const resolvedWorkingDir = workingDir || defaultWorkingDir;
+  const resolvedApprovalPolicy = approvalPolicy || getDefaultApprovalPolicy();
 
   // Persist to database first
   insertSession(id, resolvedWorkingDir, 'idle');
+  updateDbSessionApprovalPolicy(id, resolvedApprovalPolicy);
 
   // Create in-memory session
   const session: SessionState = {
@@ -152,7 +100,9 @@ export function createSession(workingDir?: string): SessionState {
     abortController: new AbortController(),
     createdAt: new Date(),
     totalTokens: 0,
-    eventQueue: new EventQueue(),
+    approvalPolicy: resolvedApprovalPolicy,
+    eventLog: new EventLog(id),
+    pendingApprovals: new Map(),
   };
 
   sessions.set(id, session);
@@ -173,7 +123,8 @@ export function getSession(id: string): SessionState | undefined {
   if (!dbSession) return undefined;
 
   // Rehydrate session from database
-  // Note: For inactive sessions (completed/failed), we create fresh runtime objects
+  // Note: For inactive sessions (completed/failed), we create fresh runtime objects.
+  // No run is in progress in this process, so the last run's log is replay-only.
   const session: SessionState = {
     id: dbSession.id,
     status: dbSession.status as SessionState['status'],
@@ -182,8 +133,13 @@ export function getSession(id: string): SessionState | undefined {
     abortController: new AbortController(),
     createdAt: new Date(dbSession.created_at),
     totalTokens: dbSession.total_tokens,
-    eventQueue: new EventQueue(),
+    approvalPolicy: isApprovalPolicy(dbSession.approval_policy)
+      ? dbSession.approval_policy
+      : getDefaultApprovalPolicy(),
+    eventLog: new EventLog(id),
+    pendingApprovals: new Map(),
   };
+  session.eventLog.close();
 
   // Cache for future access
   sessions.set(id, session);
@@ -201,8 +157,8 @@ export function deleteSession(id: string): boolean {
     if (session.status === 'running') {
       session.abortController.abort();
     }
-    // Close the event queue
-    session.eventQueue.close();
+    // Close the event log
+    session.eventLog.close();
     sessions.delete(id);
   }
 
@@ -259,11 +215,12 @@ export function updateSessionTitle(id: string, title: string): boolean {
 
 /**
  * Persist a message to the database and update in-memory cache
+ * @returns The database ID of the new message
  */
 export function persistMessage(
   sessionId: string,
   message: ChatCompletionMessageParam
-): void {
+): number {
   // Update memory cache
   const session = sessions.get(sessionId);
   if (session) {
@@ -271,7 +228,76 @@ export function persistMessage(
   }
 
   // Persist to database
-  insertMessage(sessionId, message);
+  return insertMessage(sessionId, message);
+}
+
+/**
+ * Replace a session's message history (database and in-memory cache)
+ * Used to persist a compacted conversation
+ */
+export function replaceMessages(
+  sessionId: string,
+  messages: ChatCompletionMessageParam[]
+): void {
+  const session = sessions.get(sessionId);
+  if (session) {
+    session.messages = [...messages];
+  }
+
+  replaceSessionMessages(sessionId, messages);
+}
+
+/**
+ * Remove a message and everything after it (database and in-memory cache)
+ * @returns Number of messages removed
+ */
+export function truncateMessagesFrom(sessionId: string, messageId: number): number {
+  const removed = deleteSessionMessagesFrom(sessionId, messageId);
+
+  const session = sessions.get(sessionId);
+  if (session) {
+    session.messages = getDbSessionMessages(sessionId);
+  }
+
+  return removed;
+}
+
+/**
+ * Find where a fork's copied history should end: at messageId, extended over the
+ * tool results that follow it, so the fork never ends with unanswered tool calls
+ * @param messages - The session's messages (id and role), oldest first
+ * @returns ID of the last message to copy, or null if messageId isn't in the list
+ */
+export function findForkBoundary(
+  messages: Array<{ id: number; role: ChatCompletionMessageParam['role'] }>,
+  messageId: number
+): number | null {
+  let index = messages.findIndex((message) => message.id === messageId);
+  if (index === -1) return null;
+
+  while (messages[index + 1]?.role === 'tool') {
+    index++;
+  }
+  return messages[index].id;
+}
+
+/**
+ * Fork a session at a message: the new session gets the history up to that
+ * message, the same working directory and plan, and a link to its parent
+ * @returns The new session, or null if the message isn't in the session
+ */
+export function forkSession(id: string, messageId: number): SessionState | null {
+  const ids = getSessionMessageIds(id);
+  const rows = getDbSessionMessages(id).map((message, i) => ({ id: ids[i], role: message.role }));
+
+  const boundary = findForkBoundary(rows, messageId);
+  if (boundary === null) return null;
+
+  const forkId = generateSessionId();
+  const copied = forkDbSession(id, forkId, boundary);
+  console.log(`[Session] Forked ${id} at message ${boundary} into ${forkId} (${copied} messages)`);
+
+  return getSession(forkId) ?? null;
 }
 
 /**
@@ -288,6 +314,60 @@ export function incrementTokens(sessionId: string, tokens: number): void {
   incrementDbSessionTokens(sessionId, tokens);
 }
 
+/**
+ * Update a session's tool approval policy
+ * Takes effect from the next agent run
+ * @returns true if session exists in database
+ */
+export function setSessionApprovalPolicy(id: string, policy: ApprovalPolicy): boolean {
+  const dbSession = getDbSession(id);
+  if (!dbSession) return false;
+
+  const session = sessions.get(id);
+  if (session) {
+    session.approvalPolicy = policy;
+  }
+
+  updateDbSessionApprovalPolicy(id, policy);
+  return true;
+}
+
+/**
+ * Wait for the user to approve or deny a tool call
+ * Resolves when resolveToolApproval() is called for the same tool call ID
+ */
+export function requestToolApproval(
+  sessionId: string,
+  toolCallId: string
+): Promise<ApprovalDecision> {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return Promise.resolve({ action: 'deny', reason: 'Session is no longer active' });
+  }
+
+  return new Promise((resolve) => {
+    session.pendingApprovals.set(toolCallId, resolve);
+  });
+}
+
+/**
+ * Deliver the user's decision for a pending tool call
+ * @returns true if a matching approval was pending
+ */
+export function resolveToolApproval(
+  sessionId: string,
+  toolCallId: string,
+  decision: ApprovalDecision
+): boolean {
+  const session = sessions.get(sessionId);
+  const resolve = session?.pendingApprovals.get(toolCallId);
+  if (!session || !resolve) return false;
+
+  session.pendingApprovals.delete(toolCallId);
+  resolve(decision);
+  return true;
+}
+
 /**
  * Set the current plan for a session
  * Used after Create Plan or Revise Plan commands
@@ -311,6 +391,20 @@ export function hasSessionPlan(sessionId: string): boolean {
   return getDbSessionPlan(sessionId) !== null;
 }
 
+/**
+ * Record the agent command a run was started with
+ */
+export function setSessionCommand(sessionId: string, command: string): void {
+  updateDbSessionCommand(sessionId, command);
+}
+
+/**
+ * Get the agent command of the session's latest run
+ */
+export function getSessionCommand(sessionId: string): string | null {
+  return getDbSession(sessionId)?.last_command ?? null;
+}
+
 /**
  * Get messages for a session (from database)
  */
@@ -318,9 +412,16 @@ export function getMessages(sessionId: string): ChatCompletionMessageParam[] {
   return getDbSessionMessages(sessionId);
 }
 
+/**
+ * Get the database ids of a session's messages, in the same order as getMessages
+ */
+export function getMessageIds(sessionId: string): number[] {
+  return getSessionMessageIds(sessionId);
+}
+
 /**
  * Prepare a session for continuing a conversation
- * Creates fresh runtime objects (EventQueue, AbortController) for a previously completed session
+ * Creates fresh runtime objects (AbortController, a new run's EventLog) for a previously completed session
  */
 export function prepareSessionForContinuation(id: string): SessionState | undefined {
   const session = getSession(id);
@@ -333,14 +434,15 @@ export function prepareSessionForContinuation(id: string): SessionState | undefi
 
   // Create fresh runtime objects for the new run
   session.abortController = new AbortController();
-  session.eventQueue = new EventQueue();
+  session.eventLog = EventLog.startRun(session.id);
+  session.pendingApprovals = new Map();
 
   return session;
 }
 
 /**
  * Safe read-only representation of a session for API responses
- * Excludes non-serializable fields (AbortController, EventQueue)
+ * Excludes non-serializable fields (AbortController, EventLog)
  */
 export interface SessionDTO {
   id: string;
@@ -351,6 +453,11 @@ export interface SessionDTO {
   updatedAt: string;
   messageCount: number;
   totalTokens: number;
+  approvalPolicy: ApprovalPolicy;
+  /** Session this one was forked from */
+  parentSessionId: string | null;
+  /** Last message copied from the parent when forking */
+  forkedFromMessageId: number | null;
 }
 
 /**
@@ -369,6 +476,11 @@ export function getSessionInfo(id: string): SessionDTO | undefined {
     updatedAt: dbSession.updated_at,
     messageCount: getMessageCount(id),
     totalTokens: dbSession.total_tokens,
+    approvalPolicy: isApprovalPolicy(dbSession.approval_policy)
+      ? dbSession.approval_policy
+      : getDefaultApprovalPolicy(),
+    parentSessionId: dbSession.parent_session_id,
+    forkedFromMessageId: dbSession.forked_from_message_id,
   };
 }
 
@@ -397,6 +509,9 @@ export function getAllSessions(): SessionDTO[] {
     updatedAt: s.createdAt.toISOString(), // Use createdAt as fallback
     messageCount: s.messages.length,
     totalTokens: s.totalTokens,
+    approvalPolicy: s.approvalPolicy,
+    parentSessionId: null, // Not tracked in memory
+    forkedFromMessageId: null,
   }));
 }
 
@@ -410,10 +525,10 @@ export function cleanupOldSessionsFromCache(maxAgeMs: number = 60 * 60 * 1000):
   let cleaned = 0;
 
   for (const [id, session] of sessions) {
-    // Only cleanup completed/failed sessions
-    if (session.status === 'completed' || session.status === 'failed') {
+    // Only cleanup sessions that have finished running
+    if (session.status === 'completed' || session.status === 'failed' || session.status === 'interrupted') {
       if (now - session.createdAt.getTime() > maxAgeMs) {
-        session.eventQueue.close();
+        session.eventLog.close();
         sessions.delete(id);
         cleaned++;
       }
@@ -0,0 +1,150 @@
+/**
+ * Workspace sandbox tests for resolvePath and the path-based tools.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { resolvePath } from './utils';
+import {
+  ToolRegistry,
+  executeInvocations,
+  formatToolResult,
+  OutsideWorkspaceError,
+  fileTools,
+  searchTools,
+} from '../core/tools';
+
+describe('resolvePath sandbox', () => {
+  let tmpRoot: string;
+  let workspace: string;
+  let outside: string;
+
+  beforeEach(() => {
+    tmpRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'codepilot-sandbox-')));
+    workspace = path.join(tmpRoot, 'workspace');
+    outside = path.join(tmpRoot, 'outside');
+    fs.mkdirSync(path.join(workspace, 'src'), { recursive: true });
+    fs.mkdirSync(outside, { recursive: true });
+    fs.writeFileSync(path.join(workspace, 'src', 'index.ts'), 'export {};\n');
+    fs.writeFileSync(path.join(outside, 'secret.txt'), 'top secret\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+  });
+
+  describe('relative paths', () => {
+    it('should resolve paths inside the workspace', () => {
+      expect(resolvePath('src/index.ts', workspace, [])).toBe(path.join(workspace, 'src', 'index.ts'));
+      expect(resolvePath('.', workspace, [])).toBe(workspace);
+    });
+
+    it('should allow paths that do not exist yet', () => {
+      expect(resolvePath('new/dir/file.ts', workspace, [])).toBe(path.join(workspace, 'new', 'dir', 'file.ts'));
+    });
+
+    it('should allow .. segments that stay inside the workspace', () => {
+      expect(resolvePath('src/../src/index.ts', workspace, [])).toBe(path.join(workspace, 'src', 'index.ts'));
+    });
+
+    it('should allow names that start with two dots', () => {
+      expect(resolvePath('..cache/x', workspace, [])).toBe(path.join(workspace, '..cache', 'x'));
+      expect(resolvePath('..foo', workspace, [])).toBe(path.join(workspace, '..foo'));
+    });
+  });
+
+  describe('traversal', () => {
+    it('should reject .. traversal out of the workspace', () => {
+      expect(() => resolvePath('../outside/secret.txt', workspace, [])).toThrow(OutsideWorkspaceError);
+      expect(() => resolvePath('../../../../etc/passwd', workspace, [])).toThrow(OutsideWorkspaceError);
+    });
+
+    it('should reject sibling directories sharing a name prefix', () => {
+      fs.mkdirSync(`${workspace}-evil`);
+      expect(() => resolvePath(`../workspace-evil`, workspace, [])).toThrow(OutsideWorkspaceError);
+    });
+  });
+
+  describe('absolute paths', () => {
+    it('should accept absolute paths inside the workspace', () => {
+      const target = path.join(workspace, 'src', 'index.ts');
+      expect(resolvePath(target, workspace, [])).toBe(target);
+    });
+
+    it('should reject absolute paths outside the workspace', () => {
+      expect(() => resolvePath('/etc/passwd', workspace, [])).toThrow(OutsideWorkspaceError);
+      expect(() => resolvePath(path.join(outside, 'secret.txt'), workspace, [])).toThrow(OutsideWorkspaceError);
+    });
+
+    it('should accept paths under an allowlisted root', () => {
+      const target = path.join(outside, 'secret.txt');
+      expect(resolvePath(target, workspace, [outside])).toBe(target);
+    });
+  });
+
+  describe('symlinks', () => {
+    it('should reject a symlinked file pointing outside the workspace', () => {
+      fs.symlinkSync(path.join(outside, 'secret.txt'), path.join(workspace, 'link.txt'));
+      expect(() => resolvePath('link.txt', workspace, [])).toThrow(OutsideWorkspaceError);
+    });
+
+    it('should reject new files under a symlinked directory pointing outside', () => {
+      fs.symlinkSync(outside, path.join(workspace, 'escape'));
+      expect(() => resolvePath('escape/new-file.txt', workspace, [])).toThrow(OutsideWorkspaceError);
+    });
+
+    it('should allow symlinks that stay inside the workspace', () => {
+      fs.symlinkSync(path.join(workspace, 'src'), path.join(workspace, 'src-link'));
+      expect(resolvePath('src-link/index.ts', workspace, [])).toBe(path.join(workspace, 'src-link', 'index.ts'));
+    });
+
+    it('should allow a workspace that is itself reached through a symlink', () => {
+      const linkedWorkspace = path.join(tmpRoot, 'linked-workspace');
+      fs.symlinkSync(workspace, linkedWorkspace);
+      expect(resolvePath('src/index.ts', linkedWorkspace, [])).toBe(path.join(linkedWorkspace, 'src', 'index.ts'));
+    });
+  });
+
+  describe('tool integration', () => {
+    const registry = new ToolRegistry();
+    registry.registerAll([...fileTools, ...searchTools]);
+
+    it('should return a structured outside_workspace error from read_file', async () => {
+      const [result] = await executeInvocations(
+        registry,
+        [{ id: 'call_1', name: 'read_file', input: { path: '../outside/secret.txt' } }],
+        { workingDir: workspace, allowedRoots: [] }
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.error).toBeInstanceOf(OutsideWorkspaceError);
+
+      const formatted = formatToolResult(result);
+      expect(formatted.startsWith('Error: ')).toBe(true);
+      expect(formatted).toContain('"code": "outside_workspace"');
+    });
+
+    it('should not write files outside the workspace', async () => {
+      const [result] = await executeInvocations(
+        registry,
+        [{ id: 'call_1', name: 'write_file', input: { path: path.join(outside, 'pwned.txt'), content: 'x' } }],
+        { workingDir: workspace, allowedRoots: [] }
+      );
+
+      expect(result.isError).toBe(true);
+      expect(fs.existsSync(path.join(outside, 'pwned.txt'))).toBe(false);
+    });
+
+    it('should reject search paths outside the workspace', async () => {
+      const [result] = await executeInvocations(
+        registry,
+        [{ id: 'call_1', name: 'find_files', input: { pattern: '*.txt', path: '..' } }],
+        { workingDir: workspace, allowedRoots: [] }
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.error).toBeInstanceOf(OutsideWorkspaceError);
+    });
+  });
+});
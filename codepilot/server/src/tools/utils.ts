@@ -2,7 +2,9 @@
  * Utility functions for tool safety and path resolution.
  */
 
+import fs from 'fs';
 import path from 'path';
+import { OutsideWorkspaceError } from '../core/tools/errors';
 
 /**
  * Get the default working directory from environment or one level up from cwd.
@@ -22,20 +24,85 @@ export function getProjectRoot(): string {
 }
 
 /**
- * Resolves a path relative to the given working directory.
- * If the path is already absolute, validates it exists under the working directory.
+ * Extra roots (outside the working directory) that tools may access.
+ * Read from CODEPILOT_ALLOWED_ROOTS, separated by the platform path delimiter.
+ */
+export function getAllowedRoots(): string[] {
+  const raw = process.env.CODEPILOT_ALLOWED_ROOTS;
+  if (!raw) return [];
+  return raw
+    .split(path.delimiter)
+    .map((root) => root.trim())
+    .filter(Boolean)
+    .map((root) => path.resolve(root));
+}
+
+/**
+ * Check whether target is the root itself or nested inside it.
+ */
+function isWithin(target: string, root: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+/**
+ * Resolve symlinks for a path that may not exist yet (e.g. write_file targets).
+ * Walks up to the nearest existing ancestor, resolves it, then re-appends the rest.
+ */
+function realpathLenient(absolutePath: string): string {
+  const missing: string[] = [];
+  let current = absolutePath;
+
+  for (;;) {
+    try {
+      return path.join(fs.realpathSync(current), ...missing.reverse());
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) {
+        // Reached the filesystem root without finding anything that exists
+        return absolutePath;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Resolves a path relative to the given working directory and enforces the workspace sandbox.
+ * The result must stay inside the working directory (or one of the allowed roots), both
+ * lexically and after symlinks are resolved.
  *
  * @param relativePath - Path relative to working directory (or absolute path)
  * @param workingDir - The working directory to resolve from
+ * @param allowedRoots - Extra roots outside the working directory that are also permitted
  * @returns Absolute path
+ * @throws OutsideWorkspaceError if the path escapes the sandbox
  */
-export function resolvePath(relativePath: string, workingDir: string): string {
+export function resolvePath(
+  relativePath: string,
+  workingDir: string,
+  allowedRoots: string[] = getAllowedRoots()
+): string {
   // Normalize the working directory
   const normalizedWorkingDir = path.resolve(workingDir);
 
   // Resolve the path (handles both relative and absolute)
   const absolutePath = path.resolve(normalizedWorkingDir, relativePath);
 
+  const roots = [normalizedWorkingDir, ...allowedRoots.map((root) => path.resolve(root))];
+
+  // Lexical check catches `..` traversal and absolute paths
+  if (!roots.some((root) => isWithin(absolutePath, root))) {
+    throw new OutsideWorkspaceError(relativePath, normalizedWorkingDir, allowedRoots);
+  }
+
+  // Real path check catches symlinks that point outside the sandbox
+  const realPath = realpathLenient(absolutePath);
+  if (!roots.some((root) => isWithin(realPath, realpathLenient(root)))) {
+    throw new OutsideWorkspaceError(relativePath, normalizedWorkingDir, allowedRoots);
+  }
+
   return absolutePath;
 }
 
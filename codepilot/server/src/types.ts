@@ -69,6 +69,15 @@ export interface TokenUsage {
   completion_tokens: number;
   /** prompt_tokens + completion_tokens for this call */
   total_tokens: number;
+  /** Prompt tokens read from the provider's prompt cache (included in prompt_tokens) */
+  cache_read_tokens?: number;
+  /** Prompt tokens written to the provider's prompt cache (included in prompt_tokens) */
+  cache_write_tokens?: number;
+  /** Cost of this call in USD, from the model catalog's prices (absent when the model has none) */
+  cost?: number;
+  /** Provider and model that served the call (a sub-agent's may differ from the session's) */
+  provider?: string;
+  model?: string;
 }
 
 /**
@@ -81,13 +90,103 @@ export interface ContextEstimate {
   accurate: boolean;
   /** Source of the estimate */
   source: 'tiktoken' | 'heuristic';
+  /** The model's context window (from the model catalog), which compaction measures against */
+  contextWindow?: number;
+}
+
+/**
+ * Summary of a context compaction pass.
+ */
+export interface CompactionInfo {
+  /** Strategies that changed the history, in the order applied */
+  strategies: Array<'drop_stale_reads' | 'elide_tool_results' | 'summarize'>;
+  /** Context size before and after compaction */
+  tokensBefore: number;
+  tokensAfter: number;
+  /** Message count before and after compaction */
+  messagesBefore: number;
+  messagesAfter: number;
+  /** Context window the threshold was measured against */
+  contextWindow: number;
+}
+
+/**
+ * A budget the next model call would exceed, which stopped the run.
+ */
+export interface BudgetExceeded {
+  /** The session's budget, or the server's daily budget across all sessions */
+  scope: 'session' | 'daily';
+  unit: 'usd' | 'tokens';
+  limit: number;
+  /** Spent so far */
+  spent: number;
+  /** Estimate for the call that was about to be made (its prompt alone) */
+  estimated: number;
+  /** Human-readable explanation */
+  message: string;
+}
+
+/**
+ * A failed model call that will be tried again, or handed to a fallback model.
+ */
+export interface RetryInfo {
+  /** Retry number on this provider and model (1 for the first retry; 0 when falling back) */
+  attempt: number;
+  /** Retries allowed per provider and model */
+  maxRetries: number;
+  /** Wait before the next attempt */
+  delayMs: number;
+  /** The failure */
+  error: string;
+  /** HTTP status of the failure, when there was a response */
+  status?: number;
+  /** Provider and model of the next attempt */
+  provider: string;
+  model: string;
+  /** Whether the next attempt goes to a fallback model or provider */
+  fallback: boolean;
+}
+
+/**
+ * A tool call waiting for the user's approval.
+ */
+export interface PendingApproval {
+  toolCall: ToolCall;
+  /** Session approval policy that required this approval */
+  policy: 'always_ask' | 'ask_for_writes' | 'auto';
+  /** Proposed file changes (current and new content) */
+  preview?: {
+    files?: Array<{ path: string; oldContent: string; newContent: string }>;
+  };
+}
+
+/**
+ * An event from a sub-agent, nested under the task tool call that started it.
+ */
+export interface SubAgentEvent {
+  /** ID of the parent's task tool call */
+  parentToolCallId: string;
+  /** The child agent's event (never 'usage' - that is re-emitted at the top level) */
+  event: StreamEvent;
 }
 
 /**
  * Events streamed from the agent to the UI.
  */
 export interface StreamEvent {
-  type: 'text_delta' | 'tool_call' | 'tool_result' | 'error' | 'done' | 'usage' | 'context';
+  type:
+    | 'text_delta'
+    | 'tool_call'
+    | 'tool_result'
+    | 'error'
+    | 'done'
+    | 'usage'
+    | 'context'
+    | 'compaction'
+    | 'approval_required'
+    | 'subagent'
+    | 'budget_exceeded'
+    | 'retry';
   text?: string;
   toolCall?: ToolCall;
   error?: string;
@@ -95,6 +194,16 @@ export interface StreamEvent {
   usage?: TokenUsage;
   /** Context window estimate - only present for 'context' events (accurate context size) */
   context?: ContextEstimate;
+  /** Compaction summary - only present for 'compaction' events */
+  compaction?: CompactionInfo;
+  /** Tool call awaiting approval - only present for 'approval_required' events */
+  approval?: PendingApproval;
+  /** Nested sub-agent event - only present for 'subagent' events */
+  subagent?: SubAgentEvent;
+  /** The budget that stopped the run - only present for 'budget_exceeded' events */
+  budget?: BudgetExceeded;
+  /** The upcoming retry or fallback - only present for 'retry' events */
+  retry?: RetryInfo;
 }
 
 /**
@@ -102,7 +211,7 @@ export interface StreamEvent {
  */
 export interface Session {
   id: string;
-  status: 'idle' | 'running' | 'completed' | 'failed';
+  status: 'idle' | 'running' | 'completed' | 'failed' | 'interrupted';
   messages: Message[];
   createdAt: Date;
   workingDir: string;
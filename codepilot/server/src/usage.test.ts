@@ -0,0 +1,110 @@
+/**
+ * Usage tests - recording calls, budgets and the usage report, on an in-memory database
+ */
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import { recordUsage, checkBudget, setSessionBudget, getSessionBudget, getUsageReport } from './usage';
+import { createSession, deleteSession } from './session';
+import { closeDb, getDb } from './db';
+import type { TokenUsage } from './types';
+
+process.env.DATABASE_PATH = ':memory:';
+
+const BUDGET_VARS = ['SESSION_BUDGET_USD', 'SESSION_BUDGET_TOKENS', 'DAILY_BUDGET_USD', 'DAILY_BUDGET_TOKENS'];
+
+const call = (model: string, promptTokens: number, completionTokens: number, cost?: number, provider = 'anthropic'): TokenUsage => ({
+  prompt_tokens: promptTokens,
+  completion_tokens: completionTokens,
+  total_tokens: promptTokens + completionTokens,
+  ...(cost !== undefined ? { cost } : {}),
+  provider,
+  model,
+});
+
+describe('usage accounting', () => {
+  beforeEach(() => {
+    getDb().exec('DELETE FROM usage');
+  });
+
+  afterEach(() => {
+    for (const name of BUDGET_VARS) delete process.env[name];
+  });
+
+  afterAll(() => {
+    closeDb();
+  });
+
+  it('should aggregate calls by day, model and session', () => {
+    const first = createSession('/repo');
+    const second = createSession('/repo');
+    recordUsage(first.id, call('claude-sonnet-4-5', 1000, 100, 0.0045));
+    recordUsage(first.id, { ...call('claude-haiku-4-5', 500, 50, 0.00075), cache_read_tokens: 400 });
+    recordUsage(second.id, call('local-model', 200, 20, undefined, 'local'));
+
+    const report = getUsageReport();
+
+    expect(report.totals).toMatchObject({
+      calls: 3,
+      promptTokens: 1700,
+      completionTokens: 170,
+      cacheReadTokens: 400,
+      totalTokens: 1870,
+      unpricedCalls: 1,
+    });
+    expect(report.totals.cost).toBeCloseTo(0.00525);
+    expect(report.byDay).toEqual([expect.objectContaining({ day: new Date().toISOString().slice(0, 10), calls: 3 })]);
+    expect(report.byModel.map((row) => [row.model, row.provider, row.calls])).toEqual([
+      ['claude-sonnet-4-5', 'anthropic', 1],
+      ['claude-haiku-4-5', 'anthropic', 1],
+      ['local-model', 'local', 1],
+    ]);
+    expect(report.byModel[2].cost).toBeNull();
+    expect(report.bySession.map((row) => [row.sessionId, row.calls])).toEqual([
+      [first.id, 2],
+      [second.id, 1],
+    ]);
+
+    expect(getUsageReport({ sessionId: second.id }).totals.calls).toBe(1);
+    expect(getUsageReport({ from: '2999-01-01T00:00:00.000Z' }).totals).toMatchObject({ calls: 0, cost: null });
+  });
+
+  it('should keep the usage of deleted sessions', () => {
+    const session = createSession('/repo');
+    recordUsage(session.id, call('claude-sonnet-4-5', 10, 10, 0.01));
+
+    deleteSession(session.id);
+
+    expect(getUsageReport().bySession).toEqual([expect.objectContaining({ sessionId: null, calls: 1 })]);
+  });
+
+  it('should stop a session whose next call would exceed its budget', () => {
+    const session = createSession('/repo');
+    process.env.SESSION_BUDGET_TOKENS = '5000';
+    recordUsage(session.id, call('claude-sonnet-4-5', 3000, 500, 0.5));
+
+    expect(checkBudget(session.id, { promptTokens: 1000, cost: null })).toBeNull();
+    expect(checkBudget(session.id, { promptTokens: 2000, cost: null })).toMatchObject({
+      scope: 'session',
+      unit: 'tokens',
+      limit: 5000,
+      spent: 3500,
+      estimated: 2000,
+      message: 'Session budget of 5,000 tokens reached: 3,500 tokens spent, and the next call needs about 2,000 tokens',
+    });
+
+    // The session's own budget replaces the default
+    expect(setSessionBudget(session.id, { maxCostUsd: 0.6, maxTokens: null })).toBe(true);
+    expect(getSessionBudget(session.id)).toEqual({ maxCostUsd: 0.6, maxTokens: 5000 });
+    expect(checkBudget(session.id, { promptTokens: 100, cost: 0.2 })).toMatchObject({ unit: 'usd', spent: 0.5 });
+    expect(setSessionBudget('session_missing', { maxCostUsd: 1, maxTokens: null })).toBe(false);
+  });
+
+  it('should apply the daily budget across sessions', () => {
+    process.env.DAILY_BUDGET_USD = '1';
+    recordUsage(createSession('/repo').id, call('claude-opus-4-5', 1000, 1000, 0.9));
+
+    const other = createSession('/repo');
+    expect(checkBudget(other.id, { promptTokens: 100, cost: 0.05 })).toBeNull();
+    expect(checkBudget(other.id, { promptTokens: 100, cost: 0.2 })).toMatchObject({ scope: 'daily', unit: 'usd' });
+    expect(getUsageReport().budgets.daily).toMatchObject({ maxCostUsd: 1, spentUsd: 0.9 });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Usage Module
+ * Records every model call (tokens and cost) and enforces budgets: a per-session
+ * budget (SESSION_BUDGET_USD / SESSION_BUDGET_TOKENS, overridable per session) and a
+ * daily budget across all sessions (DAILY_BUDGET_USD / DAILY_BUDGET_TOKENS, UTC days).
+ */
+
+import {
+  getDbSession,
+  updateDbSessionBudget,
+  insertUsage,
+  aggregateDbUsage,
+  type DbUsageAggregate,
+  type DbUsageFilter,
+} from './db';
+import type { BudgetEstimate } from './agent';
+import type { BudgetExceeded, TokenUsage } from './types';
+
+/**
+ * Spending limits - a missing limit means no limit
+ */
+export interface Budget {
+  maxCostUsd?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Totals for a set of model calls, for API responses
+ */
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  totalTokens: number;
+  /** USD, or null when none of the calls were priced */
+  cost: number | null;
+  /** Calls whose model has no catalog prices (not included in cost) */
+  unpricedCalls: number;
+}
+
+/**
+ * Usage aggregated by day, model and session
+ */
+export interface UsageReport {
+  from: string | null;
+  to: string | null;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byModel: Array<UsageTotals & { model: string; provider: string | null }>;
+  /** sessionId is null for calls of deleted sessions */
+  bySession: Array<UsageTotals & { sessionId: string | null; title: string | null }>;
+  budgets: {
+    session: Budget;
+    daily: Budget & { spentUsd: number; spentTokens: number };
+  };
+}
+
+/**
+ * Parse a positive number from an environment variable (anything else means no limit)
+ */
+function parseLimit(value: string | undefined): number | undefined {
+  const limit = value ? Number(value) : NaN;
+  return Number.isFinite(limit) && limit > 0 ? limit : undefined;
+}
+
+/**
+ * Budget for sessions without their own: SESSION_BUDGET_USD, SESSION_BUDGET_TOKENS
+ */
+export function getDefaultSessionBudget(): Budget {
+  return {
+    maxCostUsd: parseLimit(process.env.SESSION_BUDGET_USD),
+    maxTokens: parseLimit(process.env.SESSION_BUDGET_TOKENS),
+  };
+}
+
+/**
+ * Budget across all sessions per UTC day: DAILY_BUDGET_USD, DAILY_BUDGET_TOKENS
+ */
+export function getDailyBudget(): Budget {
+  return {
+    maxCostUsd: parseLimit(process.env.DAILY_BUDGET_USD),
+    maxTokens: parseLimit(process.env.DAILY_BUDGET_TOKENS),
+  };
+}
+
+/**
+ * A session's budget - its own limits where set, otherwise the server default
+ */
+export function getSessionBudget(sessionId: string): Budget {
+  const dbSession = getDbSession(sessionId);
+  const defaults = getDefaultSessionBudget();
+  return {
+    maxCostUsd: dbSession?.budget_usd ?? defaults.maxCostUsd,
+    maxTokens: dbSession?.budget_tokens ?? defaults.maxTokens,
+  };
+}
+
+/**
+ * Set a session's budget; a null limit falls back to the server default
+ * Takes effect from the next model call
+ * @returns true if session exists in database
+ */
+export function setSessionBudget(
+  sessionId: string,
+  budget: { maxCostUsd: number | null; maxTokens: number | null }
+): boolean {
+  if (!getDbSession(sessionId)) return false;
+  updateDbSessionBudget(sessionId, budget.maxCostUsd, budget.maxTokens);
+  return true;
+}
+
+/**
+ * Record a model call of a session (from the loop's usage event)
+ */
+export function recordUsage(sessionId: string, usage: TokenUsage): void {
+  insertUsage({
+    sessionId,
+    provider: usage.provider ?? null,
+    model: usage.model ?? 'unknown',
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    cacheReadTokens: usage.cache_read_tokens ?? 0,
+    cacheWriteTokens: usage.cache_write_tokens ?? 0,
+    totalTokens: usage.total_tokens,
+    cost: usage.cost ?? null,
+  });
+}
+
+/** Start of the current UTC day, as stored in created_at */
+function startOfToday(): string {
+  return `${new Date().toISOString().slice(0, 10)}T00:00:00.000Z`;
+}
+
+function formatAmount(unit: BudgetExceeded['unit'], amount: number): string {
+  return unit === 'usd' ? `$${amount.toFixed(amount < 1 ? 4 : 2)}` : `${Math.round(amount).toLocaleString('en-US')} tokens`;
+}
+
+/**
+ * Compare spend plus the next call against each limit of a budget
+ */
+function checkLimits(
+  scope: BudgetExceeded['scope'],
+  budget: Budget,
+  spent: DbUsageAggregate,
+  estimate: BudgetEstimate
+): BudgetExceeded | null {
+  const checks: Array<{ unit: BudgetExceeded['unit']; limit?: number; spent: number; estimated: number }> = [
+    { unit: 'usd', limit: budget.maxCostUsd, spent: spent.cost ?? 0, estimated: estimate.cost ?? 0 },
+    { unit: 'tokens', limit: budget.maxTokens, spent: spent.total_tokens, estimated: estimate.promptTokens },
+  ];
+
+  for (const check of checks) {
+    if (check.limit === undefined || check.spent + check.estimated <= check.limit) continue;
+    const name = scope === 'session' ? 'Session' : 'Daily';
+    return {
+      scope,
+      unit: check.unit,
+      limit: check.limit,
+      spent: check.spent,
+      estimated: check.estimated,
+      message:
+        `${name} budget of ${formatAmount(check.unit, check.limit)} reached: ` +
+        `${formatAmount(check.unit, check.spent)} spent, and the next call needs about ${formatAmount(check.unit, check.estimated)}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Check whether the next model call of a session would exceed its budget or the
+ * daily budget. Spend is read from the usage table, so it includes other
+ * sessions' calls (for the daily budget) and calls made earlier in the run.
+ * @returns The first budget exceeded, or null to go ahead
+ */
+export function checkBudget(sessionId: string, estimate: BudgetEstimate): BudgetExceeded | null {
+  const sessionBudget = getSessionBudget(sessionId);
+  if (sessionBudget.maxCostUsd !== undefined || sessionBudget.maxTokens !== undefined) {
+    const [spent] = aggregateDbUsage({ sessionId });
+    const exceeded = checkLimits('session', sessionBudget, spent, estimate);
+    if (exceeded) return exceeded;
+  }
+
+  const dailyBudget = getDailyBudget();
+  if (dailyBudget.maxCostUsd !== undefined || dailyBudget.maxTokens !== undefined) {
+    const [spent] = aggregateDbUsage({ from: startOfToday() });
+    return checkLimits('daily', dailyBudget, spent, estimate);
+  }
+
+  return null;
+}
+
+function toTotals(row: DbUsageAggregate): UsageTotals {
+  return {
+    calls: row.calls,
+    promptTokens: row.prompt_tokens,
+    completionTokens: row.completion_tokens,
+    cacheReadTokens: row.cache_read_tokens,
+    cacheWriteTokens: row.cache_write_tokens,
+    totalTokens: row.total_tokens,
+    cost: row.cost,
+    unpricedCalls: row.unpriced_calls,
+  };
+}
+
+/**
+ * Aggregate recorded usage by day, model and session
+ */
+export function getUsageReport(filter: DbUsageFilter = {}): UsageReport {
+  const [total] = aggregateDbUsage(filter);
+  const [today] = aggregateDbUsage({ from: startOfToday() });
+
+  return {
+    from: filter.from ?? null,
+    to: filter.to ?? null,
+    totals: toTotals(total),
+    byDay: aggregateDbUsage(filter, 'day').map((row) => ({ day: row.key!, ...toTotals(row) })),
+    byModel: aggregateDbUsage(filter, 'model').map((row) => ({
+      model: row.key!,
+      provider: row.label,
+      ...toTotals(row),
+    })),
+    bySession: aggregateDbUsage(filter, 'session').map((row) => ({
+      sessionId: row.key,
+      title: row.label,
+      ...toTotals(row),
+    })),
+    budgets: {
+      session: getDefaultSessionBudget(),
+      daily: { ...getDailyBudget(), spentUsd: today.cost ?? 0, spentTokens: today.total_tokens },
+    },
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Minimal MCP server over stdio, used as a stand-in by the MCP client tests.
+ * Tools: echo (read-only), add (structured result), fail (tool error) and
+ * enable_extra, which adds a tool and announces that the tool list changed.
+ * tools/list is paginated, one tool per page, to exercise cursors.
+ */
+
+import { createInterface } from 'node:readline';
+
+const tools = [
+  {
+    name: 'echo',
+    description: 'Echo the given text back',
+    inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'add',
+    description: 'Add two numbers',
+    inputSchema: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } } },
+  },
+  {
+    name: 'fail',
+    description: 'Always fails',
+    inputSchema: { type: 'object' },
+  },
+  {
+    name: 'enable_extra',
+    description: 'Register the extra tool',
+    inputSchema: { type: 'object' },
+  },
+];
+
+function send(message) {
+  process.stdout.write(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`);
+}
+
+function callTool(name, args) {
+  switch (name) {
+    case 'echo':
+      return { content: [{ type: 'text', text: `echo: ${args.text}` }] };
+    case 'add':
+      return { content: [{ type: 'text', text: String(args.a + args.b) }], structuredContent: { sum: args.a + args.b } };
+    case 'fail':
+      return { content: [{ type: 'text', text: 'something went wrong' }], isError: true };
+    case 'enable_extra':
+      tools.push({ name: 'extra', description: 'An extra tool', inputSchema: { type: 'object' } });
+      send({ method: 'notifications/tools/list_changed' });
+      return { content: [{ type: 'text', text: 'ok' }] };
+    case 'extra':
+      return { content: [{ type: 'text', text: 'extra!' }] };
+    default:
+      return null;
+  }
+}
+
+createInterface({ input: process.stdin }).on('line', (line) => {
+  const message = JSON.parse(line);
+  if (message.id === undefined) return;
+
+  switch (message.method) {
+    case 'initialize':
+      send({
+        id: message.id,
+        result: {
+          protocolVersion: message.params.protocolVersion,
+          capabilities: { tools: { listChanged: true } },
+          serverInfo: { name: 'fixture', version: '1.0.0' },
+          instructions: 'Fixture tools for tests',
+        },
+      });
+      break;
+    case 'tools/list': {
+      const index = Number(message.params?.cursor ?? 0);
+      send({
+        id: message.id,
+        result: { tools: [tools[index]], ...(index + 1 < tools.length ? { nextCursor: String(index + 1) } : {}) },
+      });
+      break;
+    }
+    case 'tools/call': {
+      const result = callTool(message.params.name, message.params.arguments ?? {});
+      if (result) send({ id: message.id, result });
+      else send({ id: message.id, error: { code: -32602, message: `Unknown tool: ${message.params.name}` } });
+      break;
+    }
+    default:
+      send({ id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } });
+  }
+});
@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsup'
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/mcp-server.ts', 'src/cli.ts', 'src/eval.ts'],
   format: ['esm'],
   target: 'es2020',
   outDir: 'dist',